@@ -0,0 +1,166 @@
+import { setIcon, TFile } from "obsidian";
+import { BaseComponent } from "../BaseComponent";
+import { TransactionInfo } from "../../services/transactionService";
+import { AttachmentEntry, isImageAttachment } from "../../services/attachmentService";
+import { formatThousands, getCurrencySymbol } from "../../utils/format";
+
+export interface AttachmentGalleryOptions {
+    /** 账户筛选的候选项（账户文件名） */
+    accounts: string[];
+    /** 图片附件的预览地址 */
+    getResourcePath: (file: TFile) => string;
+    onOpenFile?: (file: TFile) => void;
+    onTxnClick?: (txn: TransactionInfo) => void;
+}
+
+/**
+ * 附件画廊组件
+ * 顶部按日期范围和账户筛选，下方依次是附件缩略图和仍缺少发票的支出。
+ */
+export class AttachmentGallery extends BaseComponent {
+    private entries: AttachmentEntry[];
+    private missing: TransactionInfo[];
+    private options: AttachmentGalleryOptions;
+    private startDate = "";
+    private endDate = "";
+    private account = "";
+
+    constructor(
+        containerEl: HTMLElement,
+        data: { entries: AttachmentEntry[]; missing: TransactionInfo[] },
+        options: AttachmentGalleryOptions
+    ) {
+        super(containerEl);
+        this.entries = data.entries;
+        this.missing = data.missing;
+        this.options = options;
+    }
+
+    protected render(): void {
+        this.renderFilters(this.containerEl);
+
+        const entries = this.entries.filter(e => this.matches(e.txn));
+        const missing = this.missing.filter(t => this.matches(t));
+
+        const overview = this.containerEl.createDiv({ cls: "cost-loan-overview" });
+        this.renderStat(overview, "附件", `${entries.length} 个`, "cost-loan-stat-clear");
+        this.renderStat(overview, "有附件的交易", `${new Set(entries.map(e => e.txn.path)).size} 笔`, "cost-loan-stat-clear");
+        this.renderStat(overview, "缺少发票", `${missing.length} 笔`,
+            missing.length > 0 ? "cost-loan-stat-outstanding" : "cost-loan-stat-clear");
+
+        this.renderGrid(this.containerEl, entries);
+        this.renderMissing(this.containerEl, missing);
+    }
+
+    private matches(txn: TransactionInfo): boolean {
+        if (this.startDate && txn.date < this.startDate) return false;
+        if (this.endDate && txn.date > this.endDate) return false;
+        if (this.account) {
+            const strip = (name: string) => name.replace(/\[\[|\]\]/g, "");
+            if (strip(txn.from) !== this.account && strip(txn.to) !== this.account) return false;
+        }
+        return true;
+    }
+
+    private renderFilters(container: HTMLElement): void {
+        const bar = container.createDiv({ cls: "cost-attachment-filters" });
+        bar.createSpan({ text: "从" });
+        const startInput = bar.createEl("input", { attr: { type: "date" } });
+        startInput.value = this.startDate;
+        startInput.onchange = () => {
+            this.startDate = startInput.value;
+            this.update();
+        };
+        bar.createSpan({ text: "至" });
+        const endInput = bar.createEl("input", { attr: { type: "date" } });
+        endInput.value = this.endDate;
+        endInput.onchange = () => {
+            this.endDate = endInput.value;
+            this.update();
+        };
+
+        const select = bar.createEl("select", { cls: "dropdown" });
+        select.createEl("option", { value: "", text: "全部账户" });
+        this.options.accounts.forEach(name => select.createEl("option", { value: name, text: name }));
+        select.value = this.account;
+        select.onchange = () => {
+            this.account = select.value;
+            this.update();
+        };
+
+        if (this.startDate || this.endDate || this.account) {
+            const reset = bar.createEl("button", { cls: "cost-detail-header-btn", text: "清除筛选" });
+            reset.addEventListener("click", () => {
+                this.startDate = "";
+                this.endDate = "";
+                this.account = "";
+                this.update();
+            });
+        }
+    }
+
+    private renderGrid(container: HTMLElement, entries: AttachmentEntry[]): void {
+        const section = container.createDiv({ cls: "cost-shared-section" });
+        section.createDiv({ cls: "cost-shared-section-title", text: "附件" });
+        if (entries.length === 0) {
+            section.createDiv({
+                cls: "cost-empty-message",
+                text: "没有附件。在记账弹窗中点击「附件」或直接把小票、发票拖入弹窗即可添加。"
+            });
+            return;
+        }
+
+        const grid = section.createDiv({ cls: "cost-attachment-grid" });
+        const sorted = [...entries].sort((a, b) =>
+            b.txn.date.localeCompare(a.txn.date) || (b.txn.time || "").localeCompare(a.txn.time || ""));
+        for (const entry of sorted) {
+            const card = grid.createDiv({ cls: "cost-attachment-card" });
+            const preview = card.createDiv({ cls: "cost-attachment-preview is-clickable" });
+            if (entry.file && isImageAttachment(entry.file.path)) {
+                preview.createEl("img", { attr: { src: this.options.getResourcePath(entry.file), loading: "lazy" } });
+            } else {
+                setIcon(preview, entry.file ? "file-text" : "file-x");
+            }
+            const file = entry.file;
+            if (file) {
+                preview.addEventListener("click", () => this.options.onOpenFile?.(file));
+            } else {
+                preview.setAttr("aria-label", "附件文件不存在");
+            }
+
+            card.createDiv({ cls: "cost-attachment-card-name", text: entry.file?.name ?? entry.link.split("/").pop() ?? entry.link });
+            const meta = card.createDiv({ cls: "cost-attachment-card-meta is-clickable" });
+            meta.setText(`${entry.txn.date} · ${entry.txn.payee || entry.txn.category || entry.txn.txnType} · ${this.formatAmount(entry.txn)}`);
+            meta.addEventListener("click", () => this.options.onTxnClick?.(entry.txn));
+        }
+    }
+
+    private renderMissing(container: HTMLElement, missing: TransactionInfo[]): void {
+        const section = container.createDiv({ cls: "cost-shared-section" });
+        section.createDiv({ cls: "cost-shared-section-title", text: "缺少发票" });
+        if (missing.length === 0) {
+            section.createDiv({ cls: "cost-empty-message", text: "需要发票的支出都已添加附件" });
+            return;
+        }
+
+        const sorted = [...missing].sort((a, b) => b.date.localeCompare(a.date));
+        for (const txn of sorted) {
+            const row = section.createDiv({ cls: "cost-loan-detail-row cost-loan-detail-row-clickable" });
+            row.createDiv({ cls: "cost-loan-detail-date", text: txn.date });
+            row.createDiv({ cls: "cost-loan-detail-account", text: txn.payee || txn.category || "未命名支出" });
+            row.createDiv({ cls: "cost-loan-detail-memo", text: txn.reimbursement ? "可报销" : (txn.from || "") });
+            row.createDiv({ cls: "cost-loan-detail-amount", text: this.formatAmount(txn) });
+            row.addEventListener("click", () => this.options.onTxnClick?.(txn));
+        }
+    }
+
+    private renderStat(container: HTMLElement, label: string, value: string, cls: string): void {
+        const stat = container.createDiv({ cls: `cost-loan-stat ${cls}` });
+        stat.createDiv({ cls: "cost-loan-stat-label", text: label });
+        stat.createDiv({ cls: "cost-loan-stat-value", text: value });
+    }
+
+    private formatAmount(txn: TransactionInfo): string {
+        return `${getCurrencySymbol(txn.currency)}${formatThousands(txn.amount, 2)}`;
+    }
+}
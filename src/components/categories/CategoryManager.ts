@@ -0,0 +1,80 @@
+import { setIcon } from "obsidian";
+import { BaseComponent } from "../BaseComponent";
+import { CategoryChangeKind, CategoryNode } from "../../services/categoryService";
+import { TxnType, TYPE_OPTIONS, getCategoryIcon } from "../../utils/categoryUtils";
+import { formatThousands, getCurrencySymbol } from "../../utils/format";
+
+export interface CategoryManagerOptions {
+    type: TxnType;
+    baseCurrency: string;
+    onTypeChange: (type: TxnType) => void;
+    onAction: (kind: CategoryChangeKind, node: CategoryNode) => void;
+}
+
+const ACTIONS: { kind: CategoryChangeKind; icon: string; label: string }[] = [
+    { kind: "rename", icon: "pencil", label: "重命名" },
+    { kind: "move", icon: "folder-input", label: "移动" },
+    { kind: "merge", icon: "git-merge", label: "合并到" },
+    { kind: "delete", icon: "trash-2", label: "删除" },
+];
+
+/**
+ * 分类管理
+ * 按交易类型列出分类树及每个分类（含子分类）的笔数与金额，悬停一行时显示调整操作。
+ */
+export class CategoryManager extends BaseComponent {
+    private tree: CategoryNode[];
+    private options: CategoryManagerOptions;
+
+    constructor(containerEl: HTMLElement, tree: CategoryNode[], options: CategoryManagerOptions) {
+        super(containerEl);
+        this.tree = tree;
+        this.options = options;
+    }
+
+    protected render(): void {
+        const toolbar = this.containerEl.createDiv({ cls: "cost-category-toolbar" });
+        const toggle = toolbar.createDiv({ cls: "cost-networth-toggle" });
+        // 退款沿用支出的分类，不单独列出
+        for (const option of TYPE_OPTIONS.filter(o => o.value !== "退款")) {
+            const btn = toggle.createEl("button", { text: option.label, cls: option.value === this.options.type ? "is-active" : "" });
+            btn.addEventListener("click", () => {
+                if (option.value !== this.options.type) this.options.onTypeChange(option.value);
+            });
+        }
+
+        if (this.tree.length === 0) {
+            this.containerEl.createDiv({ cls: "cost-empty-message", text: `还没有使用分类的${this.options.type}交易` });
+            return;
+        }
+
+        const list = this.containerEl.createDiv({ cls: "cost-category-tree" });
+        for (const node of this.tree) this.renderNode(list, node, 0);
+    }
+
+    private renderNode(container: HTMLElement, node: CategoryNode, depth: number): void {
+        const symbol = getCurrencySymbol(this.options.baseCurrency);
+        const row = container.createDiv({ cls: "cost-category-row", attr: { style: `padding-left: ${8 + depth * 20}px` } });
+
+        const icon = row.createSpan({ cls: "cost-category-icon" });
+        setIcon(icon, depth === 0 ? getCategoryIcon(node.name) : "corner-down-right");
+        row.createSpan({ cls: "cost-category-name", text: node.name });
+        row.createSpan({
+            cls: "cost-category-count",
+            text: node.children.length > 0 && node.ownCount !== node.count ? `${node.count} 笔（本级 ${node.ownCount}）` : `${node.count} 笔`
+        });
+        row.createSpan({
+            cls: "cost-category-total",
+            text: `${node.total < 0 ? "-" : ""}${symbol}${formatThousands(Math.abs(node.total), 2)}`
+        });
+
+        const actions = row.createDiv({ cls: "cost-category-actions" });
+        for (const action of ACTIONS) {
+            const btn = actions.createEl("button", { cls: "cost-category-action clickable-icon", attr: { "aria-label": action.label } });
+            setIcon(btn, action.icon);
+            btn.addEventListener("click", () => this.options.onAction(action.kind, node));
+        }
+
+        for (const child of node.children) this.renderNode(container, child, depth + 1);
+    }
+}
@@ -0,0 +1,161 @@
+import { BaseComponent } from '../BaseComponent';
+import { NetWorthPoint, NetWorthSnapshot } from '../../services/netWorthService';
+import { formatCompact, formatThousands, getCurrencySymbol } from '../../utils/format';
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/**
+ * 净资产走势图
+ * 资产为零线以上的面积，负债为零线以下的面积，净资产为折线；
+ * 快照以空心圆标出，鼠标悬停时在图表上方显示该点的数值以及与快照的差额。
+ */
+export class NetWorthChart extends BaseComponent {
+    private data: NetWorthPoint[];
+    private snapshots: NetWorthSnapshot[];
+    private currency: string;
+
+    constructor(containerEl: HTMLElement, data: NetWorthPoint[], snapshots: NetWorthSnapshot[], currency: string) {
+        super(containerEl);
+        this.data = data;
+        this.snapshots = snapshots;
+        this.currency = currency;
+    }
+
+    protected render(): void {
+        if (this.data.length === 0) {
+            this.containerEl.createDiv({ cls: "cost-empty-message", text: "还没有可以计算净资产的交易或账户" });
+            return;
+        }
+
+        const width = 600;
+        const height = 220;
+        const padding = { top: 12, right: 12, bottom: 24, left: 48 };
+        const chartWidth = width - padding.left - padding.right;
+        const chartHeight = height - padding.top - padding.bottom;
+
+        const readout = this.containerEl.createDiv({ cls: "cost-networth-readout" });
+        const chartContainer = this.containerEl.createDiv({ cls: "cost-networth-chart-container" });
+        const svg = document.createElementNS(SVG_NS, "svg");
+        svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+        svg.setAttribute("class", "cost-networth-chart");
+
+        const snapshotValues = [...this.snapshots.map(s => s.netWorth), ...this.snapshots.map(s => -s.liabilities)];
+        const maxValue = Math.max(0, ...this.data.map(d => Math.max(d.assets, d.netWorth)), ...snapshotValues) * 1.1 || 1;
+        const minValue = Math.min(0, ...this.data.map(d => Math.min(-d.liabilities, d.netWorth)), ...snapshotValues) * 1.1;
+        const step = this.data.length > 1 ? chartWidth / (this.data.length - 1) : 0;
+        const xAt = (i: number) => padding.left + (this.data.length > 1 ? step * i : chartWidth / 2);
+        const yAt = (value: number) => padding.top + ((maxValue - value) / (maxValue - minValue)) * chartHeight;
+
+        // 网格线与纵轴标签
+        const gridLines = 5;
+        for (let i = 0; i < gridLines; i++) {
+            const value = maxValue - ((maxValue - minValue) / (gridLines - 1)) * i;
+            const y = yAt(value);
+            this.createSvgEl(svg, "line", {
+                x1: padding.left, y1: y, x2: width - padding.right, y2: y, class: "cost-networth-grid",
+            });
+            this.createSvgEl(svg, "text", {
+                x: padding.left - 5, y: y + 4, "text-anchor": "end", class: "cost-networth-axis-label",
+            }).textContent = `${value < 0 ? "-" : ""}${formatCompact(Math.abs(value))}`;
+        }
+        this.createSvgEl(svg, "line", {
+            x1: padding.left, y1: yAt(0), x2: width - padding.right, y2: yAt(0), class: "cost-networth-zero",
+        });
+
+        // 资产 / 负债面积与净资产折线
+        const area = (getValue: (d: NetWorthPoint) => number) => {
+            const top = this.data.map((d, i) => `L ${xAt(i)} ${yAt(getValue(d))}`).join(" ");
+            return `M ${xAt(0)} ${yAt(0)} ${top} L ${xAt(this.data.length - 1)} ${yAt(0)} Z`;
+        };
+        this.createSvgEl(svg, "path", { d: area(d => d.assets), class: "cost-networth-area-assets" });
+        this.createSvgEl(svg, "path", { d: area(d => -d.liabilities), class: "cost-networth-area-liabilities" });
+        const line = this.data.map((d, i) => `${i === 0 ? "M" : "L"} ${xAt(i)} ${yAt(d.netWorth)}`).join(" ");
+        this.createSvgEl(svg, "path", { d: line, class: "cost-networth-line" });
+
+        // 快照标记：画在日期不早于快照日期的第一个点上
+        const snapshotAt = new Map<number, NetWorthSnapshot>();
+        for (const snapshot of this.snapshots) {
+            const index = this.data.findIndex(d => d.date >= snapshot.date);
+            if (index < 0) continue;
+            snapshotAt.set(index, snapshot);
+            this.createSvgEl(svg, "circle", {
+                cx: xAt(index), cy: yAt(snapshot.netWorth), r: 4, class: "cost-networth-snapshot",
+            });
+        }
+
+        // 横轴标签，最多显示 6 个
+        const labelEvery = Math.max(1, Math.ceil(this.data.length / 6));
+        this.data.forEach((d, i) => {
+            if (i % labelEvery !== 0 && i !== this.data.length - 1) return;
+            this.createSvgEl(svg, "text", {
+                x: xAt(i), y: height - padding.bottom + 15, "text-anchor": "middle", class: "cost-networth-axis-label",
+            }).textContent = d.date.slice(0, 7);
+        });
+
+        // 悬停：竖线 + 数值
+        const guide = this.createSvgEl(svg, "line", {
+            x1: 0, y1: padding.top, x2: 0, y2: padding.top + chartHeight, class: "cost-networth-guide",
+        });
+        const dot = this.createSvgEl(svg, "circle", { cx: 0, cy: 0, r: 3.5, class: "cost-networth-dot" });
+        const showPoint = (index: number, hovering: boolean) => {
+            const point = this.data[index];
+            if (!point) return;
+            guide.setAttribute("x1", String(xAt(index)));
+            guide.setAttribute("x2", String(xAt(index)));
+            dot.setAttribute("cx", String(xAt(index)));
+            dot.setAttribute("cy", String(yAt(point.netWorth)));
+            svg.toggleClass("is-hovering", hovering);
+            this.renderReadout(readout, point, snapshotAt.get(index));
+        };
+
+        const overlay = this.createSvgEl(svg, "rect", {
+            x: padding.left, y: padding.top, width: chartWidth, height: chartHeight, class: "cost-networth-overlay",
+        });
+        overlay.addEventListener("mousemove", (e: MouseEvent) => {
+            const rect = svg.getBoundingClientRect();
+            const x = ((e.clientX - rect.left) / rect.width) * width;
+            const index = step > 0 ? Math.round((x - padding.left) / step) : 0;
+            showPoint(Math.min(this.data.length - 1, Math.max(0, index)), true);
+        });
+        overlay.addEventListener("mouseleave", () => showPoint(this.data.length - 1, false));
+
+        chartContainer.appendChild(svg);
+        showPoint(this.data.length - 1, false);
+    }
+
+    private renderReadout(readout: HTMLElement, point: NetWorthPoint, snapshot?: NetWorthSnapshot): void {
+        readout.empty();
+        const symbol = getCurrencySymbol(this.currency);
+        const format = (value: number) => `${value < 0 ? "-" : ""}${symbol}${formatThousands(Math.abs(value), 2)}`;
+        readout.createSpan({ cls: "cost-networth-readout-date", text: point.date });
+        const item = (label: string, value: number, cls: string) => {
+            const el = readout.createSpan({ cls: `cost-networth-readout-item ${cls}` });
+            el.createSpan({ cls: "cost-networth-readout-label", text: label });
+            el.createSpan({ text: format(value) });
+        };
+        item("资产", point.assets, "is-assets");
+        item("负债", point.liabilities, "is-liabilities");
+        item("净资产", point.netWorth, "is-net-worth");
+        if (snapshot) {
+            const diff = point.netWorth - snapshot.netWorth;
+            const el = readout.createSpan({ cls: "cost-networth-readout-item is-snapshot" });
+            el.createSpan({ cls: "cost-networth-readout-label", text: `快照（${snapshot.date}）` });
+            el.createSpan({ text: format(snapshot.netWorth) });
+            // 快照日期与该点不同时（如按周查看月末快照）差额没有意义
+            if (snapshot.date === point.date && Math.abs(diff) >= 0.005) {
+                el.createSpan({ cls: "cost-networth-diff", text: ` ${diff > 0 ? "+" : "-"}${symbol}${formatThousands(Math.abs(diff), 2)}` });
+            }
+        }
+    }
+
+    private createSvgEl<K extends keyof SVGElementTagNameMap>(
+        parent: SVGElement,
+        tag: K,
+        attrs: Record<string, string | number>
+    ): SVGElementTagNameMap[K] {
+        const el = document.createElementNS(SVG_NS, tag);
+        for (const [key, value] of Object.entries(attrs)) el.setAttribute(key, String(value));
+        parent.appendChild(el);
+        return el;
+    }
+}
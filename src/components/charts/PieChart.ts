@@ -1,21 +1,24 @@
 import { BaseComponent } from '../BaseComponent';
-import { formatCompact } from '../../utils/format';
+import { formatCompact, getCurrencySymbol } from '../../utils/format';
 
 export class PieChart extends BaseComponent {
     private data: [string, number][];
     private colors: string[];
     private total: number;
+    private currency: string;
 
     constructor(
         containerEl: HTMLElement,
         data: [string, number][],
         colors: string[],
-        total: number
+        total: number,
+        currency: string = "CNY"
     ) {
         super(containerEl);
         this.data = data;
         this.colors = colors;
         this.total = total;
+        this.currency = currency;
     }
 
     protected render(): void {
@@ -129,7 +132,7 @@ export class PieChart extends BaseComponent {
         valueText.setAttribute("y", String(center + 14));
         valueText.setAttribute("text-anchor", "middle");
         valueText.setAttribute("class", "cost-pie-value");
-        valueText.textContent = `¥${formatCompact(this.total)}`;
+        valueText.textContent = `${getCurrencySymbol(this.currency)}${formatCompact(this.total)}`;
         textGroup.appendChild(valueText);
 
         svg.appendChild(textGroup);
@@ -0,0 +1,157 @@
+import { BaseComponent } from "../BaseComponent";
+import { AccountInfo } from "../../types";
+import { TransactionInfo } from "../../services/transactionService";
+import { CreditCycle, CreditUtilization } from "../../services/creditCardService";
+import { describeDueDays } from "../dashboard/CreditOverview";
+import { formatThousands, getCurrencySymbol } from "../../utils/format";
+
+export interface CreditStatementViewOptions {
+    /** 单笔交易对本账户的余额影响（用于显示金额正负） */
+    getChange: (txn: TransactionInfo) => number;
+    onTransactionClick?: (txn: TransactionInfo) => void;
+}
+
+/**
+ * 信用卡账单视图
+ * 按账单周期列出账单金额、最低还款、已还款与还款日，点击周期展开本期交易。
+ */
+export class CreditStatementView extends BaseComponent {
+    private account: AccountInfo;
+    private cycles: CreditCycle[];
+    private utilization: CreditUtilization | null;
+    private options: CreditStatementViewOptions;
+    private symbol: string;
+
+    constructor(
+        containerEl: HTMLElement,
+        account: AccountInfo,
+        cycles: CreditCycle[],
+        utilization: CreditUtilization | null,
+        options: CreditStatementViewOptions
+    ) {
+        super(containerEl);
+        this.account = account;
+        this.cycles = cycles;
+        this.utilization = utilization;
+        this.options = options;
+        this.symbol = getCurrencySymbol(account.currency);
+    }
+
+    protected render(): void {
+        const root = this.containerEl.createDiv({ cls: "cost-credit-statements" });
+        this.renderHeader(root);
+
+        if (this.cycles.length === 0) {
+            root.createDiv({
+                cls: "cost-empty-message",
+                text: "未设置账单日。在账户文件中添加 billing_day 和 due_day 即可按账单周期查看。"
+            });
+            return;
+        }
+
+        for (const cycle of this.cycles) {
+            this.renderCycle(root, cycle);
+        }
+    }
+
+    private renderHeader(container: HTMLElement): void {
+        const header = container.createDiv({ cls: "cost-credit-statements-header" });
+        const meta: string[] = [];
+        if (this.account.cardLast4) meta.push(`尾号 ${this.account.cardLast4}`);
+        if (this.account.billingDay) meta.push(`每月 ${this.account.billingDay} 日出账`);
+        if (this.account.dueDay) meta.push(`${this.account.dueDay} 日还款`);
+        if (meta.length > 0) {
+            header.createDiv({ cls: "cost-credit-statements-meta", text: meta.join(" · ") });
+        }
+
+        const u = this.utilization;
+        if (!u) return;
+        const row = header.createDiv({ cls: "cost-credit-overview-row" });
+        row.createSpan({ cls: "cost-credit-overview-label", text: `额度使用 ${Math.round(u.ratio * 100)}%` });
+        row.createSpan({
+            cls: "cost-credit-overview-value",
+            text: `可用 ${this.money(u.available)} / 总额度 ${this.money(u.limit)}`
+        });
+        const bar = header.createDiv({ cls: "cost-credit-utilization-bar" });
+        bar.createDiv({
+            cls: "cost-credit-utilization-fill",
+            attr: { style: `width: ${Math.min(100, u.ratio * 100)}%` }
+        });
+    }
+
+    private renderCycle(container: HTMLElement, cycle: CreditCycle): void {
+        const card = container.createDiv({ cls: "cost-credit-cycle" });
+
+        const head = card.createDiv({ cls: "cost-credit-cycle-head" });
+        head.createSpan({
+            cls: "cost-credit-cycle-period",
+            text: `${cycle.start} ~ ${cycle.statementDate}`
+        });
+        const [badgeText, badgeCls] = this.getStatus(cycle);
+        head.createSpan({ cls: `cost-credit-cycle-badge ${badgeCls}`, text: badgeText });
+
+        const stats = card.createDiv({ cls: "cost-credit-cycle-stats" });
+        const stat = (label: string, value: number) => {
+            const el = stats.createDiv({ cls: "cost-credit-cycle-stat" });
+            el.createDiv({ cls: "cost-credit-cycle-stat-label", text: label });
+            el.createDiv({ cls: "cost-credit-cycle-stat-value", text: this.money(value) });
+        };
+
+        if (cycle.isOpen) {
+            stat("本期消费", cycle.charges);
+            stat("当前欠款", cycle.statementBalance);
+        } else {
+            stat("账单金额", cycle.statementBalance);
+            stat("最低还款", cycle.minimumDue);
+            stat("已还款", cycle.repaid);
+            stat("剩余应还", cycle.outstanding);
+        }
+
+        const dueText = cycle.isOpen
+            ? `${cycle.statementDate} 出账 · 还款日 ${cycle.dueDate}`
+            : `还款日 ${cycle.dueDate}${cycle.outstanding > 0 ? ` · ${describeDueDays(cycle.daysUntilDue)}` : ""}`;
+        card.createDiv({ cls: "cost-credit-cycle-due", text: dueText });
+
+        // 本期交易，点击周期标题展开
+        const txnList = card.createDiv({ cls: "cost-credit-cycle-txns is-hidden" });
+        head.addEventListener("click", () => {
+            if (txnList.childElementCount === 0) this.renderTransactions(txnList, cycle);
+            txnList.toggleClass("is-hidden", !txnList.hasClass("is-hidden"));
+        });
+    }
+
+    private renderTransactions(container: HTMLElement, cycle: CreditCycle): void {
+        if (cycle.transactions.length === 0) {
+            container.createDiv({ cls: "cost-empty-message", text: "本期没有交易" });
+            return;
+        }
+        for (const txn of cycle.transactions) {
+            const row = container.createDiv({ cls: "cost-credit-cycle-txn" });
+            row.createSpan({ cls: "cost-credit-cycle-txn-date", text: txn.date.slice(5) });
+            row.createSpan({
+                cls: "cost-credit-cycle-txn-desc",
+                text: [txn.payee || txn.category, txn.memo].filter(Boolean).join(" · ") || txn.txnType
+            });
+            const change = this.options.getChange(txn);
+            row.createSpan({
+                cls: `cost-credit-cycle-txn-amount ${change >= 0 ? "cost-balance-positive" : "cost-balance-negative"}`,
+                text: `${change >= 0 ? "+" : "-"}${this.money(Math.abs(change))}`
+            });
+            if (this.options.onTransactionClick) {
+                row.addClass("is-clickable");
+                row.addEventListener("click", () => this.options.onTransactionClick?.(txn));
+            }
+        }
+    }
+
+    private getStatus(cycle: CreditCycle): [string, string] {
+        if (cycle.isOpen) return ["未出账", "is-open"];
+        if (cycle.outstanding <= 0) return ["已还清", "is-paid"];
+        if (cycle.daysUntilDue < 0) return ["已逾期", "is-overdue"];
+        return ["待还款", "is-due"];
+    }
+
+    private money(value: number): string {
+        return `${this.symbol}${formatThousands(value, 2)}`;
+    }
+}
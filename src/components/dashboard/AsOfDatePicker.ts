@@ -0,0 +1,36 @@
+import { setIcon } from "obsidian";
+import { BaseComponent } from '../BaseComponent';
+import { getLocalDateString } from '../../utils/format';
+
+/**
+ * 余额日期选择器
+ * 选择日期后所有余额按该日期当天结束时重新计算；为 null 时表示今天。
+ */
+export class AsOfDatePicker extends BaseComponent {
+    private date: string | null;
+    private onChange: (date: string | null) => void;
+
+    constructor(containerEl: HTMLElement, date: string | null, onChange: (date: string | null) => void) {
+        super(containerEl);
+        this.date = date;
+        this.onChange = onChange;
+    }
+
+    protected render(): void {
+        const today = getLocalDateString();
+        const row = this.containerEl.createDiv({ cls: `cost-asof-picker ${this.date ? "is-historical" : ""}` });
+        setIcon(row.createSpan({ cls: "cost-asof-icon" }), "history");
+        row.createSpan({ cls: "cost-asof-label", text: "余额截至" });
+
+        const input = row.createEl("input", { cls: "cost-asof-input", attr: { type: "date" } });
+        input.value = this.date ?? today;
+        input.addEventListener("change", () => {
+            this.onChange(input.value && input.value !== today ? input.value : null);
+        });
+
+        if (this.date) {
+            const resetBtn = row.createEl("button", { cls: "cost-asof-reset", text: "今天" });
+            resetBtn.addEventListener("click", () => this.onChange(null));
+        }
+    }
+}
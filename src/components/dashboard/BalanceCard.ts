@@ -1,55 +1,81 @@
 import { BaseComponent } from '../BaseComponent';
-import { AccountInfo } from '../../types';
+import { AccountInfo, AccountKindDefinition } from '../../types';
 import { TransactionService } from '../../services/transactionService';
-import { formatThousands } from '../../utils/format';
+import { CreditSummary } from '../../services/creditCardService';
+import { InvestmentService } from '../../services/investmentService';
+import { CreditOverview } from './CreditOverview';
+import { AsOfDatePicker } from './AsOfDatePicker';
+import { formatThousands, getCurrencySymbol, getLocalDateString } from '../../utils/format';
+import { DEFAULT_ACCOUNT_KINDS, summarizeNetWorth } from '../../utils/accountKindUtils';
+
+export interface BalanceCardOptions {
+    /** 余额日期，null 或缺省为今天 */
+    asOfDate?: string | null;
+    /** 提供时在卡片顶部显示余额日期选择器 */
+    onAsOfDateChange?: (date: string | null) => void;
+}
 
 /**
  * 余额总览卡片
  * 与侧边栏使用同一个 transactionService.calculateBalanceChange() 计算余额，
- * 保证两处金额一致。
+ * 保证两处金额一致。各账户余额换算为本位币后再汇总，投资账户按现金 + 持仓市值计，
+ * 资产 / 负债按设置中的账户类型划分。可以查看任意日期当天结束时的余额。
  */
 export class BalanceCard extends BaseComponent {
     private accounts: AccountInfo[];
     private transactionService: TransactionService;
+    private baseCurrency: string;
+    private creditSummary: CreditSummary | null;
+    private investmentService: InvestmentService | null;
+    private accountKinds: AccountKindDefinition[];
+    private options: BalanceCardOptions;
 
     constructor(
         containerEl: HTMLElement,
         accounts: AccountInfo[],
-        transactionService: TransactionService
+        transactionService: TransactionService,
+        baseCurrency: string = "CNY",
+        creditSummary: CreditSummary | null = null,
+        investmentService: InvestmentService | null = null,
+        accountKinds: AccountKindDefinition[] = DEFAULT_ACCOUNT_KINDS,
+        options: BalanceCardOptions = {}
     ) {
         super(containerEl);
         this.accounts = accounts;
         this.transactionService = transactionService;
+        this.baseCurrency = baseCurrency;
+        this.creditSummary = creditSummary;
+        this.investmentService = investmentService;
+        this.accountKinds = accountKinds;
+        this.options = options;
     }
 
     protected render(): void {
         const card = this.containerEl.createDiv({ cls: "cost-balance-summary-card" });
-
-        // 计算各类余额（与侧边栏 renderBalanceSummary 逻辑一致）
-        let assetsTotal = 0;      // 资产（非信用卡账户）
-        let liabilitiesTotal = 0; // 负债（信用卡欠款）
-
-        for (const account of this.accounts) {
-            const balance = this.transactionService.getAccountBalance(account);
-            if (account.accountKind === "credit") {
-                // 信用卡：只有负余额部分算作负债
-                liabilitiesTotal += Math.abs(Math.min(0, balance));
-            } else {
-                // 其他账户：余额计入资产
-                assetsTotal += balance;
-            }
+        const asOfDate = this.options.asOfDate ?? null;
+        const date = asOfDate ?? getLocalDateString();
+        if (this.options.onAsOfDateChange) {
+            new AsOfDatePicker(card.createDiv(), asOfDate, this.options.onAsOfDateChange).mount();
         }
 
-        const netWorth = assetsTotal - liabilitiesTotal;
+        // 计算各类余额（与侧边栏 renderBalanceSummary 逻辑一致）
+        const { assets: assetsTotal, liabilities: liabilitiesTotal, netWorth } = summarizeNetWorth(
+            this.accountKinds,
+            this.accounts,
+            account => this.investmentService
+                ? this.investmentService.getAccountValueInBase(account, date)
+                : this.transactionService.getAccountBalanceInBase(account, date)
+        );
+        const symbol = getCurrencySymbol(this.baseCurrency);
 
         // Render UI — 净资产
         const mainSection = card.createDiv({ cls: "cost-summary-main" });
-        mainSection.createDiv({ cls: "cost-summary-main-label", text: "净资产" });
+        mainSection.createDiv({ cls: "cost-summary-main-label", text: asOfDate ? `净资产（${asOfDate}）` : "净资产" });
 
         const valueEl = mainSection.createDiv({
             cls: `cost-summary-main-value ${netWorth < 0 ? "cost-summary-negative" : ""}`
         });
-        valueEl.createSpan({ cls: "cost-summary-currency", text: "¥" });
+        valueEl.createSpan({ cls: "cost-summary-currency", text: symbol });
         valueEl.createSpan({
             cls: `cost-summary-amount ${netWorth >= 0 ? "cost-balance-positive" : "cost-balance-negative"}`,
             text: formatThousands(Math.abs(netWorth), 2)
@@ -78,7 +104,7 @@ export class BalanceCard extends BaseComponent {
         assetItem.createDiv({ cls: "cost-summary-detail-label", text: "资产" });
         assetItem.createDiv({
             cls: "cost-summary-detail-value",
-            text: `¥${formatThousands(assetsTotal, 2)}`
+            text: `${symbol}${formatThousands(assetsTotal, 2)}`
         });
 
         // 负债
@@ -87,7 +113,12 @@ export class BalanceCard extends BaseComponent {
         liabilityItem.createDiv({ cls: "cost-summary-detail-label", text: "负债" });
         liabilityItem.createDiv({
             cls: "cost-summary-detail-value",
-            text: `¥${formatThousands(liabilitiesTotal, 2)}`
+            text: `${symbol}${formatThousands(liabilitiesTotal, 2)}`
         });
+
+        // 信用卡额度使用率与下次还款
+        if (this.creditSummary) {
+            new CreditOverview(card, this.creditSummary, this.baseCurrency).mount();
+        }
     }
 }
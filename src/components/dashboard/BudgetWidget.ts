@@ -0,0 +1,75 @@
+import { BaseComponent } from '../BaseComponent';
+import { BudgetProgress } from '../../services/budgetService';
+import { formatThousands, getCurrencySymbol } from '../../utils/format';
+
+/** 达到该比例时进度条显示为警告色 */
+const WARNING_RATIO = 0.8;
+
+export class BudgetWidget extends BaseComponent {
+    private progresses: BudgetProgress[];
+    private currency: string;
+
+    constructor(containerEl: HTMLElement, progresses: BudgetProgress[], currency: string = "CNY") {
+        super(containerEl);
+        this.progresses = progresses;
+        this.currency = currency;
+    }
+
+    protected render(): void {
+        const container = this.containerEl;
+        container.addClass("cost-budget-widget");
+        container.createEl("h3", { text: "预算进度", cls: "cost-card-title" });
+
+        if (this.progresses.length === 0) {
+            container.createDiv({ text: "暂无预算，在预算文件夹中创建 type: budget 的笔记即可", cls: "cost-empty-message" });
+            return;
+        }
+
+        const symbol = getCurrencySymbol(this.currency);
+
+        // 超支最严重的排在前面
+        const sorted = [...this.progresses].sort((a, b) => b.ratio - a.ratio);
+        const list = container.createDiv({ cls: "cost-budget-list" });
+
+        for (const p of sorted) {
+            const row = list.createDiv({ cls: "cost-budget-row" });
+
+            const head = row.createDiv({ cls: "cost-budget-row-head" });
+            head.createSpan({ cls: "cost-budget-category", text: p.budget.category });
+            head.createSpan({
+                cls: "cost-budget-period",
+                text: p.budget.period === "yearly" ? `${p.periodKey}年` : p.periodKey
+            });
+            if (p.carried > 0) {
+                head.createSpan({
+                    cls: "cost-budget-carried",
+                    text: `结转 ${symbol}${formatThousands(p.carried, 2)}`
+                });
+            }
+
+            const bar = row.createDiv({ cls: "cost-budget-bar" });
+            const percent = Math.min(100, p.ratio * 100);
+            const fill = bar.createDiv({
+                cls: "cost-budget-bar-fill",
+                attr: { style: `width: ${percent}%` }
+            });
+            if (p.remaining < 0) {
+                fill.addClass("is-over");
+                row.addClass("is-over");
+            } else if (p.ratio >= WARNING_RATIO) {
+                fill.addClass("is-warning");
+            }
+
+            const foot = row.createDiv({ cls: "cost-budget-row-foot" });
+            foot.createSpan({
+                text: `已用 ${symbol}${formatThousands(p.spent, 2)} / ${symbol}${formatThousands(p.limit, 2)}`
+            });
+            foot.createSpan({
+                cls: "cost-budget-remaining",
+                text: p.remaining < 0
+                    ? `超支 ${symbol}${formatThousands(-p.remaining, 2)}`
+                    : `剩余 ${symbol}${formatThousands(p.remaining, 2)}`
+            });
+        }
+    }
+}
@@ -3,6 +3,7 @@ import { BaseComponent } from '../BaseComponent';
 import { TransactionInfo } from '../../services/transactionService';
 import { PieChart } from '../charts/PieChart';
 import { netAmount } from '../../utils/format';
+import { expandSplits } from '../../utils/splitUtils';
 
 export class CategoryStatsCard extends BaseComponent {
     private transactions: TransactionInfo[];
@@ -10,15 +11,18 @@ export class CategoryStatsCard extends BaseComponent {
     private year: number;
     private month: number;
     private type: '支出' | '收入';
+    private currency: string;
 
     constructor(
         containerEl: HTMLElement,
         transactions: TransactionInfo[],
-        type: '支出' | '收入' = '支出'
+        type: '支出' | '收入' = '支出',
+        currency: string = "CNY"
     ) {
         super(containerEl);
         this.transactions = transactions;
         this.type = type;
+        this.currency = currency;
         const now = new Date();
         this.year = now.getFullYear();
         this.month = now.getMonth();
@@ -36,8 +40,8 @@ export class CategoryStatsCard extends BaseComponent {
         const rangeSelector = header.createDiv({ cls: "cost-stats-range-selector" });
         this.renderRangeSelector(rangeSelector);
 
-        // Filter Data
-        const filtered = this.filterTransactions();
+        // Filter Data（拆分交易按明细行计入各自分类）
+        const filtered = expandSplits(this.filterTransactions());
 
         // Filter by Type
         const targetTxns = filtered.filter(t => t.txnType === this.type);
@@ -83,7 +87,7 @@ export class CategoryStatsCard extends BaseComponent {
         // PieChart: const chartWrapper = this.containerEl.createDiv({ cls: "cost-category-chart" });
         // So yes, we pass contentEl.
 
-        new PieChart(contentEl, sorted, colors, totalAmount).mount();
+        new PieChart(contentEl, sorted, colors, totalAmount, this.currency).mount();
     }
 
     private renderRangeSelector(container: HTMLElement): void {
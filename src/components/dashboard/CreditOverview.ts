@@ -0,0 +1,64 @@
+import { BaseComponent } from '../BaseComponent';
+import { CreditSummary } from '../../services/creditCardService';
+import { formatThousands, getCurrencySymbol } from '../../utils/format';
+
+/** 额度使用率达到该比例时显示警告色 */
+const HIGH_UTILIZATION_RATIO = 0.7;
+
+/**
+ * 距还款日天数的描述
+ */
+export function describeDueDays(days: number): string {
+    if (days === 0) return "今天到期";
+    return days > 0 ? `${days} 天后到期` : `已逾期 ${-days} 天`;
+}
+
+/**
+ * 信用卡概览：总额度使用率与最近一笔待还账单
+ * 嵌入余额总览卡片（BalanceCard / 侧边栏）底部，没有额度和待还账单时不渲染。
+ */
+export class CreditOverview extends BaseComponent {
+    private summary: CreditSummary;
+    private currency: string;
+
+    constructor(containerEl: HTMLElement, summary: CreditSummary, currency: string = "CNY") {
+        super(containerEl);
+        this.summary = summary;
+        this.currency = currency;
+    }
+
+    protected render(): void {
+        const { limit, used, ratio, nextDue } = this.summary;
+        if (limit <= 0 && !nextDue) return;
+
+        const section = this.containerEl.createDiv({ cls: "cost-credit-overview" });
+        const symbol = getCurrencySymbol(this.currency);
+
+        if (limit > 0) {
+            const row = section.createDiv({ cls: "cost-credit-overview-row" });
+            row.createSpan({ cls: "cost-credit-overview-label", text: "信用额度" });
+            row.createSpan({
+                cls: "cost-credit-overview-value",
+                text: `${symbol}${formatThousands(used, 2)} / ${symbol}${formatThousands(limit, 2)} (${Math.round(ratio * 100)}%)`
+            });
+            const bar = section.createDiv({ cls: "cost-credit-utilization-bar" });
+            const fill = bar.createDiv({
+                cls: "cost-credit-utilization-fill",
+                attr: { style: `width: ${Math.min(100, ratio * 100)}%` }
+            });
+            if (ratio >= HIGH_UTILIZATION_RATIO) fill.addClass("is-high");
+        }
+
+        if (nextDue) {
+            const { account, cycle } = nextDue;
+            const accountSymbol = getCurrencySymbol(account.currency);
+            const row = section.createDiv({ cls: "cost-credit-overview-row" });
+            row.createSpan({ cls: "cost-credit-overview-label", text: "下次还款" });
+            const value = row.createSpan({
+                cls: "cost-credit-overview-value",
+                text: `${cycle.dueDate.slice(5)} ${account.displayName} ${accountSymbol}${formatThousands(cycle.outstanding, 2)} · ${describeDueDays(cycle.daysUntilDue)}`
+            });
+            if (cycle.daysUntilDue < 0) value.addClass("is-overdue");
+        }
+    }
+}
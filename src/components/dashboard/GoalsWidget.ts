@@ -0,0 +1,75 @@
+import { BaseComponent } from '../BaseComponent';
+import { GoalProgress } from '../../services/goalService';
+import { formatThousands, getCurrencySymbol } from '../../utils/format';
+
+export class GoalsWidget extends BaseComponent {
+    private progresses: GoalProgress[];
+    private baseCurrency: string;
+
+    constructor(containerEl: HTMLElement, progresses: GoalProgress[], baseCurrency: string = "CNY") {
+        super(containerEl);
+        this.progresses = progresses;
+        this.baseCurrency = baseCurrency;
+    }
+
+    protected render(): void {
+        const container = this.containerEl;
+        container.addClass("cost-goals-widget");
+        container.createEl("h3", { text: "储蓄目标", cls: "cost-card-title" });
+
+        if (this.progresses.length === 0) {
+            container.createDiv({ text: "暂无储蓄目标，在目标文件夹中创建 type: goal 的笔记即可", cls: "cost-empty-message" });
+            return;
+        }
+
+        // 未达成的排在前面
+        const sorted = [...this.progresses].sort((a, b) => Number(a.reached) - Number(b.reached));
+        const list = container.createDiv({ cls: "cost-budget-list" });
+
+        for (const p of sorted) {
+            const symbol = getCurrencySymbol(p.goal.currency || this.baseCurrency);
+            const format = (value: number) => `${symbol}${formatThousands(value, 2)}`;
+            const row = list.createDiv({ cls: "cost-budget-row cost-goal-row" });
+
+            const head = row.createDiv({ cls: "cost-budget-row-head" });
+            head.createSpan({ cls: "cost-budget-category", text: p.goal.name });
+            if (p.goal.targetDate) {
+                head.createSpan({ cls: "cost-budget-period", text: `目标 ${p.goal.targetDate}` });
+            }
+
+            const bar = row.createDiv({ cls: "cost-budget-bar" });
+            const fill = bar.createDiv({
+                cls: "cost-budget-bar-fill cost-goal-bar-fill",
+                attr: { style: `width: ${Math.max(0, Math.min(100, p.ratio * 100))}%` }
+            });
+            if (p.reached) {
+                fill.addClass("is-reached");
+                row.addClass("is-reached");
+            }
+
+            const foot = row.createDiv({ cls: "cost-budget-row-foot" });
+            foot.createSpan({ text: `已存 ${format(p.saved)} / ${format(p.goal.target)}` });
+            foot.createSpan({
+                cls: "cost-budget-remaining",
+                text: p.reached ? "已达成 🎉" : `还差 ${format(p.remaining)}（${Math.floor(p.ratio * 100)}%）`
+            });
+
+            if (p.reached) continue;
+
+            const plan = row.createDiv({ cls: "cost-goal-plan" });
+            if (p.requiredMonthly !== null) {
+                plan.createSpan({ text: `每月需存 ${format(p.requiredMonthly)}` });
+            }
+            if (p.projectedDate) {
+                // 按最近的存入速度赶不上目标日期时标出
+                const late = !!p.goal.targetDate && p.projectedDate > p.goal.targetDate;
+                plan.createSpan({
+                    cls: late ? "cost-goal-late" : "",
+                    text: `近 3 月月均 ${format(p.recentMonthly)}，预计 ${p.projectedDate} 达成`
+                });
+            } else {
+                plan.createSpan({ cls: "cost-goal-late", text: "近 3 月没有存入，无法预计达成日期" });
+            }
+        }
+    }
+}
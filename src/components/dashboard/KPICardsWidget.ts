@@ -1,17 +1,20 @@
 import { BaseComponent } from '../BaseComponent';
 import { TransactionInfo } from '../../services/transactionService';
-import { formatCompact, netAmount } from '../../utils/format';
+import { formatCompact, netAmount, getCurrencySymbol } from '../../utils/format';
 
 export class KPICardsWidget extends BaseComponent {
     private transactions: TransactionInfo[];
+    private currency: string;
 
-    constructor(containerEl: HTMLElement, transactions: TransactionInfo[]) {
+    constructor(containerEl: HTMLElement, transactions: TransactionInfo[], currency: string = "CNY") {
         super(containerEl);
         this.transactions = transactions;
+        this.currency = currency;
     }
 
     protected render(): void {
         const wrapper = this.containerEl.createDiv({ cls: "cost-kpi-cards-wrapper" });
+        const symbol = getCurrencySymbol(this.currency);
 
         // Calculate Stats
         const now = new Date();
@@ -41,7 +44,7 @@ export class KPICardsWidget extends BaseComponent {
         // 1. Month Expense vs Last Month
         const expenseCard = wrapper.createDiv({ cls: "cost-kpi-card" });
         expenseCard.createDiv({ cls: "cost-kpi-label", text: "本月支出" });
-        expenseCard.createDiv({ cls: "cost-kpi-value", text: `¥${formatCompact(thisMonthExpense)}` });
+        expenseCard.createDiv({ cls: "cost-kpi-value", text: `${symbol}${formatCompact(thisMonthExpense)}` });
 
         const diff = thisMonthExpense - lastMonthExpense;
 
@@ -71,13 +74,13 @@ export class KPICardsWidget extends BaseComponent {
 
         const avgCard = wrapper.createDiv({ cls: "cost-kpi-card" });
         avgCard.createDiv({ cls: "cost-kpi-label", text: "日均支出" });
-        avgCard.createDiv({ cls: "cost-kpi-value", text: `¥${formatCompact(dailyAvg)}` });
+        avgCard.createDiv({ cls: "cost-kpi-value", text: `${symbol}${formatCompact(dailyAvg)}` });
         avgCard.createDiv({ cls: "cost-kpi-sub", text: `${expenseCount} 笔消费` });
 
         // 3. Max Expense
         const maxCard = wrapper.createDiv({ cls: "cost-kpi-card" });
         maxCard.createDiv({ cls: "cost-kpi-label", text: "最大单笔" });
-        maxCard.createDiv({ cls: "cost-kpi-value", text: `¥${formatCompact(maxExpense)}` });
+        maxCard.createDiv({ cls: "cost-kpi-value", text: `${symbol}${formatCompact(maxExpense)}` });
         maxCard.createDiv({ cls: "cost-kpi-sub", text: "本月" });
     }
 }
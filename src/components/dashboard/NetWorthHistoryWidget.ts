@@ -0,0 +1,104 @@
+import { BaseComponent } from '../BaseComponent';
+import { NetWorthChart } from '../charts/NetWorthChart';
+import { AccountKindDefinition } from '../../types';
+import { NetWorthInterval, NetWorthPoint, NetWorthRange, NetWorthService, NetWorthSnapshot } from '../../services/netWorthService';
+import { addMonths, formatThousands, getCurrencySymbol, getLocalDateString } from '../../utils/format';
+
+export interface NetWorthHistoryOptions {
+    baseCurrency: string;
+    interval: NetWorthInterval;
+    range: NetWorthRange;
+    /** 切换间隔或范围后保存 */
+    onChange?: (interval: NetWorthInterval, range: NetWorthRange) => Promise<void>;
+    /** 提供时显示「记录快照」按钮 */
+    onRecordSnapshot?: () => void;
+}
+
+const RANGE_LABELS: Record<NetWorthRange, string> = { "1y": "1 年", "3y": "3 年", all: "全部" };
+const INTERVAL_LABELS: Record<NetWorthInterval, string> = { month: "按月", week: "按周" };
+
+/**
+ * 净资产走势 widget
+ * 顶部切换范围与取点间隔，中间为走势图，下方列出范围内的快照与按当前数据重新计算的差额。
+ */
+export class NetWorthHistoryWidget extends BaseComponent {
+    private netWorthService: NetWorthService;
+    private accountKinds: AccountKindDefinition[];
+    private options: NetWorthHistoryOptions;
+    private interval: NetWorthInterval;
+    private range: NetWorthRange;
+
+    constructor(
+        containerEl: HTMLElement,
+        netWorthService: NetWorthService,
+        accountKinds: AccountKindDefinition[],
+        options: NetWorthHistoryOptions
+    ) {
+        super(containerEl);
+        this.netWorthService = netWorthService;
+        this.accountKinds = accountKinds;
+        this.options = options;
+        this.interval = options.interval;
+        this.range = options.range;
+    }
+
+    protected render(): void {
+        const header = this.containerEl.createDiv({ cls: "cost-networth-header" });
+        header.createEl("h3", { text: "净资产走势", cls: "cost-card-title" });
+        const controls = header.createDiv({ cls: "cost-networth-controls" });
+        this.renderToggle(controls, RANGE_LABELS, this.range, value => { this.range = value; });
+        this.renderToggle(controls, INTERVAL_LABELS, this.interval, value => { this.interval = value; });
+        if (this.options.onRecordSnapshot) {
+            const onRecordSnapshot = this.options.onRecordSnapshot;
+            const snapshotBtn = controls.createEl("button", { cls: "cost-networth-snapshot-btn", text: "记录快照" });
+            snapshotBtn.addEventListener("click", () => onRecordSnapshot());
+        }
+
+        const since = this.range === "all" ? "" : addMonths(getLocalDateString(), this.range === "1y" ? -12 : -36);
+        const history = this.netWorthService.getHistory(this.accountKinds, this.interval).filter(p => p.date >= since);
+        const snapshots = this.netWorthService.getSnapshots().filter(s => s.date >= since);
+        new NetWorthChart(this.containerEl.createDiv(), history, snapshots, this.options.baseCurrency).mount();
+
+        if (snapshots.length > 0) {
+            this.renderSnapshots(this.containerEl, snapshots, history);
+        }
+    }
+
+    private renderToggle<T extends string>(container: HTMLElement, labels: Record<T, string>, current: T, onSelect: (value: T) => void): void {
+        const group = container.createDiv({ cls: "cost-networth-toggle" });
+        for (const value of Object.keys(labels) as T[]) {
+            const btn = group.createEl("button", { text: labels[value], cls: value === current ? "is-active" : "" });
+            btn.addEventListener("click", () => {
+                if (value === current) return;
+                onSelect(value);
+                void this.options.onChange?.(this.interval, this.range);
+                this.update();
+            });
+        }
+    }
+
+    /**
+     * 快照与当前数据的对比，最近的在前
+     */
+    private renderSnapshots(container: HTMLElement, snapshots: NetWorthSnapshot[], history: NetWorthPoint[]): void {
+        const symbol = getCurrencySymbol(this.options.baseCurrency);
+        const format = (value: number) => `${value < 0 ? "-" : ""}${symbol}${formatThousands(Math.abs(value), 2)}`;
+        const section = container.createDiv({ cls: "cost-networth-snapshots" });
+        section.createDiv({ cls: "cost-networth-snapshots-title", text: "快照对比" });
+
+        for (const snapshot of [...snapshots].reverse()) {
+            const current = history.find(p => p.date === snapshot.date)
+                ?? this.netWorthService.getNetWorthAt(this.accountKinds, snapshot.date);
+            const diff = current.netWorth - snapshot.netWorth;
+            const row = section.createDiv({ cls: "cost-networth-snapshot-row" });
+            row.createDiv({ cls: "cost-networth-snapshot-date", text: snapshot.date });
+            row.createDiv({ cls: "cost-networth-snapshot-value", text: `快照 ${format(snapshot.netWorth)}` });
+            row.createDiv({ cls: "cost-networth-snapshot-value", text: `现在 ${format(current.netWorth)}` });
+            row.createDiv({
+                cls: `cost-networth-snapshot-diff ${Math.abs(diff) < 0.005 ? "is-same" : ""}`,
+                text: Math.abs(diff) < 0.005 ? "一致" : `${diff > 0 ? "+" : "-"}${symbol}${formatThousands(Math.abs(diff), 2)}`,
+            });
+            if (snapshot.recordedAt) row.setAttr("aria-label", `记录于 ${snapshot.recordedAt}`);
+        }
+    }
+}
@@ -1,15 +1,19 @@
 import { BaseComponent } from '../BaseComponent';
 import { TransactionInfo } from '../../services/transactionService';
 import { formatCompact, netAmount } from '../../utils/format';
+import { expandSplits } from '../../utils/splitUtils';
 
 export class TopPayeesWidget extends BaseComponent {
     private transactions: TransactionInfo[];
     private type: '支出' | '收入';
+    /** 商家标志的资源路径，没有时返回 null */
+    private resolveLogo?: (payee: string) => string | null;
 
-    constructor(containerEl: HTMLElement, transactions: TransactionInfo[], type: '支出' | '收入' = '支出') {
+    constructor(containerEl: HTMLElement, transactions: TransactionInfo[], type: '支出' | '收入' = '支出', resolveLogo?: (payee: string) => string | null) {
         super(containerEl);
         this.transactions = transactions;
         this.type = type;
+        this.resolveLogo = resolveLogo;
     }
 
     protected render(): void {
@@ -21,7 +25,7 @@ export class TopPayeesWidget extends BaseComponent {
 
         // Calculate
         const payeeMap = new Map<string, number>();
-        for (const txn of this.transactions) {
+        for (const txn of expandSplits(this.transactions)) {
             if (txn.txnType === this.type && txn.payee) {
                 let amount = txn.amount;
                 if (this.type === '支出') {
@@ -45,7 +49,10 @@ export class TopPayeesWidget extends BaseComponent {
             const row = list.createDiv({ cls: "cost-payee-row" });
 
             // 1. Name
-            row.createDiv({ cls: "cost-payee-name", text: `${index + 1}. ${payee}` });
+            const nameEl = row.createDiv({ cls: "cost-payee-name", text: `${index + 1}. ` });
+            const logo = this.resolveLogo?.(payee);
+            if (logo) nameEl.createEl("img", { cls: "cost-payee-logo", attr: { src: logo, alt: "" } });
+            nameEl.appendText(payee);
 
             // 2. Bar Container
             const barContainer = row.createDiv({ cls: "cost-payee-bar-container" });
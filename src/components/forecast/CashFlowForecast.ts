@@ -0,0 +1,238 @@
+import { BaseComponent } from "../BaseComponent";
+import { AccountForecast, FORECAST_SOURCE_LABELS, ForecastEvent } from "../../services/forecastService";
+import { formatCompact, formatThousands, getCurrencySymbol } from "../../utils/format";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/** 可选的预测天数 */
+export const FORECAST_DAY_OPTIONS = [30, 90, 365];
+
+export interface CashFlowForecastOptions {
+    days: number;
+    onDaysChange?: (days: number) => Promise<void>;
+}
+
+/**
+ * 现金流预测组件
+ * 上方是各账户的预测汇总（当前、最低、期末、是否透支），点击一行后在下方图表中查看该账户的逐日余额，
+ * 图中标出最低点和余额为负的日期，图表下方列出预测期内已知的收支。
+ */
+export class CashFlowForecast extends BaseComponent {
+    private forecasts: AccountForecast[];
+    private options: CashFlowForecastOptions;
+    private selected: string | null = null;
+
+    constructor(containerEl: HTMLElement, forecasts: AccountForecast[], options: CashFlowForecastOptions) {
+        super(containerEl);
+        this.forecasts = forecasts;
+        this.options = options;
+    }
+
+    protected render(): void {
+        const toolbar = this.containerEl.createDiv({ cls: "cost-forecast-toolbar" });
+        const toggle = toolbar.createDiv({ cls: "cost-networth-toggle" });
+        for (const days of FORECAST_DAY_OPTIONS) {
+            const btn = toggle.createEl("button", { text: `${days} 天`, cls: days === this.options.days ? "is-active" : "" });
+            btn.addEventListener("click", () => {
+                if (days !== this.options.days) void this.options.onDaysChange?.(days);
+            });
+        }
+
+        if (this.forecasts.length === 0) {
+            this.containerEl.createDiv({ cls: "cost-empty-message", text: "没有可以预测的账户" });
+            return;
+        }
+
+        // 默认查看最早透支的资产账户，没有透支时查看第一个资产账户
+        const overdrawn = this.forecasts
+            .filter(f => f.negativeDates.length > 0)
+            .sort((a, b) => (a.negativeDates[0] ?? "").localeCompare(b.negativeDates[0] ?? ""));
+        const current = this.forecasts.find(f => f.account.fileName === this.selected)
+            ?? overdrawn[0]
+            ?? this.forecasts.find(f => !f.liability)
+            ?? this.forecasts[0]!;
+
+        if (overdrawn.length > 0) {
+            const warning = this.containerEl.createDiv({ cls: "cost-forecast-warning" });
+            warning.setText(`⚠ ${overdrawn.map(f => `${f.account.displayName} 预计 ${f.negativeDates[0]} 起余额为负`).join("；")}`);
+        }
+
+        this.renderSummary(this.containerEl, current);
+        const chartCard = this.containerEl.createDiv({ cls: "cost-stats-card cost-forecast-chart-card" });
+        chartCard.createEl("h3", { text: `${current.account.displayName} 余额预测`, cls: "cost-card-title" });
+        this.renderChart(chartCard, current);
+        this.renderEvents(this.containerEl, current);
+    }
+
+    private renderSummary(container: HTMLElement, current: AccountForecast): void {
+        const table = container.createEl("table", { cls: "cost-forecast-table" });
+        const head = table.createEl("tr");
+        for (const label of ["账户", "今天", "最低", "期末", "日常开销 / 天"]) head.createEl("th", { text: label });
+
+        for (const forecast of this.forecasts) {
+            const last = forecast.points[forecast.points.length - 1];
+            const row = table.createEl("tr", { cls: "is-clickable" });
+            if (forecast === current) row.addClass("is-selected");
+            if (forecast.negativeDates.length > 0) row.addClass("is-negative");
+            row.createEl("td", { text: forecast.account.displayName });
+            row.createEl("td", { text: this.format(forecast.startBalance, forecast) });
+            const lowest = row.createEl("td");
+            lowest.createSpan({ text: this.format(forecast.lowest.balance, forecast) });
+            lowest.createSpan({ cls: "cost-forecast-date", text: ` ${forecast.lowest.date.slice(5)}` });
+            row.createEl("td", { text: last ? this.format(last.balance, forecast) : "—" });
+            row.createEl("td", { text: forecast.dailyBaseline > 0 ? this.format(-forecast.dailyBaseline, forecast) : "—" });
+            row.addEventListener("click", () => {
+                this.selected = forecast.account.fileName;
+                this.update();
+            });
+        }
+    }
+
+    private renderChart(container: HTMLElement, forecast: AccountForecast): void {
+        const points = forecast.points;
+        const width = 600;
+        const height = 200;
+        const padding = { top: 16, right: 12, bottom: 24, left: 48 };
+        const chartWidth = width - padding.left - padding.right;
+        const chartHeight = height - padding.top - padding.bottom;
+
+        const readout = container.createDiv({ cls: "cost-networth-readout" });
+        const svg = document.createElementNS(SVG_NS, "svg");
+        svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+        svg.setAttribute("class", "cost-networth-chart cost-forecast-chart");
+
+        const values = points.map(p => p.balance);
+        const rawMax = Math.max(0, ...values);
+        const rawMin = Math.min(0, ...values);
+        const span = rawMax - rawMin || 1;
+        const maxValue = rawMax + span * 0.1;
+        const minValue = rawMin - (rawMin < 0 ? span * 0.1 : 0);
+        const step = points.length > 1 ? chartWidth / (points.length - 1) : 0;
+        const xAt = (i: number) => padding.left + step * i;
+        const yAt = (value: number) => padding.top + ((maxValue - value) / (maxValue - minValue)) * chartHeight;
+
+        // 零线以下为透支区域（资产账户）
+        if (!forecast.liability && minValue < 0) {
+            this.createSvgEl(svg, "rect", {
+                x: padding.left, y: yAt(0), width: chartWidth, height: padding.top + chartHeight - yAt(0), class: "cost-forecast-negative-zone",
+            });
+        }
+        for (let i = 0; i < 4; i++) {
+            const value = maxValue - ((maxValue - minValue) / 3) * i;
+            this.createSvgEl(svg, "text", {
+                x: padding.left - 5, y: yAt(value) + 4, "text-anchor": "end", class: "cost-networth-axis-label",
+            }).textContent = `${value < 0 ? "-" : ""}${formatCompact(Math.abs(value))}`;
+        }
+        this.createSvgEl(svg, "line", {
+            x1: padding.left, y1: yAt(0), x2: width - padding.right, y2: yAt(0), class: "cost-networth-zero",
+        });
+
+        // 有已知收支的日期画竖向刻度
+        const eventsByDate = new Map<string, ForecastEvent[]>();
+        for (const event of forecast.events) eventsByDate.set(event.date, [...(eventsByDate.get(event.date) ?? []), event]);
+        points.forEach((p, i) => {
+            if (!eventsByDate.has(p.date)) return;
+            this.createSvgEl(svg, "line", {
+                x1: xAt(i), y1: padding.top + chartHeight, x2: xAt(i), y2: padding.top + chartHeight - 6, class: "cost-forecast-event-tick",
+            });
+        });
+
+        const line = points.map((p, i) => `${i === 0 ? "M" : "L"} ${xAt(i)} ${yAt(p.balance)}`).join(" ");
+        this.createSvgEl(svg, "path", { d: line, class: "cost-networth-line" });
+
+        // 余额为负的日期标红点
+        points.forEach((p, i) => {
+            if (forecast.liability || p.balance >= 0) return;
+            this.createSvgEl(svg, "circle", { cx: xAt(i), cy: yAt(p.balance), r: 2, class: "cost-forecast-negative-dot" });
+        });
+
+        // 最低点
+        const lowestIndex = points.findIndex(p => p.date === forecast.lowest.date);
+        if (lowestIndex >= 0) {
+            this.createSvgEl(svg, "circle", { cx: xAt(lowestIndex), cy: yAt(forecast.lowest.balance), r: 4, class: "cost-forecast-lowest" });
+            this.createSvgEl(svg, "text", {
+                x: xAt(lowestIndex), y: yAt(forecast.lowest.balance) - 8,
+                "text-anchor": lowestIndex > points.length * 0.8 ? "end" : "middle", class: "cost-forecast-lowest-label",
+            }).textContent = `最低 ${this.format(forecast.lowest.balance, forecast)}`;
+        }
+
+        const labelEvery = Math.max(1, Math.ceil(points.length / 6));
+        points.forEach((p, i) => {
+            if (i % labelEvery !== 0 && i !== points.length - 1) return;
+            this.createSvgEl(svg, "text", {
+                x: xAt(i), y: height - padding.bottom + 15, "text-anchor": "middle", class: "cost-networth-axis-label",
+            }).textContent = p.date.slice(5);
+        });
+
+        // 悬停显示当天余额与收支
+        const guide = this.createSvgEl(svg, "line", {
+            x1: 0, y1: padding.top, x2: 0, y2: padding.top + chartHeight, class: "cost-networth-guide",
+        });
+        const showPoint = (index: number, hovering: boolean) => {
+            const point = points[index];
+            if (!point) return;
+            guide.setAttribute("x1", String(xAt(index)));
+            guide.setAttribute("x2", String(xAt(index)));
+            svg.toggleClass("is-hovering", hovering);
+            readout.empty();
+            readout.createSpan({ cls: "cost-networth-readout-date", text: point.date });
+            const item = readout.createSpan({ cls: `cost-networth-readout-item is-net-worth ${point.balance < 0 && !forecast.liability ? "is-negative" : ""}` });
+            item.createSpan({ cls: "cost-networth-readout-label", text: "余额" });
+            item.createSpan({ text: this.format(point.balance, forecast) });
+            for (const event of eventsByDate.get(point.date) ?? []) {
+                readout.createSpan({ cls: "cost-networth-readout-item", text: `${event.label} ${this.formatSigned(event.amount, forecast)}` });
+            }
+        };
+        const overlay = this.createSvgEl(svg, "rect", {
+            x: padding.left, y: padding.top, width: chartWidth, height: chartHeight, class: "cost-networth-overlay",
+        });
+        overlay.addEventListener("mousemove", (e: MouseEvent) => {
+            const rect = svg.getBoundingClientRect();
+            const x = ((e.clientX - rect.left) / rect.width) * width;
+            const index = step > 0 ? Math.round((x - padding.left) / step) : 0;
+            showPoint(Math.min(points.length - 1, Math.max(0, index)), true);
+        });
+        overlay.addEventListener("mouseleave", () => showPoint(lowestIndex >= 0 ? lowestIndex : 0, false));
+
+        container.createDiv({ cls: "cost-networth-chart-container" }).appendChild(svg);
+        showPoint(lowestIndex >= 0 ? lowestIndex : 0, false);
+    }
+
+    private renderEvents(container: HTMLElement, forecast: AccountForecast): void {
+        const section = container.createDiv({ cls: "cost-shared-section" });
+        section.createDiv({ cls: "cost-shared-section-title", text: "已知的未来收支" });
+        if (forecast.events.length === 0) {
+            section.createDiv({ cls: "cost-empty-message", text: "预测期内没有已知的收支" });
+            return;
+        }
+        for (const event of forecast.events) {
+            const row = section.createDiv({ cls: "cost-loan-detail-row" });
+            row.createDiv({ cls: "cost-loan-detail-date", text: event.date });
+            row.createDiv({ cls: "cost-loan-detail-account", text: event.label });
+            row.createDiv({ cls: "cost-loan-detail-memo", text: FORECAST_SOURCE_LABELS[event.source] });
+            row.createDiv({
+                cls: `cost-loan-detail-amount ${event.amount < 0 ? "cost-balance-negative" : "cost-balance-positive"}`,
+                text: this.formatSigned(event.amount, forecast),
+            });
+        }
+    }
+
+    private format(value: number, forecast: AccountForecast): string {
+        return `${value < 0 ? "-" : ""}${getCurrencySymbol(forecast.account.currency)}${formatThousands(Math.abs(value), 2)}`;
+    }
+
+    private formatSigned(value: number, forecast: AccountForecast): string {
+        return `${value > 0 ? "+" : ""}${this.format(value, forecast)}`;
+    }
+
+    private createSvgEl<K extends keyof SVGElementTagNameMap>(
+        parent: SVGElement,
+        tag: K,
+        attrs: Record<string, string | number>
+    ): SVGElementTagNameMap[K] {
+        const el = document.createElementNS(SVG_NS, tag);
+        for (const [key, value] of Object.entries(attrs)) el.setAttribute(key, String(value));
+        parent.appendChild(el);
+        return el;
+    }
+}
@@ -0,0 +1,140 @@
+import { BaseComponent } from "../BaseComponent";
+import { AccountInfo } from "../../types";
+import { HoldingInfo, InvestmentSummary } from "../../services/investmentService";
+import { formatThousands, getCurrencySymbol } from "../../utils/format";
+
+export interface HoldingsViewOptions {
+    /** 点击证券时记录新价格 */
+    onRecordPrice?: (security: string) => void;
+    onImportPrices?: () => void;
+}
+
+/**
+ * 投资账户持仓视图
+ * 顶部为市值、成本与盈亏汇总，下方按市值列出每只证券的持仓、价格、盈亏与占比。
+ */
+export class HoldingsView extends BaseComponent {
+    private account: AccountInfo;
+    private summary: InvestmentSummary;
+    private options: HoldingsViewOptions;
+    private symbol: string;
+
+    constructor(containerEl: HTMLElement, account: AccountInfo, summary: InvestmentSummary, options: HoldingsViewOptions = {}) {
+        super(containerEl);
+        this.account = account;
+        this.summary = summary;
+        this.options = options;
+        this.symbol = getCurrencySymbol(account.currency);
+    }
+
+    protected render(): void {
+        const root = this.containerEl.createDiv({ cls: "cost-holdings" });
+        this.renderOverview(root);
+
+        const holdings = this.summary.holdings.filter(h => h.quantity > 0);
+        const closed = this.summary.holdings.filter(h => h.quantity <= 0);
+        if (this.summary.holdings.length === 0) {
+            root.createDiv({
+                cls: "cost-empty-message",
+                text: "还没有投资交易。记一笔类型为「投资」的买入交易，持仓账户选择本账户即可。"
+            });
+        } else {
+            this.renderTable(root, holdings, false);
+            if (closed.length > 0) {
+                root.createDiv({ cls: "cost-holdings-section-title", text: "已清仓" });
+                this.renderTable(root, closed, true);
+            }
+        }
+
+        const actions = root.createDiv({ cls: "cost-holdings-actions" });
+        if (this.options.onRecordPrice) {
+            const recordBtn = actions.createEl("button", { cls: "cost-detail-header-btn", text: "记录价格" });
+            recordBtn.addEventListener("click", () => this.options.onRecordPrice?.(""));
+        }
+        if (this.options.onImportPrices) {
+            const importBtn = actions.createEl("button", { cls: "cost-detail-header-btn", text: "导入价格 CSV" });
+            importBtn.addEventListener("click", () => this.options.onImportPrices?.());
+        }
+    }
+
+    private renderOverview(container: HTMLElement): void {
+        const s = this.summary;
+        const stats = container.createDiv({ cls: "cost-holdings-overview" });
+        const stat = (label: string, value: number, signed = false) => {
+            const el = stats.createDiv({ cls: "cost-holdings-stat" });
+            el.createDiv({ cls: "cost-holdings-stat-label", text: label });
+            const valueEl = el.createDiv({ cls: "cost-holdings-stat-value", text: signed ? this.signed(value) : this.money(value) });
+            if (signed && value !== 0) valueEl.addClass(value > 0 ? "cost-balance-positive" : "cost-balance-negative");
+        };
+        stat("总市值", s.marketValue);
+        stat("持仓市值", s.holdingsValue);
+        stat("现金", s.cash);
+        stat("持仓成本", s.costBasis);
+        stat("浮动盈亏", s.unrealized, true);
+        stat("已实现盈亏", s.realized, true);
+    }
+
+    private renderTable(container: HTMLElement, holdings: HoldingInfo[], closed: boolean): void {
+        const table = container.createEl("table", { cls: "cost-holdings-table" });
+        const headRow = table.createEl("thead").createEl("tr");
+        const columns = closed
+            ? ["证券", "已实现", "分红", "费用"]
+            : ["证券", "数量", "成本价", "现价", "市值", "浮动盈亏", "已实现", "占比"];
+        columns.forEach(text => headRow.createEl("th", { text }));
+
+        const tbody = table.createEl("tbody");
+        for (const h of holdings) {
+            const row = tbody.createEl("tr");
+            const nameCell = row.createEl("td", { cls: "cost-holdings-security" });
+            nameCell.createDiv({ text: h.security });
+            if (h.name) nameCell.createDiv({ cls: "cost-holdings-name", text: h.name });
+
+            if (closed) {
+                this.signedCell(row, h.realized);
+                row.createEl("td", { text: this.money(h.dividends) });
+                row.createEl("td", { text: this.money(h.fees) });
+                continue;
+            }
+
+            row.createEl("td", { text: String(h.quantity) });
+            row.createEl("td", { text: formatThousands(h.avgCost, 4) });
+            const priceCell = row.createEl("td", { cls: "cost-holdings-price" });
+            priceCell.createDiv({ text: h.price ? formatThousands(h.price, 4) : "—" });
+            if (h.priceDate) {
+                priceCell.createDiv({
+                    cls: "cost-holdings-price-date",
+                    text: h.priceSource === "trade" ? `${h.priceDate} 成交价` : h.priceDate
+                });
+            }
+            if (this.options.onRecordPrice) {
+                priceCell.addClass("is-clickable");
+                priceCell.setAttr("aria-label", "记录价格");
+                priceCell.addEventListener("click", () => this.options.onRecordPrice?.(h.security));
+            }
+            row.createEl("td", { text: this.money(h.marketValue) });
+            this.signedCell(row, h.unrealized, h.costBasis > 0 ? h.unrealized / h.costBasis : undefined);
+            this.signedCell(row, h.realized);
+            const allocationCell = row.createEl("td", { cls: "cost-holdings-allocation" });
+            allocationCell.createSpan({ text: `${(h.allocation * 100).toFixed(1)}%` });
+            const bar = allocationCell.createDiv({ cls: "cost-holdings-allocation-bar" });
+            bar.createDiv({
+                cls: "cost-holdings-allocation-fill",
+                attr: { style: `width: ${Math.min(100, h.allocation * 100)}%` }
+            });
+        }
+    }
+
+    private signedCell(row: HTMLElement, value: number, ratio?: number): void {
+        const cell = row.createEl("td", { text: this.signed(value) });
+        if (ratio !== undefined) cell.createDiv({ cls: "cost-holdings-ratio", text: `${(ratio * 100).toFixed(2)}%` });
+        if (value !== 0) cell.addClass(value > 0 ? "cost-balance-positive" : "cost-balance-negative");
+    }
+
+    private signed(value: number): string {
+        return `${value > 0 ? "+" : value < 0 ? "-" : ""}${this.money(Math.abs(value))}`;
+    }
+
+    private money(value: number): string {
+        return `${this.symbol}${formatThousands(value, 2)}`;
+    }
+}
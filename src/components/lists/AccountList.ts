@@ -1,11 +1,39 @@
-import { App } from "obsidian";
+import { App, setIcon } from "obsidian";
 import { BaseComponent } from '../BaseComponent';
-import { AccountInfo } from '../../types';
-import { formatThousands } from '../../utils/format';
+import { AccountInfo, AccountKindDefinition } from '../../types';
+import { BalanceAssertionCheck, ClosedAccountIssues } from '../../services/transactionService';
+import { formatThousands, getCurrencySymbol } from '../../utils/format';
+import { DEFAULT_ACCOUNT_KINDS, groupAccountsByKind, resolveAccountKind } from '../../utils/accountKindUtils';
 
 export interface AccountListOptions {
     onAccountClick?: (account: AccountInfo) => void;
     selectedAccount?: AccountInfo | null;
+    /** 账户名 -> 本位币折算余额（用于分组小计及外币账户折算显示） */
+    baseBalances?: Map<string, number>;
+    /** 账户名 -> 待入账交易的余额变动（账户货币），不为 0 时在余额下方显示已入账余额 */
+    pendingChanges?: Map<string, number>;
+    /** 账户名 -> 未来日期交易的余额变动（账户货币），不为 0 时显示为「待发生」 */
+    upcomingChanges?: Map<string, number>;
+    /** 本位币 */
+    baseCurrency?: string;
+    /** 账户名 -> 未通过的余额断言 */
+    failedAssertions?: Map<string, BalanceAssertionCheck[]>;
+    /** 已关闭的账户名，单独折叠在「已关闭」分组中 */
+    closedAccounts?: Set<string>;
+    /** 账户名 -> 已关闭账户的异常 */
+    closedIssues?: Map<string, ClosedAccountIssues>;
+    /** 账户类型定义（分组名称、顺序与图标），默认使用内置类型 */
+    accountKinds?: AccountKindDefinition[];
+}
+
+/**
+ * 已关闭账户异常的提示文字
+ */
+export function describeClosedAccountIssues(account: AccountInfo, issues: ClosedAccountIssues): string {
+    const parts: string[] = [];
+    if (issues.balance !== 0) parts.push(`仍有余额 ${formatThousands(issues.balance, 2)} ${account.currency}`);
+    if (issues.lateTransactions.length > 0) parts.push(`关闭后有 ${issues.lateTransactions.length} 笔交易`);
+    return `${account.displayName} 已关闭，但${parts.join("，")}`;
 }
 
 export class AccountList extends BaseComponent {
@@ -34,44 +62,65 @@ export class AccountList extends BaseComponent {
     protected render(): void {
         const container = this.containerEl;
 
-        // Group Accounts
-        const grouped = this.groupAccountsByKind(this.accounts);
-        const order = ["bank", "credit", "wallet", "cash", "prepaid", "investment", "other"];
-        const names: Record<string, string> = {
-            "bank": "银行卡", "credit": "信用卡", "wallet": "电子钱包",
-            "cash": "现金", "investment": "投资账户", "prepaid": "预付卡", "other": "其他"
-        };
+        // Group Accounts（已关闭的账户单独分组）
+        const closedSet = this.options.closedAccounts ?? new Set<string>();
+        const closed = this.accounts.filter(a => closedSet.has(a.fileName));
+        const groups = groupAccountsByKind(this.getAccountKinds(), this.accounts.filter(a => !closedSet.has(a.fileName)));
 
         const list = container.createDiv({ cls: "cost-accounts-col-list" });
 
-        for (const kind of order) {
-            if (grouped.has(kind)) {
-                this.renderGroup(list, kind, names[kind] || kind, grouped.get(kind)!);
-            }
+        for (const group of groups) {
+            this.renderGroup(list, group.kind.label, group.accounts);
         }
 
-        // Render others
-        for (const [kind, accs] of grouped) {
-            if (!order.includes(kind)) {
-                this.renderGroup(list, kind, names[kind] || kind, accs);
-            }
+        if (closed.length > 0) {
+            this.renderClosedGroup(list, closed);
         }
     }
 
-    private renderGroup(container: HTMLElement, kind: string, kindName: string, accounts: AccountInfo[]): void {
+    /**
+     * 「已关闭」分组：默认折叠，选中其中的账户时展开；不显示小计
+     */
+    private renderClosedGroup(container: HTMLElement, accounts: AccountInfo[]): void {
+        const groupEl = container.createDiv({ cls: "cost-account-group cost-account-group-closed" });
+        const header = groupEl.createDiv({ cls: "cost-account-group-header is-clickable" });
+        const chevron = header.createSpan({ cls: "cost-account-group-icon" });
+        header.createSpan({ cls: "cost-account-group-name", text: `已关闭 (${accounts.length})` });
+
+        const listEl = groupEl.createDiv({ cls: "cost-account-group-list" });
+        for (const acc of accounts) {
+            this.renderItem(listEl, acc);
+        }
+
+        let expanded = accounts.some(a => a.fileName === this.options.selectedAccount?.fileName);
+        const sync = () => {
+            listEl.toggleClass("is-hidden", !expanded);
+            setIcon(chevron, expanded ? "chevron-down" : "chevron-right");
+        };
+        header.addEventListener("click", () => {
+            expanded = !expanded;
+            sync();
+        });
+        sync();
+    }
+
+    private renderGroup(container: HTMLElement, kindName: string, accounts: AccountInfo[]): void {
         const groupEl = container.createDiv({ cls: "cost-account-group" });
 
         // Header
         const header = groupEl.createDiv({ cls: "cost-account-group-header" });
         header.createSpan({ cls: "cost-account-group-name", text: kindName });
 
+        // 分组小计：优先使用本位币折算余额，避免不同货币直接相加
+        const baseBalances = this.options.baseBalances;
         let total = 0;
-        accounts.forEach(a => total += (this.balances.get(a.fileName) || 0));
+        accounts.forEach(a => total += ((baseBalances ?? this.balances).get(a.fileName) || 0));
 
         // Normalize -0
         if (Math.abs(total) < 0.000001) total = 0;
 
-        const totalEl = header.createSpan({ cls: "cost-account-group-total", text: formatThousands(total, 2) });
+        const totalPrefix = baseBalances && this.options.baseCurrency ? getCurrencySymbol(this.options.baseCurrency) : "";
+        const totalEl = header.createSpan({ cls: "cost-account-group-total", text: totalPrefix + formatThousands(total, 2) });
         if (total >= 0) totalEl.addClass("cost-balance-positive");
         else totalEl.addClass("cost-balance-negative");
 
@@ -91,7 +140,16 @@ export class AccountList extends BaseComponent {
         this.renderAccountIcon(iconEl, account);
 
         const info = item.createDiv({ cls: "cost-account-list-info" });
-        info.createDiv({ cls: "cost-account-list-name", text: account.displayName });
+        const nameEl = info.createDiv({ cls: "cost-account-list-name", text: account.displayName });
+        this.renderAssertionFlag(nameEl, account);
+        const closedIssues = this.options.closedIssues?.get(account.fileName);
+        if (closedIssues) {
+            const flag = nameEl.createSpan({
+                cls: "cost-assertion-flag",
+                attr: { "aria-label": describeClosedAccountIssues(account, closedIssues) }
+            });
+            setIcon(flag, "alert-triangle");
+        }
 
         const count = this.transactionCounts.get(account.fileName) || 0;
         info.createDiv({ cls: "cost-account-list-count", text: `${count} 笔交易` });
@@ -100,15 +158,63 @@ export class AccountList extends BaseComponent {
         // Normalize -0 to 0 to avoid negative styling
         if (Math.abs(bal) < 0.000001) bal = 0;
 
-        const balEl = item.createDiv({ cls: "cost-account-list-balance", text: formatThousands(bal, 2) });
+        const baseCurrency = this.options.baseCurrency;
+        const isForeign = Boolean(baseCurrency && account.currency && account.currency.toUpperCase() !== baseCurrency.toUpperCase());
+
+        const balCol = item.createDiv({ cls: "cost-account-list-balance-col" });
+        const balEl = balCol.createDiv({
+            cls: "cost-account-list-balance",
+            text: isForeign ? `${formatThousands(bal, 2)} ${account.currency}` : formatThousands(bal, 2)
+        });
         if (bal >= 0) balEl.addClass("cost-balance-positive");
         else balEl.addClass("cost-balance-negative");
 
+        // 有待入账交易时，上方为预计余额，下方附带已入账余额
+        const pending = this.options.pendingChanges?.get(account.fileName) ?? 0;
+        if (pending !== 0) {
+            balEl.setAttr("aria-label", `预计余额，含待入账 ${pending > 0 ? "+" : ""}${formatThousands(pending, 2)}`);
+            balCol.createDiv({
+                cls: "cost-account-balance-cleared",
+                text: `已入账 ${formatThousands(bal - pending, 2)}`
+            });
+        }
+        const upcoming = this.options.upcomingChanges?.get(account.fileName) ?? 0;
+        if (upcoming !== 0) {
+            balCol.createDiv({
+                cls: "cost-account-balance-upcoming",
+                text: `待发生 ${upcoming > 0 ? "+" : ""}${formatThousands(upcoming, 2)}`
+            });
+        }
+
+        // 外币账户附带本位币折算值
+        const baseBal = this.options.baseBalances?.get(account.fileName);
+        if (isForeign && baseCurrency && baseBal !== undefined) {
+            balCol.createDiv({
+                cls: "cost-account-balance-converted",
+                text: `≈ ${getCurrencySymbol(baseCurrency)}${formatThousands(baseBal, 2)}`
+            });
+        }
+
         item.addEventListener("click", () => {
             this.options.onAccountClick?.(account);
         });
     }
 
+    /**
+     * 余额断言未通过时在账户名后显示警告图标
+     */
+    private renderAssertionFlag(container: HTMLElement, account: AccountInfo): void {
+        const failed = this.options.failedAssertions?.get(account.fileName);
+        if (!failed || failed.length === 0) return;
+
+        const tips = failed.map(c => `${c.assertion.date} 对账单 ${formatThousands(c.assertion.balance, 2)}，记录 ${formatThousands(c.computed, 2)}`);
+        const flag = container.createSpan({
+            cls: "cost-assertion-flag",
+            attr: { "aria-label": `余额断言不符\n${tips.join("\n")}` }
+        });
+        setIcon(flag, "alert-triangle");
+    }
+
     private renderAccountIcon(container: HTMLElement, account: AccountInfo): void {
         const icon = account.icon;
         if (icon) {
@@ -128,20 +234,10 @@ export class AccountList extends BaseComponent {
             }
         }
 
-        const icons: Record<string, string> = {
-            "bank": "🏦", "cash": "💵", "credit": "💳", "investment": "📈",
-            "wallet": "👛", "prepaid": "🎫", "other": "💰", "alipay": "🔷", "wechat": "🟢"
-        };
-        container.setText(icons[account.accountKind || "other"] || icons["other"] || "💰");
+        container.setText(resolveAccountKind(this.getAccountKinds(), account.accountKind).icon);
     }
 
-    private groupAccountsByKind(accounts: AccountInfo[]): Map<string, AccountInfo[]> {
-        const map = new Map<string, AccountInfo[]>();
-        for (const acc of accounts) {
-            const kind = acc.accountKind || "other";
-            if (!map.has(kind)) map.set(kind, []);
-            map.get(kind)!.push(acc);
-        }
-        return map;
+    private getAccountKinds(): AccountKindDefinition[] {
+        return this.options.accountKinds ?? DEFAULT_ACCOUNT_KINDS;
     }
 }
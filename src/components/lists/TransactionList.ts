@@ -1,9 +1,14 @@
-import { App, setIcon, TFile } from "obsidian";
+import { App, Menu, setIcon, TFile } from "obsidian";
 import { IconResolver } from '../../services/iconResolver';
 import { BaseComponent } from '../BaseComponent';
 import { TransactionInfo } from '../../services/transactionService';
-import { AccountInfo } from '../../types';
-import { netAmount, formatThousands } from '../../utils/format';
+import { AccountInfo, AccountKindDefinition, TxnStatus } from '../../types';
+import { DEFAULT_ACCOUNT_KINDS, resolveAccountKind } from '../../utils/accountKindUtils';
+import { INVEST_ACTION_LABELS } from '../../utils/categoryUtils';
+import { REIMBURSEMENT_STATUS_LABELS } from '../../utils/reimbursementUtils';
+import { groupRefundsByOriginal } from '../../utils/refundUtils';
+import { addTxnStatusMenuItems, TXN_STATUS_ICONS, TXN_STATUS_LABELS } from '../../utils/statusUtils';
+import { netAmount, formatThousands, getLocalDateString } from '../../utils/format';
 
 export interface TransactionListOptions {
     onTransactionClick?: (txn: TransactionInfo) => void;
@@ -17,6 +22,12 @@ export interface TransactionListOptions {
     enableHighlightAfterSave?: boolean;
     highlightDurationSeconds?: number;
     highlightColor?: string;
+    /** 账户类型定义，用于没有自定义图标的账户 */
+    accountKinds?: AccountKindDefinition[];
+    /** 全部交易，用于查找退款链；列表只显示部分交易时传入，缺省使用列表中的交易 */
+    allTransactions?: TransactionInfo[];
+    /** 切换交易状态；提供时每条交易显示可点击的状态图标 */
+    onStatusChange?: (txn: TransactionInfo, status: TxnStatus | null) => void;
 }
 
 /**
@@ -37,6 +48,12 @@ export class TransactionList extends BaseComponent {
 
     private accountMap: Map<string, AccountInfo> = new Map();
 
+    /** 原支出 uid -> 退款交易 */
+    private refundsByUid: Map<string, TransactionInfo[]> = new Map();
+
+    /** uid -> 支出，用于退款显示原支出 */
+    private expenseByUid: Map<string, TransactionInfo> = new Map();
+
     /** 每批渲染的交易条数 */
     private static readonly BATCH_SIZE = 40;
 
@@ -73,6 +90,7 @@ export class TransactionList extends BaseComponent {
         this.runningBalances = runningBalances;
         this.options = options;
         this.rebuildAccountMap();
+        this.rebuildRefundLinks();
     }
 
     public updateData(
@@ -84,6 +102,7 @@ export class TransactionList extends BaseComponent {
         this.accounts = accounts;
         this.runningBalances = runningBalances;
         this.rebuildAccountMap();
+        this.rebuildRefundLinks();
         this.update();
     }
 
@@ -292,16 +311,22 @@ export class TransactionList extends BaseComponent {
         // Header
         const header = group.createDiv({ cls: "cost-date-header" });
         header.createSpan({ cls: "cost-date-text", text: date });
+        // 未来日期的交易尚未发生，不计入今天的余额
+        if (date > getLocalDateString()) {
+            group.addClass("is-upcoming");
+            header.createSpan({ cls: "cost-date-upcoming", text: "待发生" });
+        }
 
         // Daily Summary (Income/Expense)
         let dailyIncome = 0;
         let dailyExpense = 0;
         for (const txn of transactions) {
+            if (txn.status === "void") continue;
             const isRefundContext = this.options.activeAccount && txn.refundTo === this.options.activeAccount && txn.refund > 0;
             if (isRefundContext) {
                 dailyIncome += txn.refund || 0;
             } else {
-                if (txn.txnType === '收入') dailyIncome += txn.amount;
+                if (txn.txnType === '收入' || txn.txnType === '退款') dailyIncome += txn.amount;
                 else if (txn.txnType === '支出') dailyExpense += netAmount(txn.amount, txn.refund || 0);
             }
         }
@@ -330,6 +355,8 @@ export class TransactionList extends BaseComponent {
 
         const item = container.createDiv({ cls: `cost-transaction-item cost-txn-${isRefundContext ? "收入" : txn.txnType}` });
         item.setAttribute("data-path", txn.path);
+        if (txn.status === "pending") item.addClass("is-pending");
+        if (txn.status === "void") item.addClass("is-void");
 
         if (this.options.highlightPath === txn.path && this.options.enableHighlightAfterSave !== false) {
             item.addClass("cost-txn-highlight");
@@ -373,13 +400,15 @@ export class TransactionList extends BaseComponent {
 
         // Top Row: Category | Payee | Address
         const topRow = infoEl.createDiv({ cls: "cost-txn-top-row" });
-        topRow.createSpan({ cls: "cost-txn-category", text: (txn.category || "未分类") + (isRefundContext ? " (退款)" : "") });
+        topRow.createSpan({ cls: "cost-txn-category", text: (txn.category || "未分类") + (isRefundContext || txn.txnType === "退款" ? " (退款)" : "") });
         if (txn.payee) topRow.createSpan({ cls: "cost-txn-payee", text: txn.payee });
         if (txn.address) topRow.createSpan({ cls: "cost-txn-address", text: "📍 " + txn.address });
 
         // Bottom Row: Date | Time | Account | Note | Persons
         const bottomRow = infoEl.createDiv({ cls: "cost-txn-bottom-row" });
 
+        this.renderStatus(bottomRow, txn);
+
         const timeEl = bottomRow.createSpan({ cls: "cost-txn-time-clickable" });
         timeEl.setText(txn.time || "--:--:--");
         timeEl.onclick = (e) => {
@@ -400,6 +429,28 @@ export class TransactionList extends BaseComponent {
             txn.persons.forEach(p => personsEl.createSpan({ cls: "cost-txn-person-bubble", text: "@" + p }));
         }
 
+        if (txn.shared) {
+            bottomRow.createSpan({ cls: "cost-txn-shared", text: `AA ${txn.shared.shares.length} 人 · ${txn.shared.paidBy} 付款` });
+        } else if (txn.settlement) {
+            bottomRow.createSpan({ cls: "cost-txn-shared", text: `AA 结算 ${txn.settlement.from} → ${txn.settlement.to}` });
+        }
+
+        if (txn.reimbursement) {
+            bottomRow.createSpan({
+                cls: `cost-txn-reimbursement cost-reimbursement-status-${txn.reimbursement.status}`,
+                text: `报销 · ${REIMBURSEMENT_STATUS_LABELS[txn.reimbursement.status]}`
+            });
+        }
+
+        if (txn.attachments && txn.attachments.length > 0) {
+            const clip = bottomRow.createSpan({
+                cls: "cost-txn-attachment",
+                attr: { "aria-label": `${txn.attachments.length} 个附件` }
+            });
+            setIcon(clip, "paperclip");
+            if (txn.attachments.length > 1) clip.createSpan({ text: String(txn.attachments.length) });
+        }
+
         if (txn.txnType === "还款" && txn.discount && txn.discount > 0) {
             bottomRow.createSpan({ cls: "cost-txn-discount", text: `优惠 ${txn.discount.toFixed(2)}` });
         }
@@ -410,6 +461,7 @@ export class TransactionList extends BaseComponent {
         } else if (isRefundContext) {
             bottomRow.createSpan({ cls: "cost-txn-refund", text: `来自: ${txn.from}` });
         }
+        this.renderRefundChain(bottomRow, txn);
 
         // Amount Column
         const amountCol = item.createDiv({ cls: "cost-txn-amount-col" });
@@ -419,7 +471,10 @@ export class TransactionList extends BaseComponent {
             amountEl.setText(`+${txn.refund?.toFixed(2)}`);
             amountEl.addClass("cost-amount-收入");
         } else {
-            const prefix = (txn.txnType === "收入" || txn.txnType === "借款") ? "+" : (txn.txnType === "支出" ? "-" : "");
+            const investIn = txn.txnType === "投资" && (txn.investAction === "sell" || txn.investAction === "dividend");
+            const prefix = (txn.txnType === "收入" || txn.txnType === "借款" || txn.txnType === "收回" || txn.txnType === "退款" || investIn)
+                ? "+"
+                : (txn.txnType === "支出" || txn.txnType === "借出" || txn.txnType === "投资" ? "-" : "");
             if (txn.txnType === "支出" && txn.refund > 0) {
                 const net = netAmount(txn.amount, txn.refund);
                 amountEl.setText(`${prefix}${net.toFixed(2)}`);
@@ -461,6 +516,29 @@ export class TransactionList extends BaseComponent {
         });
     }
 
+    /**
+     * 交易状态图标：已核对、待入账、已作废；可切换时未标记的交易显示空心圆
+     */
+    private renderStatus(container: HTMLElement, txn: TransactionInfo): void {
+        const onChange = this.options.onStatusChange;
+        if (!txn.status && !onChange) return;
+
+        const el = container.createSpan({
+            cls: `cost-txn-status cost-txn-status-${txn.status ?? "none"}`,
+            attr: { "aria-label": txn.status ? TXN_STATUS_LABELS[txn.status] : "已入账（未核对）" }
+        });
+        setIcon(el, txn.status ? TXN_STATUS_ICONS[txn.status] : "circle");
+        if (!onChange) return;
+
+        el.addClass("is-clickable");
+        el.addEventListener("click", (e) => {
+            e.stopPropagation();
+            const menu = new Menu();
+            addTxnStatusMenuItems(menu, txn.status, status => onChange(txn, status));
+            menu.showAtMouseEvent(e);
+        });
+    }
+
     // ───────── 账户图标 & 气泡 ─────────
 
     private renderAccountIcon(container: HTMLElement, account: AccountInfo): void {
@@ -490,13 +568,7 @@ export class TransactionList extends BaseComponent {
             }
         }
 
-        const icons: Record<string, string> = {
-            "bank": "🏦", "cash": "💵", "credit": "💳",
-            "investment": "📈", "wallet": "👛", "prepaid": "🎫",
-            "other": "💰", "alipay": "🔷", "wechat": "🟢"
-        };
-        const kind = account.accountKind || "other";
-        iconSpan.setText(icons[kind] || icons["other"] || "💰");
+        iconSpan.setText(resolveAccountKind(this.options.accountKinds ?? DEFAULT_ACCOUNT_KINDS, account.accountKind).icon);
     }
 
     private renderAccountBubble(container: HTMLElement, txn: TransactionInfo): void {
@@ -534,6 +606,27 @@ export class TransactionList extends BaseComponent {
                 bubble.createSpan({ text: " → " });
             }
             if (txn.to) renderItem(txn.to, 'to');
+        } else if (txn.txnType === "借出") {
+            // 借出账户（from） → 借款人（payee）
+            if (txn.from) renderItem(txn.from, 'from');
+            if (txn.payee) {
+                bubble.createSpan({ text: " → " });
+                bubble.createSpan({ cls: "cost-txn-lender", text: txn.payee });
+            }
+        } else if (txn.txnType === "收回") {
+            if (txn.payee) {
+                bubble.createSpan({ cls: "cost-txn-lender", text: txn.payee });
+                bubble.createSpan({ text: " → " });
+            }
+            if (txn.to) renderItem(txn.to, 'to');
+        } else if (txn.txnType === "投资") {
+            // 资金账户（from） → 持仓账户（to），后接动作与成交明细
+            if (txn.from) renderItem(txn.from, 'from');
+            if (txn.from && txn.to && txn.from !== txn.to) bubble.createSpan({ text: " → " });
+            if (txn.to && txn.to !== txn.from) renderItem(txn.to, 'to');
+            const action = txn.investAction ? INVEST_ACTION_LABELS[txn.investAction] : "";
+            const trade = txn.quantity ? ` ${txn.quantity}@${txn.price ?? ""}` : "";
+            bubble.createSpan({ cls: "cost-txn-invest", text: ` ${action} ${txn.security ?? ""}${trade}` });
         } else {
             const name = txn.from || txn.to;
             const field = txn.from ? 'from' : 'to';
@@ -541,6 +634,56 @@ export class TransactionList extends BaseComponent {
         }
     }
 
+    // ───────── 退款链 ─────────
+
+    private rebuildRefundLinks(): void {
+        const all = this.options.allTransactions ?? this.transactions;
+        this.refundsByUid = groupRefundsByOriginal(all);
+        this.expenseByUid = new Map(all.filter(t => t.txnType === "支出" && t.uid).map(t => [t.uid, t]));
+    }
+
+    /**
+     * 退款显示所属的原支出，支出显示已登记的退款，点击跳转到对应交易
+     */
+    private renderRefundChain(container: HTMLElement, txn: TransactionInfo): void {
+        if (txn.txnType === "退款" && txn.refundOf) {
+            const original = this.expenseByUid.get(txn.refundOf);
+            const el = container.createSpan({
+                cls: "cost-txn-refund cost-txn-refund-link",
+                text: original
+                    ? `退款自 ${original.payee || original.category || "支出"} ${original.date}`
+                    : "原支出已删除"
+            });
+            if (original) {
+                el.onclick = (e) => {
+                    e.stopPropagation();
+                    this.options.onTransactionClick?.(original);
+                };
+            }
+            return;
+        }
+
+        const refunds = txn.txnType === "支出" && txn.uid ? this.refundsByUid.get(txn.uid) : undefined;
+        if (!refunds || refunds.length === 0) return;
+        const total = refunds.reduce((sum, r) => sum + r.amount, 0);
+        const el = container.createSpan({
+            cls: "cost-txn-refund cost-txn-refund-link",
+            text: `已退款 ${formatThousands(total, 2)}${refunds.length > 1 ? `（${refunds.length} 笔）` : ""}`
+        });
+        el.setAttr("aria-label", refunds.map(r => `${r.date} ${formatThousands(r.amount, 2)}`).join("\n"));
+        el.onclick = (e) => {
+            e.stopPropagation();
+            const menu = new Menu();
+            for (const r of refunds) {
+                menu.addItem(item => item
+                    .setTitle(`${r.date} 退款 ${formatThousands(r.amount, 2)}${r.to ? ` → ${r.to}` : ""}`)
+                    .setIcon("undo-2")
+                    .onClick(() => this.options.onTransactionClick?.(r)));
+            }
+            menu.showAtMouseEvent(e);
+        };
+    }
+
     // ───────── 分类图标映射 ─────────
 
     private getCategoryIcon(category: string, txnType: string): string {
@@ -549,8 +692,10 @@ export class TransactionList extends BaseComponent {
             (txnType === "转账" ? "arrow-right-left" :
                 (txnType === "还款" ? "credit-card" :
                     (txnType === "收入" ? "banknote" :
-                        (txnType === "借款" ? "hand-coins" :
-                            "circle-dollar-sign"))));
+                        (txnType === "借款" || txnType === "借出" || txnType === "收回" ? "hand-coins" :
+                            (txnType === "投资" ? "trending-up" :
+                                (txnType === "退款" ? "undo-2" :
+                                    "circle-dollar-sign"))))));
     }
 
     private static CATEGORY_ICONS: Record<string, string> = {
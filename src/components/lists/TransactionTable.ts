@@ -1,7 +1,9 @@
-import { setIcon, TFile } from "obsidian";
+import { Menu, setIcon, TFile } from "obsidian";
 import { BaseComponent } from "../BaseComponent";
 import { TransactionInfo } from "../../services/transactionService";
-import { formatCompact, formatThousands, netAmount } from "../../utils/format";
+import { TxnStatus } from "../../types";
+import { formatCompact, formatThousands, getLocalDateString, netAmount } from "../../utils/format";
+import { addTxnStatusMenuItems, TXN_STATUS_ICONS, TXN_STATUS_LABELS } from "../../utils/statusUtils";
 
 export interface TransactionTableOptions {
     onSelectionChange?: (selected: Set<string>) => void;
@@ -11,6 +13,8 @@ export interface TransactionTableOptions {
     enableHighlightAfterSave?: boolean;
     highlightDurationSeconds?: number;
     highlightColor?: string;
+    /** 切换交易状态 */
+    onStatusChange?: (txn: TransactionInfo, status: TxnStatus | null) => void;
 }
 
 export class TransactionTable extends BaseComponent {
@@ -159,6 +163,7 @@ export class TransactionTable extends BaseComponent {
         };
 
         headerRow.createEl("th", { text: "日期" });
+        headerRow.createEl("th", { text: "状态" });
         headerRow.createEl("th", { text: "类型" });
         headerRow.createEl("th", { text: "分类" });
 
@@ -182,13 +187,17 @@ export class TransactionTable extends BaseComponent {
         // Check if empty
         if (this.transactions.length === 0) {
             const emptyRow = tbody.createEl("tr");
-            const cell = emptyRow.createEl("td", { attr: { colspan: 8 } });
+            const cell = emptyRow.createEl("td", { attr: { colspan: 9 } });
             cell.createDiv({ cls: "cost-empty-message", text: "暂无符合条件的交易" });
             return;
         }
 
+        const today = getLocalDateString();
         this.transactions.forEach(txn => {
             const row = tbody.createEl("tr");
+            if (txn.date > today) row.addClass("is-upcoming");
+            if (txn.status === "pending") row.addClass("is-pending");
+            if (txn.status === "void") row.addClass("is-void");
             if (this.options.highlightPath === txn.path && this.options.enableHighlightAfterSave !== false) {
                 row.addClass("cost-txn-highlight");
                 const duration = this.options.highlightDurationSeconds || 10;
@@ -213,7 +222,11 @@ export class TransactionTable extends BaseComponent {
             const isRefundContext = this.options.activeAccount && txn.refundTo === this.options.activeAccount && txn.refund > 0;
 
             // Date
-            row.createEl("td", { text: txn.date || "-" });
+            const dateCell = row.createEl("td", { text: txn.date || "-" });
+            if (txn.date > today) dateCell.createSpan({ cls: "cost-date-upcoming", text: "待发生" });
+
+            // Status
+            this.renderStatusCell(row.createEl("td", { cls: "cost-table-status" }), txn);
 
             // Type
             const typeCell = row.createEl("td");
@@ -221,13 +234,21 @@ export class TransactionTable extends BaseComponent {
                 typeCell.createSpan({ cls: "cost-tag is-income", text: "退款" });
             } else {
                 typeCell.createSpan({
-                    cls: `cost-tag ${txn.txnType === "支出" ? "is-expense" : (txn.txnType === "收入" ? "is-income" : "is-transfer")}`,
+                    cls: `cost-tag ${txn.txnType === "支出" ? "is-expense" : (txn.txnType === "收入" || txn.txnType === "退款" ? "is-income" : "is-transfer")}`,
                     text: txn.txnType
                 });
             }
 
             // Category
-            this.renderHighlighted(row.createEl("td"), txn.category || "");
+            const categoryCell = row.createEl("td");
+            this.renderHighlighted(categoryCell, txn.category || "");
+            if (txn.attachments && txn.attachments.length > 0) {
+                const clip = categoryCell.createSpan({
+                    cls: "cost-txn-attachment",
+                    attr: { "aria-label": `${txn.attachments.length} 个附件` }
+                });
+                setIcon(clip, "paperclip");
+            }
 
             // Amount
             const amtCell = row.createEl("td", { cls: "cost-table-amount" });
@@ -253,7 +274,7 @@ export class TransactionTable extends BaseComponent {
                 amtCell.addClass("cost-text-green");
             } else {
                 if (txn.txnType === "支出") amtCell.addClass("cost-text-red");
-                else if (txn.txnType === "收入") amtCell.addClass("cost-text-green");
+                else if (txn.txnType === "收入" || txn.txnType === "退款") amtCell.addClass("cost-text-green");
             }
 
             // Account
@@ -304,6 +325,25 @@ export class TransactionTable extends BaseComponent {
         });
     }
 
+    private renderStatusCell(cell: HTMLElement, txn: TransactionInfo): void {
+        const status = txn.status;
+        const pill = cell.createSpan({
+            cls: `cost-txn-status cost-txn-status-${status ?? "none"}`,
+            attr: { "aria-label": status ? TXN_STATUS_LABELS[status] : "已入账（未核对）" }
+        });
+        setIcon(pill, status ? TXN_STATUS_ICONS[status] : "circle");
+        const onChange = this.options.onStatusChange;
+        if (!onChange) return;
+
+        pill.addClass("is-clickable");
+        pill.onclick = (e) => {
+            e.stopPropagation();
+            const menu = new Menu();
+            addTxnStatusMenuItems(menu, status, next => onChange(txn, next));
+            menu.showAtMouseEvent(e);
+        };
+    }
+
     private toggleSelectAll(checked: boolean) {
         this.selectAllState = checked;
         if (checked) {
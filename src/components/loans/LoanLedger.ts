@@ -1,80 +1,123 @@
 import { setIcon } from "obsidian";
 import { BaseComponent } from "../BaseComponent";
 import { TransactionInfo } from "../../services/transactionService";
-import { formatThousands } from "../../utils/format";
-
-export interface LenderSummary {
-    lender: string;
-    borrowed: number;
-    repaid: number;
-    outstanding: number;
-    borrowTxns: TransactionInfo[];
-    repayTxns: TransactionInfo[];
+import { LoanDirection, LoanSummary } from "../../services/loanService";
+import { formatThousands, getCurrencySymbol, getLocalDateString } from "../../utils/format";
+import { AmortizationSchedule } from "../../utils/amortizationUtils";
+
+export interface LoanLedgerOptions {
+    /** 本位币，用于汇总行 */
+    baseCurrency: string;
+    /** 把借贷金额换算为本位币 */
+    toBase: (amount: number, loan: TransactionInfo) => number;
+    onTxnClick?: (txn: TransactionInfo) => void;
+    /** 为未结清的借贷登记一笔还款 / 收回 */
+    onSettle?: (loan: LoanSummary) => void;
 }
 
+const METHOD_LABELS: Record<string, string> = {
+    equal_installment: "等额本息",
+    equal_principal: "等额本金",
+};
+
+const COLUMN_LABELS: Record<LoanDirection, { title: string; principal: string; settled: string; outstanding: string; settle: string; empty: string }> = {
+    payable: { title: "应付（借入）", principal: "借入", settled: "已还", outstanding: "待还", settle: "还款", empty: "暂无借入记录" },
+    receivable: { title: "应收（借出）", principal: "借出", settled: "已收回", outstanding: "待收", settle: "收回", empty: "暂无借出记录" },
+};
+
 /**
  * 借贷明细组件
- * 按出借人汇总借款与还款，显示待还余额和逐笔明细。
+ * 应付与应收并排显示，每笔借贷单独一张卡片，展示部分结算后的剩余金额和逐笔明细。
  */
 export class LoanLedger extends BaseComponent {
-    private transactions: TransactionInfo[];
-    private onTxnClick?: (txn: TransactionInfo) => void;
+    private loans: LoanSummary[];
+    private options: LoanLedgerOptions;
 
-    /** 已展开的出借人 */
+    /** 已展开的借贷（按交易路径） */
     private expanded: Set<string> = new Set();
 
-    constructor(
-        containerEl: HTMLElement,
-        transactions: TransactionInfo[],
-        onTxnClick?: (txn: TransactionInfo) => void
-    ) {
+    constructor(containerEl: HTMLElement, loans: LoanSummary[], options: LoanLedgerOptions) {
         super(containerEl);
-        this.transactions = transactions;
-        this.onTxnClick = onTxnClick;
+        this.loans = loans;
+        this.options = options;
     }
 
     protected render(): void {
-        const summaries = this.buildSummaries();
-
-        if (summaries.length === 0) {
+        if (this.loans.length === 0) {
             this.containerEl.createDiv({
                 cls: "cost-empty-message",
-                text: "暂无借贷记录。新建交易时选择「借款」类型即可开始记录。"
+                text: "暂无借贷记录。新建交易时选择「借款」或「借出」类型即可开始记录。"
             });
             return;
         }
 
-        // 汇总行：总借入、总待还
-        const totalBorrowed = summaries.reduce((s, l) => s + l.borrowed, 0);
-        const totalOutstanding = summaries.reduce((s, l) => s + l.outstanding, 0);
+        const payables = this.loans.filter(l => l.direction === "payable");
+        const receivables = this.loans.filter(l => l.direction === "receivable");
+        const totalPayable = this.sumOutstanding(payables);
+        const totalReceivable = this.sumOutstanding(receivables);
+        const net = totalReceivable - totalPayable;
 
+        // 汇总行：待还、待收、净额
         const overview = this.containerEl.createDiv({ cls: "cost-loan-overview" });
-        this.renderStat(overview, "总借入", totalBorrowed, "cost-loan-stat-borrowed");
-        this.renderStat(overview, "待还合计", totalOutstanding,
-            totalOutstanding > 0 ? "cost-loan-stat-outstanding" : "cost-loan-stat-clear");
-
-        // 各出借人卡片
-        const listEl = this.containerEl.createDiv({ cls: "cost-loan-list" });
+        this.renderStat(overview, "待还合计", totalPayable,
+            totalPayable > 0 ? "cost-loan-stat-outstanding" : "cost-loan-stat-clear");
+        this.renderStat(overview, "待收合计", totalReceivable,
+            totalReceivable > 0 ? "cost-loan-stat-receivable" : "cost-loan-stat-clear");
+        this.renderStat(overview, "净额", net,
+            net < 0 ? "cost-loan-stat-outstanding" : "cost-loan-stat-clear");
+
+        const columns = this.containerEl.createDiv({ cls: "cost-loan-columns" });
+        this.renderColumn(columns, "payable", payables, totalPayable);
+        this.renderColumn(columns, "receivable", receivables, totalReceivable);
+    }
 
-        // 待还 > 0 排前面，已结清排后
-        const sorted = [...summaries].sort((a, b) => {
-            if (a.outstanding > 0 && b.outstanding <= 0) return -1;
-            if (a.outstanding <= 0 && b.outstanding > 0) return 1;
-            return b.outstanding - a.outstanding;
-        });
+    private sumOutstanding(loans: LoanSummary[]): number {
+        return loans.reduce((s, l) => s + this.options.toBase(l.outstanding, l.loan), 0);
+    }
 
-        for (const summary of sorted) {
-            this.renderLenderCard(listEl, summary);
-        }
+    private formatAmount(amount: number, currency: string): string {
+        const sign = amount < 0 ? "-" : "";
+        return `${sign}${getCurrencySymbol(currency)}${formatThousands(Math.abs(amount), 2)}`;
     }
 
     private renderStat(container: HTMLElement, label: string, amount: number, cls: string): void {
         const stat = container.createDiv({ cls: `cost-loan-stat ${cls}` });
         stat.createDiv({ cls: "cost-loan-stat-label", text: label });
-        stat.createDiv({ cls: "cost-loan-stat-value", text: `¥${formatThousands(amount, 2)}` });
+        stat.createDiv({ cls: "cost-loan-stat-value", text: this.formatAmount(amount, this.options.baseCurrency) });
+    }
+
+    private renderColumn(container: HTMLElement, direction: LoanDirection, loans: LoanSummary[], total: number): void {
+        const labels = COLUMN_LABELS[direction];
+        const column = container.createDiv({ cls: `cost-loan-column cost-loan-column-${direction}` });
+        const header = column.createDiv({ cls: "cost-loan-column-header" });
+        header.createSpan({ cls: "cost-loan-column-title", text: labels.title });
+        header.createSpan({
+            cls: "cost-loan-column-total",
+            text: `${labels.outstanding} ${this.formatAmount(total, this.options.baseCurrency)}`
+        });
+
+        const listEl = column.createDiv({ cls: "cost-loan-list" });
+        if (loans.length === 0) {
+            listEl.createDiv({ cls: "cost-empty-message", text: labels.empty });
+            return;
+        }
+
+        // 未结清的排前面，各组内按日期倒序
+        const sorted = [...loans].sort((a, b) => {
+            if (a.outstanding > 0 && b.outstanding <= 0) return -1;
+            if (a.outstanding <= 0 && b.outstanding > 0) return 1;
+            return b.loan.date.localeCompare(a.loan.date);
+        });
+
+        for (const loan of sorted) {
+            this.renderLoanCard(listEl, loan);
+        }
     }
 
-    private renderLenderCard(container: HTMLElement, s: LenderSummary): void {
+    private renderLoanCard(container: HTMLElement, s: LoanSummary): void {
+        const labels = COLUMN_LABELS[s.direction];
+        const currency = s.loan.currency;
+        const key = s.loan.path;
         const isSettled = s.outstanding <= 0;
         const card = container.createDiv({
             cls: `cost-loan-card ${isSettled ? "cost-loan-card-settled" : ""}`
@@ -85,43 +128,70 @@ export class LoanLedger extends BaseComponent {
 
         const left = header.createDiv({ cls: "cost-loan-card-left" });
         const nameRow = left.createDiv({ cls: "cost-loan-card-name-row" });
-        nameRow.createSpan({ cls: "cost-loan-card-name", text: s.lender || "（未知出借人）" });
+        nameRow.createSpan({
+            cls: "cost-loan-card-name",
+            text: s.counterparty || (s.direction === "payable" ? "（未知出借人）" : "（未知借款人）")
+        });
+        nameRow.createSpan({ cls: "cost-loan-card-date", text: s.loan.date });
         if (isSettled) {
             nameRow.createSpan({ cls: "cost-loan-badge-settled", text: "已结清" });
         }
 
         const statsRow = left.createDiv({ cls: "cost-loan-card-stats-row" });
-        statsRow.createSpan({ cls: "cost-loan-mini-stat", text: `借入 ¥${formatThousands(s.borrowed, 2)}` });
+        statsRow.createSpan({ cls: "cost-loan-mini-stat", text: `${labels.principal} ${this.formatAmount(s.principal, currency)}` });
         statsRow.createSpan({ cls: "cost-loan-mini-sep", text: "·" });
-        statsRow.createSpan({ cls: "cost-loan-mini-stat", text: `已还 ¥${formatThousands(s.repaid, 2)}` });
+        statsRow.createSpan({ cls: "cost-loan-mini-stat", text: `${labels.settled} ${this.formatAmount(s.settled, currency)}` });
+        if (s.schedule) {
+            statsRow.createSpan({ cls: "cost-loan-mini-sep", text: "·" });
+            statsRow.createSpan({ cls: "cost-loan-mini-stat", text: `利息 ${this.formatAmount(s.interestPaid, currency)}` });
+            this.renderPlanRow(left, s, s.schedule);
+        }
+
+        if (s.principal > 0 && s.settled > 0 && !isSettled) {
+            const bar = left.createDiv({ cls: "cost-loan-progress" });
+            const fill = bar.createDiv({ cls: "cost-loan-progress-fill" });
+            fill.style.width = `${Math.min(100, s.settled / s.principal * 100)}%`;
+        }
 
         const right = header.createDiv({ cls: "cost-loan-card-right" });
-        const outstandingEl = right.createDiv({
-            cls: `cost-loan-outstanding ${isSettled ? "cost-loan-outstanding-zero" : ""}`,
-            text: isSettled ? "¥0.00" : `¥${formatThousands(s.outstanding, 2)}`
+        right.createDiv({
+            cls: `cost-loan-outstanding ${isSettled ? "cost-loan-outstanding-zero" : `cost-loan-outstanding-${s.direction}`}`,
+            text: this.formatAmount(isSettled ? 0 : s.outstanding, currency)
         });
         if (!isSettled) {
-            right.createDiv({ cls: "cost-loan-outstanding-label", text: "待还" });
+            right.createDiv({ cls: "cost-loan-outstanding-label", text: s.schedule ? "剩余本金" : labels.outstanding });
+        }
+
+        if (!isSettled && this.options.onSettle) {
+            const settleBtn = header.createEl("button", {
+                cls: "cost-loan-settle-btn",
+                text: labels.settle,
+                attr: { type: "button", "aria-label": `登记${labels.settle}` }
+            });
+            settleBtn.addEventListener("click", (e) => {
+                e.stopPropagation();
+                this.options.onSettle?.(s);
+            });
         }
 
         const chevron = header.createDiv({ cls: "cost-loan-chevron" });
-        setIcon(chevron, this.expanded.has(s.lender) ? "chevron-up" : "chevron-down");
+        setIcon(chevron, this.expanded.has(key) ? "chevron-up" : "chevron-down");
 
         // 明细区
         const detail = card.createDiv({ cls: "cost-loan-detail" });
-        if (!this.expanded.has(s.lender)) {
+        if (!this.expanded.has(key)) {
             detail.style.display = "none";
         } else {
             this.renderDetail(detail, s);
         }
 
         header.addEventListener("click", () => {
-            if (this.expanded.has(s.lender)) {
-                this.expanded.delete(s.lender);
+            if (this.expanded.has(key)) {
+                this.expanded.delete(key);
                 detail.style.display = "none";
                 setIcon(chevron, "chevron-down");
             } else {
-                this.expanded.add(s.lender);
+                this.expanded.add(key);
                 detail.style.display = "block";
                 detail.empty();
                 this.renderDetail(detail, s);
@@ -130,81 +200,103 @@ export class LoanLedger extends BaseComponent {
         });
     }
 
-    private renderDetail(container: HTMLElement, s: LenderSummary): void {
-        const allTxns = [
-            ...s.borrowTxns.map(t => ({ txn: t, kind: "借款" as const })),
-            ...s.repayTxns.map(t => ({ txn: t, kind: "还款" as const })),
-        ].sort((a, b) => {
-            const d = a.txn.date.localeCompare(b.txn.date);
-            return d !== 0 ? d : (a.txn.time || "").localeCompare(b.txn.time || "");
-        });
+    private renderDetail(container: HTMLElement, s: LoanSummary): void {
+        const isPayable = s.direction === "payable";
+        const rows = [s.loan, ...s.settlements];
 
-        for (const { txn, kind } of allTxns) {
+        for (const txn of rows) {
             const row = container.createDiv({ cls: "cost-loan-detail-row" });
 
-            const isBorrow = kind === "借款";
+            const isLoan = txn === s.loan;
             row.createDiv({ cls: "cost-loan-detail-date", text: txn.date });
             row.createDiv({
-                cls: `cost-loan-detail-kind ${isBorrow ? "cost-loan-kind-borrow" : "cost-loan-kind-repay"}`,
-                text: kind
+                cls: `cost-loan-detail-kind ${isLoan ? "cost-loan-kind-borrow" : "cost-loan-kind-repay"}`,
+                text: txn.txnType
             });
 
-            const accountName = isBorrow ? (txn.to || "—") : (txn.from || "—");
+            // 资金流动的我方账户：借入 / 收回进入 to，借出 / 还款从 from 流出
+            const inbound = isLoan === isPayable;
+            const accountName = inbound ? (txn.to || "—") : (txn.from || "—");
             row.createDiv({ cls: "cost-loan-detail-account", text: accountName });
 
-            if (txn.memo || txn.note) {
-                row.createDiv({ cls: "cost-loan-detail-memo", text: txn.memo || txn.note });
+            const interest = isLoan ? undefined : s.schedule?.interestByPath.get(txn.path);
+            const memoText = interest !== undefined
+                ? `本金 ${formatThousands(txn.amount - interest, 2)} · 利息 ${formatThousands(interest, 2)}`
+                : (txn.memo || txn.note);
+            const memo = row.createDiv({ cls: "cost-loan-detail-memo", text: memoText });
+            if (s.legacySettlements.includes(txn)) {
+                memo.createSpan({
+                    cls: "cost-loan-legacy-tag",
+                    text: "按商家匹配",
+                    attr: { "aria-label": "该笔结算未关联借贷 uid，打开交易选择所结算的借贷即可固定关联" }
+                });
             }
 
-            const amountEl = row.createDiv({
-                cls: `cost-loan-detail-amount ${isBorrow ? "cost-loan-amount-borrow" : "cost-loan-amount-repay"}`,
-                text: `${isBorrow ? "+" : "-"}¥${formatThousands(txn.amount, 2)}`
+            row.createDiv({
+                cls: `cost-loan-detail-amount ${isLoan ? "cost-loan-amount-borrow" : "cost-loan-amount-repay"}`,
+                text: `${inbound ? "+" : "-"}${this.formatAmount(txn.amount, txn.currency)}`
             });
 
-            row.addEventListener("click", () => this.onTxnClick?.(txn));
+            row.addEventListener("click", () => this.options.onTxnClick?.(txn));
             row.addClass("cost-loan-detail-row-clickable");
         }
-    }
-
-    // ─── 数据汇总 ───
 
-    private buildSummaries(): LenderSummary[] {
-        const lenderMap = new Map<string, LenderSummary>();
+        if (s.schedule) {
+            this.renderSchedule(container, s, s.schedule);
+        }
+    }
 
-        const getOrCreate = (lender: string): LenderSummary => {
-            if (!lenderMap.has(lender)) {
-                lenderMap.set(lender, {
-                    lender,
-                    borrowed: 0,
-                    repaid: 0,
-                    outstanding: 0,
-                    borrowTxns: [],
-                    repayTxns: [],
-                });
-            }
-            return lenderMap.get(lender)!;
-        };
-
-        for (const txn of this.transactions) {
-            const lender = txn.payee?.trim() || "";
-
-            if (txn.txnType === "借款") {
-                const s = getOrCreate(lender);
-                s.borrowed += txn.amount;
-                s.borrowTxns.push(txn);
-            } else if (txn.txnType === "还款" && lender && lenderMap.has(lender)) {
-                // 只关联已有借款人的还款
-                const s = lenderMap.get(lender)!;
-                s.repaid += txn.amount;
-                s.repayTxns.push(txn);
-            }
+    /**
+     * 贷款计划概要：还款方式、利率、剩余期数、结清日期与下期月供
+     */
+    private renderPlanRow(container: HTMLElement, s: LoanSummary, schedule: AmortizationSchedule): void {
+        const plan = s.loan.amortization;
+        if (!plan) return;
+        const parts = [`${METHOD_LABELS[plan.method] ?? ""} ${plan.rate}%`];
+        if (s.outstanding > 0) {
+            parts.push(`剩余 ${schedule.remainingPeriods} 期`, `预计 ${schedule.payoffDate} 结清`);
+            const next = schedule.nextPayment;
+            if (next) parts.push(`下期 ${next.dueDate} ${this.formatAmount(next.payment, s.loan.currency)}`);
         }
+        container.createDiv({ cls: "cost-loan-plan-row", text: parts.join(" · ") });
+    }
 
-        for (const s of lenderMap.values()) {
-            s.outstanding = Math.max(0, s.borrowed - s.repaid);
+    /**
+     * 完整还款计划表：已还期为实际还款拆分，未还期按剩余本金推算
+     */
+    private renderSchedule(container: HTMLElement, s: LoanSummary, schedule: AmortizationSchedule): void {
+        const today = getLocalDateString();
+        const section = container.createDiv({ cls: "cost-loan-schedule" });
+        section.createDiv({ cls: "cost-loan-schedule-title", text: "还款计划" });
+
+        const table = section.createEl("table", { cls: "cost-loan-schedule-table" });
+        const headRow = table.createEl("thead").createEl("tr");
+        for (const label of ["期数", "还款日", "月供", "本金", "利息", "剩余本金", "状态"]) {
+            headRow.createEl("th", { text: label });
         }
 
-        return Array.from(lenderMap.values());
+        const tbody = table.createEl("tbody");
+        for (const row of schedule.rows) {
+            const tr = tbody.createEl("tr");
+            if (row.paid) tr.addClass("is-paid");
+            tr.createEl("td", { text: String(row.index) });
+            tr.createEl("td", { text: row.dueDate });
+            tr.createEl("td", { text: formatThousands(row.payment, 2) });
+            tr.createEl("td", { text: formatThousands(row.principal, 2) });
+            tr.createEl("td", { text: formatThousands(row.interest, 2) });
+            tr.createEl("td", { text: formatThousands(row.remaining, 2) });
+
+            let status = "待还";
+            if (row.paid) status = row.prepaid > 0 ? `已还（提前 ${formatThousands(row.prepaid, 2)}）` : "已还";
+            else if (row.dueDate < today) status = "逾期";
+            const statusEl = tr.createEl("td", { text: status });
+            if (!row.paid && row.dueDate < today) statusEl.addClass("cost-loan-schedule-overdue");
+
+            if (row.payments.length > 0) {
+                tr.addClass("cost-loan-detail-row-clickable");
+                const first = row.payments[0];
+                tr.addEventListener("click", () => { if (first) this.options.onTxnClick?.(first); });
+            }
+        }
     }
 }
-
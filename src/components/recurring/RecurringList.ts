@@ -0,0 +1,119 @@
+import { setIcon } from "obsidian";
+import { BaseComponent } from "../BaseComponent";
+import { RecurringInfo } from "../../services/recurringService";
+import { formatThousands, getCurrencySymbol } from "../../utils/format";
+
+export interface RecurringListOptions {
+    /** 计算下一次发生日期 */
+    getNextOccurrence: (template: RecurringInfo) => string | null;
+    onTogglePause: (template: RecurringInfo) => Promise<void>;
+    onEdit: (template: RecurringInfo) => void;
+    onSkipNext: (template: RecurringInfo) => Promise<void>;
+    onOpenFile: (template: RecurringInfo) => void;
+    /** 本位币（模板未指定币种时使用） */
+    baseCurrency?: string;
+}
+
+const WEEKDAY_NAMES = ["日", "一", "二", "三", "四", "五", "六"];
+
+/**
+ * 周期交易模板列表
+ * 显示每个模板的规则、金额与下一次发生日期，并提供暂停、编辑、跳过操作。
+ */
+export class RecurringList extends BaseComponent {
+    private templates: RecurringInfo[];
+    private options: RecurringListOptions;
+
+    constructor(containerEl: HTMLElement, templates: RecurringInfo[], options: RecurringListOptions) {
+        super(containerEl);
+        this.templates = templates;
+        this.options = options;
+    }
+
+    protected render(): void {
+        if (this.templates.length === 0) {
+            this.containerEl.createDiv({
+                cls: "cost-empty-message",
+                text: "暂无周期交易模板。点击右上角「新建模板」添加房租、订阅、工资等固定收支。"
+            });
+            return;
+        }
+
+        const listEl = this.containerEl.createDiv({ cls: "cost-recurring-list" });
+        for (const template of this.templates) {
+            this.renderCard(listEl, template);
+        }
+    }
+
+    private renderCard(container: HTMLElement, t: RecurringInfo): void {
+        const next = this.options.getNextOccurrence(t);
+        const card = container.createDiv({ cls: "cost-recurring-card" });
+        if (t.paused || !next) card.addClass("is-inactive");
+
+        // 左侧：名称 + 规则
+        const left = card.createDiv({ cls: "cost-recurring-card-left" });
+        const nameRow = left.createDiv({ cls: "cost-recurring-name-row" });
+        nameRow.createSpan({ cls: "cost-recurring-name", text: t.name });
+        nameRow.createSpan({ cls: `cost-recurring-type cost-recurring-type-${t.txnType}`, text: t.txnType });
+        if (t.paused) {
+            nameRow.createSpan({ cls: "cost-recurring-badge", text: "已暂停" });
+        } else if (!next) {
+            nameRow.createSpan({ cls: "cost-recurring-badge", text: "已结束" });
+        }
+
+        const metaParts = [this.describeRule(t)];
+        if (t.category) metaParts.push(t.category);
+        const account = t.txnType === "收入" ? t.to : t.from;
+        if (account) metaParts.push(account);
+        if (t.endDate) metaParts.push(`至 ${t.endDate}`);
+        left.createDiv({ cls: "cost-recurring-meta", text: metaParts.join(" · ") });
+
+        // 右侧：金额 + 下次日期
+        const right = card.createDiv({ cls: "cost-recurring-card-right" });
+        const symbol = getCurrencySymbol(t.currency || this.options.baseCurrency || "CNY");
+        right.createDiv({ cls: "cost-recurring-amount", text: `${symbol}${formatThousands(t.amount, 2)}` });
+        right.createDiv({
+            cls: "cost-recurring-next",
+            text: next && !t.paused ? `下次 ${next}` : "—"
+        });
+
+        // 操作按钮
+        const actions = card.createDiv({ cls: "cost-recurring-actions" });
+        this.createAction(actions, t.paused ? "play" : "pause", t.paused ? "恢复" : "暂停", () => { void this.options.onTogglePause(t); });
+        this.createAction(actions, "pencil", "编辑", () => this.options.onEdit(t));
+        const skipBtn = this.createAction(actions, "skip-forward", next ? `跳过 ${next}` : "跳过下次", () => { void this.options.onSkipNext(t); });
+        if (!next || t.paused) skipBtn.disabled = true;
+        this.createAction(actions, "file-text", "打开源文件", () => this.options.onOpenFile(t));
+    }
+
+    private createAction(container: HTMLElement, icon: string, label: string, onClick: () => void): HTMLButtonElement {
+        const btn = container.createEl("button", {
+            cls: "clickable-icon cost-recurring-action",
+            attr: { "aria-label": label, type: "button" }
+        });
+        setIcon(btn, icon);
+        btn.addEventListener("click", (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        return btn;
+    }
+
+    private describeRule(t: RecurringInfo): string {
+        switch (t.rule) {
+            case "daily":
+                return "每天";
+            case "weekly": {
+                const [y, m, d] = t.startDate.split("-").map(Number) as [number, number, number];
+                return `每周${WEEKDAY_NAMES[new Date(y, m - 1, d).getDay()] ?? ""}`;
+            }
+            case "yearly":
+                return `每年 ${t.startDate.slice(5)}`;
+            case "every_n_months":
+                return `每 ${t.interval} 个月 ${t.day} 日`;
+            case "monthly":
+            default:
+                return `每月 ${t.day} 日`;
+        }
+    }
+}
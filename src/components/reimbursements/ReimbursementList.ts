@@ -0,0 +1,174 @@
+import { Menu } from "obsidian";
+import { BaseComponent } from "../BaseComponent";
+import { TransactionInfo } from "../../services/transactionService";
+import { ReimbursementSummary } from "../../services/reimbursementService";
+import { ReimbursementStatus } from "../../types";
+import { formatThousands, getCurrencySymbol } from "../../utils/format";
+import { REIMBURSEMENT_STATUS_LABELS } from "../../utils/reimbursementUtils";
+
+export interface ReimbursementListOptions {
+    /** 本位币，用于汇总行 */
+    baseCurrency: string;
+    /** 把支出货币的金额换算为本位币 */
+    toBase: (amount: number, expense: TransactionInfo) => number;
+    onTxnClick?: (txn: TransactionInfo) => void;
+    /** 为待报销的支出登记一笔报销到账 */
+    onRecordPayment?: (reimbursement: ReimbursementSummary) => void;
+    onSetStatus?: (reimbursement: ReimbursementSummary, status: ReimbursementStatus) => Promise<void>;
+}
+
+/** 超过该天数仍未报销的支出高亮显示 */
+const STALE_DAYS = 30;
+
+/**
+ * 报销列表组件
+ * 顶部汇总待报销金额与最久未报销的天数，下方按支出日期列出每笔可报销支出。
+ */
+export class ReimbursementList extends BaseComponent {
+    private reimbursements: ReimbursementSummary[];
+    private options: ReimbursementListOptions;
+    private showSettled = false;
+
+    constructor(containerEl: HTMLElement, reimbursements: ReimbursementSummary[], options: ReimbursementListOptions) {
+        super(containerEl);
+        this.reimbursements = reimbursements;
+        this.options = options;
+    }
+
+    protected render(): void {
+        if (this.reimbursements.length === 0) {
+            this.containerEl.createDiv({
+                cls: "cost-empty-message",
+                text: "暂无报销记录。记一笔支出时点击「报销」标记为可报销即可开始追踪。"
+            });
+            return;
+        }
+
+        const outstanding = this.reimbursements.filter(r => r.outstanding > 0);
+        const sum = (list: ReimbursementSummary[]) =>
+            list.reduce((s, r) => s + this.options.toBase(r.outstanding, r.expense), 0);
+        const oldest = outstanding.reduce((max, r) => Math.max(max, r.ageDays), 0);
+
+        const overview = this.containerEl.createDiv({ cls: "cost-loan-overview" });
+        this.renderStat(overview, "待报销合计", this.formatBase(sum(outstanding)),
+            outstanding.length > 0 ? "cost-loan-stat-receivable" : "cost-loan-stat-clear");
+        this.renderStat(overview, "其中已提交", this.formatBase(sum(outstanding.filter(r => r.status === "submitted"))),
+            "cost-loan-stat-clear");
+        this.renderStat(overview, "最久未报销", outstanding.length > 0 ? `${oldest} 天` : "—",
+            oldest > STALE_DAYS ? "cost-loan-stat-outstanding" : "cost-loan-stat-clear");
+
+        const toolbar = this.containerEl.createDiv({ cls: "cost-reimbursement-toolbar" });
+        const settledCount = this.reimbursements.length - outstanding.length;
+        toolbar.createSpan({ text: `待报销 ${outstanding.length} 笔` });
+        if (settledCount > 0) {
+            const toggle = toolbar.createEl("button", {
+                cls: "cost-detail-header-btn",
+                text: this.showSettled ? "隐藏已报销" : `显示已报销（${settledCount}）`
+            });
+            toggle.addEventListener("click", () => {
+                this.showSettled = !this.showSettled;
+                this.update();
+            });
+        }
+
+        const rows = this.showSettled ? this.reimbursements : outstanding;
+        if (rows.length === 0) {
+            this.containerEl.createDiv({ cls: "cost-empty-message", text: "所有报销均已到账" });
+            return;
+        }
+        this.renderTable(rows);
+    }
+
+    private renderTable(rows: ReimbursementSummary[]): void {
+        const table = this.containerEl.createEl("table", { cls: "cost-reimbursement-table" });
+        const headRow = table.createEl("thead").createEl("tr");
+        ["日期", "支出", "金额", "已到账", "待报销", "状态", "天数", ""].forEach(text => headRow.createEl("th", { text }));
+
+        const tbody = table.createEl("tbody");
+        const sorted = [...rows].sort((a, b) =>
+            Number(b.outstanding > 0) - Number(a.outstanding > 0) || a.expense.date.localeCompare(b.expense.date)
+        );
+        for (const r of sorted) {
+            const currency = r.expense.currency;
+            const row = tbody.createEl("tr", { cls: r.outstanding > 0 ? "" : "is-settled" });
+            row.createEl("td", { text: r.expense.date });
+
+            const nameCell = row.createEl("td", { cls: "cost-reimbursement-name is-clickable" });
+            nameCell.createDiv({ text: r.expense.payee || r.expense.category || "未命名支出" });
+            const detail = [r.expense.category, r.expense.memo].filter(Boolean).join(" · ");
+            if (detail) nameCell.createDiv({ cls: "cost-reimbursement-detail", text: detail });
+            nameCell.addEventListener("click", () => this.options.onTxnClick?.(r.expense));
+
+            row.createEl("td", { text: this.formatAmount(r.amount, currency) });
+            const receivedCell = row.createEl("td", { text: this.formatAmount(r.received, currency) });
+            if (r.payments.length > 0) {
+                receivedCell.addClass("is-clickable");
+                receivedCell.setAttr("aria-label", r.payments.map(p => `${p.date} ${this.formatAmount(p.amount, p.currency)}`).join("\n"));
+                receivedCell.addEventListener("click", (e) => this.showPaymentsMenu(e, r));
+            }
+            row.createEl("td", { text: this.formatAmount(r.outstanding, currency) });
+
+            const statusCell = row.createEl("td");
+            const badge = statusCell.createSpan({
+                cls: `cost-reimbursement-status cost-reimbursement-status-${r.status}`,
+                text: REIMBURSEMENT_STATUS_LABELS[r.status]
+            });
+            if (r.expense.reimbursement?.submittedDate && r.status === "submitted") {
+                badge.setAttr("aria-label", `提交于 ${r.expense.reimbursement.submittedDate}`);
+            }
+            if (this.options.onSetStatus) {
+                badge.addClass("is-clickable");
+                badge.addEventListener("click", (e) => this.showStatusMenu(e, r));
+            }
+
+            const ageCell = row.createEl("td", { text: r.outstanding > 0 ? String(r.ageDays) : "—" });
+            if (r.outstanding > 0 && r.ageDays > STALE_DAYS) ageCell.addClass("cost-balance-negative");
+
+            const actionCell = row.createEl("td");
+            if (r.outstanding > 0 && this.options.onRecordPayment) {
+                const btn = actionCell.createEl("button", {
+                    cls: "cost-loan-settle-btn",
+                    text: "到账",
+                    attr: { type: "button", "aria-label": "登记报销到账" }
+                });
+                btn.addEventListener("click", () => this.options.onRecordPayment?.(r));
+            }
+        }
+    }
+
+    private showStatusMenu(e: MouseEvent, r: ReimbursementSummary): void {
+        const menu = new Menu();
+        for (const [status, label] of Object.entries(REIMBURSEMENT_STATUS_LABELS) as [ReimbursementStatus, string][]) {
+            menu.addItem(item => item
+                .setTitle(label)
+                .setChecked(r.expense.reimbursement?.status === status)
+                .onClick(() => { void this.options.onSetStatus?.(r, status); }));
+        }
+        menu.showAtMouseEvent(e);
+    }
+
+    private showPaymentsMenu(e: MouseEvent, r: ReimbursementSummary): void {
+        const menu = new Menu();
+        for (const payment of r.payments) {
+            menu.addItem(item => item
+                .setTitle(`${payment.date} ${this.formatAmount(payment.amount, payment.currency)}`)
+                .setIcon("file-text")
+                .onClick(() => this.options.onTxnClick?.(payment)));
+        }
+        menu.showAtMouseEvent(e);
+    }
+
+    private renderStat(container: HTMLElement, label: string, value: string, cls: string): void {
+        const stat = container.createDiv({ cls: `cost-loan-stat ${cls}` });
+        stat.createDiv({ cls: "cost-loan-stat-label", text: label });
+        stat.createDiv({ cls: "cost-loan-stat-value", text: value });
+    }
+
+    private formatBase(amount: number): string {
+        return this.formatAmount(amount, this.options.baseCurrency);
+    }
+
+    private formatAmount(amount: number, currency: string): string {
+        return `${getCurrencySymbol(currency)}${formatThousands(amount, 2)}`;
+    }
+}
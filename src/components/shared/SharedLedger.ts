@@ -0,0 +1,158 @@
+import { BaseComponent } from "../BaseComponent";
+import { TransactionInfo } from "../../services/transactionService";
+import { PersonBalance, SharedExpenseEntry } from "../../services/sharedExpenseService";
+import { formatThousands, getCurrencySymbol } from "../../utils/format";
+import { SELF_PERSON, SettlementTransfer, SHARE_METHOD_LABELS } from "../../utils/shareUtils";
+
+export interface SharedLedgerOptions {
+    /** 本位币，所有金额均已换算 */
+    baseCurrency: string;
+    onTxnClick?: (txn: TransactionInfo) => void;
+    /** 按建议转账生成一笔结算交易 */
+    onSettle?: (transfer: SettlementTransfer) => void;
+}
+
+/** 最近分摊交易的显示条数 */
+const RECENT_LIMIT = 30;
+
+/**
+ * 多人分摊结算组件
+ * 顶部为我的净额，下方依次是建议的结算转账、每人净额和最近的分摊 / 结算交易。
+ */
+export class SharedLedger extends BaseComponent {
+    private balances: PersonBalance[];
+    private transfers: SettlementTransfer[];
+    private entries: SharedExpenseEntry[];
+    private settlements: TransactionInfo[];
+    private options: SharedLedgerOptions;
+
+    constructor(
+        containerEl: HTMLElement,
+        data: { balances: PersonBalance[]; transfers: SettlementTransfer[]; entries: SharedExpenseEntry[]; settlements: TransactionInfo[] },
+        options: SharedLedgerOptions
+    ) {
+        super(containerEl);
+        this.balances = data.balances;
+        this.transfers = data.transfers;
+        this.entries = data.entries;
+        this.settlements = data.settlements;
+        this.options = options;
+    }
+
+    protected render(): void {
+        if (this.entries.length === 0 && this.settlements.length === 0) {
+            this.containerEl.createDiv({
+                cls: "cost-empty-message",
+                text: "暂无分摊记录。在记账弹窗中点击「AA」，选择参与人和付款人即可开始记录。"
+            });
+            return;
+        }
+
+        const self = this.balances.find(b => b.person === SELF_PERSON);
+        const selfNet = self?.net ?? 0;
+        const overview = this.containerEl.createDiv({ cls: "cost-loan-overview" });
+        this.renderStat(overview, "别人欠我", Math.max(0, selfNet), selfNet > 0 ? "cost-loan-stat-receivable" : "cost-loan-stat-clear");
+        this.renderStat(overview, "我欠别人", Math.max(0, -selfNet), selfNet < 0 ? "cost-loan-stat-outstanding" : "cost-loan-stat-clear");
+        this.renderStat(overview, "我的分摊合计", self?.share ?? 0, "cost-loan-stat-clear");
+
+        this.renderTransfers(this.containerEl);
+        this.renderBalances(this.containerEl);
+        this.renderRecent(this.containerEl);
+    }
+
+    private formatAmount(amount: number): string {
+        const sign = amount < 0 ? "-" : "";
+        return `${sign}${getCurrencySymbol(this.options.baseCurrency)}${formatThousands(Math.abs(amount), 2)}`;
+    }
+
+    private renderStat(container: HTMLElement, label: string, amount: number, cls: string): void {
+        const stat = container.createDiv({ cls: `cost-loan-stat ${cls}` });
+        stat.createDiv({ cls: "cost-loan-stat-label", text: label });
+        stat.createDiv({ cls: "cost-loan-stat-value", text: this.formatAmount(amount) });
+    }
+
+    private renderTransfers(container: HTMLElement): void {
+        const section = container.createDiv({ cls: "cost-shared-section" });
+        section.createDiv({ cls: "cost-shared-section-title", text: "建议结算" });
+        if (this.transfers.length === 0) {
+            section.createDiv({ cls: "cost-empty-message", text: "所有人都已结清" });
+            return;
+        }
+
+        for (const transfer of this.transfers) {
+            const row = section.createDiv({ cls: "cost-shared-transfer" });
+            row.createSpan({ cls: "cost-shared-transfer-text", text: describeTransfer(transfer) });
+            row.createSpan({ cls: "cost-shared-transfer-amount", text: this.formatAmount(transfer.amount) });
+            if (this.options.onSettle) {
+                const btn = row.createEl("button", {
+                    cls: "cost-loan-settle-btn",
+                    text: "记录结算",
+                    attr: { type: "button" }
+                });
+                btn.addEventListener("click", () => this.options.onSettle?.(transfer));
+            }
+        }
+    }
+
+    private renderBalances(container: HTMLElement): void {
+        const section = container.createDiv({ cls: "cost-shared-section" });
+        section.createDiv({ cls: "cost-shared-section-title", text: "每人净额" });
+
+        const table = section.createEl("table", { cls: "cost-shared-table" });
+        const headRow = table.createEl("thead").createEl("tr");
+        ["参与人", "垫付", "应摊", "已付结算", "已收结算", "净额"].forEach(text => headRow.createEl("th", { text }));
+
+        const tbody = table.createEl("tbody");
+        for (const b of this.balances) {
+            const row = tbody.createEl("tr");
+            row.createEl("td", { text: b.person });
+            row.createEl("td", { text: this.formatAmount(b.paid) });
+            row.createEl("td", { text: this.formatAmount(b.share) });
+            row.createEl("td", { text: this.formatAmount(b.settledOut) });
+            row.createEl("td", { text: this.formatAmount(b.settledIn) });
+            const netCell = row.createEl("td", {
+                text: b.net === 0 ? "已结清" : `${b.net > 0 ? "应收" : "应付"} ${this.formatAmount(Math.abs(b.net))}`
+            });
+            if (b.net !== 0) netCell.addClass(b.net > 0 ? "cost-balance-positive" : "cost-balance-negative");
+        }
+    }
+
+    private renderRecent(container: HTMLElement): void {
+        const section = container.createDiv({ cls: "cost-shared-section" });
+        section.createDiv({ cls: "cost-shared-section-title", text: "最近记录" });
+
+        const rows: { txn: TransactionInfo; detail: string; amount: string }[] = [
+            ...this.entries.map(e => {
+                const selfShare = e.shares.find(s => s.person === SELF_PERSON)?.amount;
+                const method = SHARE_METHOD_LABELS[e.txn.shared?.method ?? "equal"];
+                const parts = [`${e.paidBy} 付款`, `${method} ${e.shares.length} 人`];
+                if (selfShare !== undefined) parts.push(`我摊 ${this.formatAmount(selfShare)}`);
+                return { txn: e.txn, detail: parts.join(" · "), amount: this.formatAmount(e.amount) };
+            }),
+            ...this.settlements.map(txn => ({
+                txn,
+                detail: txn.settlement ? `结算：${txn.settlement.from} → ${txn.settlement.to}` : "结算",
+                // 结算交易按原币显示
+                amount: `${getCurrencySymbol(txn.currency)}${formatThousands(txn.amount, 2)}`,
+            })),
+        ].sort((a, b) => b.txn.date.localeCompare(a.txn.date) || (b.txn.time || "").localeCompare(a.txn.time || ""));
+
+        for (const item of rows.slice(0, RECENT_LIMIT)) {
+            const row = section.createDiv({ cls: "cost-loan-detail-row cost-loan-detail-row-clickable" });
+            row.createDiv({ cls: "cost-loan-detail-date", text: item.txn.date });
+            row.createDiv({ cls: "cost-loan-detail-account", text: item.txn.payee || item.txn.category || item.txn.txnType });
+            row.createDiv({ cls: "cost-loan-detail-memo", text: item.detail });
+            row.createDiv({ cls: "cost-loan-detail-amount", text: item.amount });
+            row.addEventListener("click", () => this.options.onTxnClick?.(item.txn));
+        }
+    }
+}
+
+/**
+ * 以「我」的视角描述一笔结算转账，如「Alice 欠我」「我欠 Bob」
+ */
+export function describeTransfer(transfer: SettlementTransfer): string {
+    if (transfer.to === SELF_PERSON) return `${transfer.from} 欠我`;
+    if (transfer.from === SELF_PERSON) return `我欠 ${transfer.to}`;
+    return `${transfer.from} 欠 ${transfer.to}`;
+}
@@ -2,17 +2,51 @@ import { Notice, Plugin, parseYaml, debounce, TFile } from "obsidian";
 import { DEFAULT_SETTINGS, CostPluginSettings, CostSettingTab, KnownAccountInfo } from "./settings";
 import { AccountService } from "./services/accountService";
 import { IconResolver } from "./services/iconResolver";
+import { ExchangeRateService } from "./services/exchangeRateService";
+import { BudgetService } from "./services/budgetService";
+import { GoalService } from "./services/goalService";
+import { PayeeService } from "./services/payeeService";
+import { CategoryChange, CategoryService } from "./services/categoryService";
+import { RecurringService } from "./services/recurringService";
+import { CreditCardService } from "./services/creditCardService";
+import { InstallmentService } from "./services/installmentService";
+import { LoanService, LoanSummary } from "./services/loanService";
+import { PriceService } from "./services/priceService";
+import { InvestmentService } from "./services/investmentService";
+import { SharedExpenseService } from "./services/sharedExpenseService";
+import { ReimbursementService, ReimbursementSummary } from "./services/reimbursementService";
+import { RefundService } from "./services/refundService";
+import { AttachmentService } from "./services/attachmentService";
+import { NetWorthService } from "./services/netWorthService";
+import { ForecastService } from "./services/forecastService";
 import { EventBus } from "./services/eventBus";
 import { TransactionService, TransactionInfo } from "./services/transactionService";
 import { TransactionEditModal } from "./modals/TransactionEditModal";
+import { ReconcileModal } from "./modals/ReconcileModal";
+import { DuplicateReviewModal } from "./modals/DuplicateReviewModal";
+import { PriceEditModal } from "./modals/PriceEditModal";
+import { PriceImportModal } from "./modals/PriceImportModal";
+import { AccountInfo, AccountStatus, TxnStatus } from "./types";
 import { AccountSuggester } from "./suggesters/accountSuggester";
 import { registerPropertyWidgets } from "./widgets/propertyWidget";
 import { AccountsSidebarView, ACCOUNTS_SIDEBAR_VIEW_TYPE } from "./views/accountsSidebarView";
 import { CostMainView, COST_MAIN_VIEW_TYPE } from "./views/costMainView";
 import { CostStatsView, COST_STATS_VIEW_TYPE } from "./views/costStatsView";
 import { TransactionList } from "./components/lists/TransactionList";
+import { describeClosedAccountIssues } from "./components/lists/AccountList";
 import { generateSkillPrompt } from "./skill/transactionSkill";
-import { getLocalDateString, getLocalTimeString } from "./utils/format";
+import { getLocalDateString, getLocalTimeString, roundCurrency } from "./utils/format";
+import { expandRefunds, getRefundedAmount, groupRefundsByOriginal } from "./utils/refundUtils";
+import { applySharedExpenseStats, SELF_PERSON, SettlementTransfer, SHARE_SETTLEMENT_CATEGORY } from "./utils/shareUtils";
+import { applyReimbursementStats, REIMBURSEMENT_CATEGORY } from "./utils/reimbursementUtils";
+import { spreadInstallments } from "./utils/installmentUtils";
+import { expandLoanInterest } from "./utils/amortizationUtils";
+import { DEFAULT_DUPLICATE_OPTIONS, DuplicateOptions } from "./utils/duplicateUtils";
+import { TxnType } from "./utils/categoryUtils";
+import { evaluateRules, RuleResult } from "./utils/ruleUtils";
+
+/** 新建交易时预填的字段（文件路径在创建文件后补上） */
+type NewTransactionFields = Omit<TransactionInfo, "path" | "fileName">;
 
 /** YYYY-MM-DD 格式日期正则 */
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
@@ -62,8 +96,31 @@ export default class CostPlugin extends Plugin {
 	accountService: AccountService;
 	transactionService: TransactionService;
 	iconResolver: IconResolver;
+	exchangeRateService: ExchangeRateService;
+	budgetService: BudgetService;
+	recurringService: RecurringService;
+	creditCardService: CreditCardService;
+	installmentService: InstallmentService;
+	loanService: LoanService;
+	priceService: PriceService;
+	investmentService: InvestmentService;
+	sharedExpenseService: SharedExpenseService;
+	reimbursementService: ReimbursementService;
+	refundService: RefundService;
+	attachmentService: AttachmentService;
+	netWorthService: NetWorthService;
+	forecastService: ForecastService;
+	goalService: GoalService;
+	payeeService: PayeeService;
+	categoryService: CategoryService;
 	eventBus: EventBus;
 	targetHighlightPath: string | null = null;
+	/** 侧边栏、账户页与余额卡片查看余额的日期，null 表示今天（不保存） */
+	balanceAsOfDate: string | null = null;
+	/** 已达成的储蓄目标（路径），用于只在刚达成时提示一次 */
+	private reachedGoals = new Set<string>();
+	/** 插件外部新建、等待元数据解析后执行规则的交易文件 */
+	private pendingImports = new Set<string>();
 	private cleanupPropertyWidgets: (() => void) | null = null;
 
 	async onload() {
@@ -71,7 +128,24 @@ export default class CostPlugin extends Plugin {
 
 		// 初始化服务（使用设置中的目录路径）
 		this.accountService = new AccountService(this.app, this.settings.accountsPath);
-		this.transactionService = new TransactionService(this.app, this.settings.transactionsPath);
+		this.exchangeRateService = new ExchangeRateService(this.app, this.settings.ratesPath, this.settings.baseCurrency);
+		this.transactionService = new TransactionService(this.app, this.settings.transactionsPath, this.exchangeRateService);
+		this.budgetService = new BudgetService(this.app, this.settings.budgetsPath);
+		this.recurringService = new RecurringService(this.app, this.settings.recurringPath, this.transactionService);
+		this.creditCardService = new CreditCardService(this.transactionService, this.exchangeRateService);
+		this.installmentService = new InstallmentService(this.transactionService);
+		this.payeeService = new PayeeService(this.app, this.settings.payeesPath);
+		this.loanService = new LoanService(this.transactionService, this.exchangeRateService, this.payeeService);
+		this.priceService = new PriceService(this.app, this.settings.pricesPath);
+		this.investmentService = new InvestmentService(this.transactionService, this.exchangeRateService, this.priceService);
+		this.sharedExpenseService = new SharedExpenseService(this.transactionService, this.exchangeRateService);
+		this.reimbursementService = new ReimbursementService(this.transactionService, this.exchangeRateService);
+		this.refundService = new RefundService(this.transactionService);
+		this.attachmentService = new AttachmentService(this.app, this.transactionService, this.exchangeRateService, this.settings.attachmentsFolder);
+		this.netWorthService = new NetWorthService(this.app, this.settings.netWorthSnapshotPath, this.transactionService, this.accountService, this.investmentService, this.exchangeRateService);
+		this.forecastService = new ForecastService(this.transactionService, this.accountService, this.creditCardService, this.loanService, this.recurringService, this.exchangeRateService);
+		this.goalService = new GoalService(this.app, this.settings.goalsPath, this.transactionService, this.accountService, this.exchangeRateService);
+		this.categoryService = new CategoryService(this.app, this.transactionService, this.budgetService, this.recurringService, this.exchangeRateService);
 		this.iconResolver = new IconResolver(this.app, this.settings.customIconPath);
 		this.eventBus = new EventBus();
 
@@ -91,10 +165,25 @@ export default class CostPlugin extends Plugin {
 
 		// 等待 metadata 缓存准备好后扫描数据
 		this.app.workspace.onLayoutReady(async () => {
+			await this.exchangeRateService.scanRates();
+			await this.budgetService.scanBudgets();
+			await this.goalService.scanGoals();
+			await this.payeeService.scanPayees();
+			await this.priceService.scanPrices();
 			const accounts = await this.accountService.scanAccounts();
 			const transactions = await this.transactionService.scanTransactions();
 			console.debug("[Cost Plugin] 扫描到账户:", accounts.length, "交易:", transactions.length);
 
+			// 生成到期的周期交易（包括 Obsidian 关闭期间错过的）
+			await this.recurringService.scanTemplates();
+			await this.generateRecurringTransactions();
+			// 生成到期的分期手续费
+			await this.generateInstallmentFees();
+			// 补记上月末的净资产快照
+			if (this.settings.netWorthAutoSnapshot) await this.recordMonthEndSnapshot();
+			// 记录启动时已达成的目标，之后只提示新达成的
+			this.checkGoalsReached(false);
+
 			// 同步已知数据到 data.json
 			await this.syncKnownData();
 
@@ -124,6 +213,30 @@ export default class CostPlugin extends Plugin {
 					changed = true;
 				} else if (cache?.frontmatter?.type === "txn") {
 					await this.transactionService.refreshTransaction(file);
+					if (this.pendingImports.delete(file.path)) await this.applyRulesToImported(file);
+					this.checkGoalsReached();
+					changed = true;
+				} else if (cache?.frontmatter?.type === "fx_rate") {
+					await this.exchangeRateService.refreshRate(file);
+					changed = true;
+				} else if (cache?.frontmatter?.type === "budget") {
+					await this.budgetService.refreshBudget(file);
+					changed = true;
+				} else if (cache?.frontmatter?.type === "payee") {
+					await this.payeeService.refreshPayee(file);
+					changed = true;
+				} else if (cache?.frontmatter?.type === "goal") {
+					await this.goalService.refreshGoal(file);
+					this.checkGoalsReached();
+					changed = true;
+				} else if (cache?.frontmatter?.type === "recurring") {
+					await this.recurringService.refreshTemplate(file);
+					changed = true;
+				} else if (cache?.frontmatter?.type === "price") {
+					await this.priceService.refreshPrice(file);
+					changed = true;
+				} else if (cache?.frontmatter?.type === "net_worth") {
+					// 快照直接从 metadataCache 读取，刷新视图即可
 					changed = true;
 				} else {
 					// Fallback: Check paths if frontmatter isn't populated yet or malformed?
@@ -158,7 +271,35 @@ export default class CostPlugin extends Plugin {
 					await this.accountService.refreshAccount(file);
 					changed = true;
 				} else if (file.path.includes(this.settings.transactionsPath)) {
+					// 启动时加载已有文件也会触发 create，只处理布局就绪后外部新建的交易
+					const imported = !this.transactionService.consumeCreatedPath(file.path) && this.app.workspace.layoutReady;
 					await this.transactionService.refreshTransaction(file);
+					if (imported) {
+						// 元数据还没解析时等 changed 事件再执行规则
+						if (this.transactionService.getAllTransactions().some(t => t.path === file.path)) {
+							await this.applyRulesToImported(file);
+						} else {
+							this.pendingImports.add(file.path);
+						}
+					}
+					changed = true;
+				} else if (file.path.includes(this.settings.ratesPath)) {
+					await this.exchangeRateService.refreshRate(file);
+					changed = true;
+				} else if (file.path.includes(this.settings.budgetsPath)) {
+					await this.budgetService.refreshBudget(file);
+					changed = true;
+				} else if (file.path.includes(this.settings.goalsPath)) {
+					await this.goalService.refreshGoal(file);
+					changed = true;
+				} else if (file.path.includes(this.settings.payeesPath)) {
+					await this.payeeService.refreshPayee(file);
+					changed = true;
+				} else if (file.path.includes(this.settings.recurringPath)) {
+					await this.recurringService.refreshTemplate(file);
+					changed = true;
+				} else if (file.path.includes(this.settings.pricesPath)) {
+					await this.priceService.refreshPrice(file);
 					changed = true;
 				}
 
@@ -174,6 +315,12 @@ export default class CostPlugin extends Plugin {
 				// Remove from caches
 				this.accountService.removeAccount(file.path);
 				this.transactionService.removeTransaction(file.path);
+				this.exchangeRateService.removeRate(file.path);
+				this.budgetService.removeBudget(file.path);
+				this.goalService.removeGoal(file.path);
+				this.payeeService.removePayee(file.path);
+				this.recurringService.removeTemplate(file.path);
+				this.priceService.removePrice(file.path);
 				requestRefresh();
 			})
 		);
@@ -190,7 +337,7 @@ export default class CostPlugin extends Plugin {
 			// Render
 			el.addClass("cost-code-block-view");
 
-			const transactions = this.transactionService.getTransactions().filter(t => {
+			const transactions = this.transactionService.getAllTransactions().filter(t => {
 				if (targetDate) {
 					return t.date === targetDate;
 				} else if (startDate && endDate) {
@@ -208,6 +355,9 @@ export default class CostPlugin extends Plugin {
 			new TransactionList(el, this.app, transactions, accounts, null, {
 				customIconPath: this.settings.customIconPath,
 				iconResolver: this.iconResolver,
+				accountKinds: this.settings.accountKinds,
+				allTransactions: this.transactionService.getTransactions(),
+				onStatusChange: (txn, status) => { void this.setTransactionStatus(txn, status); },
 				onTransactionClick: (txn) => {
 					new TransactionEditModal(this.app, txn, this.transactionService, this.accountService, this.settings.customIconPath, this, async (savedPath) => {
 						await this.transactionService.scanTransactions();
@@ -234,6 +384,12 @@ export default class CostPlugin extends Plugin {
 			id: "refresh-data",
 			name: "刷新数据",
 			callback: async () => {
+				await this.exchangeRateService.scanRates();
+				await this.budgetService.scanBudgets();
+				await this.goalService.scanGoals();
+				await this.payeeService.scanPayees();
+				await this.recurringService.scanTemplates();
+				await this.priceService.scanPrices();
 				const accounts = await this.accountService.scanAccounts();
 				const transactions = await this.transactionService.scanTransactions();
 				new Notice(`已刷新，找到 ${accounts.length} 个账户，${transactions.length} 笔交易`);
@@ -280,7 +436,7 @@ export default class CostPlugin extends Plugin {
 					category: "",
 					amount: 0,
 					refund: 0,
-					currency: "CNY",
+					currency: this.settings.baseCurrency,
 					from: "",
 					to: "",
 					payee: "",
@@ -299,9 +455,61 @@ export default class CostPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "generate-recurring-transactions",
+			name: "生成到期的周期交易",
+			callback: async () => {
+				await this.recurringService.scanTemplates();
+				const count = await this.generateRecurringTransactions();
+				if (count === 0) new Notice("没有到期的周期交易");
+			},
+		});
+
+		this.addCommand({
+			id: "migrate-legacy-refunds",
+			name: "将旧格式退款转换为退款交易",
+			callback: async () => {
+				await this.transactionService.scanTransactions();
+				await this.migrateLegacyRefunds();
+			},
+		});
+
+		this.addCommand({
+			id: "review-duplicate-transactions",
+			name: "检查重复交易",
+			callback: async () => {
+				await this.transactionService.scanTransactions();
+				this.openDuplicateReview();
+			},
+		});
+
+		this.addCommand({
+			id: "record-net-worth-snapshot",
+			name: "记录净资产快照",
+			callback: async () => {
+				await this.recordNetWorthSnapshot();
+			},
+		});
+
+		this.addCommand({
+			id: "record-security-price",
+			name: "记录证券价格",
+			callback: () => {
+				this.openPriceEditModal();
+			},
+		});
+
+		this.addCommand({
+			id: "import-security-prices",
+			name: "从 CSV 导入证券价格",
+			callback: () => {
+				this.openPriceImportModal();
+			},
+		});
+
 		this.addCommand({
 			id: "copy-ai-skill-prompt",
-			name: "复制 AI 记账 Skill 到剪贴板",
+			name: "复制 AI 记账 skill 到剪贴板",
 			callback: async () => {
 				try {
 					// 确保数据是最新的
@@ -315,7 +523,7 @@ export default class CostPlugin extends Plugin {
 					);
 
 					await navigator.clipboard.writeText(skillPrompt);
-					new Notice("AI 记账 Skill 已复制到剪贴板 ✓");
+					new Notice("AI 记账 skill 已复制到剪贴板 ✓");
 				} catch (e) {
 					console.error("[Cost Plugin] 复制 Skill 失败:", e);
 					new Notice("复制失败: " + e);
@@ -408,14 +616,462 @@ export default class CostPlugin extends Plugin {
 		this.accountService.setAccountsPath(this.settings.accountsPath);
 		this.transactionService.setTransactionsPath(this.settings.transactionsPath);
 		this.iconResolver.setCustomIconPath(this.settings.customIconPath);
+		this.exchangeRateService.setRatesPath(this.settings.ratesPath);
+		this.exchangeRateService.setBaseCurrency(this.settings.baseCurrency);
+		this.budgetService.setBudgetsPath(this.settings.budgetsPath);
+		this.goalService.setGoalsPath(this.settings.goalsPath);
+		this.payeeService.setPayeesPath(this.settings.payeesPath);
+		this.recurringService.setRecurringPath(this.settings.recurringPath);
+		this.priceService.setPricesPath(this.settings.pricesPath);
+		this.attachmentService.setFolderName(this.settings.attachmentsFolder);
+		this.netWorthService.setSnapshotPath(this.settings.netWorthSnapshotPath);
 		// 重新扫描数据
+		await this.exchangeRateService.scanRates();
+		await this.budgetService.scanBudgets();
+		await this.goalService.scanGoals();
+		await this.payeeService.scanPayees();
+		await this.recurringService.scanTemplates();
+		await this.priceService.scanPrices();
 		await this.accountService.scanAccounts();
 		await this.transactionService.scanTransactions();
 		await this.syncKnownData();
+		this.checkGoalsReached(false);
 		this.eventBus.emit("settings-changed");
 		this.refreshViews();
 	}
 
+	/**
+	 * 生成所有到期的周期交易，并在有新交易时刷新视图
+	 * @returns 新生成的交易数量
+	 */
+	async generateRecurringTransactions(): Promise<number> {
+		try {
+			const count = await this.recurringService.generateDueTransactions();
+			if (count > 0) {
+				await this.transactionService.scanTransactions();
+				new Notice(`已生成 ${count} 笔周期交易`);
+				void this.refreshViews();
+			}
+			return count;
+		} catch (e) {
+			console.error("[Cost Plugin] 生成周期交易失败:", e);
+			new Notice("生成周期交易失败: " + (e instanceof Error ? e.message : String(e)));
+			return 0;
+		}
+	}
+
+	/**
+	 * 生成所有到期的分期手续费交易，并在有新交易时刷新视图
+	 * @returns 新生成的交易数量
+	 */
+	async generateInstallmentFees(): Promise<number> {
+		try {
+			const count = await this.installmentService.generateDueFees();
+			if (count > 0) {
+				await this.transactionService.scanTransactions();
+				new Notice(`已生成 ${count} 笔分期手续费`);
+				void this.refreshViews();
+			}
+			return count;
+		} catch (e) {
+			console.error("[Cost Plugin] 生成分期手续费失败:", e);
+			new Notice("生成分期手续费失败: " + (e instanceof Error ? e.message : String(e)));
+			return 0;
+		}
+	}
+
+	/**
+	 * 打开交易编辑弹窗，保存后重新扫描交易并短暂高亮保存的交易
+	 */
+	openTransaction(txn: TransactionInfo, isNew: boolean = false): void {
+		new TransactionEditModal(this.app, txn, this.transactionService, this.accountService, this.settings.customIconPath, this, (savedPath) => {
+			void this.afterTransactionSaved(savedPath);
+		}, isNew).open();
+	}
+
+	/**
+	 * 新建交易文件，并以预填的字段打开编辑弹窗
+	 */
+	async openNewTransaction(fields: NewTransactionFields): Promise<void> {
+		const file = await this.transactionService.createTransaction();
+		this.openTransaction({ ...fields, path: file.path, fileName: file.basename }, true);
+	}
+
+	private async afterTransactionSaved(savedPath?: string): Promise<void> {
+		await this.transactionService.scanTransactions();
+		if (savedPath) this.targetHighlightPath = savedPath;
+		void this.refreshViews();
+		if (savedPath) setTimeout(() => { this.targetHighlightPath = null; }, 500);
+	}
+
+	/**
+	 * 为一笔借贷新建还款 / 收回交易，默认金额为剩余待结算金额，有贷款计划时为下一期月供
+	 */
+	async openLoanSettlement(loan: LoanSummary): Promise<void> {
+		const isPayable = loan.direction === "payable";
+		const txn: NewTransactionFields = {
+			uid: "",
+			date: getLocalDateString(),
+			time: getLocalTimeString(),
+			txnType: this.loanService.getSettlementType(loan.direction),
+			category: loan.loan.category,
+			amount: loan.schedule?.nextPayment?.payment ?? loan.outstanding,
+			refund: 0,
+			currency: loan.loan.currency,
+			// 还款从借入账户付出，收回存入借出账户
+			from: isPayable ? loan.loan.to : "",
+			to: isPayable ? "" : loan.loan.from,
+			payee: loan.counterparty,
+			address: "",
+			memo: "",
+			note: "",
+			persons: [],
+			loan: loan.loan.uid
+		};
+		await this.openNewTransaction(txn);
+	}
+
+	/**
+	 * 按建议转账新建一笔 AA 结算交易：别人付给我记为收入，我付给别人记为转账，
+	 * 其他人之间的结算不经过我的账户，记为不指定账户的转账
+	 */
+	async openShareSettlement(transfer: SettlementTransfer): Promise<void> {
+		const toSelf = transfer.to === SELF_PERSON;
+		const fromSelf = transfer.from === SELF_PERSON;
+		const txn: NewTransactionFields = {
+			uid: "",
+			date: getLocalDateString(),
+			time: getLocalTimeString(),
+			txnType: toSelf ? "收入" : "转账",
+			category: SHARE_SETTLEMENT_CATEGORY,
+			amount: transfer.amount,
+			refund: 0,
+			currency: this.settings.baseCurrency,
+			from: "",
+			to: "",
+			payee: toSelf ? transfer.from : (fromSelf ? transfer.to : ""),
+			address: "",
+			memo: `${transfer.from} → ${transfer.to}`,
+			note: "",
+			persons: [transfer.from, transfer.to].filter(p => p !== SELF_PERSON),
+			settlement: { from: transfer.from, to: transfer.to }
+		};
+		await this.openNewTransaction(txn);
+	}
+
+	/**
+	 * 为一笔可报销支出新建报销到账的收入交易，默认金额为待报销金额
+	 */
+	async openReimbursementPayment(reimbursement: ReimbursementSummary): Promise<void> {
+		const expense = reimbursement.expense;
+		const txn: NewTransactionFields = {
+			uid: "",
+			date: getLocalDateString(),
+			time: getLocalTimeString(),
+			txnType: "收入",
+			category: REIMBURSEMENT_CATEGORY,
+			amount: reimbursement.outstanding,
+			refund: 0,
+			currency: expense.currency,
+			from: "",
+			// 默认报销到支付时使用的账户
+			to: expense.from,
+			payee: "",
+			address: "",
+			memo: `报销 ${expense.payee || expense.category} ${expense.date}`,
+			note: "",
+			persons: [],
+			reimburses: expense.uid
+		};
+		await this.openNewTransaction(txn);
+	}
+
+	/**
+	 * 为一笔支出新建关联的退款交易，默认金额为尚未退款的金额，退回到原支付账户
+	 */
+	async openRefund(expense: TransactionInfo): Promise<void> {
+		const refunded = getRefundedAmount(expense, groupRefundsByOriginal(this.transactionService.getTransactions()));
+		const txn: NewTransactionFields = {
+			uid: "",
+			date: getLocalDateString(),
+			time: getLocalTimeString(),
+			txnType: "退款",
+			category: expense.category,
+			amount: Math.max(0, roundCurrency(expense.amount - refunded)),
+			refund: 0,
+			currency: expense.currency,
+			from: "",
+			to: expense.refundTo || expense.from,
+			payee: expense.payee,
+			address: "",
+			memo: "",
+			note: "",
+			persons: [],
+			refundOf: expense.uid
+		};
+		await this.openNewTransaction(txn);
+	}
+
+	/**
+	 * 把所有旧格式的 refund 字段迁移为关联的退款交易，完成后刷新视图
+	 * @returns 迁移的支出数量
+	 */
+	async migrateLegacyRefunds(): Promise<number> {
+		try {
+			const count = await this.refundService.migrateLegacyRefunds();
+			if (count > 0) {
+				await this.transactionService.scanTransactions();
+				new Notice(`已将 ${count} 笔支出的退款转换为退款交易`);
+				void this.refreshViews();
+			} else {
+				new Notice("没有需要转换的旧格式退款");
+			}
+			return count;
+		} catch (e) {
+			console.error("[Cost Plugin] 转换旧格式退款失败:", e);
+			new Notice("转换旧格式退款失败: " + (e instanceof Error ? e.message : String(e)));
+			return 0;
+		}
+	}
+
+	/**
+	 * 报销到账合计达到支出金额时，把支出的报销状态更新为已报销
+	 */
+	async syncReimbursementStatus(expenseUid: string): Promise<void> {
+		const summary = this.reimbursementService.getReimbursements().find(r => r.expense.uid === expenseUid);
+		if (!summary || summary.status !== "reimbursed" || summary.expense.reimbursement?.status === "reimbursed") return;
+		try {
+			await this.transactionService.setReimbursementStatus(summary.expense, "reimbursed");
+			void this.refreshViews();
+		} catch (e) {
+			console.error("[Cost Plugin] 更新报销状态失败:", e);
+		}
+	}
+
+	/**
+	 * 打开账户对账弹窗，完成后重新扫描账户与交易
+	 */
+	openReconcileModal(account: AccountInfo): void {
+		// 视图中保存的账户对象可能早于最近一次扫描，取缓存中的最新数据
+		const latest = this.accountService.getAccounts().find(a => a.path === account.path) ?? account;
+		new ReconcileModal(this.app, this, latest, async () => {
+			await this.accountService.scanAccounts();
+			await this.transactionService.scanTransactions();
+			void this.refreshViews();
+		}).open();
+	}
+
+	/**
+	 * 重复检测参数（日期范围取自设置）
+	 */
+	getDuplicateOptions(): DuplicateOptions {
+		return { ...DEFAULT_DUPLICATE_OPTIONS, dateWindowDays: this.settings.duplicateDateWindow };
+	}
+
+	openDuplicateReview(): void {
+		new DuplicateReviewModal(this.app, this, () => {
+			void this.refreshViews();
+		}).open();
+	}
+
+	/**
+	 * 关闭或重新启用账户；关闭时账户仍有余额则提示
+	 */
+	async setAccountStatus(account: AccountInfo, status: AccountStatus): Promise<void> {
+		try {
+			await this.accountService.setAccountStatus(account, status);
+			await this.accountService.scanAccounts();
+			const latest = this.accountService.getAccounts().find(a => a.path === account.path);
+			const issues = latest ? this.transactionService.getClosedAccountIssues(latest) : null;
+			if (latest && issues) {
+				new Notice(describeClosedAccountIssues(latest, issues));
+			} else {
+				new Notice(status === "active" ? `已重新启用 ${account.displayName}` : `已关闭 ${account.displayName}`);
+			}
+			void this.refreshViews();
+		} catch (e) {
+			console.error("[Cost Plugin] 更新账户状态失败:", e);
+			new Notice("更新账户状态失败: " + (e instanceof Error ? e.message : String(e)));
+		}
+	}
+
+	/**
+	 * 查看余额的日期（YYYY-MM-DD），未选择历史日期时为今天
+	 */
+	getBalanceDate(): string {
+		return this.balanceAsOfDate ?? getLocalDateString();
+	}
+
+	setBalanceAsOfDate(date: string | null): void {
+		this.balanceAsOfDate = date;
+		void this.refreshViews();
+	}
+
+	/**
+	 * 修改统计方式设置（分期、报销）并刷新视图
+	 */
+	async setStatsModes(modes: Partial<Pick<CostPluginSettings, "installmentStatsMode" | "reimbursementStatsMode">>): Promise<void> {
+		Object.assign(this.settings, modes);
+		await this.saveData(this.settings);
+		void this.refreshViews();
+	}
+
+	/**
+	 * 统计面板使用的交易（仅用于统计，不要传给编辑弹窗）
+	 * 金额按交易日期汇率换算为本位币，商家按商家目录归并，并按设置处理报销与分期
+	 */
+	getStatsTransactions(): TransactionInfo[] {
+		const transactions = this.payeeService.canonicalizeTransactions(this.exchangeRateService.convertTransactionsToBase(
+			// 退款在退款日期冲减原支出的分类；分摊支出只计自己的份额
+			expandRefunds(applySharedExpenseStats(applyReimbursementStats(
+				// 贷款还款中的利息计入「利息」支出
+				expandLoanInterest(this.transactionService.getTransactions(), this.loanService.getInterestByPath()),
+				this.settings.reimbursementStatsMode,
+				this.reimbursementService.getReceivedByPath()
+			)))
+		));
+		return this.settings.installmentStatsMode === "spread" ? spreadInstallments(transactions) : transactions;
+	}
+
+	/**
+	 * 对插件外部新建（导入、同步）的交易执行规则，只填写空着的字段
+	 */
+	async applyRulesToImported(file: TFile): Promise<void> {
+		const txn = this.transactionService.getAllTransactions().find(t => t.path === file.path);
+		if (!txn || this.settings.rules.length === 0) return;
+		const { changes, patch } = evaluateRules(txn, this.settings.rules, "fill");
+		if (changes.length === 0) return;
+		try {
+			await this.transactionService.updateTransaction(file, patch);
+			const names = Array.from(new Set(changes.map(c => c.rule)));
+			new Notice(`新导入的交易已按规则「${names.join("」「")}」整理`);
+		} catch (e) {
+			console.error("[Cost Plugin] 执行交易规则失败:", e);
+		}
+	}
+
+	/**
+	 * 把规则预览中确认的修改写入交易文件
+	 */
+	async applyRuleResults(items: { path: string; result: RuleResult }[]): Promise<void> {
+		let updated = 0;
+		for (const { path, result } of items) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile) || result.changes.length === 0) continue;
+			try {
+				await this.transactionService.updateTransaction(file, result.patch);
+				updated++;
+			} catch (e) {
+				console.error(`[Cost Plugin] 执行交易规则失败 ${path}:`, e);
+			}
+		}
+		await this.transactionService.scanTransactions();
+		new Notice(`已按规则修改 ${updated} 笔交易`);
+		void this.refreshViews();
+	}
+
+	/**
+	 * 商家标志的资源路径，商家不在目录中或没有标志时为 null
+	 */
+	getPayeeLogo(name: string): string | null {
+		const payee = this.payeeService.findPayee(name);
+		return payee ? this.iconResolver.resolvePayeeIcon(payee) : null;
+	}
+
+	/**
+	 * 在交易、预算和周期模板中重命名 / 合并 / 移动 / 删除分类，完成后重新扫描
+	 */
+	async applyCategoryChange(type: TxnType, change: CategoryChange): Promise<void> {
+		try {
+			const plan = this.categoryService.planChange(type, change);
+			const updated = await this.categoryService.applyPlan(plan);
+			await this.transactionService.scanTransactions();
+			await this.budgetService.scanBudgets();
+			await this.recurringService.scanTemplates();
+			if (updated < plan.files.length) {
+				new Notice(`已修改 ${updated} 个文件，${plan.files.length - updated} 个失败（详见控制台）`);
+			} else {
+				new Notice(`已修改 ${updated} 个文件：${plan.change.from} → ${plan.change.to}`);
+			}
+			void this.refreshViews();
+		} catch (e) {
+			console.error("[Cost Plugin] 调整分类失败:", e);
+			new Notice("调整分类失败: " + (e instanceof Error ? e.message : String(e)));
+		}
+	}
+
+	/**
+	 * 把指定日期（默认今天）的净资产写入快照文件
+	 */
+	async recordNetWorthSnapshot(date: string = getLocalDateString()): Promise<void> {
+		try {
+			const point = this.netWorthService.getNetWorthAt(this.settings.accountKinds, date);
+			await this.netWorthService.saveSnapshot(point, this.settings.baseCurrency);
+			new Notice(`已记录 ${date} 的净资产快照`);
+			void this.refreshViews();
+		} catch (e) {
+			console.error("[Cost Plugin] 记录净资产快照失败:", e);
+			new Notice("记录净资产快照失败: " + (e instanceof Error ? e.message : String(e)));
+		}
+	}
+
+	/**
+	 * 上月末还没有快照时自动补记
+	 */
+	async recordMonthEndSnapshot(): Promise<void> {
+		try {
+			if (await this.netWorthService.recordMonthEndSnapshot(this.settings.accountKinds, this.settings.baseCurrency)) {
+				void this.refreshViews();
+			}
+		} catch (e) {
+			console.error("[Cost Plugin] 记录月末净资产快照失败:", e);
+		}
+	}
+
+	/**
+	 * 检查储蓄目标是否刚刚达成，达成时提示
+	 * @param notify 为 false 时只记录当前状态（启动和重新扫描时使用）
+	 */
+	checkGoalsReached(notify: boolean = true): void {
+		const reached = new Set<string>();
+		for (const progress of this.goalService.getAllProgress(this.settings.baseCurrency)) {
+			if (!progress.reached) continue;
+			reached.add(progress.goal.path);
+			if (notify && !this.reachedGoals.has(progress.goal.path)) {
+				new Notice(`🎉 储蓄目标「${progress.goal.name}」已达成`);
+			}
+		}
+		this.reachedGoals = reached;
+	}
+
+	/**
+	 * 切换交易状态（已核对 / 待入账 / 已作废）
+	 */
+	async setTransactionStatus(txn: TransactionInfo, status: TxnStatus | null): Promise<void> {
+		try {
+			await this.transactionService.setTransactionStatus(txn, status);
+			void this.refreshViews();
+		} catch (e) {
+			console.error("[Cost Plugin] 更新交易状态失败:", e);
+			new Notice("更新交易状态失败: " + (e instanceof Error ? e.message : String(e)));
+		}
+	}
+
+	/**
+	 * 打开证券价格录入弹窗
+	 * @param security 预填的证券代码
+	 */
+	openPriceEditModal(security = ""): void {
+		new PriceEditModal(this.app, this.priceService, () => this.refreshViews(), security).open();
+	}
+
+	/**
+	 * 打开证券价格 CSV 导入弹窗
+	 */
+	openPriceImportModal(): void {
+		new PriceImportModal(this.app, this.priceService, () => this.refreshViews()).open();
+	}
+
 	/**
 	 * 同步账户/分类/商家/标签到 data.json（不含余额等隐私数据）
 	 */
@@ -446,10 +1102,11 @@ export default class CostPlugin extends Plugin {
 		}
 
 		// 3. 商家
-		const payeeSet = new Set<string>();
+		// 商家目录中的商家使用规范名称
+		const payeeSet = new Set<string>(this.payeeService.getPayees().map(p => p.name));
 		for (const txn of transactions) {
 			if (txn.payee && String(txn.payee).trim()) {
-				payeeSet.add(String(txn.payee).trim());
+				payeeSet.add(this.payeeService.getCanonicalName(String(txn.payee)));
 			}
 		}
 		this.settings.knownPayees = Array.from(payeeSet).sort((a, b) => a.localeCompare(b, "zh-Hans-CN"));
@@ -77,6 +77,10 @@ export class BatchEditModal extends Modal {
                 d.addOption("转账", "转账");
                 d.addOption("还款", "还款");
                 d.addOption("借款", "借款");
+                d.addOption("借出", "借出");
+                d.addOption("收回", "收回");
+                d.addOption("投资", "投资");
+                d.addOption("退款", "退款");
                 d.setDisabled(true);
                 d.onChange(v => this.updates.txnType = v);
             });
@@ -0,0 +1,165 @@
+import { App, Modal, Setting } from "obsidian";
+import { CategoryChange, CategoryChangeKind, CategoryNode, CategoryService } from "../services/categoryService";
+import { TxnType } from "../utils/categoryUtils";
+
+const KIND_TITLES: Record<CategoryChangeKind, string> = {
+    rename: "重命名分类",
+    move: "移动分类",
+    merge: "合并分类",
+    delete: "删除分类",
+};
+
+/** 预览列表最多显示的文件数 */
+const PREVIEW_LIMIT = 200;
+
+/**
+ * 调整分类：填写新名称或选择目标分类，预览受影响的文件后一次性改写
+ */
+export class CategoryChangeModal extends Modal {
+    private service: CategoryService;
+    private type: TxnType;
+    private kind: CategoryChangeKind;
+    private node: CategoryNode;
+    private onApply: (change: CategoryChange) => Promise<void>;
+
+    private to = "";
+    private previewEl: HTMLElement | null = null;
+    private applyBtn: HTMLButtonElement | null = null;
+
+    constructor(app: App, service: CategoryService, type: TxnType, kind: CategoryChangeKind, node: CategoryNode, onApply: (change: CategoryChange) => Promise<void>) {
+        super(app);
+        this.service = service;
+        this.type = type;
+        this.kind = kind;
+        this.node = node;
+        this.onApply = onApply;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("cost-category-modal");
+        contentEl.createEl("h2", { text: `${KIND_TITLES[this.kind]}：${this.node.path}` });
+
+        const form = contentEl.createDiv();
+        const slash = this.node.path.lastIndexOf("/");
+        const parent = slash < 0 ? "" : this.node.path.slice(0, slash);
+        // 可选的目标分类：排除自身及其子分类
+        const candidates = this.getAllPaths().filter(p => p !== this.node.path && !p.startsWith(this.node.path + "/"));
+
+        if (this.kind === "rename") {
+            this.to = this.node.path;
+            new Setting(form)
+                .setName("新名称")
+                .setDesc(parent ? `仍在「${parent}」下` : "一级分类")
+                .addText(t => {
+                    t.setValue(this.node.name);
+                    t.onChange(v => {
+                        const name = v.trim();
+                        this.to = name ? (parent ? `${parent}/${name}` : name) : "";
+                        this.renderPreview();
+                    });
+                });
+        } else if (this.kind === "move") {
+            new Setting(form)
+                .setName("移到")
+                .setDesc(`移动后为「新父级/${this.node.name}」，子分类一起移动`)
+                .addDropdown(d => {
+                    d.addOption("", "请选择");
+                    if (parent) d.addOption("/", "（一级分类）");
+                    candidates.filter(p => p !== parent).forEach(p => { d.addOption(p, p); });
+                    d.onChange(v => {
+                        this.to = v === "/" ? this.node.name : (v ? `${v}/${this.node.name}` : "");
+                        this.renderPreview();
+                    });
+                });
+        } else {
+            new Setting(form)
+                .setName(this.kind === "merge" ? "并入" : "交易改到")
+                .setDesc(this.kind === "merge"
+                    ? "子分类保留名称，一起并入目标分类"
+                    : "删除后该分类及其子分类的交易都改到所选分类")
+                .addDropdown(d => {
+                    d.addOption("", "请选择");
+                    candidates.forEach(p => { d.addOption(p, p); });
+                    d.onChange(v => {
+                        this.to = v;
+                        this.renderPreview();
+                    });
+                });
+        }
+
+        this.previewEl = contentEl.createDiv({ cls: "cost-category-preview" });
+
+        const buttonContainer = contentEl.createDiv({ cls: "cost-modal-buttons" });
+        this.applyBtn = buttonContainer.createEl("button", { text: "应用", cls: "mod-cta" });
+        this.applyBtn.onclick = async () => {
+            if (!this.applyBtn) return;
+            this.applyBtn.disabled = true;
+            await this.onApply(this.getChange());
+            this.close();
+        };
+        const cancelBtn = buttonContainer.createEl("button", { text: "取消" });
+        cancelBtn.onclick = () => this.close();
+
+        this.renderPreview();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private getChange(): CategoryChange {
+        return { kind: this.kind, from: this.node.path, to: this.to };
+    }
+
+    private renderPreview(): void {
+        if (!this.previewEl || !this.applyBtn) return;
+        this.previewEl.empty();
+        this.applyBtn.disabled = true;
+
+        const change = this.getChange();
+        const error = this.service.validateChange(this.type, change);
+        if (error) {
+            this.previewEl.createDiv({ cls: "cost-category-preview-hint", text: error });
+            return;
+        }
+
+        const plan = this.service.planChange(this.type, change);
+        if (plan.files.length === 0) {
+            this.previewEl.createDiv({ cls: "cost-category-preview-hint", text: "没有需要修改的文件" });
+            return;
+        }
+
+        const txnCount = plan.files.filter(f => f.source === "txn").length;
+        const otherCount = plan.files.length - txnCount;
+        this.previewEl.createDiv({
+            cls: "cost-category-preview-summary",
+            text: `将修改 ${txnCount} 笔交易${otherCount > 0 ? `、${otherCount} 个预算或周期模板` : ""}：${plan.change.from} → ${plan.change.to}`
+        });
+
+        const list = this.previewEl.createDiv({ cls: "cost-category-preview-list" });
+        for (const file of plan.files.slice(0, PREVIEW_LIMIT)) {
+            const row = list.createDiv({ cls: "cost-category-preview-row" });
+            row.createSpan({ cls: "cost-category-preview-label", text: file.label });
+            row.createSpan({ cls: "cost-category-preview-change", text: `${file.before.join("、")} → ${file.after.join("、")}` });
+            row.setAttr("title", file.path);
+        }
+        if (plan.files.length > PREVIEW_LIMIT) {
+            list.createDiv({ cls: "cost-category-preview-hint", text: `…另有 ${plan.files.length - PREVIEW_LIMIT} 个文件` });
+        }
+        this.applyBtn.disabled = false;
+    }
+
+    private getAllPaths(): string[] {
+        const paths: string[] = [];
+        const walk = (nodes: CategoryNode[]) => {
+            for (const node of nodes) {
+                paths.push(node.path);
+                walk(node.children);
+            }
+        };
+        walk(this.service.getTree(this.type));
+        return paths;
+    }
+}
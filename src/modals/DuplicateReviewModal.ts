@@ -0,0 +1,215 @@
+import { App, Modal, Notice, TFile } from "obsidian";
+import { TransactionInfo } from "../services/transactionService";
+import { TransactionFrontmatter } from "../types";
+import CostPlugin from "../main";
+import { formatThousands, getCurrencySymbol } from "../utils/format";
+import { DuplicatePair, findDuplicatePairs, getDuplicatePairKey } from "../utils/duplicateUtils";
+
+/** 合并时可以逐项选择取值的字段 */
+const MERGE_FIELDS: { key: keyof TransactionInfo & keyof TransactionFrontmatter; label: string }[] = [
+    { key: "date", label: "日期" },
+    { key: "time", label: "时间" },
+    { key: "amount", label: "金额" },
+    { key: "category", label: "分类" },
+    { key: "payee", label: "商家" },
+    { key: "address", label: "地址" },
+    { key: "memo", label: "摘要" },
+    { key: "note", label: "备注" },
+];
+
+/**
+ * 重复交易检查
+ * 左右并排列出疑似重复的交易对，可以保留其中一笔、逐项选择字段合并，
+ * 或标记为「不是重复」（记在设置中，之后不再提示）。
+ */
+export class DuplicateReviewModal extends Modal {
+    private plugin: CostPlugin;
+    private onDone: () => void;
+
+    private listEl: HTMLElement | null = null;
+    private summaryEl: HTMLElement | null = null;
+    /** 每个交易对中各字段选用右边取值的字段 */
+    private useRight = new Map<string, Set<string>>();
+
+    constructor(app: App, plugin: CostPlugin, onDone: () => void) {
+        super(app);
+        this.plugin = plugin;
+        this.onDone = onDone;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("cost-duplicate-modal");
+        contentEl.createEl("h2", { text: "检查重复交易" });
+        contentEl.createDiv({
+            cls: "cost-duplicate-desc",
+            text: `同一账户、金额相同或相近、日期相差不超过 ${this.plugin.settings.duplicateDateWindow} 天且商家相似的交易，以及 uid 相同的文件。`
+        });
+
+        this.summaryEl = contentEl.createDiv({ cls: "cost-duplicate-summary" });
+        this.listEl = contentEl.createDiv({ cls: "cost-duplicate-list" });
+
+        const buttonContainer = contentEl.createDiv({ cls: "cost-modal-buttons" });
+        const closeBtn = buttonContainer.createEl("button", { text: "完成" });
+        closeBtn.onclick = () => this.close();
+
+        this.renderPairs();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private getPairs(): DuplicatePair[] {
+        return findDuplicatePairs(
+            this.plugin.transactionService.getTransactions(),
+            new Set(this.plugin.settings.dismissedDuplicates),
+            this.plugin.getDuplicateOptions()
+        );
+    }
+
+    private renderPairs(): void {
+        if (!this.listEl || !this.summaryEl) return;
+        this.listEl.empty();
+        this.summaryEl.empty();
+
+        const pairs = this.getPairs();
+        if (pairs.length === 0) {
+            this.summaryEl.setText("没有发现疑似重复的交易");
+            return;
+        }
+        this.summaryEl.setText(`发现 ${pairs.length} 对疑似重复的交易`);
+        for (const pair of pairs) {
+            this.renderPair(this.listEl, pair);
+        }
+    }
+
+    private renderPair(container: HTMLElement, pair: DuplicatePair): void {
+        const key = getDuplicatePairKey(pair.a, pair.b);
+        const useRight = this.useRight.get(key) ?? new Set<string>();
+        this.useRight.set(key, useRight);
+
+        const card = container.createDiv({ cls: "cost-duplicate-pair" });
+        const header = card.createDiv({ cls: "cost-duplicate-pair-header" });
+        header.createSpan({ cls: "cost-duplicate-score", text: `${Math.round(pair.score * 100)}%` });
+        header.createSpan({ cls: "cost-duplicate-reasons", text: pair.reasons.join(" · ") });
+
+        const table = card.createEl("table", { cls: "cost-duplicate-table" });
+        const headRow = table.createEl("tr");
+        headRow.createEl("th");
+        this.renderFileHeader(headRow, pair.a);
+        this.renderFileHeader(headRow, pair.b);
+
+        const row = (label: string, left: string, right: string, field?: string) => {
+            const tr = table.createEl("tr");
+            const differs = left !== right;
+            if (differs) tr.addClass("is-different");
+            tr.createEl("td", { cls: "cost-duplicate-label", text: label });
+            const cells = [left, right].map(text => tr.createEl("td", { cls: "cost-duplicate-value", text: text || "—" }));
+            // 两边不同的字段可以点击选择合并时取哪一边
+            if (!field || !differs) return;
+            const refresh = () => {
+                cells[0]?.toggleClass("is-chosen", !useRight.has(field));
+                cells[1]?.toggleClass("is-chosen", useRight.has(field));
+            };
+            cells.forEach((cell, i) => {
+                cell.addClass("is-clickable");
+                cell.addEventListener("click", () => {
+                    if (i === 1) useRight.add(field);
+                    else useRight.delete(field);
+                    refresh();
+                });
+            });
+            refresh();
+        };
+
+        row("类型", pair.a.txnType, pair.b.txnType);
+        row("账户", this.formatAccounts(pair.a), this.formatAccounts(pair.b));
+        for (const { key: field, label } of MERGE_FIELDS) {
+            const format = (txn: TransactionInfo) => field === "amount"
+                ? `${getCurrencySymbol(txn.currency)}${formatThousands(txn.amount, 2)}`
+                : String((txn[field] as string | number | undefined) ?? "");
+            row(label, format(pair.a), format(pair.b), field);
+        }
+        row("参与人", pair.a.persons.join("、"), pair.b.persons.join("、"));
+        row("附件", String(pair.a.attachments?.length ?? 0), String(pair.b.attachments?.length ?? 0));
+        row("uid", pair.a.uid, pair.b.uid);
+
+        const actions = card.createDiv({ cls: "cost-duplicate-actions" });
+        const action = (text: string, handler: () => Promise<void>, cta = false) => {
+            const btn = actions.createEl("button", { text, cls: cta ? "mod-cta" : "" });
+            btn.onclick = async () => {
+                btn.disabled = true;
+                try {
+                    await handler();
+                } catch (e) {
+                    new Notice("操作失败: " + (e instanceof Error ? e.message : String(e)));
+                }
+                await this.plugin.transactionService.scanTransactions();
+                this.onDone();
+                this.renderPairs();
+            };
+        };
+        action("合并到左边", () => this.merge(pair.a, pair.b, useRight), true);
+        action("保留左边", () => this.removeDuplicate(pair.b, pair.a));
+        action("保留右边", () => this.removeDuplicate(pair.a, pair.b));
+        if (pair.uidCollision) {
+            action("为右边重新生成 uid", async () => {
+                await this.plugin.transactionService.reassignUid(pair.b);
+            });
+        }
+        action("不是重复", async () => {
+            this.plugin.settings.dismissedDuplicates.push(key);
+            await this.plugin.saveData(this.plugin.settings);
+        });
+    }
+
+    private renderFileHeader(row: HTMLElement, txn: TransactionInfo): void {
+        const th = row.createEl("th", { cls: "cost-duplicate-file is-clickable", text: txn.fileName });
+        th.setAttr("aria-label", txn.path);
+        th.addEventListener("click", () => {
+            const file = this.app.vault.getAbstractFileByPath(txn.path);
+            if (file instanceof TFile) void this.app.workspace.getLeaf(true).openFile(file);
+        });
+    }
+
+    private formatAccounts(txn: TransactionInfo): string {
+        const strip = (name: string) => name.replace(/\[\[|\]\]/g, "");
+        return [txn.from, txn.to].filter(Boolean).map(strip).join(" → ");
+    }
+
+    /**
+     * 把右边交易合并到左边：选中的字段取右边的值，参与人与附件取并集，然后删除右边的文件
+     */
+    private async merge(keep: TransactionInfo, remove: TransactionInfo, useRight: Set<string>): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(keep.path);
+        if (!(file instanceof TFile)) throw new Error("交易文件不存在: " + keep.path);
+
+        const data: Partial<TransactionFrontmatter> = {};
+        for (const { key } of MERGE_FIELDS) {
+            if (!useRight.has(key)) continue;
+            Object.assign(data, { [key]: remove[key] });
+        }
+        const persons = [...new Set([...keep.persons, ...remove.persons])];
+        if (persons.length > keep.persons.length) data.persons = persons;
+        const attachments = [...new Set([...(keep.attachments ?? []), ...(remove.attachments ?? [])])];
+        if (attachments.length > (keep.attachments?.length ?? 0)) data.attachments = attachments.map(p => `[[${p}]]`);
+
+        await this.plugin.transactionService.updateTransaction(file, data);
+        if (data.date && data.date !== keep.date) {
+            await this.plugin.transactionService.moveTransactionToDateFolder(file, data.date);
+        }
+        await this.removeDuplicate(remove, keep);
+    }
+
+    /**
+     * 删除重复的一笔：先把退款、报销到账、分期手续费和借贷结算的关联改到保留的交易上
+     */
+    private async removeDuplicate(remove: TransactionInfo, keep: TransactionInfo): Promise<void> {
+        const service = this.plugin.transactionService;
+        const relinked = await service.relinkTransactions(remove, keep);
+        await service.deleteTransaction(remove);
+        if (relinked > 0) new Notice(`已将 ${relinked} 笔关联交易改为关联保留的交易`);
+    }
+}
@@ -0,0 +1,125 @@
+import { App, Modal, Setting, Notice } from "obsidian";
+import { PriceService } from "../services/priceService";
+import { getLocalDateString } from "../utils/format";
+
+/**
+ * 手动记录证券价格
+ * 同一证券同一天已有价格时覆盖，证券没有价格文件时自动新建。
+ */
+export class PriceEditModal extends Modal {
+    private priceService: PriceService;
+    private onSave: () => Promise<void>;
+
+    private security: string;
+    private date = getLocalDateString();
+    private price = 0;
+    private name = "";
+    private currency = "";
+
+    constructor(app: App, priceService: PriceService, onSave: () => Promise<void>, security = "") {
+        super(app);
+        this.priceService = priceService;
+        this.onSave = onSave;
+        this.security = security;
+
+        const info = security ? priceService.getSecurity(security) : null;
+        if (info) {
+            this.name = info.name;
+            this.currency = info.currency;
+            this.price = info.prices[info.prices.length - 1]?.price ?? 0;
+        }
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("cost-price-modal");
+        contentEl.createEl("h2", { text: "记录证券价格" });
+
+        const securities = this.priceService.getSecurities();
+        new Setting(contentEl)
+            .setName("证券代码")
+            .setDesc("与投资交易的 security 字段一致，如 600519、510300")
+            .addText(t => {
+                t.setValue(this.security);
+                if (securities.length > 0) {
+                    const listId = "cost-price-securities";
+                    const datalist = contentEl.createEl("datalist", { attr: { id: listId } });
+                    for (const s of securities) datalist.createEl("option", { value: s.security, text: s.name });
+                    t.inputEl.setAttr("list", listId);
+                }
+                t.onChange(v => { this.security = v.trim(); });
+            });
+        new Setting(contentEl)
+            .setName("日期")
+            .addText(t => {
+                t.inputEl.type = "date";
+                t.setValue(this.date);
+                t.onChange(v => { this.date = v; });
+            });
+        new Setting(contentEl)
+            .setName("价格")
+            .setDesc("收盘价或基金单位净值")
+            .addText(t => {
+                t.inputEl.type = "number";
+                t.inputEl.step = "0.0001";
+                t.setValue(this.price ? String(this.price) : "");
+                t.onChange(v => { this.price = parseFloat(v) || 0; });
+            });
+        new Setting(contentEl)
+            .setName("名称")
+            .setDesc("可选，显示在持仓列表中")
+            .addText(t => {
+                t.setValue(this.name);
+                t.onChange(v => { this.name = v.trim(); });
+            });
+        new Setting(contentEl)
+            .setName("报价货币")
+            .setDesc("可选，留空时按持仓账户的货币处理")
+            .addText(t => {
+                t.setPlaceholder("CNY");
+                t.setValue(this.currency);
+                t.onChange(v => { this.currency = v.trim(); });
+            });
+
+        const buttonContainer = contentEl.createDiv({ cls: "cost-modal-buttons" });
+        const saveBtn = buttonContainer.createEl("button", { text: "保存", cls: "mod-cta" });
+        saveBtn.onclick = async () => {
+            await this.save();
+        };
+        const cancelBtn = buttonContainer.createEl("button", { text: "取消" });
+        cancelBtn.onclick = () => this.close();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private async save(): Promise<void> {
+        if (!this.security) {
+            new Notice("请填写证券代码");
+            return;
+        }
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(this.date)) {
+            new Notice("请选择日期");
+            return;
+        }
+        if (!(this.price > 0)) {
+            new Notice("价格必须大于 0");
+            return;
+        }
+
+        try {
+            await this.priceService.savePrice(this.security, this.date, this.price, {
+                name: this.name,
+                currency: this.currency,
+            });
+            new Notice(`已记录 ${this.security} ${this.date} 的价格`);
+            this.close();
+            await this.onSave();
+        } catch (e) {
+            console.error("[Cost Plugin] 保存价格失败:", e);
+            new Notice("保存失败: " + (e instanceof Error ? e.message : String(e)));
+        }
+    }
+}
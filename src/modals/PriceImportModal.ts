@@ -0,0 +1,65 @@
+import { App, Modal, Notice } from "obsidian";
+import { PriceService } from "../services/priceService";
+
+/**
+ * 从 CSV 批量导入证券价格
+ * 可以粘贴文本或选择 CSV 文件，每行为「代码,日期,价格」，也支持带表头的任意列顺序。
+ */
+export class PriceImportModal extends Modal {
+    private priceService: PriceService;
+    private onDone: () => Promise<void>;
+
+    constructor(app: App, priceService: PriceService, onDone: () => Promise<void>) {
+        super(app);
+        this.priceService = priceService;
+        this.onDone = onDone;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("cost-price-modal");
+        contentEl.createEl("h2", { text: "导入证券价格" });
+        contentEl.createDiv({
+            cls: "setting-item-description",
+            text: "每行一条：代码,日期,价格（如 600519,2024-05-31,1650.5）；带表头时按列名识别代码、日期、价格 / 收盘价 / 净值列。",
+        });
+
+        const textarea = contentEl.createEl("textarea", {
+            cls: "cost-price-import-text",
+            attr: { rows: "10", placeholder: "代码,日期,价格\n600519,2024-05-31,1650.5" },
+        });
+
+        const fileInput = contentEl.createEl("input", { attr: { type: "file", accept: ".csv,.txt" } });
+        fileInput.addEventListener("change", () => {
+            const file = fileInput.files?.[0];
+            if (file) void file.text().then(text => { textarea.value = text; });
+        });
+
+        const buttonContainer = contentEl.createDiv({ cls: "cost-modal-buttons" });
+        const importBtn = buttonContainer.createEl("button", { text: "导入", cls: "mod-cta" });
+        importBtn.onclick = async () => {
+            if (!textarea.value.trim()) {
+                new Notice("请粘贴 CSV 内容或选择文件");
+                return;
+            }
+            importBtn.disabled = true;
+            try {
+                const result = await this.priceService.importCsv(textarea.value);
+                new Notice(`已导入 ${result.securities} 只证券的 ${result.imported} 条价格${result.skipped ? `，跳过 ${result.skipped} 行无效数据` : ""}`);
+                this.close();
+                await this.onDone();
+            } catch (e) {
+                console.error("[Cost Plugin] 导入价格失败:", e);
+                new Notice("导入失败: " + (e instanceof Error ? e.message : String(e)));
+                importBtn.disabled = false;
+            }
+        };
+        const cancelBtn = buttonContainer.createEl("button", { text: "取消" });
+        cancelBtn.onclick = () => this.close();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,245 @@
+import { App, Modal, Setting, Notice } from "obsidian";
+import { TransactionInfo } from "../services/transactionService";
+import { AccountInfo } from "../types";
+import CostPlugin from "../main";
+import { formatThousands, getCurrencySymbol, getLocalDateString, roundCurrency } from "../utils/format";
+
+/** 对账调整交易使用的分类：收入、支出均记为「对齐」（默认分类） */
+const ADJUSTMENT_CATEGORY = "对齐";
+
+/**
+ * 账户对账
+ * 列出上次对平之后到对账日期的交易，勾选对账单上已出现的交易，
+ * 对账单余额与已勾选余额的差额可一键生成调整交易。
+ */
+export class ReconcileModal extends Modal {
+    private plugin: CostPlugin;
+    private account: AccountInfo;
+    private onDone: () => Promise<void>;
+
+    private statementDate: string;
+    private statementBalance: number;
+    /** 已勾选（已核对）的交易路径 */
+    private checked = new Set<string>();
+
+    private listEl: HTMLElement | null = null;
+    private summaryEl: HTMLElement | null = null;
+    private adjustBtn: HTMLButtonElement | null = null;
+
+    constructor(app: App, plugin: CostPlugin, account: AccountInfo, onDone: () => Promise<void>) {
+        super(app);
+        this.plugin = plugin;
+        this.account = account;
+        this.onDone = onDone;
+
+        // 默认对最近一条未通过的断言对账，没有时对今天的余额对账
+        const failed = plugin.transactionService.getFailedAssertions(account);
+        const latest = failed[failed.length - 1];
+        this.statementDate = latest?.assertion.date ?? getLocalDateString();
+        this.statementBalance = latest?.assertion.balance
+            ?? roundCurrency(plugin.transactionService.getAccountBalance(account));
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("cost-reconcile-modal");
+        contentEl.createEl("h2", { text: `对账：${this.account.displayName}` });
+
+        const form = contentEl.createDiv({ cls: "cost-reconcile-form" });
+        new Setting(form)
+            .setName("对账日期")
+            .setDesc("对账单截止日期，当天的交易均计入")
+            .addText(t => {
+                t.inputEl.type = "date";
+                t.setValue(this.statementDate);
+                t.onChange(v => {
+                    if (!v) return;
+                    this.statementDate = v;
+                    this.renderTransactions();
+                });
+            });
+        new Setting(form)
+            .setName("对账单余额")
+            .setDesc(`以账户货币 ${this.account.currency} 计`)
+            .addText(t => {
+                t.inputEl.type = "number";
+                t.inputEl.step = "0.01";
+                t.setValue(String(this.statementBalance));
+                t.onChange(v => {
+                    this.statementBalance = parseFloat(v) || 0;
+                    this.renderSummary();
+                });
+            });
+
+        this.summaryEl = contentEl.createDiv({ cls: "cost-reconcile-summary" });
+        this.listEl = contentEl.createDiv({ cls: "cost-reconcile-list" });
+
+        const buttonContainer = contentEl.createDiv({ cls: "cost-modal-buttons" });
+        const saveBtn = buttonContainer.createEl("button", { text: "完成对账", cls: "mod-cta" });
+        saveBtn.onclick = async () => {
+            await this.finish(false);
+        };
+        this.adjustBtn = buttonContainer.createEl("button", { text: "创建调整交易" });
+        this.adjustBtn.onclick = async () => {
+            await this.finish(true);
+        };
+        const cancelBtn = buttonContainer.createEl("button", { text: "取消" });
+        cancelBtn.onclick = () => this.close();
+
+        this.renderTransactions();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * 对账起点：对账日期之前最近一条已对平的断言，没有时为期初余额
+     */
+    private getStartPoint(): { date: string; balance: number } {
+        const passed = this.plugin.transactionService.checkBalanceAssertions(this.account)
+            .filter(c => c.ok && c.assertion.date < this.statementDate);
+        const last = passed[passed.length - 1];
+        return last
+            ? { date: last.assertion.date, balance: last.assertion.balance }
+            : { date: "", balance: this.account.openingBalance };
+    }
+
+    private getPendingTransactions(startDate: string): TransactionInfo[] {
+        return this.plugin.transactionService.getTransactionsByAccount(this.account.fileName)
+            .filter(t => t.date > startDate && t.date <= this.statementDate)
+            .sort((a, b) => a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || ""));
+    }
+
+    private getChange(txn: TransactionInfo): number {
+        return this.plugin.transactionService.getBalanceChangeForTransaction(txn, this.account.fileName, this.account.currency);
+    }
+
+    private renderTransactions(): void {
+        if (!this.listEl) return;
+        this.listEl.empty();
+
+        const txns = this.getPendingTransactions(this.getStartPoint().date);
+        this.checked = new Set(txns.filter(t => t.status === "cleared").map(t => t.path));
+
+        if (txns.length === 0) {
+            this.listEl.createDiv({ cls: "cost-empty-message", text: "该区间内没有交易" });
+        } else {
+            const toolbar = this.listEl.createDiv({ cls: "cost-reconcile-toolbar" });
+            const toggleAll = toolbar.createEl("button", { text: "全选" });
+            toggleAll.onclick = () => {
+                const allChecked = txns.every(t => this.checked.has(t.path));
+                this.checked = allChecked ? new Set() : new Set(txns.map(t => t.path));
+                this.listEl?.querySelectorAll<HTMLInputElement>(".cost-reconcile-check").forEach(cb => {
+                    cb.checked = !allChecked;
+                });
+                this.renderSummary();
+            };
+
+            const symbol = getCurrencySymbol(this.account.currency);
+            for (const txn of txns) {
+                const row = this.listEl.createEl("label", { cls: "cost-reconcile-row" });
+                const cb = row.createEl("input", { cls: "cost-reconcile-check", attr: { type: "checkbox" } });
+                cb.checked = this.checked.has(txn.path);
+                cb.addEventListener("change", () => {
+                    if (cb.checked) this.checked.add(txn.path);
+                    else this.checked.delete(txn.path);
+                    this.renderSummary();
+                });
+
+                row.createSpan({ cls: "cost-reconcile-date", text: txn.date });
+                row.createSpan({
+                    cls: "cost-reconcile-desc",
+                    text: [txn.txnType, txn.payee || txn.category, txn.memo].filter(Boolean).join(" · ")
+                });
+                const change = this.getChange(txn);
+                const amountEl = row.createSpan({
+                    cls: "cost-reconcile-amount",
+                    text: `${change >= 0 ? "+" : "-"}${symbol}${formatThousands(Math.abs(change), 2)}`
+                });
+                amountEl.addClass(change >= 0 ? "cost-balance-positive" : "cost-balance-negative");
+            }
+        }
+
+        this.renderSummary();
+    }
+
+    private getClearedBalance(): number {
+        const start = this.getStartPoint();
+        let balance = start.balance;
+        for (const txn of this.getPendingTransactions(start.date)) {
+            if (this.checked.has(txn.path)) balance += this.getChange(txn);
+        }
+        return roundCurrency(balance);
+    }
+
+    private renderSummary(): void {
+        if (!this.summaryEl) return;
+        this.summaryEl.empty();
+
+        const symbol = getCurrencySymbol(this.account.currency);
+        const start = this.getStartPoint();
+        const cleared = this.getClearedBalance();
+        const difference = roundCurrency(this.statementBalance - cleared);
+
+        const item = (label: string, value: string, cls = "") => {
+            const el = this.summaryEl!.createDiv({ cls: `cost-reconcile-summary-item ${cls}` });
+            el.createSpan({ cls: "cost-reconcile-summary-label", text: label });
+            el.createSpan({ cls: "cost-reconcile-summary-value", text: value });
+        };
+        item(start.date ? `上次对平 ${start.date}` : "期初余额", `${symbol}${formatThousands(start.balance, 2)}`);
+        item("已核对余额", `${symbol}${formatThousands(cleared, 2)}`);
+        item("差额", `${symbol}${formatThousands(difference, 2)}`, difference === 0 ? "is-ok" : "is-mismatch");
+
+        if (this.adjustBtn) this.adjustBtn.disabled = difference === 0;
+    }
+
+    /**
+     * 写回勾选状态并记录余额断言
+     * @param adjust 是否为剩余差额创建调整交易
+     */
+    private async finish(adjust: boolean): Promise<void> {
+        const service = this.plugin.transactionService;
+        const start = this.getStartPoint();
+        try {
+            for (const txn of this.getPendingTransactions(start.date)) {
+                const cleared = this.checked.has(txn.path);
+                if (cleared && txn.status !== "cleared") {
+                    await service.setTransactionStatus(txn, "cleared");
+                } else if (!cleared && txn.status === "cleared") {
+                    await service.setTransactionStatus(txn, null);
+                }
+            }
+
+            const difference = roundCurrency(this.statementBalance - this.getClearedBalance());
+            if (adjust && difference !== 0) {
+                const file = await service.createTransaction(this.statementDate);
+                await service.updateTransaction(file, {
+                    date: this.statementDate,
+                    time: "23:59:59",
+                    txn_type: difference > 0 ? "收入" : "支出",
+                    category: ADJUSTMENT_CATEGORY,
+                    amount: Math.abs(difference),
+                    currency: this.account.currency,
+                    from: difference > 0 ? "" : this.account.fileName,
+                    to: difference > 0 ? this.account.fileName : "",
+                    memo: `对账调整 ${this.statementDate}`,
+                    status: "cleared",
+                });
+            }
+
+            await this.plugin.accountService.saveBalanceAssertion(this.account, {
+                date: this.statementDate,
+                balance: roundCurrency(this.statementBalance),
+            });
+
+            new Notice(adjust && difference !== 0 ? "已创建调整交易并记录对账余额" : "已记录对账余额");
+            this.close();
+            await this.onDone();
+        } catch (e) {
+            new Notice("对账失败: " + (e instanceof Error ? e.message : String(e)));
+            console.error(e);
+        }
+    }
+}
@@ -0,0 +1,169 @@
+import { App, Modal, Setting, Notice } from "obsidian";
+import { RecurringService, RecurringInfo } from "../services/recurringService";
+import { RecurringFrontmatter, RecurrenceRule } from "../types";
+import { TYPE_OPTIONS, TxnType } from "../utils/categoryUtils";
+import { getLocalDateString } from "../utils/format";
+
+const RULE_OPTIONS: { value: RecurrenceRule; label: string }[] = [
+    { value: "daily", label: "每天" },
+    { value: "weekly", label: "每周" },
+    { value: "monthly", label: "每月" },
+    { value: "every_n_months", label: "每 N 个月" },
+    { value: "yearly", label: "每年" },
+];
+
+/**
+ * 新建 / 编辑周期交易模板
+ */
+export class RecurringEditModal extends Modal {
+    private service: RecurringService;
+    private template: RecurringInfo | null;
+    private onSave: () => Promise<void>;
+    private data: Partial<RecurringFrontmatter>;
+
+    constructor(app: App, service: RecurringService, template: RecurringInfo | null, onSave: () => Promise<void>) {
+        super(app);
+        this.service = service;
+        this.template = template;
+        this.onSave = onSave;
+
+        const t = template;
+        this.data = {
+            name: t?.name ?? "",
+            rule: t?.rule ?? "monthly",
+            interval: t?.interval ?? 1,
+            day: t?.day ?? new Date().getDate(),
+            start_date: t?.startDate ?? getLocalDateString(),
+            end_date: t?.endDate ?? "",
+            txn_type: t?.txnType ?? "支出",
+            category: t?.category ?? "",
+            amount: t?.amount ?? 0,
+            currency: t?.currency ?? "",
+            from: t?.from ?? "",
+            to: t?.to ?? "",
+            payee: t?.payee ?? "",
+            memo: t?.memo ?? "",
+        };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: this.template ? `编辑周期交易：${this.template.name}` : "新建周期交易" });
+
+        const container = contentEl.createDiv({ cls: "cost-recurring-edit-form" });
+        const text = (name: string, key: "name" | "category" | "currency" | "from" | "to" | "payee" | "memo", placeholder = "") => {
+            new Setting(container).setName(name).addText(t => {
+                t.setPlaceholder(placeholder);
+                t.setValue(String(this.data[key] ?? ""));
+                t.onChange(v => this.data[key] = v.trim());
+            });
+        };
+
+        text("名称", "name", "如：房租");
+
+        // 规则
+        let intervalSetting: Setting | null = null;
+        let daySetting: Setting | null = null;
+        const syncRuleFields = () => {
+            const rule = this.data.rule;
+            intervalSetting?.settingEl.toggleClass("is-hidden", rule !== "every_n_months");
+            daySetting?.settingEl.toggleClass("is-hidden", rule !== "monthly" && rule !== "every_n_months");
+        };
+        new Setting(container)
+            .setName("重复规则")
+            .addDropdown(d => {
+                RULE_OPTIONS.forEach(opt => { d.addOption(opt.value, opt.label); });
+                d.setValue(this.data.rule ?? "monthly");
+                d.onChange(v => {
+                    this.data.rule = v as RecurrenceRule;
+                    syncRuleFields();
+                });
+            });
+        intervalSetting = new Setting(container)
+            .setName("间隔月数")
+            .addText(t => {
+                t.inputEl.type = "number";
+                t.setValue(String(this.data.interval ?? 1));
+                t.onChange(v => this.data.interval = Math.max(1, parseInt(v, 10) || 1));
+            });
+        daySetting = new Setting(container)
+            .setName("每月第几天")
+            .setDesc("超出当月天数时在月末生成")
+            .addText(t => {
+                t.inputEl.type = "number";
+                t.setValue(String(this.data.day ?? 1));
+                t.onChange(v => this.data.day = Math.min(31, Math.max(1, parseInt(v, 10) || 1)));
+            });
+        syncRuleFields();
+
+        this.dateSetting(container, "开始日期", "每周 / 每年规则以开始日期的星期、月日为准", "start_date");
+        this.dateSetting(container, "结束日期", "留空表示长期有效", "end_date");
+
+        // 交易字段
+        new Setting(container)
+            .setName("交易类型")
+            .addDropdown(d => {
+                TYPE_OPTIONS.forEach(opt => { d.addOption(opt.value, opt.label); });
+                d.setValue(this.data.txn_type ?? "支出");
+                d.onChange(v => this.data.txn_type = v as TxnType);
+            });
+        text("分类", "category", "如：住房/房租");
+        new Setting(container)
+            .setName("金额")
+            .addText(t => {
+                t.inputEl.type = "number";
+                t.setValue(this.data.amount ? String(this.data.amount) : "");
+                t.onChange(v => this.data.amount = parseFloat(v) || 0);
+            });
+        text("币种", "currency", "留空使用本位币");
+        text("来源账户", "from");
+        text("目标账户", "to");
+        text("交易对象/商户", "payee");
+        text("备注", "memo");
+
+        // Buttons
+        const buttonContainer = contentEl.createDiv({ cls: "cost-modal-buttons" });
+        const saveBtn = buttonContainer.createEl("button", { text: "保存", cls: "mod-cta" });
+        saveBtn.onclick = async () => {
+            if (!this.data.amount || this.data.amount <= 0) {
+                new Notice("请输入有效金额");
+                return;
+            }
+            if (!this.data.start_date) {
+                new Notice("请选择开始日期");
+                return;
+            }
+            try {
+                await this.service.saveTemplate(this.template?.path ?? null, {
+                    ...this.data,
+                    type: "recurring",
+                    currency: this.data.currency ? this.data.currency.toUpperCase() : "",
+                });
+                this.close();
+                await this.onSave();
+            } catch (e) {
+                new Notice("保存失败: " + (e instanceof Error ? e.message : String(e)));
+                console.error(e);
+            }
+        };
+
+        const cancelBtn = buttonContainer.createEl("button", { text: "取消" });
+        cancelBtn.onclick = () => this.close();
+    }
+
+    private dateSetting(container: HTMLElement, name: string, desc: string, key: "start_date" | "end_date"): void {
+        new Setting(container)
+            .setName(name)
+            .setDesc(desc)
+            .addText(t => {
+                t.inputEl.type = "date";
+                t.setValue(this.data[key] ?? "");
+                t.onChange(v => this.data[key] = v);
+            });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
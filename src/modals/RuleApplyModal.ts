@@ -0,0 +1,70 @@
+import { App, Modal } from "obsidian";
+import { TransactionInfo } from "../services/transactionService";
+import { TransactionRule } from "../types";
+import { evaluateRules, RULE_FIELD_LABELS, RuleResult } from "../utils/ruleUtils";
+
+/** 预览列表最多显示的交易数 */
+const PREVIEW_LIMIT = 200;
+
+/**
+ * 对选中的交易执行规则：逐笔列出将要修改的字段及触发的规则，确认后写入
+ */
+export class RuleApplyModal extends Modal {
+    private items: { txn: TransactionInfo; result: RuleResult }[];
+    private onApply: (items: { path: string; result: RuleResult }[]) => Promise<void>;
+
+    constructor(app: App, transactions: TransactionInfo[], rules: TransactionRule[], onApply: (items: { path: string; result: RuleResult }[]) => Promise<void>) {
+        super(app);
+        this.items = transactions
+            .map(txn => ({ txn, result: evaluateRules(txn, rules, "overwrite") }))
+            .filter(item => item.result.changes.length > 0);
+        this.onApply = onApply;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("cost-rule-apply-modal");
+        contentEl.createEl("h2", { text: "应用规则" });
+
+        const preview = contentEl.createDiv({ cls: "cost-rule-preview" });
+        if (this.items.length === 0) {
+            preview.createDiv({ cls: "cost-rule-preview-hint", text: "选中的交易没有匹配的规则，或规则不会带来修改" });
+        } else {
+            preview.createDiv({ cls: "cost-rule-preview-summary", text: `将修改 ${this.items.length} 笔交易` });
+            const list = preview.createDiv({ cls: "cost-rule-preview-list" });
+            for (const { txn, result } of this.items.slice(0, PREVIEW_LIMIT)) {
+                const block = list.createDiv({ cls: "cost-rule-preview-txn" });
+                block.setAttr("title", txn.path);
+                block.createDiv({
+                    cls: "cost-rule-preview-label",
+                    text: `${txn.date} ${txn.payee || txn.category || "未知对象"} ${txn.amount}`
+                });
+                for (const change of result.changes) {
+                    const row = block.createDiv({ cls: "cost-rule-preview-row" });
+                    row.createSpan({ cls: "cost-rule-preview-field", text: RULE_FIELD_LABELS[change.field] });
+                    row.createSpan({ cls: "cost-rule-preview-change", text: `${change.before || "（空）"} → ${change.after}` });
+                    row.createSpan({ cls: "cost-rule-preview-rule", text: change.rule });
+                }
+            }
+            if (this.items.length > PREVIEW_LIMIT) {
+                list.createDiv({ cls: "cost-rule-preview-hint", text: `…另有 ${this.items.length - PREVIEW_LIMIT} 笔交易` });
+            }
+        }
+
+        const buttonContainer = contentEl.createDiv({ cls: "cost-modal-buttons" });
+        const applyBtn = buttonContainer.createEl("button", { text: "应用", cls: "mod-cta" });
+        applyBtn.disabled = this.items.length === 0;
+        applyBtn.onclick = async () => {
+            applyBtn.disabled = true;
+            await this.onApply(this.items.map(({ txn, result }) => ({ path: txn.path, result })));
+            this.close();
+        };
+        const cancelBtn = buttonContainer.createEl("button", { text: "取消" });
+        cancelBtn.onclick = () => this.close();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,137 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { TransactionRule } from "../types";
+import { TYPE_OPTIONS, TxnType } from "../utils/categoryUtils";
+import { parseRulePattern } from "../utils/ruleUtils";
+
+/**
+ * 新建 / 编辑交易规则
+ */
+export class RuleEditModal extends Modal {
+    private rule: TransactionRule;
+    private isNew: boolean;
+    private onSave: (rule: TransactionRule) => Promise<void>;
+
+    constructor(app: App, rule: TransactionRule, isNew: boolean, onSave: (rule: TransactionRule) => Promise<void>) {
+        super(app);
+        // 编辑副本，取消时不影响设置
+        this.rule = {
+            ...rule,
+            conditions: { ...rule.conditions },
+            actions: { ...rule.actions },
+        };
+        this.isNew = isNew;
+        this.onSave = onSave;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: this.isNew ? "新建规则" : `编辑规则：${this.rule.name}` });
+
+        const container = contentEl.createDiv({ cls: "cost-rule-edit-form" });
+        const c = this.rule.conditions;
+        const a = this.rule.actions;
+        const optional = (value: string) => value.trim() || undefined;
+        const number = (value: string) => value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value);
+        const list = (value: string) => {
+            const items = value.split(/[,，]/).map(s => s.trim()).filter(Boolean);
+            return items.length > 0 ? items : undefined;
+        };
+
+        new Setting(container).setName("名称").addText(t => t
+            .setPlaceholder("如：打车")
+            .setValue(this.rule.name)
+            .onChange(v => { this.rule.name = v.trim(); }));
+
+        new Setting(container).setName("条件").setDesc("填写的条件须全部满足；文本按包含匹配，写成 /正则/ 时按正则匹配").setHeading();
+        new Setting(container).setName("交易类型").addDropdown(d => {
+            d.addOption("", "任意");
+            TYPE_OPTIONS.forEach(opt => { d.addOption(opt.value, opt.label); });
+            d.setValue(c.txn_type ?? "");
+            d.onChange(v => { c.txn_type = (v || undefined) as TxnType | undefined; });
+        });
+        new Setting(container).setName("商家").addText(t => t
+            .setPlaceholder("如：滴滴")
+            .setValue(c.payee ?? "")
+            .onChange(v => { c.payee = optional(v); }));
+        new Setting(container).setName("摘要 / 备注").addText(t => t
+            .setPlaceholder("如：/话费|流量/")
+            .setValue(c.memo ?? "")
+            .onChange(v => { c.memo = optional(v); }));
+        new Setting(container).setName("金额范围")
+            .addText(t => t
+                .setPlaceholder("最小")
+                .setValue(c.min_amount != null ? String(c.min_amount) : "")
+                .onChange(v => { c.min_amount = number(v); }))
+            .addText(t => t
+                .setPlaceholder("最大")
+                .setValue(c.max_amount != null ? String(c.max_amount) : "")
+                .onChange(v => { c.max_amount = number(v); }));
+        new Setting(container).setName("账户").setDesc("付款或收款账户为该账户").addText(t => t
+            .setPlaceholder("账户文件名")
+            .setValue(c.account ?? "")
+            .onChange(v => { c.account = optional(v); }));
+        new Setting(container).setName("时间范围").setDesc("开始晚于结束时表示跨午夜，如 22:00 ~ 06:00")
+            .addText(t => {
+                t.inputEl.type = "time";
+                t.setValue(c.time_start ?? "");
+                t.onChange(v => { c.time_start = optional(v); });
+            })
+            .addText(t => {
+                t.inputEl.type = "time";
+                t.setValue(c.time_end ?? "");
+                t.onChange(v => { c.time_end = optional(v); });
+            });
+
+        new Setting(container).setName("动作").setDesc("只设置填写了的字段；参与人和标签追加到已有的后面").setHeading();
+        const text = (name: string, key: "category" | "from" | "to" | "note", placeholder: string) => {
+            new Setting(container).setName(name).addText(t => t
+                .setPlaceholder(placeholder)
+                .setValue(a[key] ?? "")
+                .onChange(v => { a[key] = optional(v); }));
+        };
+        text("分类", "category", "如：交通/打车");
+        text("付款账户", "from", "账户文件名");
+        text("收款账户", "to", "账户文件名");
+        new Setting(container).setName("参与人").addText(t => t
+            .setPlaceholder("用逗号分隔")
+            .setValue((a.persons ?? []).join(", "))
+            .onChange(v => { a.persons = list(v); }));
+        new Setting(container).setName("标签").addText(t => t
+            .setPlaceholder("用逗号分隔")
+            .setValue((a.tags ?? []).join(", "))
+            .onChange(v => { a.tags = list(v); }));
+        text("备注", "note", "");
+
+        const buttonContainer = contentEl.createDiv({ cls: "cost-modal-buttons" });
+        const saveBtn = buttonContainer.createEl("button", { text: "保存", cls: "mod-cta" });
+        saveBtn.onclick = async () => {
+            const error = this.validate();
+            if (error) {
+                new Notice(error);
+                return;
+            }
+            await this.onSave(this.rule);
+            this.close();
+        };
+        const cancelBtn = buttonContainer.createEl("button", { text: "取消" });
+        cancelBtn.onclick = () => this.close();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private validate(): string | null {
+        const c = this.rule.conditions;
+        const a = this.rule.actions;
+        if (!this.rule.name) return "请填写规则名称";
+        if (!Object.values(c).some(v => v !== undefined)) return "请至少填写一个条件";
+        if (!Object.values(a).some(v => v !== undefined)) return "请至少填写一个动作";
+        for (const pattern of [c.payee, c.memo]) {
+            if (pattern && parseRulePattern(pattern) === undefined) return `正则无效：${pattern}`;
+        }
+        if (c.min_amount != null && c.max_amount != null && c.min_amount > c.max_amount) return "最小金额不能大于最大金额";
+        return null;
+    }
+}
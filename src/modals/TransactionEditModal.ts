@@ -1,10 +1,19 @@
 import { App, Modal, TFile, setIcon, Menu, Notice } from "obsidian";
-import { TransactionInfo, TransactionService } from "../services/transactionService";
+import { AmortizationPlan, InstallmentPlan, SharedExpense, TransactionInfo, TransactionService, TransactionSplit } from "../services/transactionService";
 import { AccountService } from "../services/accountService";
-import { TransactionFrontmatter, AccountInfo } from "../types";
+import { TransactionFrontmatter, AccountInfo, InvestAction, ReimbursementStatus, ShareMethod } from "../types";
 import CostPlugin from "../main";
-import { TxnType, TYPE_OPTIONS, collectCategoryGroups, getCategoryIcon, getCategoryColor } from "../utils/categoryUtils";
+import { TxnType, TYPE_OPTIONS, INVEST_ACTION_LABELS, collectCategoryGroups, getCategoryIcon, getCategoryColor } from "../utils/categoryUtils";
 import { reverseGeocode, fallbackToIP, fetchNearbyPOIs, buildAddressOptions, getDeviceCoordinates } from "../services/locationService";
+import { getCurrencySymbol, formatThousands, netAmount, roundCurrency, addMonths } from "../utils/format";
+import { getSplitTotal, isSplitBalanced } from "../utils/splitUtils";
+import { getInstallmentSchedule, INSTALLMENT_FEE_CATEGORY } from "../utils/installmentUtils";
+import { buildAmortizationSchedule, LOAN_INTEREST_CATEGORY } from "../utils/amortizationUtils";
+import { computeShares, isShareBalanced, SELF_PERSON, SHARE_METHOD_LABELS } from "../utils/shareUtils";
+import { REIMBURSEMENT_STATUS_LABELS } from "../utils/reimbursementUtils";
+import { expandRefunds, getRefundedAmount, groupRefundsByOriginal } from "../utils/refundUtils";
+import { DuplicatePair, findDuplicatesOf } from "../utils/duplicateUtils";
+import { evaluateRules, RULE_FIELD_LABELS, RuleChange } from "../utils/ruleUtils";
 
 export class TransactionEditModal extends Modal {
     private txn: TransactionInfo;
@@ -88,6 +97,34 @@ export class TransactionEditModal extends Modal {
         let discount = this.txn.discount || 0;
         let refund = this.txn.refund || 0;
         let refundTo = this.txn.refundTo || "";
+        let currency = (this.txn.currency || this.plugin.settings.baseCurrency).toUpperCase();
+        const splits: TransactionSplit[] = (this.txn.splits ?? []).map(s => ({ ...s, persons: [...s.persons] }));
+        let installment: InstallmentPlan | null = this.txn.installment ? { ...this.txn.installment } : null;
+        let loanUid = this.txn.loan || "";
+        let amortization: AmortizationPlan | null = this.txn.amortization ? { ...this.txn.amortization } : null;
+        const allLoans = this.plugin.loanService.getLoans();
+        let investAction: InvestAction = this.txn.investAction ?? "buy";
+        let security = this.txn.security ?? "";
+        let quantity = this.txn.quantity ?? 0;
+        let price = this.txn.price ?? 0;
+        let reimbursementStatus: ReimbursementStatus | null = this.txn.reimbursement?.status ?? null;
+        let reimbursesUid = this.txn.reimburses || "";
+        const allReimbursements = this.plugin.reimbursementService.getReimbursements();
+        let refundOfUid = this.txn.refundOf || "";
+        let goalName = this.txn.goal || "";
+        const allGoals = this.plugin.goalService.getGoals();
+        const allTransactions = this.service.getTransactions();
+        const refundsByUid = groupRefundsByOriginal(allTransactions);
+        const findExpense = (uid: string) => allTransactions.find(t => t.uid === uid && t.txnType === "支出");
+        const attachments: string[] = [...(this.txn.attachments ?? [])];
+        // 新选择的附件在保存交易时才复制到附件目录
+        const pendingFiles: File[] = [];
+        let showAttachments = attachments.length > 0;
+        let shared: SharedExpense | null = this.txn.shared
+            ? { ...this.txn.shared, shares: this.txn.shared.shares.map(s => ({ ...s })) }
+            : null;
+        const isCreditAccount = (name: string) =>
+            this.accountService.getAccounts().some(a => a.fileName === name && a.accountKind === "credit");
 
         const page = contentEl.createDiv({ cls: "cost-add-txn-page" });
 
@@ -271,7 +308,7 @@ export class TransactionEditModal extends Modal {
         };
 
         const showAccountMenu = (anchor: HTMLElement, onSelect: (acc: AccountInfo) => void) => {
-            const accounts = this.accountService.getAccounts();
+            const accounts = this.accountService.getActiveAccounts();
             if (accounts.length === 0) {
                 new Notice("没有可选账户");
                 return;
@@ -341,12 +378,36 @@ export class TransactionEditModal extends Modal {
         });
 
         // 3. Payee Chip (inline autocomplete)
-        // Collect known payees from transactions
-        const knownPayees = Array.from(new Set(
-            this.service.getTransactions()
+        // Collect known payees from the payee directory and transactions (aliases merged into canonical names)
+        const payeeService = this.plugin.payeeService;
+        const knownPayees = Array.from(new Set([
+            ...payeeService.getPayees().map(p => p.name),
+            ...this.service.getTransactions()
                 .map(t => t.payee)
                 .filter((p): p is string => typeof p === "string" && p.trim() !== "")
-        )).sort((a, b) => a.localeCompare(b, "zh-Hans-CN"));
+                .map(p => payeeService.getCanonicalName(p)),
+        ])).sort((a, b) => a.localeCompare(b, "zh-Hans-CN"));
+        // 搜索时同时匹配商家目录中的别名
+        const payeeSearchText = new Map(knownPayees.map(name => [
+            name,
+            [name, ...(payeeService.findPayee(name)?.aliases ?? [])].join("\n").toLowerCase(),
+        ]));
+
+        // 选择商家：别名换成规范名称，目录中的商家带出默认分类和账户（只填空着的）
+        const selectPayee = (name: string) => {
+            const entry = payeeService.findPayee(name);
+            payee = entry?.name ?? name;
+            if (entry?.category && (!category || category === "未分类") && (type === "支出" || type === "收入")) {
+                category = entry.category;
+                syncCategoryState();
+            }
+            if (entry?.account) {
+                if (type === "支出" && !from) from = entry.account;
+                if (type === "收入" && !to) to = entry.account;
+            }
+            updateTopHelperChips();
+            refreshSummary();
+        };
 
         const payeeChip = createHelperChip("store", "商家", () => {
             if (this.modalEl.querySelector(".cost-inline-autocomplete")) return;
@@ -376,7 +437,7 @@ export class TransactionEditModal extends Modal {
                 selectedIndex = -1;
                 const q = query.trim().toLowerCase();
                 const filtered = q
-                    ? knownPayees.filter(p => p.toLowerCase().includes(q))
+                    ? knownPayees.filter(p => payeeSearchText.get(p)?.includes(q))
                     : knownPayees;
 
                 if (filtered.length === 0 && q) {
@@ -384,9 +445,7 @@ export class TransactionEditModal extends Modal {
                         cls: "cost-inline-autocomplete-item cost-autocomplete-new",
                         text: `新建「${query.trim()}」`
                     }).onclick = () => {
-                        payee = query.trim();
-                        updateTopHelperChips();
-                        refreshSummary();
+                        selectPayee(query.trim());
                         closeAutocomplete();
                     };
                     return;
@@ -398,9 +457,7 @@ export class TransactionEditModal extends Modal {
                         cls: "cost-inline-autocomplete-item cost-autocomplete-new",
                         text: `新建「${query.trim()}」`
                     }).onclick = () => {
-                        payee = query.trim();
-                        updateTopHelperChips();
-                        refreshSummary();
+                        selectPayee(query.trim());
                         closeAutocomplete();
                     };
                 }
@@ -420,14 +477,15 @@ export class TransactionEditModal extends Modal {
                             item.createEl("strong", { text: name.substring(idx, idx + q.length) });
                             item.createSpan({ text: name.substring(idx + q.length) });
                         } else {
+                            // 通过别名匹配到的，在后面注明别名
+                            const alias = payeeService.findPayee(name)?.aliases.find(a => a.toLowerCase().includes(q));
                             item.setText(name);
+                            if (alias) item.createSpan({ cls: "cost-autocomplete-alias", text: ` (${alias})` });
                         }
                     }
 
                     item.onclick = () => {
-                        payee = name;
-                        updateTopHelperChips();
-                        refreshSummary();
+                        selectPayee(name);
                         closeAutocomplete();
                     };
                 });
@@ -442,11 +500,7 @@ export class TransactionEditModal extends Modal {
                 if (!wrapper.contains(e.target as Node)) {
                     // 确认当前输入
                     const val = inputEl.value.trim();
-                    if (val) {
-                        payee = val;
-                        updateTopHelperChips();
-                        refreshSummary();
-                    }
+                    if (val) selectPayee(val);
                     closeAutocomplete();
                 }
             };
@@ -482,9 +536,7 @@ export class TransactionEditModal extends Modal {
                     if (selectedIndex >= 0 && items[selectedIndex]) {
                         (items[selectedIndex] as HTMLElement).click();
                     } else {
-                        payee = inputEl.value.trim();
-                        updateTopHelperChips();
-                        refreshSummary();
+                        selectPayee(inputEl.value.trim());
                         closeAutocomplete();
                     }
                 } else if (e.key === "Escape") {
@@ -726,20 +778,239 @@ export class TransactionEditModal extends Modal {
             inputEl.setSelectionRange(inputEl.value.length, inputEl.value.length);
         });
 
+        // 6. Split Chip（仅支出 / 收入）
+        const splitChip = createHelperChip("split", "拆分", () => {
+            const visible = !splitSection.hasClass("is-visible");
+            splitSection.toggleClass("is-visible", visible);
+            if (visible && splits.length === 0) {
+                splits.push({ category, amount: amount > 0 ? amount : 0, note: "", persons: [] });
+                renderSplitEditor();
+            }
+        });
+
+        // 7. Installment Chip（仅信用卡支出）
+        const installmentChip = createHelperChip("calendar-clock", "分期", () => {
+            if (installment) {
+                installment = null;
+            } else {
+                installment = { periods: 12, feeRate: 0, fee: 0, firstMonth: this.getDefaultFirstMonth(from, date) };
+            }
+            renderInstallmentEditor();
+            updateTopHelperChips();
+        });
+
+        // 8. Loan Chip（仅还款 / 收回）：按 uid 关联所结算的借贷
+        const getLinkableLoans = () => {
+            const direction = type === "收回" ? "receivable" : "payable";
+            return allLoans.filter(l =>
+                l.direction === direction && l.loan.path !== this.txn.path &&
+                (l.outstanding > 0 || l.loan.uid === loanUid)
+            );
+        };
+        const loanChip = createHelperChip("link", "关联借贷", () => {
+            const loans = getLinkableLoans().filter(l => l.loan.uid);
+            if (loans.length === 0) {
+                new Notice(type === "收回" ? "没有未收回的借出" : "没有未还清的借款");
+                return;
+            }
+            const menu = new Menu();
+            loans.forEach(l => {
+                const label = type === "收回" ? "待收" : "待还";
+                menu.addItem(item => item
+                    .setTitle(`${l.counterparty || "未知"} · ${l.loan.date} · ${label} ${getCurrencySymbol(l.loan.currency)}${formatThousands(l.outstanding, 2)}`)
+                    .setChecked(l.loan.uid === loanUid)
+                    .onClick(() => {
+                        loanUid = l.loan.uid;
+                        if (!payee) payee = l.counterparty;
+                        // 默认使用借贷时的账户：还款从借入账户付出，收回存入借出账户
+                        if (type === "还款" && !from) from = l.loan.to;
+                        if (type === "收回" && !to) to = l.loan.from;
+                        refreshSummary();
+                    }));
+            });
+            const rect = loanChip.chip.getBoundingClientRect();
+            menu.showAtPosition({ x: rect.left, y: rect.bottom + 4 });
+        }, () => {
+            loanUid = "";
+            refreshSummary();
+        });
+
+        // 9. Amortization Chip（仅借款）：按期还本付息的贷款计划
+        const amortizationChip = createHelperChip("landmark", "贷款计划", () => {
+            if (amortization) {
+                amortization = null;
+            } else {
+                amortization = { rate: 0, term: 12, method: "equal_installment", firstDue: addMonths(date, 1) };
+            }
+            renderAmortizationEditor();
+            updateTopHelperChips();
+        });
+
+        // 10. Shared Chip（仅支出）：多人分摊，默认我付款、与标签中的人均摊
+        const sharedChip = createHelperChip("users", "AA", () => {
+            if (shared) {
+                shared = null;
+            } else {
+                const others = personsStr.split(/[,，]/).map(s => s.trim()).filter(p => p && p !== SELF_PERSON);
+                shared = {
+                    method: "equal",
+                    paidBy: SELF_PERSON,
+                    shares: [SELF_PERSON, ...others].map(person => ({ person, value: 1 })),
+                };
+            }
+            renderSharedEditor();
+            updateTopHelperChips();
+        });
+
+        // 11. Reimbursement Chip（仅支出）：标记为可报销并设置报销状态
+        const reimbursementChip = createHelperChip("briefcase", "报销", () => {
+            const menu = new Menu();
+            for (const [status, label] of Object.entries(REIMBURSEMENT_STATUS_LABELS) as [ReimbursementStatus, string][]) {
+                menu.addItem(item => item
+                    .setTitle(label)
+                    .setChecked(reimbursementStatus === status)
+                    .onClick(() => {
+                        reimbursementStatus = status;
+                        updateTopHelperChips();
+                    }));
+            }
+            const rect = reimbursementChip.chip.getBoundingClientRect();
+            menu.showAtPosition({ x: rect.left, y: rect.bottom + 4 });
+        }, () => {
+            reimbursementStatus = null;
+            updateTopHelperChips();
+        });
+
+        // 12. Reimburses Chip（仅收入）：按 uid 关联所报销的支出
+        const reimbursesChip = createHelperChip("link", "关联报销", () => {
+            const candidates = allReimbursements.filter(r =>
+                r.expense.uid && (r.outstanding > 0 || r.expense.uid === reimbursesUid)
+            );
+            if (candidates.length === 0) {
+                new Notice("没有待报销的支出");
+                return;
+            }
+            const menu = new Menu();
+            candidates.forEach(r => {
+                menu.addItem(item => item
+                    .setTitle(`${r.expense.payee || r.expense.category || "支出"} · ${r.expense.date} · 待报销 ${getCurrencySymbol(r.expense.currency)}${formatThousands(r.outstanding, 2)}`)
+                    .setChecked(r.expense.uid === reimbursesUid)
+                    .onClick(() => {
+                        reimbursesUid = r.expense.uid;
+                        // 默认报销到支付时使用的账户
+                        if (!to) to = r.expense.from;
+                        refreshSummary();
+                    }));
+            });
+            const rect = reimbursesChip.chip.getBoundingClientRect();
+            menu.showAtPosition({ x: rect.left, y: rect.bottom + 4 });
+        }, () => {
+            reimbursesUid = "";
+            refreshSummary();
+        });
+
+        // 13. Refund Of Chip（仅退款）：按 uid 关联原支出，沿用原支出的分类与货币
+        const refundOfChip = createHelperChip("undo-2", "关联原支出", () => {
+            const candidates = this.plugin.refundService.getRefundableExpenses()
+                .filter(t => t.uid !== refundOfUid)
+                .slice(0, 30);
+            const current = refundOfUid ? findExpense(refundOfUid) : undefined;
+            if (current) candidates.unshift(current);
+            if (candidates.length === 0) {
+                new Notice("没有可以退款的支出");
+                return;
+            }
+            const menu = new Menu();
+            candidates.forEach(t => {
+                const left = roundCurrency(t.amount - getRefundedAmount(t, refundsByUid));
+                menu.addItem(item => item
+                    .setTitle(`${t.payee || t.category || "支出"} · ${t.date} · 可退 ${getCurrencySymbol(t.currency)}${formatThousands(left, 2)}`)
+                    .setChecked(t.uid === refundOfUid)
+                    .onClick(() => {
+                        refundOfUid = t.uid;
+                        category = t.category || category;
+                        currency = t.currency;
+                        currencyEl.setText(getCurrencySymbol(currency).trim());
+                        if (!payee) payee = t.payee;
+                        // 默认退回原支付账户
+                        if (!to) to = t.refundTo || t.from;
+                        syncCategoryState();
+                        refreshSummary();
+                    }));
+            });
+            const rect = refundOfChip.chip.getBoundingClientRect();
+            menu.showAtPosition({ x: rect.left, y: rect.bottom + 4 });
+        }, () => {
+            refundOfUid = "";
+            refreshSummary();
+        });
+
+        // 14. Refunds Chip（仅已保存的支出）：查看已登记的退款，或为这笔支出登记新的退款
+        const refundsChip = createHelperChip("undo-2", "退款", () => {
+            const menu = new Menu();
+            for (const r of refundsByUid.get(this.txn.uid) ?? []) {
+                menu.addItem(item => item
+                    .setTitle(`${r.date} 退款 ${getCurrencySymbol(r.currency)}${formatThousands(r.amount, 2)}${r.to ? ` → ${r.to}` : ""}`)
+                    .setIcon("file-text")
+                    .onClick(() => {
+                        const file = this.app.vault.getAbstractFileByPath(r.path);
+                        if (file instanceof TFile) void this.app.workspace.getLeaf(true).openFile(file);
+                        this.close();
+                    }));
+            }
+            menu.addItem(item => item
+                .setTitle("登记退款")
+                .setIcon("plus")
+                .onClick(() => {
+                    this.close();
+                    void this.plugin.openRefund(this.txn);
+                }));
+            const rect = refundsChip.chip.getBoundingClientRect();
+            menu.showAtPosition({ x: rect.left, y: rect.bottom + 4 });
+        });
+
+        // 15. Attachments Chip：小票、发票等附件，也可以直接把文件拖入弹窗
+        const attachmentsChip = createHelperChip("paperclip", "附件", () => {
+            showAttachments = !showAttachments;
+            renderAttachmentEditor();
+            updateTopHelperChips();
+        });
+
+        // 16. Goal Chip（转账 / 收入 / 支出）：计入储蓄目标，支出表示从目标中取用
+        const goalChip = createHelperChip("target", "储蓄目标", () => {
+            const menu = new Menu();
+            for (const goal of allGoals) {
+                menu.addItem(item => item
+                    .setTitle(goal.targetDate ? `${goal.name} · ${goal.targetDate}` : goal.name)
+                    .setChecked(goal.fileName === goalName)
+                    .onClick(() => {
+                        goalName = goal.fileName;
+                        updateTopHelperChips();
+                    }));
+            }
+            const rect = goalChip.chip.getBoundingClientRect();
+            menu.showAtPosition({ x: rect.left, y: rect.bottom + 4 });
+        }, () => {
+            goalName = "";
+            updateTopHelperChips();
+        });
+
         // Helper to update chip states
         const updateTopHelperChips = () => {
-            const showSource = type === "支出" || type === "转账" || type === "还款";
+            const showSource = type === "支出" || type === "转账" || type === "还款" || type === "借出" || type === "投资";
             sourceAccountChip.chip.style.display = showSource ? "flex" : "none";
 
             let sourceLabel = "账户";
             if (type === "支出") sourceLabel = "支付账户";
             if (type === "转账") sourceLabel = "转出账户";
             if (type === "还款") sourceLabel = "付款账户";
+            if (type === "借出") sourceLabel = "借出账户";
+            if (type === "投资") sourceLabel = "资金账户";
 
             sourceAccountChip.textSpan.setText(from || sourceLabel);
             sourceAccountChip.chip.toggleClass("has-value", Boolean(from));
 
-            const showTarget = type === "收入" || type === "转账" || type === "还款" || type === "借款";
+            const showTarget = type === "收入" || type === "转账" || type === "还款" || type === "借款" || type === "收回" || type === "投资" || type === "退款";
             targetAccountChip.chip.style.display = showTarget ? "flex" : "none";
 
             let targetLabel = "账户";
@@ -747,17 +1018,21 @@ export class TransactionEditModal extends Modal {
             if (type === "转账") targetLabel = "转入账户";
             if (type === "还款") targetLabel = "还款目标";
             if (type === "借款") targetLabel = "借入账户";
+            if (type === "收回") targetLabel = "收回账户";
+            if (type === "投资") targetLabel = "持仓账户";
+            if (type === "退款") targetLabel = "退款账户";
 
             targetAccountChip.textSpan.setText(to || targetLabel);
             targetAccountChip.chip.toggleClass("has-value", Boolean(to));
 
-            payeeChip.textSpan.setText(payee || "商家");
+            payeeChip.textSpan.setText(payee || (type === "借出" ? "借款人" : (type === "借款" ? "出借人" : "商家")));
             payeeChip.chip.toggleClass("has-value", Boolean(payee));
             payeeChip.chip.style.display = (type === "转账") ? "none" : "flex";
 
             tagsChip.chip.toggleClass("has-value", Boolean(personsStr && personsStr.length > 0));
 
-            const showDiscount = type === "支出" || type === "还款";
+            // 支出上直接填写退款是旧格式，只为已有的旧数据保留
+            const showDiscount = (type === "支出" && refund > 0) || type === "还款";
             discountChip.chip.style.display = showDiscount ? "flex" : "none";
 
             let discountText = type === "支出" ? "退款" : "优惠";
@@ -766,6 +1041,78 @@ export class TransactionEditModal extends Modal {
 
             discountChip.textSpan.setText(discountText);
             discountChip.chip.toggleClass("has-value", (type === "还款" && discount > 0) || (type === "支出" && refund > 0));
+
+            const showSplit = type === "支出" || type === "收入";
+            splitChip.chip.toggleClass("is-hidden", !showSplit);
+            splitChip.textSpan.setText(splits.length > 0 ? `拆分 ${splits.length} 行` : "拆分");
+            splitChip.chip.toggleClass("has-value", splits.length > 0);
+            if (!showSplit) splitSection.removeClass("is-visible");
+
+            const showInstallment = type === "支出" && isCreditAccount(from);
+            installmentChip.chip.toggleClass("is-hidden", !showInstallment);
+            installmentChip.textSpan.setText(installment ? `分期 ${installment.periods} 期` : "分期");
+            installmentChip.chip.toggleClass("has-value", Boolean(installment));
+            installmentSection.toggleClass("is-visible", showInstallment && Boolean(installment));
+
+            // 还款也用于信用卡等账户间还款，没有借款时不显示
+            const showLoan = type === "收回" || (type === "还款" && (Boolean(loanUid) || getLinkableLoans().length > 0));
+            loanChip.chip.toggleClass("is-hidden", !showLoan);
+            const linked = loanUid ? allLoans.find(l => l.loan.uid === loanUid) : undefined;
+            loanChip.textSpan.setText(linked
+                ? `${linked.counterparty || "借贷"} ${linked.loan.date}`
+                : (loanUid ? "借贷已删除" : "关联借贷"));
+            loanChip.chip.toggleClass("has-value", Boolean(loanUid));
+
+            const showAmortization = type === "借款";
+            amortizationChip.chip.toggleClass("is-hidden", !showAmortization);
+            amortizationChip.textSpan.setText(amortization ? `贷款 ${amortization.term} 期` : "贷款计划");
+            amortizationChip.chip.toggleClass("has-value", Boolean(amortization));
+            amortizationSection.toggleClass("is-visible", showAmortization && Boolean(amortization));
+
+            const showShared = type === "支出";
+            sharedChip.chip.toggleClass("is-hidden", !showShared);
+            sharedChip.textSpan.setText(shared ? `AA ${shared.shares.length} 人` : "AA");
+            sharedChip.chip.toggleClass("has-value", Boolean(shared));
+            sharedSection.toggleClass("is-visible", showShared && Boolean(shared));
+
+            reimbursementChip.chip.toggleClass("is-hidden", type !== "支出");
+            reimbursementChip.textSpan.setText(reimbursementStatus ? `报销：${REIMBURSEMENT_STATUS_LABELS[reimbursementStatus]}` : "报销");
+            reimbursementChip.chip.toggleClass("has-value", Boolean(reimbursementStatus));
+
+            // 没有可报销支出时不显示
+            const showReimburses = type === "收入" && (Boolean(reimbursesUid) || allReimbursements.some(r => r.outstanding > 0));
+            reimbursesChip.chip.toggleClass("is-hidden", !showReimburses);
+            const reimbursed = reimbursesUid ? allReimbursements.find(r => r.expense.uid === reimbursesUid) : undefined;
+            reimbursesChip.textSpan.setText(reimbursed
+                ? `报销 ${reimbursed.expense.payee || reimbursed.expense.category} ${reimbursed.expense.date}`
+                : (reimbursesUid ? "支出已删除" : "关联报销"));
+            reimbursesChip.chip.toggleClass("has-value", Boolean(reimbursesUid));
+
+            refundOfChip.chip.toggleClass("is-hidden", type !== "退款");
+            const original = refundOfUid ? findExpense(refundOfUid) : undefined;
+            refundOfChip.textSpan.setText(original
+                ? `退款自 ${original.payee || original.category} ${original.date}`
+                : (refundOfUid ? "原支出已删除" : "关联原支出"));
+            refundOfChip.chip.toggleClass("has-value", Boolean(refundOfUid));
+
+            const linkedRefunds = this.txn.uid ? refundsByUid.get(this.txn.uid) ?? [] : [];
+            refundsChip.chip.toggleClass("is-hidden", !(type === "支出" && !this.isNewTransaction && this.txn.uid));
+            refundsChip.textSpan.setText(linkedRefunds.length > 0 ? `已退款 ${linkedRefunds.length} 笔` : "退款");
+            refundsChip.chip.toggleClass("has-value", linkedRefunds.length > 0);
+
+            // 没有目标时不显示
+            const showGoal = (type === "转账" || type === "收入" || type === "支出") && (Boolean(goalName) || allGoals.length > 0);
+            goalChip.chip.toggleClass("is-hidden", !showGoal);
+            const goal = goalName ? allGoals.find(g => g.fileName === goalName) : undefined;
+            goalChip.textSpan.setText(goal ? `目标：${goal.name}` : (goalName ? "目标已删除" : "储蓄目标"));
+            goalChip.chip.toggleClass("has-value", Boolean(goalName));
+
+            const attachmentCount = attachments.length + pendingFiles.length;
+            attachmentsChip.textSpan.setText(attachmentCount > 0 ? `附件 ${attachmentCount}` : "附件");
+            attachmentsChip.chip.toggleClass("has-value", attachmentCount > 0);
+            attachmentSection.toggleClass("is-visible", showAttachments || attachmentCount > 0);
+
+            investSection.toggleClass("is-visible", type === "投资");
         };
 
         // --- Fused Card Section ---
@@ -880,7 +1227,30 @@ export class TransactionEditModal extends Modal {
 
         // Row 1: Amount
         const amountRow = fusedCard.createDiv({ cls: "cost-fused-amount-row" });
-        amountRow.createSpan({ cls: "cost-currency-symbol", text: "¥" });
+        const currencyEl = amountRow.createSpan({
+            cls: "cost-currency-symbol is-clickable",
+            text: getCurrencySymbol(currency).trim(),
+            attr: { "aria-label": "切换币种" }
+        });
+        currencyEl.onclick = (e) => {
+            // 候选币种：本位币 + 汇率表中的货币 + 账户使用的货币
+            const options = new Set<string>(this.plugin.exchangeRateService.getKnownCurrencies());
+            this.accountService.getAccounts().forEach(acc => {
+                if (acc.currency) options.add(acc.currency.toUpperCase());
+            });
+            const menu = new Menu();
+            Array.from(options).sort().forEach(code => {
+                menu.addItem(item => {
+                    item.setTitle(`${code} ${getCurrencySymbol(code).trim()}`)
+                        .setChecked(code === currency)
+                        .onClick(() => {
+                            currency = code;
+                            currencyEl.setText(getCurrencySymbol(code).trim());
+                        });
+                });
+            });
+            menu.showAtMouseEvent(e);
+        };
         const amountInput = amountRow.createEl("input", {
             cls: "cost-fused-amount-input",
             attr: {
@@ -892,6 +1262,10 @@ export class TransactionEditModal extends Modal {
         amountInput.value = amount > 0 ? String(amount) : "";
         amountInput.oninput = () => {
             amount = this.parseAmount(amountInput.value);
+            updateSplitRemaining();
+            renderInstallmentPreview();
+            renderAmortizationPreview();
+            renderSharedPreview();
         };
 
         // Row 2: Meta (Time pill | Memo | Expand)
@@ -941,6 +1315,546 @@ export class TransactionEditModal extends Modal {
             dateTimeRow.toggleClass("is-visible", !dateTimeRow.hasClass("is-visible"));
         };
 
+        // --- Split Editor ---
+        const splitSection = page.createDiv({ cls: "cost-split-editor" });
+        if (splits.length > 0 && (type === "支出" || type === "收入")) splitSection.addClass("is-visible");
+        let splitRemainingEl: HTMLElement | null = null;
+
+        const updateSplitRemaining = () => {
+            if (!splitRemainingEl) return;
+            const remaining = roundCurrency(amount - getSplitTotal(splits));
+            splitRemainingEl.removeClass("is-over", "is-balanced");
+            if (Math.abs(remaining) < 0.005) {
+                splitRemainingEl.setText("已全部分配");
+                splitRemainingEl.addClass("is-balanced");
+            } else if (remaining > 0) {
+                splitRemainingEl.setText(`未分配 ${formatThousands(remaining, 2)}`);
+            } else {
+                splitRemainingEl.setText(`超出 ${formatThousands(-remaining, 2)}`);
+                splitRemainingEl.addClass("is-over");
+            }
+        };
+
+        const renderSplitEditor = () => {
+            splitSection.empty();
+
+            const head = splitSection.createDiv({ cls: "cost-split-header" });
+            head.createSpan({ cls: "cost-split-title", text: "拆分明细" });
+            splitRemainingEl = head.createSpan({ cls: "cost-split-remaining" });
+
+            // 分类候选：当前类型下已有的分类
+            const datalist = splitSection.createEl("datalist");
+            datalist.id = `cost-split-categories-${Date.now()}`;
+            collectCategoryGroups(this.service.getTransactions(), type).forEach(group => {
+                if (group.selectableSelf || group.children.length === 0) datalist.createEl("option", { value: group.primary });
+                group.children.forEach(child => datalist.createEl("option", { value: `${group.primary}/${child}` }));
+            });
+
+            const list = splitSection.createDiv({ cls: "cost-split-list" });
+            splits.forEach((split, idx) => {
+                const row = list.createDiv({ cls: "cost-split-row" });
+
+                const catInput = row.createEl("input", {
+                    cls: "cost-split-category",
+                    attr: { type: "text", placeholder: "分类", list: datalist.id }
+                });
+                catInput.value = split.category;
+                catInput.oninput = () => { split.category = catInput.value.trim(); };
+
+                const amtInput = row.createEl("input", {
+                    cls: "cost-split-amount",
+                    attr: { type: "text", inputmode: "decimal", placeholder: "0.00" }
+                });
+                amtInput.value = split.amount ? String(split.amount) : "";
+                amtInput.oninput = () => {
+                    split.amount = this.parseAmount(amtInput.value);
+                    updateSplitRemaining();
+                };
+
+                const personsInput = row.createEl("input", {
+                    cls: "cost-split-persons",
+                    attr: { type: "text", placeholder: "参与人" }
+                });
+                personsInput.value = split.persons.join(", ");
+                personsInput.oninput = () => {
+                    split.persons = personsInput.value.split(/[,，]/).map(s => s.trim()).filter(Boolean);
+                };
+
+                const noteInput = row.createEl("input", {
+                    cls: "cost-split-note",
+                    attr: { type: "text", placeholder: "备注" }
+                });
+                noteInput.value = split.note;
+                noteInput.oninput = () => { split.note = noteInput.value; };
+
+                const removeBtn = row.createEl("button", {
+                    cls: "clickable-icon cost-split-remove",
+                    attr: { type: "button", "aria-label": "删除此行" }
+                });
+                setIcon(removeBtn, "x");
+                removeBtn.onclick = () => {
+                    splits.splice(idx, 1);
+                    renderSplitEditor();
+                    updateTopHelperChips();
+                };
+            });
+
+            const addRowBtn = splitSection.createEl("button", {
+                cls: "cost-split-add",
+                text: "添加一行",
+                attr: { type: "button" }
+            });
+            addRowBtn.onclick = () => {
+                // 新行默认填入剩余未分配金额
+                const remaining = roundCurrency(amount - getSplitTotal(splits));
+                splits.push({ category: "", amount: remaining > 0 ? remaining : 0, note: "", persons: [] });
+                renderSplitEditor();
+                updateTopHelperChips();
+            };
+
+            updateSplitRemaining();
+        };
+        renderSplitEditor();
+
+        // --- Installment Editor ---
+        const installmentSection = page.createDiv({ cls: "cost-installment-editor" });
+        let installmentPreviewEl: HTMLElement | null = null;
+
+        const renderInstallmentPreview = () => {
+            if (!installmentPreviewEl) return;
+            installmentPreviewEl.empty();
+            if (!installment || amount <= 0) return;
+
+            const schedule = getInstallmentSchedule(installment, amount, date);
+            const first = schedule[0];
+            const totalFee = roundCurrency(schedule.reduce((sum, p) => sum + p.fee, 0));
+            const symbol = getCurrencySymbol(currency);
+            installmentPreviewEl.setText(
+                `每期本金 ${symbol}${formatThousands(first?.principal ?? 0, 2)}，手续费 ${symbol}${formatThousands(first?.fee ?? 0, 2)}（${INSTALLMENT_FEE_CATEGORY}），` +
+                `共 ${installment.periods} 期，总手续费 ${symbol}${formatThousands(totalFee, 2)}，` +
+                `${schedule[0]?.month ?? ""} 至 ${schedule[schedule.length - 1]?.month ?? ""}`
+            );
+        };
+
+        const renderInstallmentEditor = () => {
+            installmentSection.empty();
+            installmentPreviewEl = null;
+            if (!installment) return;
+            const plan = installment;
+
+            const head = installmentSection.createDiv({ cls: "cost-split-header" });
+            head.createSpan({ cls: "cost-split-title", text: "分期计划" });
+
+            const row = installmentSection.createDiv({ cls: "cost-installment-row" });
+
+            const periodsSelect = row.createEl("select", { cls: "dropdown cost-installment-periods" });
+            for (const n of [3, 6, 9, 12, 18, 24, 36]) {
+                periodsSelect.createEl("option", { value: String(n), text: `${n} 期` });
+            }
+            periodsSelect.value = String(plan.periods);
+            periodsSelect.onchange = () => {
+                plan.periods = parseInt(periodsSelect.value, 10) || 12;
+                renderInstallmentPreview();
+                updateTopHelperChips();
+            };
+
+            const feeModeSelect = row.createEl("select", { cls: "dropdown cost-installment-fee-mode" });
+            feeModeSelect.createEl("option", { value: "rate", text: "每期费率 %" });
+            feeModeSelect.createEl("option", { value: "fixed", text: "每期固定手续费" });
+            feeModeSelect.value = plan.fee > 0 ? "fixed" : "rate";
+
+            const feeInput = row.createEl("input", {
+                cls: "cost-installment-fee",
+                attr: { type: "text", inputmode: "decimal", placeholder: "0" }
+            });
+            const syncFeeInput = () => {
+                const value = feeModeSelect.value === "fixed" ? plan.fee : plan.feeRate;
+                feeInput.value = value > 0 ? String(value) : "";
+            };
+            syncFeeInput();
+            feeModeSelect.onchange = () => {
+                // 两种手续费方式互斥，切换时清空另一项
+                plan.fee = 0;
+                plan.feeRate = 0;
+                syncFeeInput();
+                renderInstallmentPreview();
+            };
+            feeInput.oninput = () => {
+                const value = Math.max(0, this.parseAmount(feeInput.value));
+                if (feeModeSelect.value === "fixed") plan.fee = value;
+                else plan.feeRate = value;
+                renderInstallmentPreview();
+            };
+
+            const monthInput = row.createEl("input", {
+                cls: "cost-installment-month",
+                attr: { type: "month", "aria-label": "首期入账月份" }
+            });
+            monthInput.value = plan.firstMonth;
+            monthInput.onchange = () => {
+                if (/^\d{4}-\d{2}$/.test(monthInput.value)) plan.firstMonth = monthInput.value;
+                renderInstallmentPreview();
+            };
+
+            installmentPreviewEl = installmentSection.createDiv({ cls: "cost-installment-preview" });
+            renderInstallmentPreview();
+        };
+        renderInstallmentEditor();
+
+        // --- Amortization Editor ---
+        const amortizationSection = page.createDiv({ cls: "cost-amortization-editor" });
+        let amortizationPreviewEl: HTMLElement | null = null;
+
+        const renderAmortizationPreview = () => {
+            if (!amortizationPreviewEl) return;
+            amortizationPreviewEl.empty();
+            if (!amortization || amount <= 0) return;
+
+            const schedule = buildAmortizationSchedule(amortization, amount, []);
+            const first = schedule.rows[0];
+            const last = schedule.rows[schedule.rows.length - 1];
+            const totalInterest = roundCurrency(schedule.rows.reduce((sum, row) => sum + row.interest, 0));
+            const symbol = getCurrencySymbol(currency);
+            const firstText = amortization.method === "equal_principal"
+                ? `首期月供 ${symbol}${formatThousands(first?.payment ?? 0, 2)}（逐月递减）`
+                : `每期月供 ${symbol}${formatThousands(first?.payment ?? 0, 2)}`;
+            amortizationPreviewEl.setText(
+                `${firstText}，总利息 ${symbol}${formatThousands(totalInterest, 2)}（还款时计入「${LOAN_INTEREST_CATEGORY}」），` +
+                `${first?.dueDate ?? ""} 至 ${last?.dueDate ?? ""}`
+            );
+        };
+
+        const renderAmortizationEditor = () => {
+            amortizationSection.empty();
+            amortizationPreviewEl = null;
+            if (!amortization) return;
+            const plan = amortization;
+
+            const head = amortizationSection.createDiv({ cls: "cost-split-header" });
+            head.createSpan({ cls: "cost-split-title", text: "贷款计划" });
+
+            const row = amortizationSection.createDiv({ cls: "cost-amortization-row" });
+
+            const termInput = row.createEl("input", {
+                cls: "cost-amortization-term",
+                attr: { type: "number", min: "1", step: "1", "aria-label": "期数（月）", placeholder: "期数" }
+            });
+            termInput.value = String(plan.term);
+            termInput.oninput = () => {
+                plan.term = Math.max(1, parseInt(termInput.value, 10) || 1);
+                renderAmortizationPreview();
+                updateTopHelperChips();
+            };
+
+            const rateInput = row.createEl("input", {
+                cls: "cost-amortization-rate",
+                attr: { type: "text", inputmode: "decimal", "aria-label": "年利率 %", placeholder: "年利率 %" }
+            });
+            rateInput.value = plan.rate > 0 ? String(plan.rate) : "";
+            rateInput.oninput = () => {
+                plan.rate = Math.max(0, this.parseAmount(rateInput.value));
+                renderAmortizationPreview();
+            };
+
+            const methodSelect = row.createEl("select", { cls: "dropdown cost-amortization-method" });
+            methodSelect.createEl("option", { value: "equal_installment", text: "等额本息" });
+            methodSelect.createEl("option", { value: "equal_principal", text: "等额本金" });
+            methodSelect.value = plan.method;
+            methodSelect.onchange = () => {
+                plan.method = methodSelect.value === "equal_principal" ? "equal_principal" : "equal_installment";
+                renderAmortizationPreview();
+            };
+
+            const dueInput = row.createEl("input", {
+                cls: "cost-amortization-due",
+                attr: { type: "date", "aria-label": "首期还款日" }
+            });
+            dueInput.value = plan.firstDue;
+            dueInput.onchange = () => {
+                if (/^\d{4}-\d{2}-\d{2}$/.test(dueInput.value)) plan.firstDue = dueInput.value;
+                renderAmortizationPreview();
+            };
+
+            amortizationPreviewEl = amortizationSection.createDiv({ cls: "cost-amortization-preview" });
+            renderAmortizationPreview();
+        };
+        renderAmortizationEditor();
+
+        // --- Shared Editor（仅支出）---
+        const sharedSection = page.createDiv({ cls: "cost-shared-editor" });
+        let sharedPreviewEl: HTMLElement | null = null;
+
+        const renderSharedPreview = () => {
+            if (!sharedPreviewEl) return;
+            sharedPreviewEl.empty();
+            sharedPreviewEl.removeClass("is-over");
+            if (!shared || amount <= 0) return;
+
+            const symbol = getCurrencySymbol(currency);
+            if (!isShareBalanced(shared, amount)) {
+                const total = roundCurrency(shared.shares.reduce((sum, s) => sum + s.value, 0));
+                sharedPreviewEl.setText(`指定金额合计 ${symbol}${formatThousands(total, 2)} 与总额 ${symbol}${formatThousands(amount, 2)} 不一致`);
+                sharedPreviewEl.addClass("is-over");
+                return;
+            }
+            const parts = computeShares(shared, amount)
+                .filter(s => s.person)
+                .map(s => `${s.person} ${symbol}${formatThousands(s.amount, 2)}`);
+            sharedPreviewEl.setText(`${shared.paidBy} 付款，${parts.join("，")}`);
+        };
+
+        const renderSharedEditor = () => {
+            sharedSection.empty();
+            sharedPreviewEl = null;
+            if (!shared) return;
+            const plan = shared;
+
+            const head = sharedSection.createDiv({ cls: "cost-split-header" });
+            head.createSpan({ cls: "cost-split-title", text: "AA 分摊" });
+
+            // 参与人候选：标签中出现过的人
+            const datalist = sharedSection.createEl("datalist");
+            datalist.id = `cost-shared-persons-${Date.now()}`;
+            [SELF_PERSON, ...personsOptions.filter(p => p !== SELF_PERSON)].forEach(p => datalist.createEl("option", { value: p }));
+
+            const row = sharedSection.createDiv({ cls: "cost-shared-row" });
+            const methodSelect = row.createEl("select", { cls: "dropdown cost-shared-method" });
+            for (const [value, label] of Object.entries(SHARE_METHOD_LABELS)) {
+                methodSelect.createEl("option", { value, text: label });
+            }
+            methodSelect.value = plan.method;
+            methodSelect.onchange = () => {
+                plan.method = methodSelect.value as ShareMethod;
+                if (plan.method === "exact") {
+                    // 切换到指定金额时以均摊结果作为初始值
+                    computeShares({ ...plan, method: "equal" }, amount).forEach((s, i) => {
+                        const share = plan.shares[i];
+                        if (share) share.value = s.amount;
+                    });
+                } else if (plan.method === "ratio") {
+                    plan.shares.forEach(s => { s.value = 1; });
+                }
+                renderSharedEditor();
+            };
+
+            row.createSpan({ cls: "cost-shared-label", text: "付款人" });
+            const paidByInput = row.createEl("input", {
+                cls: "cost-shared-paid-by",
+                attr: { type: "text", placeholder: SELF_PERSON, list: datalist.id }
+            });
+            paidByInput.value = plan.paidBy;
+            paidByInput.oninput = () => {
+                plan.paidBy = paidByInput.value.trim() || SELF_PERSON;
+                renderSharedPreview();
+            };
+
+            const list = sharedSection.createDiv({ cls: "cost-split-list" });
+            plan.shares.forEach((share, idx) => {
+                const shareRow = list.createDiv({ cls: "cost-shared-share-row" });
+                const personInput = shareRow.createEl("input", {
+                    cls: "cost-shared-person",
+                    attr: { type: "text", placeholder: "参与人", list: datalist.id }
+                });
+                personInput.value = share.person;
+                personInput.oninput = () => {
+                    share.person = personInput.value.trim();
+                    renderSharedPreview();
+                };
+
+                if (plan.method !== "equal") {
+                    const valueInput = shareRow.createEl("input", {
+                        cls: "cost-split-amount",
+                        attr: { type: "text", inputmode: "decimal", placeholder: plan.method === "ratio" ? "份数" : "0.00" }
+                    });
+                    valueInput.value = share.value ? String(share.value) : "";
+                    valueInput.oninput = () => {
+                        share.value = Math.max(0, this.parseAmount(valueInput.value));
+                        renderSharedPreview();
+                    };
+                }
+
+                const removeBtn = shareRow.createEl("button", {
+                    cls: "clickable-icon cost-split-remove",
+                    attr: { type: "button", "aria-label": "移除参与人" }
+                });
+                setIcon(removeBtn, "x");
+                removeBtn.onclick = () => {
+                    plan.shares.splice(idx, 1);
+                    renderSharedEditor();
+                    updateTopHelperChips();
+                };
+            });
+
+            const addBtn = sharedSection.createEl("button", {
+                cls: "cost-split-add",
+                text: "添加参与人",
+                attr: { type: "button" }
+            });
+            addBtn.onclick = () => {
+                plan.shares.push({ person: "", value: plan.method === "exact" ? 0 : 1 });
+                renderSharedEditor();
+                updateTopHelperChips();
+            };
+
+            sharedPreviewEl = sharedSection.createDiv({ cls: "cost-amortization-preview" });
+            renderSharedPreview();
+        };
+        renderSharedEditor();
+
+        // --- Attachment Editor ---
+        const attachmentSection = page.createDiv({ cls: "cost-attachment-editor" });
+        const fileInput = attachmentSection.createEl("input", {
+            cls: "cost-attachment-input",
+            attr: { type: "file", multiple: "", accept: "image/*,.pdf" }
+        });
+        const addFiles = (files: FileList | null) => {
+            if (!files || files.length === 0) return;
+            pendingFiles.push(...Array.from(files));
+            showAttachments = true;
+            renderAttachmentEditor();
+            updateTopHelperChips();
+        };
+        fileInput.onchange = () => {
+            addFiles(fileInput.files);
+            fileInput.value = "";
+        };
+
+        const renderAttachmentEditor = () => {
+            attachmentSection.findAll(".cost-attachment-content").forEach(el => el.remove());
+            const content = attachmentSection.createDiv({ cls: "cost-attachment-content" });
+            const head = content.createDiv({ cls: "cost-split-header" });
+            head.createSpan({ cls: "cost-split-title", text: "附件" });
+
+            const list = content.createDiv({ cls: "cost-split-list" });
+            attachments.forEach((link, idx) => {
+                const row = list.createDiv({ cls: "cost-attachment-row" });
+                const name = row.createSpan({ cls: "cost-attachment-name is-clickable", text: link.split("/").pop() || link });
+                name.onclick = () => {
+                    const file = this.plugin.attachmentService.resolve(this.txn, link);
+                    if (file) void this.app.workspace.getLeaf(true).openFile(file);
+                    else new Notice("附件文件不存在: " + link);
+                };
+                const removeBtn = row.createEl("button", {
+                    cls: "clickable-icon cost-split-remove",
+                    attr: { type: "button", "aria-label": "移除附件（不删除文件）" }
+                });
+                setIcon(removeBtn, "x");
+                removeBtn.onclick = () => {
+                    attachments.splice(idx, 1);
+                    renderAttachmentEditor();
+                    updateTopHelperChips();
+                };
+            });
+            pendingFiles.forEach((file, idx) => {
+                const row = list.createDiv({ cls: "cost-attachment-row is-pending" });
+                row.createSpan({ cls: "cost-attachment-name", text: file.name });
+                row.createSpan({ cls: "cost-attachment-hint", text: "保存后复制" });
+                const removeBtn = row.createEl("button", {
+                    cls: "clickable-icon cost-split-remove",
+                    attr: { type: "button", "aria-label": "移除附件" }
+                });
+                setIcon(removeBtn, "x");
+                removeBtn.onclick = () => {
+                    pendingFiles.splice(idx, 1);
+                    renderAttachmentEditor();
+                    updateTopHelperChips();
+                };
+            });
+
+            const dropzone = content.createDiv({ cls: "cost-attachment-dropzone", text: "拖入小票 / 发票，或点击选择文件" });
+            dropzone.onclick = () => fileInput.click();
+        };
+        renderAttachmentEditor();
+
+        // 整个弹窗都可以拖入附件
+        this.modalEl.addEventListener("dragover", (e) => {
+            if (!e.dataTransfer?.types.includes("Files")) return;
+            e.preventDefault();
+            this.modalEl.addClass("is-dragover");
+        });
+        this.modalEl.addEventListener("dragleave", (e) => {
+            if (e.target === this.modalEl) this.modalEl.removeClass("is-dragover");
+        });
+        this.modalEl.addEventListener("drop", (e) => {
+            if (!e.dataTransfer?.files.length) return;
+            e.preventDefault();
+            this.modalEl.removeClass("is-dragover");
+            addFiles(e.dataTransfer.files);
+        });
+
+        // --- Investment Editor（仅投资）---
+        const investSection = page.createDiv({ cls: "cost-invest-editor" });
+        const renderInvestEditor = () => {
+            investSection.empty();
+            const head = investSection.createDiv({ cls: "cost-split-header" });
+            head.createSpan({ cls: "cost-split-title", text: "投资明细" });
+
+            const row = investSection.createDiv({ cls: "cost-invest-row" });
+            const actionSelect = row.createEl("select", { cls: "dropdown cost-invest-action" });
+            for (const [value, label] of Object.entries(INVEST_ACTION_LABELS)) {
+                actionSelect.createEl("option", { value, text: label });
+            }
+            actionSelect.value = investAction;
+
+            const securityInput = row.createEl("input", {
+                cls: "cost-invest-security",
+                attr: { type: "text", "aria-label": "证券代码", placeholder: "证券代码" }
+            });
+            securityInput.value = security;
+            const knownSecurities = Array.from(new Set([
+                ...this.plugin.priceService.getSecurities().map(s => s.security),
+                ...this.service.getTransactions().map(t => t.security ?? ""),
+            ].filter(Boolean))).sort();
+            if (knownSecurities.length > 0) {
+                const datalist = investSection.createEl("datalist", { attr: { id: "cost-invest-securities" } });
+                knownSecurities.forEach(code => datalist.createEl("option", { value: code }));
+                securityInput.setAttr("list", "cost-invest-securities");
+            }
+            securityInput.oninput = () => {
+                security = securityInput.value.trim();
+            };
+
+            const quantityInput = row.createEl("input", {
+                cls: "cost-invest-quantity",
+                attr: { type: "text", inputmode: "decimal", "aria-label": "数量", placeholder: "数量" }
+            });
+            quantityInput.value = quantity > 0 ? String(quantity) : "";
+
+            const priceInput = row.createEl("input", {
+                cls: "cost-invest-price",
+                attr: { type: "text", inputmode: "decimal", "aria-label": "成交价", placeholder: "成交价" }
+            });
+            priceInput.value = price > 0 ? String(price) : "";
+
+            // 买入 / 卖出时按数量 × 成交价自动填写金额，手续费可直接改金额计入成本
+            const syncAmount = () => {
+                if (investAction !== "buy" && investAction !== "sell") return;
+                if (quantity <= 0 || price <= 0) return;
+                amount = roundCurrency(quantity * price);
+                amountInput.value = String(amount);
+            };
+            const syncTradeInputs = () => {
+                const isTrade = investAction === "buy" || investAction === "sell";
+                quantityInput.toggleClass("is-hidden", !isTrade);
+                priceInput.toggleClass("is-hidden", !isTrade);
+            };
+            quantityInput.oninput = () => {
+                quantity = Math.max(0, this.parseAmount(quantityInput.value));
+                syncAmount();
+            };
+            priceInput.oninput = () => {
+                price = Math.max(0, this.parseAmount(priceInput.value));
+                syncAmount();
+            };
+            actionSelect.onchange = () => {
+                investAction = actionSelect.value as InvestAction;
+                syncTradeInputs();
+                syncAmount();
+            };
+            syncTradeInputs();
+        };
+        renderInvestEditor();
+
         const summary = page.createDiv({ cls: "cost-add-txn-summary" });
 
         const footer = page.createDiv({ cls: "cost-add-txn-footer" });
@@ -970,7 +1884,8 @@ export class TransactionEditModal extends Modal {
 
         const saveBtn = footer.createEl("button", { text: "保存交易", cls: "mod-cta cost-add-txn-save-btn", attr: { type: "button" } });
         saveBtn.onclick = async () => {
-            if (type === "转账" && (!from || !to)) {
+            // AA 结算中有一方不是我时，转账可以不指定某一侧账户
+            if (type === "转账" && !this.txn.settlement && (!from || !to)) {
                 new Notice("转账记录需要同时指定来源账户和目标账户");
                 return;
             }
@@ -981,13 +1896,130 @@ export class TransactionEditModal extends Modal {
                 return;
             }
 
+            // 退款：按原支出的货币记录
+            const refundOriginal = type === "退款" && refundOfUid ? findExpense(refundOfUid) : undefined;
+            if (refundOriginal && refundOriginal.currency !== currency) {
+                new Notice(`退款需要使用原支出的货币 ${refundOriginal.currency}`);
+                return;
+            }
+
+            // 拆分明细：忽略空行，合计必须等于总额
+            const splitLines = (type === "支出" || type === "收入")
+                ? splits.filter(s => s.category && s.amount !== 0)
+                : [];
+            if (splitLines.length > 0) {
+                if (rawAmounts.length > 1) {
+                    new Notice("拆分交易不支持一次输入多个金额");
+                    return;
+                }
+                const total = this.parseAmount(rawAmounts[0] ?? "");
+                if (!isSplitBalanced(total, splitLines)) {
+                    new Notice(`拆分明细合计 ${formatThousands(getSplitTotal(splitLines), 2)} 与总额 ${formatThousands(total, 2)} 不一致`);
+                    return;
+                }
+            }
+
+            // 分期：仅信用卡支出，且不能与拆分或多金额同时使用
+            const installmentPlan = type === "支出" && isCreditAccount(from) ? installment : null;
+            if (installmentPlan) {
+                if (rawAmounts.length > 1 || splitLines.length > 0) {
+                    new Notice("分期交易不支持拆分或一次输入多个金额");
+                    return;
+                }
+            }
+
+            // 贷款计划：仅借款，本金为借款金额
+            const amortizationPlan = type === "借款" ? amortization : null;
+            if (amortizationPlan && rawAmounts.length > 1) {
+                new Notice("贷款计划不支持一次输入多个金额");
+                return;
+            }
+
+            // 投资：买入 / 卖出需要证券代码和数量，分红 / 费用需要证券代码
+            const isTrade = investAction === "buy" || investAction === "sell";
+            if (type === "投资") {
+                if (!security) {
+                    new Notice("投资交易需要填写证券代码");
+                    return;
+                }
+                if (isTrade && quantity <= 0) {
+                    new Notice("买入 / 卖出需要填写数量");
+                    return;
+                }
+                if (rawAmounts.length > 1) {
+                    new Notice("投资交易不支持一次输入多个金额");
+                    return;
+                }
+            }
+
+            // AA：仅支出，参与人不能重复，指定金额的合计必须等于总额
+            const sharedPlan = type === "支出" && shared
+                ? { ...shared, shares: shared.shares.filter(s => s.person) }
+                : null;
+            if (sharedPlan) {
+                if (sharedPlan.shares.length === 0) {
+                    new Notice("分摊至少需要一位参与人");
+                    return;
+                }
+                if (new Set(sharedPlan.shares.map(s => s.person)).size !== sharedPlan.shares.length) {
+                    new Notice("分摊参与人不能重复");
+                    return;
+                }
+                if (rawAmounts.length > 1) {
+                    new Notice("分摊交易不支持一次输入多个金额");
+                    return;
+                }
+                const total = this.parseAmount(rawAmounts[0] ?? "");
+                if (!isShareBalanced(sharedPlan, netAmount(total, refund))) {
+                    new Notice("指定的分摊金额合计与实付金额不一致");
+                    return;
+                }
+                if (sharedPlan.method === "ratio" && !sharedPlan.shares.some(s => s.value > 0)) {
+                    new Notice("按比例分摊需要填写份数");
+                    return;
+                }
+            }
+
             const personsArray = personsStr
                 .split(/[,，]/)
                 .map((s) => s.trim())
                 .filter((s) => s.length > 0);
+            // AA 参与人同时记入参与人标签
+            if (sharedPlan) {
+                for (const p of [sharedPlan.paidBy, ...sharedPlan.shares.map(s => s.person)]) {
+                    if (p !== SELF_PERSON && !personsArray.includes(p)) personsArray.push(p);
+                }
+            }
+
+            // 与已有交易疑似重复时先确认，避免同一笔消费记两次
+            const duplicate = this.findLikelyDuplicate(rawAmounts.map(a => this.parseAmount(a)), {
+                ...this.txn, txnType: type, date: dateInput.value || date, category, currency, from, to, payee,
+            });
+            if (duplicate) {
+                const { b, reasons } = duplicate;
+                const desc = `${b.date} ${b.payee || b.category || b.txnType} ${getCurrencySymbol(b.currency)}${formatThousands(b.amount, 2)}`;
+                if (!window.confirm(`可能与已有交易重复：${desc}（${reasons.join("、")}），仍要保存吗？`)) return;
+            }
+
+            // 附件：新选择的文件复制到交易日期的附件目录
+            const attachmentLinks = attachments.map(link => `[[${link}]]`);
+            try {
+                for (const file of pendingFiles) {
+                    attachmentLinks.push(await this.plugin.attachmentService.saveAttachment(dateInput.value || date, file.name, await file.arrayBuffer()));
+                }
+            } catch (e) {
+                console.error("[Cost Plugin] 保存附件失败:", e);
+                new Notice("保存附件失败: " + (e instanceof Error ? e.message : String(e)));
+                return;
+            }
+            pendingFiles.length = 0;
+            attachments.splice(0, attachments.length, ...attachmentLinks.map(l => l.slice(2, -2)));
 
             let savedCount = 0;
             let finalPath = "";
+            let savedExpense = 0;
+            const ruleChanges: RuleChange[] = [];
+            const originalPath = this.file?.path;
             const baseTimeStr = this.normalizeTime(timeInput.value || time);
             const [bH, bM, bS] = baseTimeStr.split(":").map(Number);
             const baseDateObj = new Date(dateInput.value || date);
@@ -1018,7 +2050,14 @@ export class TransactionEditModal extends Modal {
                     refund: type === "支出" ? refund : 0,
                     refund_to: type === "支出" ? refundTo : "",
                     txn_type: type,
+                    currency,
                     category,
+                    splits: splitLines.map(s => ({
+                        category: s.category,
+                        amount: s.amount,
+                        ...(s.note ? { note: s.note } : {}),
+                        ...(s.persons.length > 0 ? { persons: s.persons } : {}),
+                    })),
                     from,
                     to,
                     payee,
@@ -1026,8 +2065,88 @@ export class TransactionEditModal extends Modal {
                     persons: personsArray,
                     address,
                     latitude,
-                    longitude
+                    longitude,
+                    // 空字符串会删除旧的关联
+                    loan: type === "还款" || type === "收回" ? loanUid : ""
                 };
+                if (installmentPlan) {
+                    txnData.installment = {
+                        periods: installmentPlan.periods,
+                        first_month: installmentPlan.firstMonth,
+                        ...(installmentPlan.fee > 0 ? { fee: installmentPlan.fee } : {}),
+                        ...(installmentPlan.fee <= 0 && installmentPlan.feeRate > 0 ? { fee_rate: installmentPlan.feeRate } : {}),
+                    };
+                } else if (this.txn.installment) {
+                    // 取消分期：periods 为 0 时删除该字段
+                    txnData.installment = { periods: 0, first_month: "" };
+                }
+
+                if (amortizationPlan) {
+                    txnData.amortization = {
+                        rate: amortizationPlan.rate,
+                        term: amortizationPlan.term,
+                        method: amortizationPlan.method,
+                        first_due: amortizationPlan.firstDue,
+                    };
+                } else if (this.txn.amortization) {
+                    // 取消贷款计划：term 为 0 时删除该字段
+                    txnData.amortization = { rate: 0, term: 0 };
+                }
+
+                if (sharedPlan) {
+                    txnData.shared = {
+                        method: sharedPlan.method,
+                        paid_by: sharedPlan.paidBy,
+                        shares: sharedPlan.shares.map(s => ({
+                            person: s.person,
+                            ...(sharedPlan.method !== "equal" ? { value: s.value } : {}),
+                        })),
+                    };
+                } else if (this.txn.shared) {
+                    // 取消分摊：shares 为空时删除该字段
+                    txnData.shared = { shares: [] };
+                }
+                if (this.txn.settlement) {
+                    txnData.settlement = this.txn.settlement;
+                }
+                if (type === "支出" && reimbursementStatus) {
+                    const submittedDate = this.txn.reimbursement?.submittedDate;
+                    txnData.reimbursement = {
+                        status: reimbursementStatus,
+                        ...(submittedDate ? { submitted_date: submittedDate } : {}),
+                    };
+                } else if (this.txn.reimbursement) {
+                    // 取消报销：没有 status 时删除该字段
+                    txnData.reimbursement = {};
+                }
+                // 空字符串会删除旧的关联
+                txnData.reimburses = type === "收入" ? reimbursesUid : "";
+                txnData.refund_of = type === "退款" ? refundOfUid : "";
+                txnData.goal = goalName && (type === "转账" || type === "收入" || type === "支出") ? `[[${goalName}]]` : "";
+                if (attachmentLinks.length > 0 || this.txn.attachments) {
+                    txnData.attachments = attachmentLinks;
+                }
+
+                if (type === "投资") {
+                    txnData.invest_action = investAction;
+                    txnData.security = security;
+                    if (isTrade) {
+                        txnData.quantity = quantity;
+                        txnData.price = price > 0 ? price : roundCurrency(amtVal / quantity);
+                    }
+                }
+
+                // 新建交易按规则补全空着的字段；拆分交易的分类以明细为准
+                if (this.isNewTransaction && this.plugin.settings.rules.length > 0) {
+                    const { changes, patch } = evaluateRules({
+                        ...this.txn, txnType: type, time: timeWithSeconds, amount: amtVal,
+                        category: splitLines.length > 0 ? splitLines[0]?.category ?? category : category,
+                        from, to, payee, memo, persons: personsArray,
+                    }, this.plugin.settings.rules, "fill");
+                    if (splitLines.length > 0) delete patch.category;
+                    Object.assign(txnData, patch);
+                    ruleChanges.push(...changes.filter(c => splitLines.length === 0 || c.field !== "category"));
+                }
 
                 if (i === 0 && this.file) {
                     await this.service.updateTransaction(this.file, txnData);
@@ -1042,16 +2161,42 @@ export class TransactionEditModal extends Modal {
                     if (i === 0) finalPath = movedFile.path;
                 }
                 savedCount++;
+                if (type === "支出") savedExpense += netAmount(amtVal, refund);
+            }
+
+            if (savedExpense > 0) {
+                if (splitLines.length > 0) {
+                    // 拆分交易按各明细行的分类分别检查预算
+                    splitLines.forEach(line => {
+                        this.warnBudgetOverspend(line.category, dateInput.value || date, line.amount, currency, originalPath);
+                    });
+                } else {
+                    this.warnBudgetOverspend(category, dateInput.value || date, savedExpense, currency, originalPath);
+                }
             }
+            this.warnClosedAccounts([from, to, type === "支出" ? refundTo : ""], dateInput.value || date);
 
             this.isSaved = true;
             this.onSave?.(finalPath);
+            if (installmentPlan) {
+                // 首期月份早于今天时补生成已到期的手续费
+                window.setTimeout(() => { void this.plugin.generateInstallmentFees(); }, 500);
+            }
+            if (type === "收入" && reimbursesUid) {
+                // 等交易重新扫描后再判断是否已全部到账
+                const uid = reimbursesUid;
+                window.setTimeout(() => { void this.plugin.syncReimbursementStatus(uid); }, 500);
+            }
             this.close();
             if (savedCount > 1) {
                 new Notice(`成功保存 ${savedCount} 条交易`);
             } else {
                 new Notice(`已保存交易 -> ${payee || '未知对象'}`);
             }
+            if (ruleChanges.length > 0) {
+                const applied = Array.from(new Set(ruleChanges.map(c => `规则「${c.rule}」设置了${RULE_FIELD_LABELS[c.field]}`)));
+                new Notice(applied.join("\n"));
+            }
         };
 
         const syncTypeState = () => {
@@ -1070,6 +2215,10 @@ export class TransactionEditModal extends Modal {
             if (type === "收入" && to) summaryParts.push(`存入 ${to}`);
             if ((type === "转账" || type === "还款") && from && to) summaryParts.push(`${from} -> ${to}`);
             if (type === "借款" && to) summaryParts.push(`借入 ${to}`);
+            if (type === "借出" && from) summaryParts.push(`从 ${from} 借出`);
+            if (type === "收回" && to) summaryParts.push(`收回到 ${to}`);
+            if (type === "退款" && to) summaryParts.push(`退回 ${to}`);
+            if (type === "投资" && (from || to)) summaryParts.push(from && to && from !== to ? `${from} -> ${to}` : (to || from));
 
             if (payee && type !== "转账") summaryParts.push(payee);
             if (personsStr.trim()) summaryParts.push(`标签：${personsStr}`);
@@ -1085,6 +2234,18 @@ export class TransactionEditModal extends Modal {
         window.setTimeout(() => amountInput.focus(), 0);
     }
 
+    /**
+     * 按将要保存的各笔金额查找最可能重复的已有交易
+     */
+    private findLikelyDuplicate(amounts: number[], draft: TransactionInfo): DuplicatePair | null {
+        const txns = this.service.getTransactions();
+        const dismissed = new Set(this.plugin.settings.dismissedDuplicates);
+        const matches = amounts
+            .filter(amount => amount > 0)
+            .flatMap(amount => findDuplicatesOf({ ...draft, amount }, txns, dismissed, this.plugin.getDuplicateOptions()));
+        return matches.sort((x, y) => y.score - x.score)[0] ?? null;
+    }
+
     onClose() {
         this.modalEl.removeClass("cost-add-txn-modal");
         this.contentEl.empty();
@@ -1097,6 +2258,47 @@ export class TransactionEditModal extends Modal {
         }
     }
 
+    /**
+     * 保存支出后检查所属分类预算，超支时给出提示
+     */
+    private warnBudgetOverspend(category: string, date: string, amount: number, currency: string, excludePath?: string): void {
+        const rateService = this.plugin.exchangeRateService;
+        const baseCurrency = rateService.getBaseCurrency();
+        const transactions = rateService.convertTransactionsToBase(expandRefunds(this.service.getTransactions()));
+        const added = rateService.convert(amount, currency, baseCurrency, date);
+
+        const over = this.plugin.budgetService.checkOverspend(category, date, added, transactions, excludePath);
+        const symbol = getCurrencySymbol(baseCurrency);
+        for (const p of over) {
+            new Notice(
+                `⚠️ 预算超支：${p.budget.category}（${p.periodKey}）已用 ${symbol}${formatThousands(p.spent, 2)} / ${symbol}${formatThousands(p.limit, 2)}，超出 ${symbol}${formatThousands(-p.remaining, 2)}`,
+                8000
+            );
+        }
+    }
+
+    /**
+     * 交易使用了在交易日期已关闭的账户时提示
+     */
+    private warnClosedAccounts(accountNames: string[], date: string): void {
+        const names = new Set(accountNames.filter(Boolean));
+        for (const account of this.accountService.getAccounts()) {
+            if (!names.has(account.fileName) || !this.accountService.isClosed(account, date)) continue;
+            new Notice(`⚠️ ${account.displayName} 已于 ${account.closedDate ?? "此前"} 关闭，仍记入了 ${date} 的交易`, 8000);
+        }
+    }
+
+    /**
+     * 默认首期入账月份：消费日晚于信用卡账单日时为次月，否则为当月
+     */
+    private getDefaultFirstMonth(accountName: string, date: string): string {
+        const account = this.accountService.getAccounts().find(a => a.fileName === accountName);
+        const [y, m, d] = date.split("-").map(Number) as [number, number, number];
+        const nextMonth = account?.billingDay !== undefined && d > account.billingDay;
+        const first = new Date(y, m - 1 + (nextMonth ? 1 : 0), 1);
+        return `${first.getFullYear()}-${String(first.getMonth() + 1).padStart(2, "0")}`;
+    }
+
     private createFieldInput(container: HTMLElement, label: string, value: string, onInput: (value: string) => void): HTMLInputElement {
         const field = container.createDiv({ cls: "cost-add-txn-field" });
         field.createEl("label", { text: label, cls: "cost-add-txn-field-label" });
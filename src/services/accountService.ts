@@ -1,6 +1,9 @@
 import { App, TFile, CachedMetadata } from "obsidian";
-import { AccountInfo, AccountFrontmatter } from "../types";
+import { AccountInfo, AccountFrontmatter, AccountStatus, BalanceAssertion } from "../types";
 import { getMarkdownFilesInFolder } from "../utils/fileUtils";
+import { getLocalDateString } from "../utils/format";
+
+const ACCOUNT_STATUSES: AccountStatus[] = ["active", "closed", "archived"];
 
 /**
  * 账户服务 - 负责扫描和管理所有账户文件
@@ -69,18 +72,121 @@ export class AccountService {
             accountKind: frontmatter.account_kind || "",
             institution: frontmatter.institution || "",
             openingBalance: frontmatter.opening_balance || 0,
+            openingDate: this.parseDate(frontmatter.opening_date),
             currency: frontmatter.currency || "CNY",
             icon: frontmatter.icon || undefined,
+            balanceAssertions: this.parseAssertions(frontmatter.balance_assertions),
+            cardLast4: frontmatter.card_last4 != null && String(frontmatter.card_last4) ? String(frontmatter.card_last4) : undefined,
+            creditLimit: this.parsePositive(frontmatter.credit_limit),
+            billingDay: this.parseDayOfMonth(frontmatter.billing_day),
+            dueDay: this.parseDayOfMonth(frontmatter.due_day),
+            status: frontmatter.status && ACCOUNT_STATUSES.includes(frontmatter.status) ? frontmatter.status : "active",
+            closedDate: this.parseDate(frontmatter.closed_date),
         };
     }
 
     /**
-     * 获取所有账户（使用缓存）
+     * 解析 YYYY-MM-DD 日期，格式不符时返回 undefined
+     */
+    private parseDate(raw: unknown): string | undefined {
+        return typeof raw === "string" && /^\d{4}-\d{2}-\d{2}$/.test(raw) ? raw : undefined;
+    }
+
+    private parsePositive(raw: unknown): number | undefined {
+        const value = Number(raw);
+        return Number.isFinite(value) && value > 0 ? value : undefined;
+    }
+
+    /**
+     * 解析每月第几天（1-31），YAML 中可能是数字或字符串
+     */
+    private parseDayOfMonth(raw: unknown): number | undefined {
+        const day = typeof raw === "number" ? raw : (typeof raw === "string" ? parseInt(raw, 10) : NaN);
+        return Number.isInteger(day) && day >= 1 && day <= 31 ? day : undefined;
+    }
+
+    /**
+     * 解析余额断言，忽略日期或余额无效的条目
+     */
+    private parseAssertions(raw: unknown): BalanceAssertion[] {
+        if (!Array.isArray(raw)) return [];
+        const assertions: BalanceAssertion[] = [];
+        for (const item of raw as Partial<BalanceAssertion>[]) {
+            if (!item || typeof item !== "object") continue;
+            const date = typeof item.date === "string" ? item.date : "";
+            const balance = typeof item.balance === "number" ? item.balance : Number(item.balance);
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !Number.isFinite(balance)) continue;
+            assertions.push({ date, balance, note: typeof item.note === "string" ? item.note : undefined });
+        }
+        return assertions.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * 写入一条余额断言，同一日期已有断言时覆盖
+     */
+    async saveBalanceAssertion(account: AccountInfo, assertion: BalanceAssertion): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(account.path);
+        if (!(file instanceof TFile)) {
+            throw new Error("账户文件不存在: " + account.path);
+        }
+        await this.app.fileManager.processFrontMatter(file, (fm: Partial<AccountFrontmatter>) => {
+            const existing = Array.isArray(fm.balance_assertions) ? fm.balance_assertions : [];
+            const entry: BalanceAssertion = { date: assertion.date, balance: assertion.balance };
+            if (assertion.note) entry.note = assertion.note;
+            fm.balance_assertions = [...existing.filter(a => a?.date !== assertion.date), entry]
+                .sort((a, b) => String(a.date).localeCompare(String(b.date)));
+        });
+    }
+
+    /**
+     * 关闭或重新启用账户
+     * @param closedDate 关闭日期，重新启用时忽略
+     */
+    async setAccountStatus(account: AccountInfo, status: AccountStatus, closedDate: string = getLocalDateString()): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(account.path);
+        if (!(file instanceof TFile)) {
+            throw new Error("账户文件不存在: " + account.path);
+        }
+        await this.app.fileManager.processFrontMatter(file, (fm: Partial<AccountFrontmatter>) => {
+            if (status === "active") {
+                delete fm.status;
+                delete fm.closed_date;
+            } else {
+                fm.status = status;
+                fm.closed_date = closedDate;
+            }
+        });
+    }
+
+    /**
+     * 获取所有账户（使用缓存，含已关闭账户）
      */
     getAccounts(): AccountInfo[] {
         return this.accountCache;
     }
 
+    /**
+     * 获取指定日期已开户且未关闭的账户（用于建议列表和默认列表）
+     */
+    getActiveAccounts(date: string = getLocalDateString()): AccountInfo[] {
+        return this.accountCache.filter(account => !this.isClosed(account, date) && this.isOpened(account, date));
+    }
+
+    /**
+     * 账户在指定日期是否已开户（未填写开户日期时始终视为已开户）
+     */
+    isOpened(account: AccountInfo, date: string = getLocalDateString()): boolean {
+        return !account.openingDate || account.openingDate <= date;
+    }
+
+    /**
+     * 账户在指定日期是否已关闭：状态为 closed / archived，且日期晚于关闭日期（未填写关闭日期时始终视为已关闭）
+     * 关闭当天仍可记账，与 TransactionService 中晚于关闭日期的交易检查一致
+     */
+    isClosed(account: AccountInfo, date: string = getLocalDateString()): boolean {
+        return account.status !== "active" && (!account.closedDate || account.closedDate < date);
+    }
+
     /**
      * 刷新单个账户文件的缓存
      */
@@ -106,10 +212,12 @@ export class AccountService {
 
     /**
      * 根据查询字符串过滤账户
+     * @param includeClosed 是否包含已关闭账户，默认不包含
      */
-    filterAccounts(query: string): AccountInfo[] {
+    filterAccounts(query: string, includeClosed = false): AccountInfo[] {
         const lowerQuery = query.toLowerCase();
-        return this.accountCache.filter(account =>
+        const accounts = includeClosed ? this.accountCache : this.getActiveAccounts();
+        return accounts.filter(account =>
             account.displayName.toLowerCase().includes(lowerQuery) ||
             account.fileName.toLowerCase().includes(lowerQuery) ||
             account.accountKind.toLowerCase().includes(lowerQuery) ||
@@ -0,0 +1,130 @@
+import { App, normalizePath, TFile } from "obsidian";
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { netAmount } from "../utils/format";
+
+/**
+ * 交易的一个附件
+ */
+export interface AttachmentEntry {
+    txn: TransactionInfo;
+    /** frontmatter 中的链接 */
+    link: string;
+    /** 链接对应的文件，文件已被删除或移走时为 null */
+    file: TFile | null;
+}
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "bmp", "svg", "heic"];
+
+/** 文件名中不能出现的字符（Obsidian 链接语法与各系统的保留字符） */
+const INVALID_NAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * 附件服务 - 把小票、发票复制到交易日期文件夹下的附件目录，并汇总各交易的附件
+ *
+ * 附件目录为 `<日期文件夹>/<附件文件夹名>`，交易通过 attachments 字段以 [[路径]] 引用。
+ * 需要发票的交易：标记为可报销的支出，以及金额（本位币）达到设置阈值的支出。
+ */
+export class AttachmentService {
+    private app: App;
+    private transactionService: TransactionService;
+    private exchangeRateService: ExchangeRateService;
+    private folderName: string;
+
+    constructor(app: App, transactionService: TransactionService, exchangeRateService: ExchangeRateService, folderName: string) {
+        this.app = app;
+        this.transactionService = transactionService;
+        this.exchangeRateService = exchangeRateService;
+        this.folderName = folderName;
+    }
+
+    setFolderName(folderName: string): void {
+        this.folderName = folderName;
+    }
+
+    /**
+     * 指定日期的附件目录
+     */
+    getAttachmentFolder(date: string): string {
+        return normalizePath(`${this.transactionService.getDateFolderPath(date)}/${this.folderName || "attachments"}`);
+    }
+
+    /**
+     * 把文件内容保存到交易日期的附件目录，重名时在文件名后加序号
+     * @returns 用于写入 attachments 字段的链接，如 "[[.../attachments/发票.pdf]]"
+     */
+    async saveAttachment(date: string, fileName: string, data: ArrayBuffer): Promise<string> {
+        const folder = this.getAttachmentFolder(date);
+        await this.ensureFolder(folder);
+
+        const cleaned = fileName.replace(INVALID_NAME_CHARS, "_").trim() || "附件";
+        const dot = cleaned.lastIndexOf(".");
+        const base = dot > 0 ? cleaned.slice(0, dot) : cleaned;
+        const ext = dot > 0 ? cleaned.slice(dot) : "";
+        let path = normalizePath(`${folder}/${base}${ext}`);
+        for (let i = 1; this.app.vault.getAbstractFileByPath(path); i++) {
+            path = normalizePath(`${folder}/${base}-${i}${ext}`);
+        }
+
+        const file = await this.app.vault.createBinary(path, data);
+        return `[[${file.path}]]`;
+    }
+
+    /**
+     * 解析交易中的附件链接
+     */
+    resolve(txn: TransactionInfo, link: string): TFile | null {
+        return this.app.metadataCache.getFirstLinkpathDest(link, txn.path);
+    }
+
+    /**
+     * 所有交易的附件（按交易日期倒序）
+     */
+    getAttachments(): AttachmentEntry[] {
+        const entries: AttachmentEntry[] = [];
+        for (const txn of this.transactionService.getTransactions()) {
+            for (const link of txn.attachments ?? []) {
+                entries.push({ txn, link, file: this.resolve(txn, link) });
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * 需要发票但还没有任何附件的支出（按日期倒序）
+     * @param threshold 本位币金额阈值，达到该金额的支出需要发票；为 0 时只检查可报销的支出
+     */
+    getMissingInvoices(threshold: number): TransactionInfo[] {
+        return this.transactionService.getTransactions().filter(txn => {
+            if (txn.txnType !== "支出" || (txn.attachments?.length ?? 0) > 0) return false;
+            if (txn.reimbursement) return true;
+            return threshold > 0 && this.toBase(netAmount(txn.amount, txn.refund), txn) >= threshold;
+        });
+    }
+
+    /**
+     * 换算为本位币（按交易日期汇率）
+     */
+    toBase(amount: number, txn: TransactionInfo): number {
+        return this.exchangeRateService.convert(amount, txn.currency, undefined, txn.date);
+    }
+
+    private async ensureFolder(path: string): Promise<void> {
+        // 逐级创建，日期文件夹本身可能也还不存在
+        let current = "";
+        for (const part of path.split("/")) {
+            current = current ? `${current}/${part}` : part;
+            if (!this.app.vault.getAbstractFileByPath(current)) {
+                await this.app.vault.createFolder(current);
+            }
+        }
+    }
+}
+
+/**
+ * 是否为可以直接预览的图片
+ */
+export function isImageAttachment(path: string): boolean {
+    const ext = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+    return IMAGE_EXTENSIONS.includes(ext);
+}
@@ -0,0 +1,270 @@
+import { App, TFile, CachedMetadata } from "obsidian";
+import { BudgetFrontmatter } from "../types";
+import { TransactionInfo } from "./transactionService";
+import { getMarkdownFilesInFolder } from "../utils/fileUtils";
+import { getLocalDateString, netAmount, roundCurrency } from "../utils/format";
+import { expandSplits } from "../utils/splitUtils";
+
+/** 以 YYYY-MM 开头的日期 */
+const DATE_PREFIX_REGEX = /^\d{4}-\d{2}/;
+
+export type BudgetPeriod = "monthly" | "yearly";
+
+/**
+ * 预算信息
+ */
+export interface BudgetInfo {
+    /** 文件路径 */
+    path: string;
+    /** 文件名（不含扩展名） */
+    fileName: string;
+    /** 预算分类（一级或子分类） */
+    category: string;
+    /** 每周期预算金额（本位币） */
+    amount: number;
+    period: BudgetPeriod;
+    /** 是否结转未用额度 */
+    rollover: boolean;
+    /** 开始生效日期 */
+    startDate: string;
+    note: string;
+}
+
+/**
+ * 预算在某个周期内的执行情况
+ */
+export interface BudgetProgress {
+    budget: BudgetInfo;
+    /** 周期标识（月度为 YYYY-MM，年度为 YYYY） */
+    periodKey: string;
+    /** 本周期已支出 */
+    spent: number;
+    /** 从之前周期结转的额度 */
+    carried: number;
+    /** 本周期可用额度（预算 + 结转） */
+    limit: number;
+    /** 剩余额度，超支时为负数 */
+    remaining: number;
+    /** 已用比例 (spent / limit) */
+    ratio: number;
+}
+
+/**
+ * 预算服务 - 负责扫描预算文件并计算各周期的执行进度
+ *
+ * 传入的交易应已换算为本位币（见 ExchangeRateService.convertTransactionsToBase）。
+ */
+export class BudgetService {
+    private app: App;
+    private budgetCache: BudgetInfo[] = [];
+    private budgetsPath: string;
+
+    constructor(app: App, budgetsPath: string) {
+        this.app = app;
+        this.budgetsPath = budgetsPath;
+    }
+
+    /**
+     * 更新预算目录路径
+     */
+    setBudgetsPath(path: string): void {
+        this.budgetsPath = path;
+    }
+
+    /**
+     * 扫描预算目录下的所有预算文件并更新缓存
+     */
+    async scanBudgets(): Promise<BudgetInfo[]> {
+        const budgets: BudgetInfo[] = [];
+        const files = getMarkdownFilesInFolder(this.app, this.budgetsPath);
+
+        for (const file of files) {
+            const budget = this.parseBudgetFile(file);
+            if (budget) {
+                budgets.push(budget);
+            }
+        }
+
+        this.budgetCache = budgets;
+        this.sortCache();
+        return budgets;
+    }
+
+    /**
+     * 解析单个文件，判断是否为预算文件
+     */
+    private parseBudgetFile(file: TFile): BudgetInfo | null {
+        const cache: CachedMetadata | null = this.app.metadataCache.getFileCache(file);
+        if (!cache?.frontmatter) {
+            return null;
+        }
+
+        const fm = cache.frontmatter as Partial<BudgetFrontmatter>;
+        if (fm.type !== "budget") {
+            return null;
+        }
+
+        const category = typeof fm.category === "string" ? fm.category.trim().replace(/\/+$/, "") : "";
+        const amount = Number(fm.amount);
+        if (!category || !Number.isFinite(amount) || amount <= 0) {
+            return null;
+        }
+
+        return {
+            path: file.path,
+            fileName: file.basename,
+            category,
+            amount,
+            period: fm.period === "yearly" ? "yearly" : "monthly",
+            rollover: fm.rollover === true,
+            startDate: fm.start_date && DATE_PREFIX_REGEX.test(String(fm.start_date)) ? String(fm.start_date) : "",
+            note: fm.note || "",
+        };
+    }
+
+    /**
+     * 获取所有预算（按分类排序）
+     */
+    getBudgets(): BudgetInfo[] {
+        return this.budgetCache;
+    }
+
+    /**
+     * 刷新单个预算文件的缓存
+     */
+    async refreshBudget(file: TFile): Promise<void> {
+        const budget = this.parseBudgetFile(file);
+        this.budgetCache = this.budgetCache.filter(b => b.path !== file.path);
+        if (budget) {
+            this.budgetCache.push(budget);
+        }
+        this.sortCache();
+    }
+
+    /**
+     * 移除单个预算文件的缓存
+     */
+    removeBudget(path: string): void {
+        this.budgetCache = this.budgetCache.filter(b => b.path !== path);
+    }
+
+    /**
+     * 获取作用于某个交易分类的预算（分类本身及其上级分类的预算）
+     */
+    getBudgetsForCategory(category: string): BudgetInfo[] {
+        return this.budgetCache.filter(b => this.matchesCategory(b.category, category));
+    }
+
+    /**
+     * 计算所有预算在指定日期所在周期的执行情况
+     */
+    getAllProgress(transactions: TransactionInfo[], date: string = getLocalDateString()): BudgetProgress[] {
+        return this.budgetCache.map(b => this.getProgress(b, transactions, date));
+    }
+
+    /**
+     * 计算单个预算在指定日期所在周期的执行情况
+     */
+    getProgress(budget: BudgetInfo, transactions: TransactionInfo[], date: string = getLocalDateString()): BudgetProgress {
+        const periodKey = this.getPeriodKey(budget.period, date);
+        const spentByPeriod = this.collectSpending(budget, transactions);
+        const spent = roundCurrency(spentByPeriod.get(periodKey) || 0);
+
+        let carried = 0;
+        if (budget.rollover) {
+            // 结转起点：开始日期所在周期，未配置时取最早一笔相关支出所在周期
+            let startKey = budget.startDate ? this.getPeriodKey(budget.period, budget.startDate) : "";
+            if (!startKey) {
+                const keys = Array.from(spentByPeriod.keys()).sort();
+                startKey = keys[0] ?? periodKey;
+            }
+            // 仅结转未用额度，超支不会从后续周期扣减
+            for (let key = startKey; key < periodKey; key = this.nextPeriodKey(budget.period, key)) {
+                carried = Math.max(0, carried + budget.amount - (spentByPeriod.get(key) || 0));
+            }
+            carried = roundCurrency(carried);
+        }
+
+        const limit = roundCurrency(budget.amount + carried);
+        const remaining = roundCurrency(limit - spent);
+        return {
+            budget,
+            periodKey,
+            spent,
+            carried,
+            limit,
+            remaining,
+            ratio: limit > 0 ? spent / limit : 0,
+        };
+    }
+
+    /**
+     * 检查新增一笔支出后是否会超出预算
+     * @param excludePath 正在编辑的交易路径，其原有金额不计入
+     * @returns 加入该支出后超支的预算执行情况（已包含新增金额）
+     */
+    checkOverspend(
+        category: string,
+        date: string,
+        addedAmount: number,
+        transactions: TransactionInfo[],
+        excludePath?: string
+    ): BudgetProgress[] {
+        const others = excludePath ? transactions.filter(t => t.path !== excludePath) : transactions;
+        const result: BudgetProgress[] = [];
+
+        for (const budget of this.getBudgetsForCategory(category)) {
+            const progress = this.getProgress(budget, others, date);
+            const spent = roundCurrency(progress.spent + addedAmount);
+            if (spent > progress.limit) {
+                result.push({
+                    ...progress,
+                    spent,
+                    remaining: roundCurrency(progress.limit - spent),
+                    ratio: progress.limit > 0 ? spent / progress.limit : 0,
+                });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 按周期汇总预算分类下的支出
+     */
+    private collectSpending(budget: BudgetInfo, transactions: TransactionInfo[]): Map<string, number> {
+        const result = new Map<string, number>();
+        for (const txn of expandSplits(transactions)) {
+            if (txn.txnType !== "支出" || !DATE_PREFIX_REGEX.test(txn.date || "")) continue;
+            if (!this.matchesCategory(budget.category, txn.category)) continue;
+            if (budget.startDate && txn.date < budget.startDate) continue;
+
+            const key = this.getPeriodKey(budget.period, txn.date);
+            result.set(key, (result.get(key) || 0) + netAmount(txn.amount, txn.refund || 0));
+        }
+        return result;
+    }
+
+    private matchesCategory(budgetCategory: string, category: string): boolean {
+        if (!category) return false;
+        return category === budgetCategory || category.startsWith(`${budgetCategory}/`);
+    }
+
+    private getPeriodKey(period: BudgetPeriod, date: string): string {
+        return period === "yearly" ? date.slice(0, 4) : date.slice(0, 7);
+    }
+
+    private nextPeriodKey(period: BudgetPeriod, key: string): string {
+        const year = parseInt(key.slice(0, 4), 10);
+        if (period === "yearly") {
+            return String(year + 1);
+        }
+        const month = parseInt(key.slice(5, 7), 10);
+        return month >= 12
+            ? `${year + 1}-01`
+            : `${year}-${String(month + 1).padStart(2, "0")}`;
+    }
+
+    private sortCache(): void {
+        this.budgetCache.sort((a, b) => a.category.localeCompare(b.category, "zh-Hans-CN"));
+    }
+}
@@ -0,0 +1,246 @@
+import { App, TFile } from "obsidian";
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { BudgetService } from "./budgetService";
+import { RecurringService } from "./recurringService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { TxnType } from "../utils/categoryUtils";
+import { roundCurrency } from "../utils/format";
+
+/**
+ * 分类树节点
+ */
+export interface CategoryNode {
+    /** 完整分类路径，如 "餐饮/外卖" */
+    path: string;
+    /** 最后一级名称 */
+    name: string;
+    /** 直接使用该分类的交易笔数（拆分明细按行计） */
+    ownCount: number;
+    /** 含子分类的交易笔数 */
+    count: number;
+    /** 含子分类的金额合计（本位币，退款抵减） */
+    total: number;
+    children: CategoryNode[];
+}
+
+export type CategoryChangeKind = "rename" | "merge" | "move" | "delete";
+
+/**
+ * 分类调整：把 from 及其子分类整体改到 to 下
+ * - rename：同一父级下改名
+ * - merge：并入另一个分类
+ * - move：移到新的父级下（to 为新的完整路径）
+ * - delete：删除并把交易改到 to
+ */
+export interface CategoryChange {
+    kind: CategoryChangeKind;
+    from: string;
+    to: string;
+}
+
+/**
+ * 调整分类涉及的单个文件
+ */
+export interface CategoryFileChange {
+    path: string;
+    source: "txn" | "budget" | "recurring";
+    /** 列表中显示的说明（日期、商家或模板名） */
+    label: string;
+    before: string[];
+    after: string[];
+}
+
+export interface CategoryChangePlan {
+    change: CategoryChange;
+    files: CategoryFileChange[];
+}
+
+/**
+ * 把分类路径中的 from 前缀替换为 to，不受影响时返回 null
+ */
+export function remapCategory(category: string, from: string, to: string): string | null {
+    const normalized = normalizeCategory(category);
+    if (normalized === from) return to;
+    if (normalized.startsWith(from + "/")) return to + normalized.slice(from.length);
+    return null;
+}
+
+/**
+ * 去掉各级分类名两侧的空白
+ */
+export function normalizeCategory(category: string): string {
+    return category.split("/").map(p => p.trim()).filter(Boolean).join("/");
+}
+
+/**
+ * 分类管理服务 - 汇总分类树，并在交易、预算和周期模板中批量改名、合并、移动分类
+ *
+ * 分类按交易类型各自独立（支出的「其他」与收入的「其他」互不影响），退款沿用支出的分类。
+ */
+export class CategoryService {
+    private app: App;
+    private transactionService: TransactionService;
+    private budgetService: BudgetService;
+    private recurringService: RecurringService;
+    private exchangeRateService: ExchangeRateService;
+
+    constructor(app: App, transactionService: TransactionService, budgetService: BudgetService, recurringService: RecurringService, exchangeRateService: ExchangeRateService) {
+        this.app = app;
+        this.transactionService = transactionService;
+        this.budgetService = budgetService;
+        this.recurringService = recurringService;
+        this.exchangeRateService = exchangeRateService;
+    }
+
+    /**
+     * 某个交易类型的分类树（按名称排序）
+     */
+    getTree(type: TxnType): CategoryNode[] {
+        const roots: CategoryNode[] = [];
+        const nodes = new Map<string, CategoryNode>();
+        const getNode = (path: string): CategoryNode => {
+            const existing = nodes.get(path);
+            if (existing) return existing;
+            const slash = path.lastIndexOf("/");
+            const node: CategoryNode = { path, name: path.slice(slash + 1), ownCount: 0, count: 0, total: 0, children: [] };
+            nodes.set(path, node);
+            if (slash < 0) roots.push(node);
+            else getNode(path.slice(0, slash)).children.push(node);
+            return node;
+        };
+
+        for (const txn of this.getScopedTransactions(type)) {
+            const sign = txn.txnType === "退款" ? -1 : 1;
+            const parts = txn.splits
+                ? txn.splits.map(s => ({ category: s.category, amount: s.amount }))
+                : [{ category: txn.category, amount: txn.amount }];
+            for (const part of parts) {
+                const path = normalizeCategory(part.category);
+                if (!path) continue;
+                const amount = txn.status === "void"
+                    ? 0
+                    : sign * this.exchangeRateService.convert(part.amount, txn.currency, undefined, txn.date);
+                getNode(path).ownCount++;
+                // 计入自身及所有上级
+                let current = path;
+                for (;;) {
+                    const node = getNode(current);
+                    node.count++;
+                    node.total += amount;
+                    const slash = current.lastIndexOf("/");
+                    if (slash < 0) break;
+                    current = current.slice(0, slash);
+                }
+            }
+        }
+
+        const sort = (list: CategoryNode[]) => {
+            list.sort((a, b) => a.name.localeCompare(b.name, "zh-Hans-CN"));
+            for (const node of list) {
+                node.total = roundCurrency(node.total);
+                sort(node.children);
+            }
+        };
+        sort(roots);
+        return roots;
+    }
+
+    /**
+     * 检查调整是否有效，无效时返回原因
+     */
+    validateChange(type: TxnType, change: CategoryChange): string | null {
+        const from = normalizeCategory(change.from);
+        const to = normalizeCategory(change.to);
+        if (!from) return "请选择要调整的分类";
+        if (!to) return change.kind === "delete" ? "请选择交易改到的分类" : "分类名称不能为空";
+        if (from === to) return "新分类与原分类相同";
+        if (to.startsWith(from + "/")) return "不能移到自身的子分类下";
+        if ((change.kind === "rename" || change.kind === "move") && this.hasCategory(type, to)) {
+            return `「${to}」已存在，请使用合并`;
+        }
+        return null;
+    }
+
+    /**
+     * 列出调整会修改的文件及修改前后的分类
+     */
+    planChange(type: TxnType, change: CategoryChange): CategoryChangePlan {
+        const from = normalizeCategory(change.from);
+        const to = normalizeCategory(change.to);
+        const files: CategoryFileChange[] = [];
+        const remapAll = (categories: string[]) => categories.map(c => remapCategory(c, from, to) ?? c);
+        const affects = (categories: string[]) => categories.some(c => remapCategory(c, from, to) !== null);
+
+        const transactions = this.getScopedTransactions(type).sort((a, b) => b.date.localeCompare(a.date));
+        for (const txn of transactions) {
+            const before = txn.splits ? txn.splits.map(s => s.category) : [txn.category];
+            if (!affects(before)) continue;
+            files.push({
+                path: txn.path,
+                source: "txn",
+                label: `${txn.date} ${txn.payee || txn.note || txn.txnType}`,
+                before,
+                after: remapAll(before),
+            });
+        }
+
+        // 预算只针对支出分类
+        if (type === "支出") {
+            for (const budget of this.budgetService.getBudgets()) {
+                if (!affects([budget.category])) continue;
+                files.push({ path: budget.path, source: "budget", label: `预算 ${budget.fileName}`, before: [budget.category], after: remapAll([budget.category]) });
+            }
+        }
+        for (const template of this.recurringService.getTemplates()) {
+            if (template.txnType !== type || !affects([template.category])) continue;
+            files.push({ path: template.path, source: "recurring", label: `周期 ${template.name}`, before: [template.category], after: remapAll([template.category]) });
+        }
+
+        return { change: { kind: change.kind, from, to }, files };
+    }
+
+    /**
+     * 按计划改写所有文件的 frontmatter
+     * @returns 成功修改的文件数
+     */
+    async applyPlan(plan: CategoryChangePlan): Promise<number> {
+        const { from, to } = plan.change;
+        const remap = (value: unknown): unknown =>
+            typeof value === "string" ? remapCategory(value, from, to) ?? value : value;
+        let updated = 0;
+
+        for (const item of plan.files) {
+            const file = this.app.vault.getAbstractFileByPath(item.path);
+            if (!(file instanceof TFile)) continue;
+            try {
+                await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+                    if (fm.category !== undefined) fm.category = remap(fm.category);
+                    if (item.source === "txn" && Array.isArray(fm.splits)) {
+                        for (const split of fm.splits as Record<string, unknown>[]) {
+                            split.category = remap(split.category);
+                        }
+                    }
+                });
+                updated++;
+            } catch (e) {
+                console.error(`[Cost Plugin] 修改分类失败 ${item.path}:`, e);
+            }
+        }
+        return updated;
+    }
+
+    private hasCategory(type: TxnType, category: string): boolean {
+        return this.getScopedTransactions(type).some(t =>
+            (t.splits ? t.splits.map(s => s.category) : [t.category])
+                .some(c => remapCategory(c, category, category) !== null)
+        );
+    }
+
+    /**
+     * 使用该类型分类的交易（含已作废的，改名时同样需要改写）
+     */
+    private getScopedTransactions(type: TxnType): TransactionInfo[] {
+        return this.transactionService.getAllTransactions()
+            .filter(t => t.txnType === type || (type === "支出" && t.txnType === "退款"));
+    }
+}
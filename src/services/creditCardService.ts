@@ -0,0 +1,273 @@
+import { AccountInfo } from "../types";
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { getLocalDateString, roundCurrency } from "../utils/format";
+import { getInstallmentSchedule } from "../utils/installmentUtils";
+
+/** 最低还款额占账单金额的比例 */
+const MIN_PAYMENT_RATIO = 0.1;
+
+/**
+ * 信用卡的一个账单周期
+ */
+export interface CreditCycle {
+    /** 周期开始日期（含） */
+    start: string;
+    /** 账单日（周期结束，含） */
+    statementDate: string;
+    /** 到期还款日 */
+    dueDate: string;
+    /** 是否为尚未出账的当前周期 */
+    isOpen: boolean;
+    /** 本期消费（支出、转出等使欠款增加的金额） */
+    charges: number;
+    /** 账单金额：账单日当天结束时的欠款；未出账周期为截至今天的欠款 */
+    statementBalance: number;
+    /** 最低还款额 */
+    minimumDue: number;
+    /** 账单日之后至还款日之间的还款 */
+    repaid: number;
+    /** 剩余应还 */
+    outstanding: number;
+    /** 距还款日天数，已逾期为负数 */
+    daysUntilDue: number;
+    /** 本周期内的交易（按日期降序） */
+    transactions: TransactionInfo[];
+}
+
+/**
+ * 信用额度使用情况
+ */
+export interface CreditUtilization {
+    limit: number;
+    /** 已用额度（当前欠款） */
+    used: number;
+    available: number;
+    /** used / limit */
+    ratio: number;
+}
+
+/**
+ * 所有信用卡的汇总（本位币）
+ */
+export interface CreditSummary {
+    limit: number;
+    used: number;
+    ratio: number;
+    /** 最近一笔待还账单 */
+    nextDue: { account: AccountInfo; cycle: CreditCycle } | null;
+}
+
+/**
+ * 信用卡服务 - 按账单日、还款日把交易划分为账单周期，并计算额度使用率
+ *
+ * 账单周期为上一个账单日的次日至本账单日；还款日不大于账单日时落在次月。
+ * 超出当月天数的账单日 / 还款日按月末处理。分期消费只把当月入账的一期本金计入账单。
+ */
+export class CreditCardService {
+    private transactionService: TransactionService;
+    private exchangeRateService: ExchangeRateService;
+
+    constructor(transactionService: TransactionService, exchangeRateService: ExchangeRateService) {
+        this.transactionService = transactionService;
+        this.exchangeRateService = exchangeRateService;
+    }
+
+    isCreditCard(account: AccountInfo): boolean {
+        return account.accountKind === "credit";
+    }
+
+    /**
+     * 是否配置了账单日，可以划分账单周期
+     */
+    hasBillingCycle(account: AccountInfo): boolean {
+        return this.isCreditCard(account) && account.billingDay !== undefined;
+    }
+
+    /**
+     * 获取最近的账单周期（从当前未出账周期开始倒序）
+     * @param count 最多返回的周期数，早于第一笔交易的周期不返回
+     */
+    getCycles(account: AccountInfo, count: number = 12, today: string = getLocalDateString()): CreditCycle[] {
+        const billingDay = account.billingDay;
+        if (!this.hasBillingCycle(account) || billingDay === undefined) return [];
+
+        const txns = this.transactionService.getTransactionsByAccount(account.fileName);
+        const firstDate = txns.reduce((min, t) => (t.date && t.date < min ? t.date : min), today);
+
+        // 当前周期的账单日：本月账单日已过则为下月
+        const [ty, tm] = today.split("-").map(Number) as [number, number];
+        let monthOffset = this.clampDate(ty, tm - 1, billingDay) >= today ? 0 : 1;
+
+        const cycles: CreditCycle[] = [];
+        for (let i = 0; i < count; i++, monthOffset--) {
+            const statementDate = this.clampDate(ty, tm - 1 + monthOffset, billingDay);
+            const start = this.addDays(this.clampDate(ty, tm - 2 + monthOffset, billingDay), 1);
+            if (i > 0 && statementDate < firstDate) break;
+            cycles.push(this.buildCycle(account, txns, start, statementDate, today));
+        }
+        return cycles;
+    }
+
+    /**
+     * 最近一期已出账且尚未还清的账单
+     */
+    getNextDue(account: AccountInfo, today: string = getLocalDateString()): CreditCycle | null {
+        const closed = this.getCycles(account, 2, today).find(c => !c.isOpen);
+        return closed && closed.outstanding > 0 ? closed : null;
+    }
+
+    /**
+     * (after, until] 区间内的账单日及对应的还款日（按日期升序）
+     */
+    getStatementDates(account: AccountInfo, after: string, until: string): { statementDate: string; dueDate: string }[] {
+        const billingDay = account.billingDay;
+        if (!this.hasBillingCycle(account) || billingDay === undefined) return [];
+        const [y, m] = after.split("-").map(Number) as [number, number];
+        const result: { statementDate: string; dueDate: string }[] = [];
+        for (let offset = 0; ; offset++) {
+            const statementDate = this.clampDate(y, m - 1 + offset, billingDay);
+            if (statementDate > until) break;
+            if (statementDate > after) result.push({ statementDate, dueDate: this.getDueDate(account, statementDate) });
+        }
+        return result;
+    }
+
+    /**
+     * 通常用来还这张卡的账户：最近一笔还款交易的付款账户，没有还款记录时返回 null
+     */
+    getRepaymentSource(account: AccountInfo): string | null {
+        const strip = (name: string) => name.replace(/\[\[|\]\]/g, "").trim();
+        const repayments = this.transactionService.getTransactionsByAccount(account.fileName)
+            .filter(t => t.txnType === "还款" && strip(t.to) === account.fileName && t.from)
+            .sort((a, b) => b.date.localeCompare(a.date));
+        const latest = repayments[0];
+        return latest ? strip(latest.from) : null;
+    }
+
+    /**
+     * 指定日期（默认今天）的信用额度使用情况，未设置额度时返回 null
+     */
+    getUtilization(account: AccountInfo, date: string = getLocalDateString()): CreditUtilization | null {
+        if (!this.isCreditCard(account) || !account.creditLimit) return null;
+        const used = roundCurrency(Math.max(0, -this.transactionService.getAccountBalance(account, date)));
+        return {
+            limit: account.creditLimit,
+            used,
+            available: roundCurrency(account.creditLimit - used),
+            ratio: used / account.creditLimit,
+        };
+    }
+
+    /**
+     * 汇总所有信用卡的额度使用率（换算为本位币）及最近的待还账单
+     */
+    getSummary(accounts: AccountInfo[], today: string = getLocalDateString()): CreditSummary {
+        let limit = 0;
+        let used = 0;
+        let nextDue: CreditSummary["nextDue"] = null;
+
+        for (const account of accounts) {
+            const utilization = this.getUtilization(account, today);
+            if (utilization) {
+                limit += this.exchangeRateService.convert(utilization.limit, account.currency);
+                used += this.exchangeRateService.convert(utilization.used, account.currency);
+            }
+            const cycle = this.getNextDue(account, today);
+            if (cycle && (!nextDue || cycle.dueDate < nextDue.cycle.dueDate)) {
+                nextDue = { account, cycle };
+            }
+        }
+
+        return {
+            limit: roundCurrency(limit),
+            used: roundCurrency(used),
+            ratio: limit > 0 ? used / limit : 0,
+            nextDue,
+        };
+    }
+
+    private buildCycle(account: AccountInfo, txns: TransactionInfo[], start: string, statementDate: string, today: string): CreditCycle {
+        const isOpen = statementDate >= today;
+        const dueDate = this.getDueDate(account, statementDate);
+
+        const inCycle = txns.filter(t => t.date >= start && t.date <= statementDate);
+        let charges = 0;
+        for (const txn of inCycle) {
+            if (txn.installment) continue;
+            const change = this.transactionService.getBalanceChangeForTransaction(txn, account.fileName, account.currency);
+            if (change < 0) charges -= change;
+        }
+
+        // 分期消费：本月入账的一期本金计入本期消费，之后各期尚未出账
+        const statementMonth = statementDate.slice(0, 7);
+        let unbilled = 0;
+        for (const txn of txns) {
+            if (!txn.installment || txn.txnType !== "支出" || txn.date > statementDate || !txn.amount) continue;
+            const charged = -this.transactionService.getBalanceChangeForTransaction(txn, account.fileName, account.currency);
+            for (const period of getInstallmentSchedule(txn.installment, txn.amount, txn.date)) {
+                const share = charged * period.principal / txn.amount;
+                if (period.month === statementMonth) charges += share;
+                else if (period.month > statementMonth) unbilled += share;
+            }
+        }
+
+        const owedAt = isOpen ? today : statementDate;
+        const owed = -this.transactionService.getAccountBalanceAt(account, owedAt);
+        const statementBalance = roundCurrency(Math.max(0, isOpen ? owed : owed - unbilled));
+
+        let repaid = 0;
+        if (!isOpen) {
+            for (const txn of txns) {
+                if (txn.txnType !== "还款" || txn.date <= statementDate || txn.date > dueDate) continue;
+                repaid += Math.max(0, this.transactionService.getBalanceChangeForTransaction(txn, account.fileName, account.currency));
+            }
+        }
+        repaid = roundCurrency(repaid);
+
+        return {
+            start,
+            statementDate,
+            dueDate,
+            isOpen,
+            charges: roundCurrency(charges),
+            statementBalance,
+            minimumDue: roundCurrency(statementBalance * MIN_PAYMENT_RATIO),
+            repaid,
+            outstanding: isOpen ? statementBalance : roundCurrency(Math.max(0, statementBalance - repaid)),
+            daysUntilDue: this.diffDays(today, dueDate),
+            transactions: inCycle,
+        };
+    }
+
+    /**
+     * 账单对应的还款日；未设置还款日时默认账单日后 20 天
+     */
+    private getDueDate(account: AccountInfo, statementDate: string): string {
+        if (account.dueDay === undefined || account.billingDay === undefined) {
+            return this.addDays(statementDate, 20);
+        }
+        const [y, m] = statementDate.split("-").map(Number) as [number, number];
+        const monthIndex = account.dueDay > account.billingDay ? m - 1 : m;
+        return this.clampDate(y, monthIndex, account.dueDay);
+    }
+
+    /**
+     * 生成指定年月第 day 天的日期，超出当月天数时取月末
+     */
+    private clampDate(year: number, monthIndex: number, day: number): string {
+        const lastDay = new Date(year, monthIndex + 1, 0).getDate();
+        return getLocalDateString(new Date(year, monthIndex, Math.min(day, lastDay)));
+    }
+
+    private addDays(date: string, days: number): string {
+        const [y, m, d] = date.split("-").map(Number) as [number, number, number];
+        return getLocalDateString(new Date(y, m - 1, d + days));
+    }
+
+    private diffDays(from: string, to: string): number {
+        const [fy, fm, fd] = from.split("-").map(Number) as [number, number, number];
+        const [ty, tm, td] = to.split("-").map(Number) as [number, number, number];
+        return Math.round((new Date(ty, tm - 1, td).getTime() - new Date(fy, fm - 1, fd).getTime()) / 86400000);
+    }
+}
@@ -0,0 +1,223 @@
+import { App, TFile, CachedMetadata } from "obsidian";
+import { ExchangeRateFrontmatter } from "../types";
+import { TransactionInfo } from "./transactionService";
+import { getMarkdownFilesInFolder } from "../utils/fileUtils";
+import { roundCurrency, getLocalDateString } from "../utils/format";
+
+/**
+ * 汇率表信息
+ */
+export interface ExchangeRateInfo {
+    /** 文件路径 */
+    path: string;
+    /** 生效日期 */
+    date: string;
+    /** 报价货币 */
+    base: string;
+    /** 货币代码（大写） -> 以 base 计价的汇率 */
+    rates: Map<string, number>;
+}
+
+/**
+ * 汇率服务 - 负责扫描汇率表文件并在货币之间换算
+ *
+ * 汇率表按日期生效：换算某一天的金额时，使用该日期当天或之前最近一张
+ * 能同时为两种货币报价的表；若之前没有，则退而使用之后最早的一张。
+ */
+export class ExchangeRateService {
+    private app: App;
+    private rateCache: ExchangeRateInfo[] = [];
+    private ratesPath: string;
+    private baseCurrency: string;
+
+    constructor(app: App, ratesPath: string, baseCurrency: string) {
+        this.app = app;
+        this.ratesPath = ratesPath;
+        this.baseCurrency = this.normalizeCode(baseCurrency) || "CNY";
+    }
+
+    /**
+     * 更新汇率目录路径
+     */
+    setRatesPath(path: string): void {
+        this.ratesPath = path;
+    }
+
+    /**
+     * 更新本位币
+     */
+    setBaseCurrency(currency: string): void {
+        this.baseCurrency = this.normalizeCode(currency) || "CNY";
+    }
+
+    /**
+     * 获取本位币
+     */
+    getBaseCurrency(): string {
+        return this.baseCurrency;
+    }
+
+    /**
+     * 扫描汇率目录下的所有汇率表并更新缓存
+     */
+    async scanRates(): Promise<ExchangeRateInfo[]> {
+        const tables: ExchangeRateInfo[] = [];
+        const files = getMarkdownFilesInFolder(this.app, this.ratesPath);
+
+        for (const file of files) {
+            const table = this.parseRateFile(file);
+            if (table) {
+                tables.push(table);
+            }
+        }
+
+        this.rateCache = tables;
+        this.sortCache();
+        return tables;
+    }
+
+    /**
+     * 解析单个文件，判断是否为汇率表
+     */
+    private parseRateFile(file: TFile): ExchangeRateInfo | null {
+        const cache: CachedMetadata | null = this.app.metadataCache.getFileCache(file);
+        if (!cache?.frontmatter) {
+            return null;
+        }
+
+        const fm = cache.frontmatter as Partial<ExchangeRateFrontmatter>;
+        if (fm.type !== "fx_rate") {
+            return null;
+        }
+
+        const base = this.normalizeCode(fm.base);
+        const date = fm.date != null ? String(fm.date) : "";
+        if (!base || !date) {
+            return null;
+        }
+
+        const rates = new Map<string, number>();
+        if (fm.rates && typeof fm.rates === "object") {
+            for (const [code, value] of Object.entries(fm.rates)) {
+                const rate = typeof value === "number" ? value : Number(value);
+                if (Number.isFinite(rate) && rate > 0) {
+                    rates.set(this.normalizeCode(code), rate);
+                }
+            }
+        }
+        rates.set(base, 1);
+
+        return { path: file.path, date, base, rates };
+    }
+
+    /**
+     * 获取所有汇率表（按日期升序）
+     */
+    getRates(): ExchangeRateInfo[] {
+        return this.rateCache;
+    }
+
+    /**
+     * 刷新单个汇率表文件的缓存
+     */
+    async refreshRate(file: TFile): Promise<void> {
+        const table = this.parseRateFile(file);
+        this.rateCache = this.rateCache.filter(t => t.path !== file.path);
+        if (table) {
+            this.rateCache.push(table);
+        }
+        this.sortCache();
+    }
+
+    /**
+     * 移除单个汇率表文件的缓存
+     */
+    removeRate(path: string): void {
+        this.rateCache = this.rateCache.filter(t => t.path !== path);
+    }
+
+    /**
+     * 汇率表中出现过的所有货币（含本位币）
+     */
+    getKnownCurrencies(): string[] {
+        const set = new Set<string>([this.baseCurrency]);
+        for (const table of this.rateCache) {
+            for (const code of table.rates.keys()) set.add(code);
+        }
+        return Array.from(set).sort();
+    }
+
+    /**
+     * 获取某日期 from → to 的汇率（1 单位 from = ? 单位 to）
+     * @returns 找不到可用汇率表时返回 null
+     */
+    getRate(from: string, to: string, date: string = getLocalDateString()): number | null {
+        const src = this.normalizeCode(from) || this.baseCurrency;
+        const dst = this.normalizeCode(to) || this.baseCurrency;
+        if (src === dst) return 1;
+
+        let fallback: ExchangeRateInfo | null = null;
+        let best: ExchangeRateInfo | null = null;
+        for (const table of this.rateCache) {
+            if (!table.rates.has(src) || !table.rates.has(dst)) continue;
+            if (table.date <= date) {
+                best = table;
+            } else if (!fallback) {
+                fallback = table;
+            }
+        }
+
+        const table = best ?? fallback;
+        if (!table) return null;
+        return table.rates.get(src)! / table.rates.get(dst)!;
+    }
+
+    /**
+     * 按指定日期的汇率换算金额
+     * 没有可用汇率时原样返回，避免因缺少汇率表导致金额归零
+     */
+    convert(amount: number, from: string, to: string = this.baseCurrency, date?: string): number {
+        if (!amount) return amount;
+        const rate = this.getRate(from, to, date);
+        return rate === null ? amount : roundCurrency(amount * rate);
+    }
+
+    /**
+     * 判断某货币能否换算为本位币
+     */
+    canConvertToBase(currency: string, date?: string): boolean {
+        return this.getRate(currency, this.baseCurrency, date) !== null;
+    }
+
+    /**
+     * 将交易按各自交易日期的汇率换算为本位币（仅用于统计汇总）
+     * 返回浅拷贝，不要把结果传给编辑弹窗，否则会把换算后的金额写回文件
+     */
+    convertTransactionsToBase(transactions: TransactionInfo[]): TransactionInfo[] {
+        return transactions.map(txn => {
+            const currency = this.normalizeCode(txn.currency) || this.baseCurrency;
+            if (currency === this.baseCurrency) return txn;
+            return {
+                ...txn,
+                amount: this.convert(txn.amount, currency, this.baseCurrency, txn.date),
+                discount: txn.discount ? this.convert(txn.discount, currency, this.baseCurrency, txn.date) : txn.discount,
+                refund: this.convert(txn.refund, currency, this.baseCurrency, txn.date),
+                // 拆分明细随后会被 expandSplits 展开计入分类统计，需按同一汇率换算
+                splits: txn.splits?.map(split => ({
+                    ...split,
+                    amount: this.convert(split.amount, currency, this.baseCurrency, txn.date),
+                })),
+                currency: this.baseCurrency,
+            };
+        });
+    }
+
+    private sortCache(): void {
+        this.rateCache.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    private normalizeCode(code: unknown): string {
+        if (typeof code !== "string" && typeof code !== "number") return "";
+        return String(code).trim().toUpperCase();
+    }
+}
@@ -0,0 +1,295 @@
+import { AccountInfo, AccountKindDefinition } from "../types";
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { AccountService } from "./accountService";
+import { CreditCardService } from "./creditCardService";
+import { LoanService } from "./loanService";
+import { RecurringService } from "./recurringService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { isLiabilityAccount } from "../utils/accountKindUtils";
+import { addMonths, getLocalDateString, roundCurrency } from "../utils/format";
+
+/** 预测中一笔已知的未来收支的来源 */
+export type ForecastSource = "scheduled" | "recurring" | "credit" | "loan";
+
+export const FORECAST_SOURCE_LABELS: Record<ForecastSource, string> = {
+    scheduled: "未来交易",
+    recurring: "周期交易",
+    credit: "信用卡还款",
+    loan: "贷款月供",
+};
+
+/**
+ * 预测期内一笔已知的未来收支（账户货币）
+ */
+export interface ForecastEvent {
+    date: string;
+    /** 账户文件名 */
+    account: string;
+    /** 对账户余额的影响，负数为流出 */
+    amount: number;
+    label: string;
+    source: ForecastSource;
+}
+
+/**
+ * 单个账户的逐日余额预测（账户货币）
+ */
+export interface AccountForecast {
+    account: AccountInfo;
+    /** 负债类账户（如信用卡）余额为负是正常的，不提示 */
+    liability: boolean;
+    /** 今天结束时的余额 */
+    startBalance: number;
+    /** 平均每天的日常支出（正数），按最近几个月的支出计算 */
+    dailyBaseline: number;
+    /** 从今天起每天结束时的余额 */
+    points: { date: string; balance: number }[];
+    events: ForecastEvent[];
+    lowest: { date: string; balance: number };
+    /** 余额为负的日期（仅资产类账户） */
+    negativeDates: string[];
+}
+
+export interface ForecastOptions {
+    /** 预测天数 */
+    days: number;
+    /** 按最近几个月的支出估算日常开销，0 表示不估算 */
+    baselineMonths: number;
+}
+
+/**
+ * 现金流预测服务 - 从今天的余额出发，逐日推算各账户未来的余额
+ *
+ * 已知的未来收支包括：日期在今天之后的交易、周期交易模板之后的发生日期、
+ * 信用卡账单（按账单日出账、还款日从最近一次还款的付款账户扣款）以及贷款计划中尚未还款的月供。
+ * 此外按最近几个月的「支出」交易估算每天的日常开销（周期交易生成的支出不计入，避免重复）。
+ * 投资账户不参与预测。
+ */
+export class ForecastService {
+    private transactionService: TransactionService;
+    private accountService: AccountService;
+    private creditCardService: CreditCardService;
+    private loanService: LoanService;
+    private recurringService: RecurringService;
+    private exchangeRateService: ExchangeRateService;
+
+    constructor(
+        transactionService: TransactionService,
+        accountService: AccountService,
+        creditCardService: CreditCardService,
+        loanService: LoanService,
+        recurringService: RecurringService,
+        exchangeRateService: ExchangeRateService
+    ) {
+        this.transactionService = transactionService;
+        this.accountService = accountService;
+        this.creditCardService = creditCardService;
+        this.loanService = loanService;
+        this.recurringService = recurringService;
+        this.exchangeRateService = exchangeRateService;
+    }
+
+    /**
+     * 预测所有账户（投资账户除外）未来若干天的余额
+     */
+    getForecast(kinds: AccountKindDefinition[], options: ForecastOptions, today: string = getLocalDateString()): AccountForecast[] {
+        const until = this.addDays(today, options.days);
+        const accounts = this.accountService.getActiveAccounts(today).filter(a => a.accountKind !== "investment");
+        const byName = new Map(accounts.map(a => [a.fileName, a]));
+
+        // 按日期归集已知收支
+        const events: ForecastEvent[] = [];
+        const pushTxn = (txn: TransactionInfo, source: ForecastSource, label: string) => {
+            for (const name of this.getInvolvedAccounts(txn)) {
+                const account = byName.get(name);
+                if (!account) continue;
+                const amount = this.transactionService.getBalanceChangeForTransaction(txn, name, account.currency);
+                if (amount !== 0) events.push({ date: txn.date, account: name, amount, label, source });
+            }
+        };
+        for (const txn of this.transactionService.getTransactions()) {
+            if (txn.date > today && txn.date <= until) pushTxn(txn, "scheduled", txn.payee || txn.memo || txn.category || txn.txnType);
+        }
+        for (const txn of this.getRecurringOccurrences(today, until)) {
+            pushTxn(txn, "recurring", txn.payee || txn.memo || txn.category);
+        }
+        events.push(...this.getLoanEvents(byName, today, until));
+
+        const forecasts = new Map<string, AccountForecast>();
+        const balances = new Map<string, number>();
+        for (const account of accounts) {
+            const balance = this.transactionService.getAccountBalance(account, today);
+            balances.set(account.fileName, balance);
+            forecasts.set(account.fileName, {
+                account,
+                liability: isLiabilityAccount(kinds, account),
+                startBalance: roundCurrency(balance),
+                dailyBaseline: this.getDailyBaseline(account, options.baselineMonths, today),
+                points: [{ date: today, balance: roundCurrency(balance) }],
+                events: [],
+                lowest: { date: today, balance: roundCurrency(balance) },
+                negativeDates: [],
+            });
+        }
+
+        // 信用卡：已出账未还清的账单按还款日扣款，之后每个账单日按当时的欠款出账
+        const cards = accounts.filter(a => this.creditCardService.hasBillingCycle(a));
+        const billed = new Map<string, number>();
+        const statements = new Map<string, { account: AccountInfo; dueDate: string }[]>();
+        for (const card of cards) {
+            const due = this.creditCardService.getNextDue(card, today);
+            billed.set(card.fileName, due?.outstanding ?? 0);
+            if (due && due.dueDate > today && due.dueDate <= until) {
+                events.push(...this.getCardPayment(card, byName, due.dueDate, due.outstanding));
+            }
+            for (const { statementDate, dueDate } of this.creditCardService.getStatementDates(card, today, until)) {
+                statements.set(statementDate, [...(statements.get(statementDate) ?? []), { account: card, dueDate }]);
+            }
+        }
+
+        const eventsByDate = new Map<string, ForecastEvent[]>();
+        for (const event of events) eventsByDate.set(event.date, [...(eventsByDate.get(event.date) ?? []), event]);
+
+        for (let date = this.addDays(today, 1); date <= until; date = this.addDays(date, 1)) {
+            for (const event of eventsByDate.get(date) ?? []) {
+                const forecast = forecasts.get(event.account);
+                if (!forecast) continue;
+                balances.set(event.account, (balances.get(event.account) ?? 0) + event.amount);
+                forecast.events.push(event);
+                if (event.source === "credit" && event.amount > 0) {
+                    billed.set(event.account, Math.max(0, (billed.get(event.account) ?? 0) - event.amount));
+                }
+            }
+            for (const forecast of forecasts.values()) {
+                const name = forecast.account.fileName;
+                const balance = (balances.get(name) ?? 0) - forecast.dailyBaseline;
+                balances.set(name, balance);
+                const point = { date, balance: roundCurrency(balance) };
+                forecast.points.push(point);
+                if (point.balance < forecast.lowest.balance) forecast.lowest = point;
+                if (!forecast.liability && point.balance < 0) forecast.negativeDates.push(date);
+            }
+            // 账单日出账：本期账单 = 当天的欠款 - 之前账单尚未还的部分，到还款日扣款
+            for (const { account, dueDate } of statements.get(date) ?? []) {
+                const owed = Math.max(0, -(balances.get(account.fileName) ?? 0));
+                const amount = roundCurrency(owed - (billed.get(account.fileName) ?? 0));
+                if (amount <= 0) continue;
+                billed.set(account.fileName, (billed.get(account.fileName) ?? 0) + amount);
+                if (dueDate > until) continue;
+                for (const event of this.getCardPayment(account, byName, dueDate, amount)) {
+                    eventsByDate.set(dueDate, [...(eventsByDate.get(dueDate) ?? []), event]);
+                }
+            }
+        }
+
+        for (const forecast of forecasts.values()) {
+            forecast.events.sort((a, b) => a.date.localeCompare(b.date));
+        }
+        return Array.from(forecasts.values());
+    }
+
+    /**
+     * 信用卡还款：卡上欠款减少，付款账户（最近一次还款所用的账户）余额减少
+     */
+    private getCardPayment(card: AccountInfo, byName: Map<string, AccountInfo>, date: string, amount: number): ForecastEvent[] {
+        const label = `${card.displayName} 账单`;
+        const events: ForecastEvent[] = [{ date, account: card.fileName, amount, label, source: "credit" }];
+        const source = this.creditCardService.getRepaymentSource(card);
+        const payer = source ? byName.get(source) : undefined;
+        if (payer) {
+            const converted = this.exchangeRateService.convert(amount, card.currency, payer.currency, date);
+            events.push({ date, account: payer.fileName, amount: -roundCurrency(converted), label, source: "credit" });
+        }
+        return events;
+    }
+
+    /**
+     * 贷款计划中尚未还款的月供：从最近一次还款的付款账户扣款，借款时的收款账户视为付款账户的默认值
+     */
+    private getLoanEvents(byName: Map<string, AccountInfo>, today: string, until: string): ForecastEvent[] {
+        const strip = (name: string) => name.replace(/\[\[|\]\]/g, "").trim();
+        const events: ForecastEvent[] = [];
+        for (const summary of this.loanService.getOpenLoans("payable")) {
+            if (!summary.schedule) continue;
+            const last = summary.settlements[summary.settlements.length - 1];
+            const payer = byName.get(strip(last?.from || summary.loan.to));
+            const lender = byName.get(strip(last?.to || summary.loan.from));
+            const label = `${summary.counterparty || "贷款"} 月供`;
+            for (const row of summary.schedule.rows) {
+                if (row.paid || row.dueDate <= today || row.dueDate > until) continue;
+                for (const [account, sign] of [[payer, -1], [lender, 1]] as const) {
+                    if (!account) continue;
+                    const amount = this.exchangeRateService.convert(row.payment, summary.loan.currency, account.currency, row.dueDate);
+                    events.push({ date: row.dueDate, account: account.fileName, amount: sign * roundCurrency(amount), label, source: "loan" });
+                }
+            }
+        }
+        return events;
+    }
+
+    /**
+     * 周期交易模板在 (today, until] 内的发生日期，转换为交易以便复用余额计算
+     */
+    private getRecurringOccurrences(today: string, until: string): TransactionInfo[] {
+        const result: TransactionInfo[] = [];
+        for (const template of this.recurringService.getTemplates()) {
+            if (template.paused) continue;
+            const after = template.lastGenerated > today ? template.lastGenerated : today;
+            for (const date of this.recurringService.getOccurrences(template, after, until)) {
+                if (template.skipDates.includes(date)) continue;
+                result.push({
+                    path: template.path,
+                    fileName: template.fileName,
+                    uid: "",
+                    date,
+                    time: "",
+                    txnType: template.txnType,
+                    category: template.category,
+                    amount: template.amount,
+                    refund: 0,
+                    currency: template.currency,
+                    from: template.from,
+                    to: template.to,
+                    payee: template.payee,
+                    address: "",
+                    memo: template.memo || template.name,
+                    note: "",
+                    persons: template.persons,
+                });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 最近 months 个月内平均每天的「支出」流出（不含周期交易生成的支出）
+     */
+    private getDailyBaseline(account: AccountInfo, months: number, today: string): number {
+        if (months <= 0) return 0;
+        const since = addMonths(today, -months);
+        const opened = account.openingDate && account.openingDate > since ? account.openingDate : since;
+        let total = 0;
+        for (const txn of this.transactionService.getTransactionsByAccount(account.fileName)) {
+            if (txn.txnType !== "支出" || txn.recurring || txn.date <= opened || txn.date > today) continue;
+            total -= Math.min(0, this.transactionService.getBalanceChangeForTransaction(txn, account.fileName, account.currency));
+        }
+        const days = Math.max(1, this.diffDays(opened, today));
+        return total / days;
+    }
+
+    private getInvolvedAccounts(txn: TransactionInfo): Set<string> {
+        const strip = (name?: string) => name?.replace(/\[\[|\]\]/g, "").trim() || "";
+        return new Set([strip(txn.from), strip(txn.to), strip(txn.refundTo)].filter(Boolean));
+    }
+
+    private addDays(date: string, days: number): string {
+        const [y, m, d] = date.split("-").map(Number) as [number, number, number];
+        return getLocalDateString(new Date(y, m - 1, d + days));
+    }
+
+    private diffDays(from: string, to: string): number {
+        const [fy, fm, fd] = from.split("-").map(Number) as [number, number, number];
+        const [ty, tm, td] = to.split("-").map(Number) as [number, number, number];
+        return Math.round((new Date(ty, tm - 1, td).getTime() - new Date(fy, fm - 1, fd).getTime()) / 86400000);
+    }
+}
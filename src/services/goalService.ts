@@ -0,0 +1,231 @@
+import { App, TFile, CachedMetadata } from "obsidian";
+import { GoalFrontmatter } from "../types";
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { AccountService } from "./accountService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { getMarkdownFilesInFolder } from "../utils/fileUtils";
+import { addMonths, getLocalDateString, roundCurrency } from "../utils/format";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** 按最近几个月的存入估算预计达成日期 */
+const RECENT_MONTHS = 3;
+
+/**
+ * 储蓄目标信息
+ */
+export interface GoalInfo {
+    /** 文件路径 */
+    path: string;
+    /** 文件名（不含扩展名），交易的 goal 字段指向该名称 */
+    fileName: string;
+    name: string;
+    target: number;
+    /** 目标货币，为空时为本位币 */
+    currency: string;
+    targetDate: string;
+    /** 关联账户（文件名） */
+    accounts: string[];
+    note: string;
+}
+
+/**
+ * 储蓄目标的进度（目标货币）
+ */
+export interface GoalProgress {
+    goal: GoalInfo;
+    /** 已存金额：关联账户余额 + 指向该目标的交易 */
+    saved: number;
+    remaining: number;
+    /** saved / target */
+    ratio: number;
+    reached: boolean;
+    /** 距目标日期的月数（不足一个月按一个月计），没有目标日期时为 null */
+    monthsLeft: number | null;
+    /** 按时达成每月需要存入的金额，没有目标日期或已达成时为 null */
+    requiredMonthly: number | null;
+    /** 最近几个月平均每月存入 */
+    recentMonthly: number;
+    /** 按最近的存入速度预计达成的日期，已达成或没有存入时为 null */
+    projectedDate: string | null;
+}
+
+/**
+ * 储蓄目标服务 - 扫描目标文件并计算进度
+ *
+ * 目标可以关联一个或多个账户（余额全部计入），也可以由交易的 goal 字段指向：
+ * 转账、收入计为存入，支出计为取用。转入关联账户的交易已体现在账户余额中，不重复计算。
+ */
+export class GoalService {
+    private app: App;
+    private goalCache: GoalInfo[] = [];
+    private goalsPath: string;
+    private transactionService: TransactionService;
+    private accountService: AccountService;
+    private exchangeRateService: ExchangeRateService;
+
+    constructor(app: App, goalsPath: string, transactionService: TransactionService, accountService: AccountService, exchangeRateService: ExchangeRateService) {
+        this.app = app;
+        this.goalsPath = goalsPath;
+        this.transactionService = transactionService;
+        this.accountService = accountService;
+        this.exchangeRateService = exchangeRateService;
+    }
+
+    /**
+     * 更新目标目录路径
+     */
+    setGoalsPath(path: string): void {
+        this.goalsPath = path;
+    }
+
+    /**
+     * 扫描目标目录下的所有目标文件并更新缓存
+     */
+    async scanGoals(): Promise<GoalInfo[]> {
+        this.goalCache = [];
+        for (const file of getMarkdownFilesInFolder(this.app, this.goalsPath)) {
+            const goal = this.parseGoalFile(file);
+            if (goal) this.goalCache.push(goal);
+        }
+        this.sortCache();
+        return this.goalCache;
+    }
+
+    /**
+     * 解析单个文件，判断是否为目标文件
+     */
+    private parseGoalFile(file: TFile): GoalInfo | null {
+        const cache: CachedMetadata | null = this.app.metadataCache.getFileCache(file);
+        if (!cache?.frontmatter) {
+            return null;
+        }
+
+        const fm = cache.frontmatter as Partial<GoalFrontmatter>;
+        if (fm.type !== "goal") {
+            return null;
+        }
+
+        const target = Number(fm.target);
+        if (!Number.isFinite(target) || target <= 0) {
+            return null;
+        }
+
+        const accounts = (Array.isArray(fm.accounts) ? fm.accounts : typeof fm.accounts === "string" ? [fm.accounts] : [])
+            .map(link => String(link).replace(/\[\[|\]\]/g, "").trim())
+            .filter(Boolean);
+        const targetDate = fm.target_date != null ? String(fm.target_date) : "";
+
+        return {
+            path: file.path,
+            fileName: file.basename,
+            name: typeof fm.name === "string" && fm.name.trim() ? fm.name.trim() : file.basename,
+            target,
+            currency: typeof fm.currency === "string" ? fm.currency.trim().toUpperCase() : "",
+            targetDate: DATE_REGEX.test(targetDate) ? targetDate : "",
+            accounts,
+            note: typeof fm.note === "string" ? fm.note : "",
+        };
+    }
+
+    /**
+     * 获取所有目标（有目标日期的按日期排在前面）
+     */
+    getGoals(): GoalInfo[] {
+        return this.goalCache;
+    }
+
+    /**
+     * 刷新单个目标文件的缓存
+     */
+    async refreshGoal(file: TFile): Promise<void> {
+        const goal = this.parseGoalFile(file);
+        this.goalCache = this.goalCache.filter(g => g.path !== file.path);
+        if (goal) this.goalCache.push(goal);
+        this.sortCache();
+    }
+
+    /**
+     * 移除单个目标文件的缓存
+     */
+    removeGoal(path: string): void {
+        this.goalCache = this.goalCache.filter(g => g.path !== path);
+    }
+
+    /**
+     * 所有目标的进度
+     */
+    getAllProgress(baseCurrency: string, today: string = getLocalDateString()): GoalProgress[] {
+        return this.goalCache.map(goal => this.getProgress(goal, baseCurrency, today));
+    }
+
+    /**
+     * 单个目标截至指定日期的进度
+     */
+    getProgress(goal: GoalInfo, baseCurrency: string, today: string = getLocalDateString()): GoalProgress {
+        const saved = roundCurrency(this.getSavedAt(goal, baseCurrency, today));
+        const since = addMonths(today, -RECENT_MONTHS);
+        const recentMonthly = roundCurrency((saved - this.getSavedAt(goal, baseCurrency, since)) / RECENT_MONTHS);
+        const remaining = roundCurrency(Math.max(0, goal.target - saved));
+        const reached = remaining <= 0;
+
+        const monthsLeft = goal.targetDate ? Math.max(1, Math.ceil(this.diffMonths(today, goal.targetDate))) : null;
+        const monthsToGo = !reached && recentMonthly > 0 ? Math.ceil(remaining / recentMonthly) : null;
+
+        return {
+            goal,
+            saved,
+            remaining,
+            ratio: saved / goal.target,
+            reached,
+            monthsLeft,
+            requiredMonthly: monthsLeft !== null && !reached ? roundCurrency(remaining / monthsLeft) : null,
+            recentMonthly,
+            projectedDate: monthsToGo !== null ? addMonths(today, monthsToGo) : null,
+        };
+    }
+
+    /**
+     * 指向目标的交易（按日期升序）
+     */
+    getTaggedTransactions(goal: GoalInfo): TransactionInfo[] {
+        return this.transactionService.getTransactions()
+            .filter(t => t.goal === goal.fileName)
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * 截至某天结束时的已存金额（目标货币）
+     */
+    private getSavedAt(goal: GoalInfo, baseCurrency: string, date: string): number {
+        const currency = goal.currency || baseCurrency;
+        const linked = new Set(goal.accounts);
+        let saved = 0;
+
+        for (const account of this.accountService.getAccounts()) {
+            if (!linked.has(account.fileName)) continue;
+            const balance = this.transactionService.getAccountBalance(account, date);
+            saved += this.exchangeRateService.convert(balance, account.currency, currency, date);
+        }
+
+        for (const txn of this.getTaggedTransactions(goal)) {
+            if (txn.date > date) break;
+            if (linked.has(txn.to.replace(/\[\[|\]\]/g, "").trim())) continue;
+            const amount = this.exchangeRateService.convert(txn.amount, txn.currency, currency, txn.date);
+            saved += txn.txnType === "支出" ? -amount : amount;
+        }
+        return saved;
+    }
+
+    private diffMonths(from: string, to: string): number {
+        const [fy, fm, fd] = from.split("-").map(Number) as [number, number, number];
+        const [ty, tm, td] = to.split("-").map(Number) as [number, number, number];
+        return (ty - fy) * 12 + (tm - fm) + (td - fd) / 30;
+    }
+
+    private sortCache(): void {
+        this.goalCache.sort((a, b) =>
+            (a.targetDate || "9999").localeCompare(b.targetDate || "9999") || a.name.localeCompare(b.name)
+        );
+    }
+}
@@ -1,9 +1,10 @@
 import { App, TFile, normalizePath } from "obsidian";
 import { AccountInfo } from "../types";
+import { PayeeInfo } from "./payeeService";
 
 /**
  * 统一图标解析服务
- * 负责查找账户和分类的自定义图标，取代各组件中分散的图标搜索逻辑
+ * 负责查找账户、商家和分类的自定义图标，取代各组件中分散的图标搜索逻辑
  */
 export class IconResolver {
     private app: App;
@@ -67,6 +68,32 @@ export class IconResolver {
         return result;
     }
 
+    /**
+     * 解析商家标志的资源路径
+     * 搜索策略与账户图标相同：先解析 frontmatter logo 字段，
+     * 再按约定搜索 customIconPath/payees/name.ext 与 customIconPath/name.ext
+     *
+     * @returns vault resource path 或 null
+     */
+    resolvePayeeIcon(payee: PayeeInfo): string | null {
+        const cacheKey = `payee:${payee.path}:${payee.logo}`;
+        const cached = this.cache.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let result: string | null = null;
+        if (payee.logo) {
+            result = this.resolveIconLink(payee.logo, payee.path, ["payees", ""]);
+        }
+        if (!result) {
+            result = this.searchIconByConvention([payee.fileName, payee.name], ["payees", ""]);
+        }
+
+        this.cache.set(cacheKey, result);
+        return result;
+    }
+
     /**
      * 解析分类图标的资源路径
      * 搜索策略：
@@ -114,7 +141,7 @@ export class IconResolver {
     /**
      * 解析 [[wiki link]] 或纯文本格式的图标引用
      */
-    private resolveIconLink(iconRef: string, contextPath: string): string | null {
+    private resolveIconLink(iconRef: string, contextPath: string, subdirs: string[] = ["accounts", ""]): string | null {
         const raw = iconRef.replace(/\[\[|\]\]/g, "");
         if (!raw) return null;
 
@@ -140,7 +167,7 @@ export class IconResolver {
 
         // 4. 在 customIconPath 下搜索
         if (this.customIconPath) {
-            for (const sub of ["accounts", ""]) {
+            for (const sub of subdirs) {
                 const base = sub ? `${this.customIconPath}/${sub}` : this.customIconPath;
                 const p = normalizePath(`${base}/${raw}`);
                 const f = this.app.vault.getAbstractFileByPath(p);
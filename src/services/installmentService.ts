@@ -0,0 +1,93 @@
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { getInstallmentSchedule, InstallmentPeriod, INSTALLMENT_FEE_CATEGORY } from "../utils/installmentUtils";
+import { getLocalDateString } from "../utils/format";
+
+/**
+ * 分期计划中的一期及其手续费是否已入账
+ */
+export interface InstallmentScheduleItem extends InstallmentPeriod {
+    /** 已生成手续费交易（或无手续费） */
+    feeRecorded: boolean;
+}
+
+/**
+ * 分期服务 - 根据分期消费的计划生成各期手续费交易
+ *
+ * 分期消费本身按全额记为一笔支出（占用信用额度），各期本金只在统计和账单中按期展开；
+ * 手续费是额外费用，到期时生成「分期手续费」分类的支出并通过 installment_of 链接回原消费。
+ */
+export class InstallmentService {
+    private transactionService: TransactionService;
+
+    constructor(transactionService: TransactionService) {
+        this.transactionService = transactionService;
+    }
+
+    /**
+     * 获取所有分期消费（按日期降序）
+     */
+    getPlans(): TransactionInfo[] {
+        return this.transactionService.getTransactions().filter(t => t.installment && t.txnType === "支出");
+    }
+
+    /**
+     * 获取分期消费的还款计划及各期手续费入账情况
+     */
+    getSchedule(txn: TransactionInfo): InstallmentScheduleItem[] {
+        if (!txn.installment) return [];
+        const recorded = this.getRecordedFeePeriods(txn);
+        return getInstallmentSchedule(txn.installment, txn.amount, txn.date).map(p => ({
+            ...p,
+            feeRecorded: p.fee <= 0 || recorded.has(p.index),
+        }));
+    }
+
+    /**
+     * 为所有截至指定日期到期、尚未入账的分期手续费生成交易
+     * @returns 新生成的交易数量
+     */
+    async generateDueFees(today: string = getLocalDateString()): Promise<number> {
+        let created = 0;
+        for (const txn of this.getPlans()) {
+            if (!txn.uid) continue;
+            for (const period of this.getSchedule(txn)) {
+                if (period.feeRecorded || period.date > today) continue;
+                await this.createFeeTransaction(txn, period);
+                created++;
+            }
+        }
+        return created;
+    }
+
+    private async createFeeTransaction(txn: TransactionInfo, period: InstallmentPeriod): Promise<void> {
+        const plan = txn.installment;
+        if (!plan) return;
+        const file = await this.transactionService.createTransaction(period.date);
+        await this.transactionService.updateTransaction(file, {
+            date: period.date,
+            time: "00:00:00",
+            txn_type: "支出",
+            category: INSTALLMENT_FEE_CATEGORY,
+            amount: period.fee,
+            currency: txn.currency,
+            from: txn.from,
+            to: "",
+            payee: txn.payee,
+            memo: `${txn.payee || txn.category} 分期手续费 ${period.index}/${plan.periods}`,
+            installment_of: txn.uid,
+            installment_period: period.index,
+        });
+    }
+
+    private getRecordedFeePeriods(txn: TransactionInfo): Set<number> {
+        const result = new Set<number>();
+        if (!txn.uid) return result;
+        // 作废的手续费也算已生成，避免再次生成
+        for (const t of this.transactionService.getAllTransactions()) {
+            if (t.installmentOf === txn.uid && t.installmentPeriod !== undefined) {
+                result.add(t.installmentPeriod);
+            }
+        }
+        return result;
+    }
+}
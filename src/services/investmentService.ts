@@ -0,0 +1,207 @@
+import { AccountInfo } from "../types";
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { PriceService } from "./priceService";
+import { getLocalDateString, roundCurrency } from "../utils/format";
+
+/**
+ * 单只证券的持仓（金额以账户货币计）
+ */
+export interface HoldingInfo {
+    security: string;
+    /** 证券名称（来自价格文件） */
+    name: string;
+    quantity: number;
+    /** 持仓成本（移动加权平均） */
+    costBasis: number;
+    avgCost: number;
+    /** 使用的价格，没有任何价格时为 0 */
+    price: number;
+    priceDate: string;
+    /** 价格来源：价格记录 / 最近一笔成交价 */
+    priceSource: "price" | "trade" | "none";
+    marketValue: number;
+    unrealized: number;
+    /** 已实现盈亏（卖出收入 - 对应成本） */
+    realized: number;
+    dividends: number;
+    fees: number;
+    /** 市值占全部持仓市值的比例 */
+    allocation: number;
+}
+
+/**
+ * 投资账户汇总（金额以账户货币计）
+ */
+export interface InvestmentSummary {
+    /** 账户内的现金余额 */
+    cash: number;
+    /** 持仓市值 */
+    holdingsValue: number;
+    /** 现金 + 持仓市值 */
+    marketValue: number;
+    costBasis: number;
+    /** 已实现盈亏，含分红、扣除费用 */
+    realized: number;
+    unrealized: number;
+    holdings: HoldingInfo[];
+}
+
+interface HoldingState {
+    quantity: number;
+    costBasis: number;
+    realized: number;
+    dividends: number;
+    fees: number;
+    lastTrade: { date: string; price: number } | null;
+}
+
+/**
+ * 投资服务 - 根据投资交易（买入、卖出、分红、费用）计算投资账户的持仓、
+ * 成本、已实现 / 未实现盈亏与市值
+ *
+ * 持仓记在交易的 to 账户上（留空时为 from 账户），成本按移动加权平均计算。
+ * 市值使用价格文件中当天或之前最近的价格，没有价格记录时退回最近一笔成交价。
+ */
+export class InvestmentService {
+    private transactionService: TransactionService;
+    private exchangeRateService: ExchangeRateService;
+    private priceService: PriceService;
+
+    constructor(transactionService: TransactionService, exchangeRateService: ExchangeRateService, priceService: PriceService) {
+        this.transactionService = transactionService;
+        this.exchangeRateService = exchangeRateService;
+        this.priceService = priceService;
+    }
+
+    isInvestment(account: AccountInfo): boolean {
+        return account.accountKind === "investment";
+    }
+
+    /**
+     * 账户在指定日期的持仓与盈亏
+     */
+    getSummary(account: AccountInfo, date: string = getLocalDateString()): InvestmentSummary {
+        const states = new Map<string, HoldingState>();
+        const txns = this.transactionService.getTransactionsByAccount(account.fileName)
+            .filter(t => t.txnType === "投资" && t.date <= date && t.security && this.isHoldingAccount(t, account))
+            .sort((a, b) => a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || ""));
+
+        for (const txn of txns) {
+            const security = txn.security ?? "";
+            const state = states.get(security) ?? { quantity: 0, costBasis: 0, realized: 0, dividends: 0, fees: 0, lastTrade: null };
+            states.set(security, state);
+            const amount = this.toAccountCurrency(txn.amount, txn, account);
+            const quantity = Math.abs(txn.quantity ?? 0);
+
+            if (txn.investAction === "buy") {
+                state.quantity += quantity;
+                state.costBasis += amount;
+            } else if (txn.investAction === "sell") {
+                const sold = Math.min(quantity, state.quantity);
+                const cost = state.quantity > 0 ? state.costBasis * sold / state.quantity : 0;
+                state.quantity -= sold;
+                state.costBasis = state.quantity > 0 ? state.costBasis - cost : 0;
+                state.realized += amount - cost;
+            } else if (txn.investAction === "dividend") {
+                state.dividends += amount;
+            } else if (txn.investAction === "fee") {
+                state.fees += amount;
+            }
+            if ((txn.investAction === "buy" || txn.investAction === "sell") && txn.price) {
+                state.lastTrade = { date: txn.date, price: this.toAccountCurrency(txn.price, txn, account) };
+            }
+        }
+
+        const holdings: HoldingInfo[] = [];
+        for (const [security, state] of states) {
+            const quote = this.priceService.getPrice(security, date);
+            let price = 0;
+            let priceDate = "";
+            let priceSource: HoldingInfo["priceSource"] = "none";
+            if (quote) {
+                price = quote.currency && quote.currency !== account.currency
+                    ? this.exchangeRateService.convert(quote.price, quote.currency, account.currency, quote.date)
+                    : quote.price;
+                priceDate = quote.date;
+                priceSource = "price";
+            }
+            if (state.lastTrade && (!quote || state.lastTrade.date > quote.date)) {
+                price = state.lastTrade.price;
+                priceDate = state.lastTrade.date;
+                priceSource = "trade";
+            }
+
+            const quantity = roundQuantity(state.quantity);
+            const costBasis = roundCurrency(state.costBasis);
+            const marketValue = roundCurrency(quantity * price);
+            holdings.push({
+                security,
+                name: this.priceService.getSecurity(security)?.name ?? "",
+                quantity,
+                costBasis,
+                avgCost: quantity > 0 ? state.costBasis / quantity : 0,
+                price,
+                priceDate,
+                priceSource,
+                marketValue,
+                unrealized: quantity > 0 ? roundCurrency(marketValue - costBasis) : 0,
+                realized: roundCurrency(state.realized + state.dividends - state.fees),
+                dividends: roundCurrency(state.dividends),
+                fees: roundCurrency(state.fees),
+                allocation: 0,
+            });
+        }
+
+        const holdingsValue = roundCurrency(holdings.reduce((sum, h) => sum + h.marketValue, 0));
+        for (const holding of holdings) {
+            holding.allocation = holdingsValue > 0 ? holding.marketValue / holdingsValue : 0;
+        }
+        holdings.sort((a, b) => b.marketValue - a.marketValue || a.security.localeCompare(b.security));
+
+        const cash = this.transactionService.getAccountBalanceAt(account, date);
+        return {
+            cash,
+            holdingsValue,
+            marketValue: roundCurrency(cash + holdingsValue),
+            costBasis: roundCurrency(holdings.reduce((sum, h) => sum + h.costBasis, 0)),
+            realized: roundCurrency(holdings.reduce((sum, h) => sum + h.realized, 0)),
+            unrealized: roundCurrency(holdings.reduce((sum, h) => sum + h.unrealized, 0)),
+            holdings,
+        };
+    }
+
+    /**
+     * 账户在指定日期的价值（账户货币，默认今天）：投资账户为现金 + 持仓市值，其他账户为余额
+     */
+    getAccountValue(account: AccountInfo, date: string = getLocalDateString()): number {
+        if (!this.isInvestment(account)) return this.transactionService.getAccountBalance(account, date);
+        return this.getSummary(account, date).marketValue;
+    }
+
+    /**
+     * 账户价值换算为本位币（按该日期的汇率）
+     */
+    getAccountValueInBase(account: AccountInfo, date: string = getLocalDateString()): number {
+        if (!this.isInvestment(account)) return this.transactionService.getAccountBalanceInBase(account, date);
+        return this.exchangeRateService.convert(this.getAccountValue(account, date), account.currency, undefined, date);
+    }
+
+    /**
+     * 持仓记在 to 账户上，to 留空时记在 from 账户上
+     */
+    private isHoldingAccount(txn: TransactionInfo, account: AccountInfo): boolean {
+        const holder = txn.to || txn.from;
+        return holder.replace(/\[\[|\]\]/g, "").trim() === account.fileName;
+    }
+
+    private toAccountCurrency(value: number, txn: TransactionInfo, account: AccountInfo): number {
+        if (!txn.currency || !account.currency || txn.currency === account.currency) return value;
+        return this.exchangeRateService.convert(value, txn.currency, account.currency, txn.date);
+    }
+}
+
+/** 数量保留 6 位小数，避免浮点误差留下极小的零头持仓 */
+function roundQuantity(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+}
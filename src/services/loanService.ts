@@ -0,0 +1,184 @@
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { PayeeService } from "./payeeService";
+import { roundCurrency } from "../utils/format";
+import { AmortizationSchedule, buildAmortizationSchedule } from "../utils/amortizationUtils";
+
+/** payable：我们借入的钱（应付）；receivable：我们借出的钱（应收） */
+export type LoanDirection = "payable" | "receivable";
+
+/**
+ * 一笔借款 / 借出及其结算情况
+ * 金额均以借贷交易本身的货币计
+ */
+export interface LoanSummary {
+    /** 借款或借出交易 */
+    loan: TransactionInfo;
+    direction: LoanDirection;
+    /** 出借人 / 借款人（交易的商家字段，按商家目录归并为规范名称） */
+    counterparty: string;
+    principal: number;
+    /** 已还 / 已收回；有贷款计划时只计本金部分 */
+    settled: number;
+    /** 剩余本金 */
+    outstanding: number;
+    /** 已付利息（仅有贷款计划的借款） */
+    interestPaid: number;
+    /** 还款计划（仅有贷款计划的借款） */
+    schedule: AmortizationSchedule | null;
+    /** 结算交易（按日期升序） */
+    settlements: TransactionInfo[];
+    /** 未写 loan 字段、按商家名匹配到的旧结算交易 */
+    legacySettlements: TransactionInfo[];
+}
+
+/** 借贷交易类型对应的结算交易类型 */
+const SETTLEMENT_TYPE: Record<LoanDirection, "还款" | "收回"> = {
+    payable: "还款",
+    receivable: "收回",
+};
+
+/**
+ * 借贷服务 - 汇总借入（应付）与借出（应收）的每一笔借贷及其部分结算
+ *
+ * 还款 / 收回通过 loan 字段写入的 uid 关联到具体的借贷交易，
+ * 同一个人的多笔借贷互不影响。没有 loan 字段的旧还款仍按商家名匹配，
+ * 依次冲抵该出借人最早未结清的借款。设置了贷款计划的借款按还款计划拆分本金与利息。
+ */
+export class LoanService {
+    private transactionService: TransactionService;
+    private exchangeRateService: ExchangeRateService;
+    private payeeService: PayeeService;
+
+    constructor(transactionService: TransactionService, exchangeRateService: ExchangeRateService, payeeService: PayeeService) {
+        this.transactionService = transactionService;
+        this.exchangeRateService = exchangeRateService;
+        this.payeeService = payeeService;
+    }
+
+    /**
+     * 所有借贷（按日期升序）
+     */
+    getLoans(): LoanSummary[] {
+        const txns = [...this.transactionService.getTransactions()].sort((a, b) =>
+            a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || "")
+        );
+
+        const loans: LoanSummary[] = [];
+        const byUid = new Map<string, LoanSummary>();
+        for (const txn of txns) {
+            const direction = this.getDirection(txn);
+            if (!direction) continue;
+            const summary: LoanSummary = {
+                loan: txn,
+                direction,
+                counterparty: this.payeeService.getCanonicalName(txn.payee),
+                principal: txn.amount,
+                settled: 0,
+                outstanding: txn.amount,
+                interestPaid: 0,
+                schedule: null,
+                settlements: [],
+                legacySettlements: [],
+            };
+            loans.push(summary);
+            if (txn.uid) byUid.set(txn.uid, summary);
+        }
+
+        for (const txn of txns) {
+            if (txn.txnType !== "还款" && txn.txnType !== "收回") continue;
+            const target = txn.loan
+                ? byUid.get(txn.loan)
+                : this.matchLegacy(loans, txn);
+            if (!target || SETTLEMENT_TYPE[target.direction] !== txn.txnType) continue;
+
+            const amount = this.toLoanCurrency(txn, target.loan);
+            target.settled = roundCurrency(target.settled + amount);
+            target.outstanding = roundCurrency(Math.max(0, target.principal - target.settled));
+            target.settlements.push(txn);
+            if (!txn.loan) target.legacySettlements.push(txn);
+        }
+
+        for (const summary of loans) {
+            const plan = summary.loan.amortization;
+            if (!plan || summary.direction !== "payable") continue;
+            const schedule = buildAmortizationSchedule(plan, summary.principal, summary.settlements.map(txn => ({
+                txn,
+                amount: this.toLoanCurrency(txn, summary.loan),
+            })));
+            summary.schedule = schedule;
+            summary.settled = schedule.principalPaid;
+            summary.outstanding = schedule.remainingPrincipal;
+            summary.interestPaid = schedule.interestPaid;
+        }
+
+        return loans;
+    }
+
+    /**
+     * 所有贷款还款中的利息部分（还款交易路径 -> 利息，以还款交易的货币计）
+     */
+    getInterestByPath(): Map<string, number> {
+        const result = new Map<string, number>();
+        for (const summary of this.getLoans()) {
+            summary.schedule?.interestByPath.forEach((interest, path) => result.set(path, interest));
+        }
+        return result;
+    }
+
+    /**
+     * 尚未结清的借贷
+     */
+    getOpenLoans(direction?: LoanDirection): LoanSummary[] {
+        return this.getLoans().filter(l => l.outstanding > 0 && (!direction || l.direction === direction));
+    }
+
+    /**
+     * 按 uid 查找借贷
+     */
+    getLoan(uid: string): LoanSummary | null {
+        return this.getLoans().find(l => l.loan.uid === uid) ?? null;
+    }
+
+    /**
+     * 借贷交易的方向，非借贷交易返回 null
+     */
+    getDirection(txn: TransactionInfo): LoanDirection | null {
+        if (txn.txnType === "借款") return "payable";
+        if (txn.txnType === "借出") return "receivable";
+        return null;
+    }
+
+    /**
+     * 借贷对应的结算交易类型（还款 / 收回）
+     */
+    getSettlementType(direction: LoanDirection): "还款" | "收回" {
+        return SETTLEMENT_TYPE[direction];
+    }
+
+    /**
+     * 换算为本位币
+     */
+    toBase(amount: number, loan: TransactionInfo): number {
+        return this.exchangeRateService.convert(amount, loan.currency, undefined, loan.date);
+    }
+
+    /**
+     * 旧数据兼容：商家名相同且不早于借贷日期的第一笔未结清借贷，
+     * 都已结清时记到该商家最近的一笔借贷上
+     */
+    private matchLegacy(loans: LoanSummary[], txn: TransactionInfo): LoanSummary | undefined {
+        const payee = this.payeeService.getCanonicalName(txn.payee);
+        if (!payee) return undefined;
+        const direction: LoanDirection = txn.txnType === "收回" ? "receivable" : "payable";
+        const candidates = loans.filter(l =>
+            l.direction === direction && l.counterparty === payee && l.loan.date <= txn.date
+        );
+        return candidates.find(l => l.outstanding > 0) ?? candidates[candidates.length - 1];
+    }
+
+    private toLoanCurrency(txn: TransactionInfo, loan: TransactionInfo): number {
+        if (!txn.currency || txn.currency === loan.currency) return txn.amount;
+        return this.exchangeRateService.convert(txn.amount, txn.currency, loan.currency, txn.date);
+    }
+}
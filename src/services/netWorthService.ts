@@ -0,0 +1,223 @@
+import { App, normalizePath, TFile } from "obsidian";
+import { AccountInfo, AccountKindDefinition, NetWorthSnapshotEntryFrontmatter, NetWorthSnapshotFrontmatter } from "../types";
+import { TransactionService } from "./transactionService";
+import { AccountService } from "./accountService";
+import { InvestmentService } from "./investmentService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { summarizeNetWorth } from "../utils/accountKindUtils";
+import { getLocalDateString, getLocalTimeString, roundCurrency } from "../utils/format";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** 净资产历史的取点间隔：月末 / 周末（周日） */
+export type NetWorthInterval = "month" | "week";
+
+/** 净资产走势显示的范围：最近 1 年 / 3 年 / 全部 */
+export type NetWorthRange = "1y" | "3y" | "all";
+
+/**
+ * 某一天结束时的资产、负债与净资产（本位币）
+ */
+export interface NetWorthPoint {
+    date: string;
+    assets: number;
+    liabilities: number;
+    netWorth: number;
+}
+
+/**
+ * 写入快照文件的净资产快照
+ */
+export interface NetWorthSnapshot extends NetWorthPoint {
+    /** 记录时间 (YYYY-MM-DD HH:MM) */
+    recordedAt: string;
+}
+
+/**
+ * 净资产历史服务 - 按月末或周末计算历史净资产，并把快照写入快照文件
+ *
+ * 历史数据由 calculateAllAccountsRunningBalances() 的逐笔余额得出，
+ * 账户只在开户之后、关闭之前计入；投资账户按当天的持仓市值计算。
+ * 快照文件（type: net_worth）保存记录时的计算结果，用于和修改旧交易后的数值对比。
+ */
+export class NetWorthService {
+    private app: App;
+    private snapshotPath: string;
+    private transactionService: TransactionService;
+    private accountService: AccountService;
+    private investmentService: InvestmentService;
+    private exchangeRateService: ExchangeRateService;
+
+    constructor(
+        app: App,
+        snapshotPath: string,
+        transactionService: TransactionService,
+        accountService: AccountService,
+        investmentService: InvestmentService,
+        exchangeRateService: ExchangeRateService
+    ) {
+        this.app = app;
+        this.snapshotPath = snapshotPath;
+        this.transactionService = transactionService;
+        this.accountService = accountService;
+        this.investmentService = investmentService;
+        this.exchangeRateService = exchangeRateService;
+    }
+
+    /**
+     * 更新快照文件路径
+     */
+    setSnapshotPath(path: string): void {
+        this.snapshotPath = path;
+    }
+
+    /**
+     * 从最早的交易（或开户日期）到今天，每个月末 / 周末的净资产，最后一个点为今天
+     */
+    getHistory(kinds: AccountKindDefinition[], interval: NetWorthInterval = "month"): NetWorthPoint[] {
+        const accounts = this.accountService.getAccounts();
+        const openingBalances = new Map<string, number>();
+        const currencies = new Map<string, string>();
+        const openingDates = new Map<string, string>();
+        for (const account of accounts) {
+            openingBalances.set(account.fileName, account.openingBalance);
+            currencies.set(account.fileName, account.currency);
+            if (account.openingDate) openingDates.set(account.fileName, account.openingDate);
+        }
+        const running = this.transactionService.calculateAllAccountsRunningBalances(openingBalances, currencies, openingDates);
+
+        const today = getLocalDateString();
+        const transactions = this.transactionService.getAllTransactions()
+            .filter(t => t.date <= today)
+            .sort((a, b) => a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || ""));
+        const starts = [...transactions.slice(0, 1).map(t => t.date), ...openingDates.values()].filter(d => DATE_REGEX.test(d));
+        if (starts.length === 0) return [];
+        const start = starts.reduce((a, b) => (a < b ? a : b));
+
+        // 逐个时间点推进，记下每个账户截至该点最后一笔交易后的余额
+        const balances = new Map(openingBalances);
+        const points: NetWorthPoint[] = [];
+        let index = 0;
+        for (const date of getPeriodEnds(start, today, interval)) {
+            for (; index < transactions.length && transactions[index]!.date <= date; index++) {
+                const changes = running.get(transactions[index]!.path);
+                for (const [account, { after }] of changes ?? []) balances.set(account, after);
+            }
+            points.push(this.summarize(kinds, date, account => this.investmentService.isInvestment(account)
+                ? this.investmentService.getAccountValueInBase(account, date)
+                : this.exchangeRateService.convert(balances.get(account.fileName) ?? 0, account.currency, undefined, date)));
+        }
+        return points;
+    }
+
+    /**
+     * 指定日期结束时的净资产（与余额卡片的计算方式一致）
+     */
+    getNetWorthAt(kinds: AccountKindDefinition[], date: string = getLocalDateString()): NetWorthPoint {
+        return this.summarize(kinds, date, account => this.investmentService.getAccountValueInBase(account, date));
+    }
+
+    private summarize(kinds: AccountKindDefinition[], date: string, getValueInBase: (account: AccountInfo) => number): NetWorthPoint {
+        const accounts = this.accountService.getAccounts()
+            .filter(account => this.accountService.isOpened(account, date) && !this.accountService.isClosed(account, date));
+        const { assets, liabilities, netWorth } = summarizeNetWorth(kinds, accounts, getValueInBase);
+        return { date, assets: roundCurrency(assets), liabilities: roundCurrency(liabilities), netWorth: roundCurrency(netWorth) };
+    }
+
+    /**
+     * 快照文件中的所有快照（按日期升序）
+     */
+    getSnapshots(): NetWorthSnapshot[] {
+        const file = this.app.vault.getAbstractFileByPath(this.getFilePath());
+        if (!(file instanceof TFile)) return [];
+        const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Partial<NetWorthSnapshotFrontmatter> | undefined;
+        if (fm?.type !== "net_worth" || !Array.isArray(fm.snapshots)) return [];
+
+        const snapshots: NetWorthSnapshot[] = [];
+        for (const entry of fm.snapshots as Partial<NetWorthSnapshotEntryFrontmatter>[]) {
+            if (!entry || typeof entry !== "object") continue;
+            const date = entry.date != null ? String(entry.date) : "";
+            const assets = Number(entry.assets);
+            const liabilities = Number(entry.liabilities);
+            if (!DATE_REGEX.test(date) || !Number.isFinite(assets) || !Number.isFinite(liabilities)) continue;
+            const netWorth = Number(entry.net_worth);
+            snapshots.push({
+                date,
+                assets,
+                liabilities,
+                netWorth: Number.isFinite(netWorth) ? netWorth : roundCurrency(assets - liabilities),
+                recordedAt: entry.recorded_at != null ? String(entry.recorded_at) : "",
+            });
+        }
+        return snapshots.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * 记录一个快照，同一日期已有快照时覆盖；快照文件不存在时新建
+     */
+    async saveSnapshot(point: NetWorthPoint, currency: string): Promise<void> {
+        const file = await this.getOrCreateFile(currency);
+        const now = new Date();
+        const entry: NetWorthSnapshotEntryFrontmatter = {
+            date: point.date,
+            assets: point.assets,
+            liabilities: point.liabilities,
+            net_worth: point.netWorth,
+            recorded_at: `${getLocalDateString(now)} ${getLocalTimeString(now)}`,
+        };
+        await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+            const existing = Array.isArray(fm.snapshots) ? fm.snapshots as NetWorthSnapshotEntryFrontmatter[] : [];
+            fm.type = "net_worth";
+            fm.currency = currency;
+            fm.snapshots = [...existing.filter(e => String(e?.date) !== point.date), entry]
+                .sort((a, b) => String(a.date).localeCompare(String(b.date)));
+        });
+    }
+
+    /**
+     * 为上一个已结束的月份（月末）补记快照，已有该日期的快照时跳过
+     * @returns 是否写入了新快照
+     */
+    async recordMonthEndSnapshot(kinds: AccountKindDefinition[], currency: string): Promise<boolean> {
+        const now = new Date();
+        const monthEnd = getLocalDateString(new Date(now.getFullYear(), now.getMonth(), 0));
+        if (this.getSnapshots().some(s => s.date === monthEnd)) return false;
+        await this.saveSnapshot(this.getNetWorthAt(kinds, monthEnd), currency);
+        return true;
+    }
+
+    private getFilePath(): string {
+        return normalizePath(this.snapshotPath.endsWith(".md") ? this.snapshotPath : `${this.snapshotPath}.md`);
+    }
+
+    private async getOrCreateFile(currency: string): Promise<TFile> {
+        const path = this.getFilePath();
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) return existing;
+
+        const folder = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        return this.app.vault.create(path, `---\ntype: net_worth\ncurrency: ${currency}\nsnapshots: []\n---\n`);
+    }
+}
+
+/**
+ * start 与 end 之间（含）的每个月末或周日，最后补上 end 本身
+ */
+function getPeriodEnds(start: string, end: string, interval: NetWorthInterval): string[] {
+    const [y, m, d] = start.split("-").map(Number) as [number, number, number];
+    const dates: string[] = [];
+    let cursor = interval === "month"
+        ? new Date(y, m, 0)
+        : new Date(y, m - 1, d + (7 - new Date(y, m - 1, d).getDay()) % 7);
+    while (getLocalDateString(cursor) < end) {
+        dates.push(getLocalDateString(cursor));
+        cursor = interval === "month"
+            ? new Date(cursor.getFullYear(), cursor.getMonth() + 2, 0)
+            : new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 7);
+    }
+    dates.push(end);
+    return dates;
+}
@@ -0,0 +1,160 @@
+import { App, TFile, CachedMetadata } from "obsidian";
+import { PayeeFrontmatter } from "../types";
+import { TransactionInfo } from "./transactionService";
+import { getMarkdownFilesInFolder } from "../utils/fileUtils";
+
+/**
+ * 商家信息
+ */
+export interface PayeeInfo {
+    /** 文件路径 */
+    path: string;
+    /** 文件名（不含扩展名） */
+    fileName: string;
+    /** 规范名称 */
+    name: string;
+    aliases: string[];
+    /** 默认分类 */
+    category: string;
+    /** 默认账户（文件名） */
+    account: string;
+    /** 标志图片引用（[[link]] 或路径） */
+    logo: string;
+    note: string;
+}
+
+/**
+ * 商家目录服务 - 扫描商家文件，把交易中写法不同的商家名归并到规范名称
+ */
+export class PayeeService {
+    private app: App;
+    private payeeCache: PayeeInfo[] = [];
+    /** 小写的名称 / 文件名 / 别名 → 商家 */
+    private index = new Map<string, PayeeInfo>();
+    private payeesPath: string;
+
+    constructor(app: App, payeesPath: string) {
+        this.app = app;
+        this.payeesPath = payeesPath;
+    }
+
+    /**
+     * 更新商家目录路径
+     */
+    setPayeesPath(path: string): void {
+        this.payeesPath = path;
+    }
+
+    /**
+     * 扫描商家目录下的所有商家文件并更新缓存
+     */
+    async scanPayees(): Promise<PayeeInfo[]> {
+        this.payeeCache = [];
+        for (const file of getMarkdownFilesInFolder(this.app, this.payeesPath)) {
+            const payee = this.parsePayeeFile(file);
+            if (payee) this.payeeCache.push(payee);
+        }
+        this.rebuildIndex();
+        return this.payeeCache;
+    }
+
+    /**
+     * 解析单个文件，判断是否为商家文件
+     */
+    private parsePayeeFile(file: TFile): PayeeInfo | null {
+        const cache: CachedMetadata | null = this.app.metadataCache.getFileCache(file);
+        if (!cache?.frontmatter) {
+            return null;
+        }
+
+        const fm = cache.frontmatter as Partial<PayeeFrontmatter>;
+        if (fm.type !== "payee") {
+            return null;
+        }
+
+        const str = (value: unknown) => typeof value === "string" ? value.trim() : "";
+        const aliases = (Array.isArray(fm.aliases) ? fm.aliases : typeof fm.aliases === "string" ? [fm.aliases] : [])
+            .map(alias => String(alias).trim())
+            .filter(Boolean);
+
+        return {
+            path: file.path,
+            fileName: file.basename,
+            name: str(fm.name) || file.basename,
+            aliases,
+            category: str(fm.category),
+            account: str(fm.account).replace(/\[\[|\]\]/g, ""),
+            logo: str(fm.logo),
+            note: str(fm.note),
+        };
+    }
+
+    /**
+     * 获取所有商家（按名称排序）
+     */
+    getPayees(): PayeeInfo[] {
+        return this.payeeCache;
+    }
+
+    /**
+     * 刷新单个商家文件的缓存
+     */
+    async refreshPayee(file: TFile): Promise<void> {
+        const payee = this.parsePayeeFile(file);
+        this.payeeCache = this.payeeCache.filter(p => p.path !== file.path);
+        if (payee) this.payeeCache.push(payee);
+        this.rebuildIndex();
+    }
+
+    /**
+     * 移除单个商家文件的缓存
+     */
+    removePayee(path: string): void {
+        this.payeeCache = this.payeeCache.filter(p => p.path !== path);
+        this.rebuildIndex();
+    }
+
+    /**
+     * 按名称、文件名或别名查找商家（不区分大小写）
+     */
+    findPayee(name: string): PayeeInfo | undefined {
+        const key = name.trim().toLowerCase();
+        return key ? this.index.get(key) : undefined;
+    }
+
+    /**
+     * 商家的规范名称，不在目录中时原样返回（去掉两侧空白）
+     */
+    getCanonicalName(name: string): string {
+        return this.findPayee(name)?.name ?? name.trim();
+    }
+
+    /**
+     * 将交易的商家替换为规范名称（仅用于统计汇总）
+     * 返回浅拷贝，不要把结果传给编辑弹窗，否则会把规范名称写回文件
+     */
+    canonicalizeTransactions(transactions: TransactionInfo[]): TransactionInfo[] {
+        if (this.index.size === 0) return transactions;
+        return transactions.map(txn => {
+            const payee = this.findPayee(txn.payee);
+            return payee && payee.name !== txn.payee ? { ...txn, payee: payee.name } : txn;
+        });
+    }
+
+    private rebuildIndex(): void {
+        this.payeeCache.sort((a, b) => a.name.localeCompare(b.name, "zh-Hans-CN"));
+        this.index.clear();
+        // 先登记名称再登记别名，别名不会覆盖其他商家的名称
+        const add = (key: string, payee: PayeeInfo) => {
+            const lower = key.toLowerCase();
+            if (!this.index.has(lower)) this.index.set(lower, payee);
+        };
+        for (const payee of this.payeeCache) {
+            add(payee.name, payee);
+            add(payee.fileName, payee);
+        }
+        for (const payee of this.payeeCache) {
+            for (const alias of payee.aliases) add(alias, payee);
+        }
+    }
+}
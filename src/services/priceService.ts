@@ -0,0 +1,250 @@
+import { App, TFile, CachedMetadata, normalizePath } from "obsidian";
+import { PriceEntryFrontmatter, PriceFrontmatter } from "../types";
+import { getMarkdownFilesInFolder } from "../utils/fileUtils";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 单只证券的价格历史
+ */
+export interface SecurityPriceInfo {
+    /** 文件路径 */
+    path: string;
+    /** 证券代码 */
+    security: string;
+    name: string;
+    /** 报价货币，为空时按持仓账户货币处理 */
+    currency: string;
+    /** 按日期升序 */
+    prices: { date: string; price: number }[];
+}
+
+/**
+ * 某一日期适用的价格
+ */
+export interface PriceQuote {
+    date: string;
+    price: number;
+    currency: string;
+}
+
+/**
+ * CSV 导入结果
+ */
+export interface PriceImportResult {
+    imported: number;
+    skipped: number;
+    securities: number;
+}
+
+/**
+ * 证券价格服务 - 负责扫描价格文件、查询某日价格以及手动录入 / CSV 导入价格
+ *
+ * 每只证券一个文件（type: price），价格按日期记录；查询某天的价格时
+ * 使用当天或之前最近一次的价格。
+ */
+export class PriceService {
+    private app: App;
+    private priceCache: Map<string, SecurityPriceInfo> = new Map();
+    private pricesPath: string;
+
+    constructor(app: App, pricesPath: string) {
+        this.app = app;
+        this.pricesPath = pricesPath;
+    }
+
+    /**
+     * 更新价格目录路径
+     */
+    setPricesPath(path: string): void {
+        this.pricesPath = path;
+    }
+
+    /**
+     * 扫描价格目录下的所有价格文件并更新缓存
+     */
+    async scanPrices(): Promise<SecurityPriceInfo[]> {
+        this.priceCache.clear();
+        for (const file of getMarkdownFilesInFolder(this.app, this.pricesPath)) {
+            const info = this.parsePriceFile(file);
+            if (info) this.priceCache.set(info.security, info);
+        }
+        return this.getSecurities();
+    }
+
+    /**
+     * 解析单个文件，判断是否为价格文件
+     */
+    private parsePriceFile(file: TFile): SecurityPriceInfo | null {
+        const cache: CachedMetadata | null = this.app.metadataCache.getFileCache(file);
+        if (!cache?.frontmatter) {
+            return null;
+        }
+
+        const fm = cache.frontmatter as Partial<PriceFrontmatter>;
+        if (fm.type !== "price") {
+            return null;
+        }
+
+        const security = fm.security != null ? String(fm.security).trim() : "";
+        if (!security) {
+            return null;
+        }
+
+        const prices: SecurityPriceInfo["prices"] = [];
+        if (Array.isArray(fm.prices)) {
+            for (const entry of fm.prices as Partial<PriceEntryFrontmatter>[]) {
+                if (!entry || typeof entry !== "object") continue;
+                const date = entry.date != null ? String(entry.date) : "";
+                const price = Number(entry.price);
+                if (DATE_REGEX.test(date) && Number.isFinite(price) && price > 0) {
+                    prices.push({ date, price });
+                }
+            }
+        }
+        prices.sort((a, b) => a.date.localeCompare(b.date));
+
+        return {
+            path: file.path,
+            security,
+            name: typeof fm.name === "string" ? fm.name : "",
+            currency: typeof fm.currency === "string" ? fm.currency.trim().toUpperCase() : "",
+            prices,
+        };
+    }
+
+    /**
+     * 获取所有有价格文件的证券（按代码排序）
+     */
+    getSecurities(): SecurityPriceInfo[] {
+        return Array.from(this.priceCache.values()).sort((a, b) => a.security.localeCompare(b.security));
+    }
+
+    /**
+     * 获取单只证券的价格历史
+     */
+    getSecurity(security: string): SecurityPriceInfo | null {
+        return this.priceCache.get(security) ?? null;
+    }
+
+    /**
+     * 刷新单个价格文件的缓存
+     */
+    async refreshPrice(file: TFile): Promise<void> {
+        this.removePrice(file.path);
+        const info = this.parsePriceFile(file);
+        if (info) this.priceCache.set(info.security, info);
+    }
+
+    /**
+     * 移除单个价格文件的缓存
+     */
+    removePrice(path: string): void {
+        for (const [security, info] of this.priceCache) {
+            if (info.path === path) this.priceCache.delete(security);
+        }
+    }
+
+    /**
+     * 指定日期当天或之前最近一次的价格，没有记录时返回 null
+     */
+    getPrice(security: string, date: string): PriceQuote | null {
+        const info = this.priceCache.get(security);
+        if (!info) return null;
+        let found: { date: string; price: number } | null = null;
+        for (const entry of info.prices) {
+            if (entry.date > date) break;
+            found = entry;
+        }
+        return found ? { date: found.date, price: found.price, currency: info.currency } : null;
+    }
+
+    /**
+     * 记录一条价格，同一天已有价格时覆盖；证券没有价格文件时新建
+     */
+    async savePrice(security: string, date: string, price: number, meta: { name?: string; currency?: string } = {}): Promise<void> {
+        await this.savePrices(security, [{ date, price }], meta);
+    }
+
+    /**
+     * 从 CSV 导入价格
+     * 每行为「代码,日期,价格」，首行为表头时自动跳过；也支持表头中包含
+     * code/security/代码、date/日期、price/close/价格/净值 等列名的任意列顺序。
+     */
+    async importCsv(text: string): Promise<PriceImportResult> {
+        const rows = text.split(/\r?\n/).map(line => line.split(/[,\t]/).map(cell => cell.trim().replace(/^"|"$/g, "")));
+        let columns = { security: 0, date: 1, price: 2 };
+        const header = rows[0]?.map(cell => cell.toLowerCase());
+        if (header && !header.some(cell => DATE_REGEX.test(cell))) {
+            const find = (names: string[]) => header.findIndex(cell => names.includes(cell));
+            columns = {
+                security: find(["code", "security", "symbol", "代码", "证券代码"]),
+                date: find(["date", "日期"]),
+                price: find(["price", "close", "nav", "价格", "收盘价", "净值", "单位净值"]),
+            };
+            if (columns.security < 0 || columns.date < 0 || columns.price < 0) {
+                throw new Error("无法识别 CSV 表头，需要包含代码、日期、价格三列");
+            }
+            rows.shift();
+        }
+
+        const bySecurity = new Map<string, PriceEntryFrontmatter[]>();
+        let skipped = 0;
+        for (const row of rows) {
+            if (row.every(cell => !cell)) continue;
+            const security = row[columns.security] ?? "";
+            const date = (row[columns.date] ?? "").replace(/\//g, "-");
+            const price = Number(row[columns.price]);
+            if (!security || !DATE_REGEX.test(date) || !Number.isFinite(price) || price <= 0) {
+                skipped++;
+                continue;
+            }
+            bySecurity.set(security, [...(bySecurity.get(security) ?? []), { date, price }]);
+        }
+
+        let imported = 0;
+        for (const [security, entries] of bySecurity) {
+            await this.savePrices(security, entries);
+            imported += entries.length;
+        }
+        return { imported, skipped, securities: bySecurity.size };
+    }
+
+    private async savePrices(security: string, entries: PriceEntryFrontmatter[], meta: { name?: string; currency?: string } = {}): Promise<void> {
+        const file = await this.getOrCreateFile(security);
+        await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+            const byDate = new Map<string, number>();
+            if (Array.isArray(fm.prices)) {
+                for (const entry of fm.prices as Partial<PriceEntryFrontmatter>[]) {
+                    if (entry?.date != null && entry.price != null) byDate.set(String(entry.date), Number(entry.price));
+                }
+            }
+            for (const entry of entries) byDate.set(entry.date, entry.price);
+
+            fm.type = "price";
+            fm.security = security;
+            if (meta.name) fm.name = meta.name;
+            if (meta.currency) fm.currency = meta.currency.toUpperCase();
+            fm.prices = Array.from(byDate.entries())
+                .sort((a, b) => a[0].localeCompare(b[0]))
+                .map(([date, price]) => ({ date, price }));
+        });
+        await this.refreshPrice(file);
+    }
+
+    private async getOrCreateFile(security: string): Promise<TFile> {
+        const existing = this.priceCache.get(security);
+        const existingFile = existing ? this.app.vault.getAbstractFileByPath(existing.path) : null;
+        if (existingFile instanceof TFile) return existingFile;
+
+        if (!this.app.vault.getAbstractFileByPath(this.pricesPath)) {
+            await this.app.vault.createFolder(this.pricesPath);
+        }
+        const baseName = security.replace(/[\\/:*?"<>|#^[\]]/g, "-");
+        let filePath = normalizePath(`${this.pricesPath}/${baseName}.md`);
+        for (let i = 2; this.app.vault.getAbstractFileByPath(filePath); i++) {
+            filePath = normalizePath(`${this.pricesPath}/${baseName} ${i}.md`);
+        }
+        return this.app.vault.create(filePath, `---\ntype: price\nsecurity: "${security}"\nprices: []\n---\n`);
+    }
+}
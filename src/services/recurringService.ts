@@ -0,0 +1,368 @@
+import { App, TFile, CachedMetadata, normalizePath } from "obsidian";
+import { RecurringFrontmatter, RecurrenceRule, TransactionFrontmatter } from "../types";
+import { TransactionService } from "./transactionService";
+import { getMarkdownFilesInFolder } from "../utils/fileUtils";
+import { getLocalDateString } from "../utils/format";
+
+/** YYYY-MM-DD 格式日期正则 */
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** 单个模板单次最多补生成的笔数，防止开始日期设置错误时批量创建大量文件 */
+const MAX_CATCH_UP = 366;
+
+/**
+ * 周期交易模板信息
+ */
+export interface RecurringInfo {
+    /** 文件路径 */
+    path: string;
+    /** 文件名（不含扩展名） */
+    fileName: string;
+    /** 显示名称 */
+    name: string;
+    rule: RecurrenceRule;
+    /** 间隔月数（仅 every_n_months） */
+    interval: number;
+    /** 每月第几天（monthly / every_n_months） */
+    day: number;
+    startDate: string;
+    endDate: string;
+    paused: boolean;
+    lastGenerated: string;
+    skipDates: string[];
+    txnType: TransactionFrontmatter["txn_type"];
+    category: string;
+    amount: number;
+    currency: string;
+    from: string;
+    to: string;
+    payee: string;
+    memo: string;
+    persons: string[];
+}
+
+/**
+ * 周期交易服务 - 负责扫描周期模板并按规则生成到期的交易
+ */
+export class RecurringService {
+    private app: App;
+    private templateCache: RecurringInfo[] = [];
+    private recurringPath: string;
+    private transactionService: TransactionService;
+
+    constructor(app: App, recurringPath: string, transactionService: TransactionService) {
+        this.app = app;
+        this.recurringPath = recurringPath;
+        this.transactionService = transactionService;
+    }
+
+    /**
+     * 更新模板目录路径
+     */
+    setRecurringPath(path: string): void {
+        this.recurringPath = path;
+    }
+
+    /**
+     * 获取模板目录路径
+     */
+    getRecurringPath(): string {
+        return this.recurringPath;
+    }
+
+    /**
+     * 扫描模板目录下的所有周期模板并更新缓存
+     */
+    async scanTemplates(): Promise<RecurringInfo[]> {
+        const templates: RecurringInfo[] = [];
+        const files = getMarkdownFilesInFolder(this.app, this.recurringPath);
+
+        for (const file of files) {
+            const template = this.parseTemplateFile(file);
+            if (template) {
+                templates.push(template);
+            }
+        }
+
+        this.templateCache = templates;
+        this.sortCache();
+        return templates;
+    }
+
+    /**
+     * 解析单个文件，判断是否为周期模板
+     */
+    private parseTemplateFile(file: TFile): RecurringInfo | null {
+        const cache: CachedMetadata | null = this.app.metadataCache.getFileCache(file);
+        if (!cache?.frontmatter) {
+            return null;
+        }
+
+        const fm = cache.frontmatter as Partial<RecurringFrontmatter>;
+        if (fm.type !== "recurring") {
+            return null;
+        }
+
+        const str = (v: unknown): string => (typeof v === "string" || typeof v === "number") ? String(v) : "";
+        const startDate = str(fm.start_date);
+        if (!DATE_REGEX.test(startDate)) {
+            return null;
+        }
+
+        const rules: RecurrenceRule[] = ["daily", "weekly", "monthly", "yearly", "every_n_months"];
+        const rule = rules.includes(fm.rule as RecurrenceRule) ? fm.rule as RecurrenceRule : "monthly";
+        const day = Number(fm.day);
+        const interval = Number(fm.interval);
+        const endDate = str(fm.end_date);
+        const lastGenerated = str(fm.last_generated);
+
+        return {
+            path: file.path,
+            fileName: file.basename,
+            name: str(fm.name) || file.basename,
+            rule,
+            interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+            day: Number.isInteger(day) && day >= 1 && day <= 31 ? day : parseInt(startDate.slice(8, 10), 10),
+            startDate,
+            endDate: DATE_REGEX.test(endDate) ? endDate : "",
+            paused: fm.paused === true,
+            lastGenerated: DATE_REGEX.test(lastGenerated) ? lastGenerated : "",
+            skipDates: Array.isArray(fm.skip_dates) ? fm.skip_dates.map(d => str(d)).filter(d => DATE_REGEX.test(d)) : [],
+            txnType: (typeof fm.txn_type === "string" && fm.txn_type) ? fm.txn_type : "支出",
+            category: str(fm.category),
+            amount: typeof fm.amount === "number" ? fm.amount : (Number(fm.amount) || 0),
+            currency: str(fm.currency),
+            from: str(fm.from),
+            to: str(fm.to),
+            payee: str(fm.payee),
+            memo: str(fm.memo),
+            persons: Array.isArray(fm.persons) ? fm.persons.map(p => str(p)) : [],
+        };
+    }
+
+    /**
+     * 获取所有周期模板（按名称排序）
+     */
+    getTemplates(): RecurringInfo[] {
+        return this.templateCache;
+    }
+
+    /**
+     * 刷新单个模板文件的缓存
+     */
+    async refreshTemplate(file: TFile): Promise<void> {
+        const template = this.parseTemplateFile(file);
+        this.templateCache = this.templateCache.filter(t => t.path !== file.path);
+        if (template) {
+            this.templateCache.push(template);
+        }
+        this.sortCache();
+    }
+
+    /**
+     * 移除单个模板文件的缓存
+     */
+    removeTemplate(path: string): void {
+        this.templateCache = this.templateCache.filter(t => t.path !== path);
+    }
+
+    /**
+     * 计算 (after, until] 区间内模板的所有发生日期（不排除跳过日期）
+     * @param after 不含该日期，留空表示从开始日期算起
+     * @param until 包含该日期
+     */
+    getOccurrences(template: RecurringInfo, after: string, until: string): string[] {
+        const result: string[] = [];
+        const last = template.endDate && template.endDate < until ? template.endDate : until;
+
+        for (let i = 0; ; i++) {
+            const date = this.getNthOccurrence(template, i);
+            if (date > last) break;
+            if (date >= template.startDate && (!after || date > after)) {
+                result.push(date);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 获取下一次将要生成的日期（排除已跳过的日期）
+     * @returns 模板已结束时返回 null
+     */
+    getNextOccurrence(template: RecurringInfo): string | null {
+        const after = template.lastGenerated;
+        for (let i = 0; ; i++) {
+            const date = this.getNthOccurrence(template, i);
+            if (template.endDate && date > template.endDate) return null;
+            if (date < template.startDate || (after && date <= after)) continue;
+            if (template.skipDates.includes(date)) continue;
+            return date;
+        }
+    }
+
+    /**
+     * 生成所有模板截至指定日期的到期交易（包括 Obsidian 关闭期间错过的）
+     * @returns 新生成的交易数量
+     */
+    async generateDueTransactions(today: string = getLocalDateString()): Promise<number> {
+        let created = 0;
+
+        for (const template of this.templateCache) {
+            if (template.paused) continue;
+
+            const due = this.getOccurrences(template, template.lastGenerated, today);
+            if (due.length === 0) continue;
+
+            // 已存在的生成记录（防止 last_generated 未写回时重复生成），作废的记录也算已生成
+            const existing = new Set(
+                this.transactionService.getAllTransactions()
+                    .filter(t => t.recurring === template.fileName)
+                    .map(t => t.date)
+            );
+
+            const dates = due.filter(d => !template.skipDates.includes(d) && !existing.has(d));
+            if (dates.length > MAX_CATCH_UP) {
+                console.warn(`[Cost Plugin] 周期模板 ${template.name} 待生成 ${dates.length} 笔，仅生成最近 ${MAX_CATCH_UP} 笔`);
+            }
+
+            for (const date of dates.slice(-MAX_CATCH_UP)) {
+                await this.createTransactionFromTemplate(template, date);
+                created++;
+            }
+
+            // 写回生成进度，并清理已经过去的跳过日期
+            const lastDate = due[due.length - 1] ?? template.lastGenerated;
+            const file = this.app.vault.getAbstractFileByPath(template.path);
+            if (file instanceof TFile) {
+                await this.app.fileManager.processFrontMatter(file, (fm: Partial<RecurringFrontmatter>) => {
+                    fm.last_generated = lastDate;
+                    fm.skip_dates = template.skipDates.filter(d => d > lastDate);
+                });
+            }
+            template.lastGenerated = lastDate;
+            template.skipDates = template.skipDates.filter(d => d > lastDate);
+        }
+
+        return created;
+    }
+
+    /**
+     * 按模板在指定日期创建一笔交易，并链接回模板
+     */
+    async createTransactionFromTemplate(template: RecurringInfo, date: string): Promise<TFile> {
+        const file = await this.transactionService.createTransaction(date);
+        await this.transactionService.updateTransaction(file, {
+            date,
+            time: "00:00:00",
+            txn_type: template.txnType,
+            category: template.category,
+            amount: template.amount,
+            currency: template.currency || undefined,
+            from: template.from,
+            to: template.to,
+            payee: template.payee,
+            memo: template.memo,
+            persons: template.persons,
+            recurring: `[[${template.fileName}]]`,
+        });
+        return file;
+    }
+
+    /**
+     * 暂停 / 恢复模板
+     * 恢复时把生成进度推到今天，暂停期间的发生日期不再补生成
+     */
+    async setPaused(template: RecurringInfo, paused: boolean, today: string = getLocalDateString()): Promise<void> {
+        if (paused) {
+            await this.updateTemplate(template.path, { paused });
+            return;
+        }
+        const lastGenerated = template.lastGenerated > today ? template.lastGenerated : today;
+        await this.updateTemplate(template.path, { paused, last_generated: lastGenerated });
+        template.lastGenerated = lastGenerated;
+    }
+
+    /**
+     * 跳过下一次发生
+     * @returns 被跳过的日期，模板已结束时返回 null
+     */
+    async skipNext(template: RecurringInfo): Promise<string | null> {
+        const next = this.getNextOccurrence(template);
+        if (!next) return null;
+        await this.updateTemplate(template.path, { skip_dates: [...template.skipDates, next].sort() });
+        return next;
+    }
+
+    /**
+     * 写入模板字段；path 为空时在模板目录下新建文件
+     * @returns 模板文件
+     */
+    async saveTemplate(path: string | null, data: Partial<RecurringFrontmatter>): Promise<TFile> {
+        if (path) {
+            await this.updateTemplate(path, data);
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) return file;
+            throw new Error("模板文件不存在: " + path);
+        }
+
+        if (!this.app.vault.getAbstractFileByPath(this.recurringPath)) {
+            await this.app.vault.createFolder(this.recurringPath);
+        }
+
+        const baseName = (data.name || "周期交易").replace(/[\\/:*?"<>|#^[\]]/g, "-");
+        let filePath = normalizePath(`${this.recurringPath}/${baseName}.md`);
+        for (let i = 2; this.app.vault.getAbstractFileByPath(filePath); i++) {
+            filePath = normalizePath(`${this.recurringPath}/${baseName} ${i}.md`);
+        }
+
+        const file = await this.app.vault.create(filePath, "---\ntype: recurring\n---\n");
+        await this.updateTemplate(file.path, data);
+        return file;
+    }
+
+    private async updateTemplate(path: string, data: Partial<RecurringFrontmatter>): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            throw new Error("模板文件不存在: " + path);
+        }
+        await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+            for (const [key, value] of Object.entries(data)) {
+                if (value === undefined) continue;
+                fm[key] = value;
+            }
+        });
+    }
+
+    /**
+     * 第 i 次（从 0 开始）发生的日期，按开始日期推算
+     */
+    private getNthOccurrence(template: RecurringInfo, i: number): string {
+        const [y, m, d] = template.startDate.split("-").map(Number) as [number, number, number];
+
+        switch (template.rule) {
+            case "daily":
+                return getLocalDateString(new Date(y, m - 1, d + i));
+            case "weekly":
+                return getLocalDateString(new Date(y, m - 1, d + i * 7));
+            case "yearly":
+                return this.clampDate(y + i, m - 1, d);
+            case "every_n_months":
+                return this.clampDate(y, m - 1 + i * template.interval, template.day);
+            case "monthly":
+            default:
+                return this.clampDate(y, m - 1 + i, template.day);
+        }
+    }
+
+    /**
+     * 生成指定年月第 day 天的日期，超出当月天数时取月末（如 2 月 30 日 -> 2 月 28/29 日）
+     */
+    private clampDate(year: number, monthIndex: number, day: number): string {
+        const lastDay = new Date(year, monthIndex + 1, 0).getDate();
+        return getLocalDateString(new Date(year, monthIndex, Math.min(day, lastDay)));
+    }
+
+    private sortCache(): void {
+        this.templateCache.sort((a, b) => a.name.localeCompare(b.name, "zh-Hans-CN"));
+    }
+}
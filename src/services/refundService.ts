@@ -0,0 +1,61 @@
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { getRefundedAmount, groupRefundsByOriginal } from "../utils/refundUtils";
+
+/**
+ * 退款服务 - 查询支出关联的退款交易，并把旧格式的 refund 字段迁移为退款交易
+ *
+ * 一笔支出可以分多次退款，每次退款是一笔独立的「退款」交易，
+ * 通过 refund_of 指向原支出的 uid，按原支出的货币记录。
+ */
+export class RefundService {
+    private transactionService: TransactionService;
+
+    constructor(transactionService: TransactionService) {
+        this.transactionService = transactionService;
+    }
+
+    /**
+     * 支出关联的退款交易（按日期升序）
+     */
+    getRefunds(expense: TransactionInfo): TransactionInfo[] {
+        if (!expense.uid) return [];
+        return groupRefundsByOriginal(this.transactionService.getTransactions()).get(expense.uid) ?? [];
+    }
+
+    /**
+     * 还可以登记退款的支出（按日期倒序），已全额退款的支出不包括在内
+     */
+    getRefundableExpenses(): TransactionInfo[] {
+        const txns = this.transactionService.getTransactions();
+        const refunds = groupRefundsByOriginal(txns);
+        return txns.filter(t => t.txnType === "支出" && t.uid && getRefundedAmount(t, refunds) < t.amount);
+    }
+
+    /**
+     * 把支出上旧格式的 refund / refund_to 字段转换为关联的退款交易
+     * 旧数据没有退款日期，生成的退款交易沿用原支出的日期；原支出缺少 uid 时先补上。
+     * @returns 迁移的支出数量
+     */
+    async migrateLegacyRefunds(): Promise<number> {
+        const legacy = this.transactionService.getTransactions().filter(t => t.txnType === "支出" && t.refund > 0);
+        for (const txn of legacy) {
+            const uid = txn.uid || this.transactionService.generateUid();
+            const refundFile = await this.transactionService.createTransaction(txn.date);
+            await this.transactionService.updateTransaction(refundFile, {
+                date: txn.date,
+                time: txn.time,
+                txn_type: "退款",
+                category: txn.category,
+                amount: txn.refund,
+                currency: txn.currency,
+                from: "",
+                to: txn.refundTo || txn.from,
+                payee: txn.payee,
+                memo: `退款 ${txn.payee || txn.category}`,
+                refund_of: uid,
+            });
+            await this.transactionService.clearLegacyRefund(txn, uid);
+        }
+        return legacy.length;
+    }
+}
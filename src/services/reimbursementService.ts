@@ -0,0 +1,109 @@
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { ReimbursementStatus } from "../types";
+import { getLocalDateString, netAmount, roundCurrency } from "../utils/format";
+import { getRefundedAmount, groupRefundsByOriginal } from "../utils/refundUtils";
+
+/**
+ * 一笔可报销支出及其到账情况
+ * 金额均以支出交易本身的货币计
+ */
+export interface ReimbursementSummary {
+    expense: TransactionInfo;
+    /** 实际状态：到账金额达到支出金额时为已报销 */
+    status: ReimbursementStatus;
+    /** 应报销金额（扣除退款） */
+    amount: number;
+    /** 已到账 */
+    received: number;
+    /** 待报销；已报销时为 0 */
+    outstanding: number;
+    /** 报销到账的收入交易（按日期升序） */
+    payments: TransactionInfo[];
+    /** 距支出日期的天数 */
+    ageDays: number;
+}
+
+/**
+ * 报销服务 - 汇总可报销支出与通过 reimburses 字段关联的报销到账
+ *
+ * 一笔支出可以分多次到账，到账合计达到支出金额时自动视为已报销；
+ * 手动标记为已报销时剩余金额不再计入待报销。
+ */
+export class ReimbursementService {
+    private transactionService: TransactionService;
+    private exchangeRateService: ExchangeRateService;
+
+    constructor(transactionService: TransactionService, exchangeRateService: ExchangeRateService) {
+        this.transactionService = transactionService;
+        this.exchangeRateService = exchangeRateService;
+    }
+
+    /**
+     * 所有可报销支出（按日期倒序）
+     */
+    getReimbursements(today: string = getLocalDateString()): ReimbursementSummary[] {
+        const txns = this.transactionService.getTransactions();
+        const payments = new Map<string, TransactionInfo[]>();
+        for (const txn of txns) {
+            if (txn.txnType !== "收入" || !txn.reimburses) continue;
+            payments.set(txn.reimburses, [...(payments.get(txn.reimburses) ?? []), txn]);
+        }
+
+        const refunds = groupRefundsByOriginal(txns);
+
+        const result: ReimbursementSummary[] = [];
+        for (const expense of txns) {
+            if (expense.txnType !== "支出" || !expense.reimbursement) continue;
+            const linked = (expense.uid ? payments.get(expense.uid) ?? [] : [])
+                .sort((a, b) => a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || ""));
+            const amount = netAmount(expense.amount, getRefundedAmount(expense, refunds));
+            const received = roundCurrency(linked.reduce((sum, t) => sum + this.toExpenseCurrency(t, expense), 0));
+            const status: ReimbursementStatus = received >= amount ? "reimbursed" : expense.reimbursement.status;
+            result.push({
+                expense,
+                status,
+                amount,
+                received,
+                outstanding: status === "reimbursed" ? 0 : roundCurrency(Math.max(0, amount - received)),
+                payments: linked,
+                ageDays: diffDays(expense.date, today),
+            });
+        }
+        return result;
+    }
+
+    /**
+     * 尚未报销完的支出（按日期升序，最久的在前）
+     */
+    getOutstanding(): ReimbursementSummary[] {
+        return this.getReimbursements()
+            .filter(r => r.outstanding > 0)
+            .sort((a, b) => a.expense.date.localeCompare(b.expense.date));
+    }
+
+    /**
+     * 每笔可报销支出已到账的金额（支出路径 -> 金额，以支出的货币计）
+     */
+    getReceivedByPath(): Map<string, number> {
+        return new Map(this.getReimbursements().map(r => [r.expense.path, r.received]));
+    }
+
+    /**
+     * 换算为本位币
+     */
+    toBase(amount: number, txn: TransactionInfo): number {
+        return this.exchangeRateService.convert(amount, txn.currency, undefined, txn.date);
+    }
+
+    private toExpenseCurrency(payment: TransactionInfo, expense: TransactionInfo): number {
+        if (!payment.currency || payment.currency === expense.currency) return payment.amount;
+        return this.exchangeRateService.convert(payment.amount, payment.currency, expense.currency, payment.date);
+    }
+}
+
+function diffDays(from: string, to: string): number {
+    const [fy, fm, fd] = from.split("-").map(Number) as [number, number, number];
+    const [ty, tm, td] = to.split("-").map(Number) as [number, number, number];
+    return Math.max(0, Math.round((new Date(ty, tm - 1, td).getTime() - new Date(fy, fm - 1, fd).getTime()) / 86400000));
+}
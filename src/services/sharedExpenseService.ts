@@ -0,0 +1,127 @@
+import { TransactionInfo, TransactionService } from "./transactionService";
+import { ExchangeRateService } from "./exchangeRateService";
+import { netAmount, roundCurrency } from "../utils/format";
+import { computeShares, SettlementTransfer, simplifyDebts } from "../utils/shareUtils";
+import { getRefundedAmount, groupRefundsByOriginal } from "../utils/refundUtils";
+
+/**
+ * 一位参与人在所有分摊与结算中的往来（本位币）
+ */
+export interface PersonBalance {
+    person: string;
+    /** 替大家垫付的金额 */
+    paid: number;
+    /** 自己应摊的金额 */
+    share: number;
+    /** 结算时付给别人的金额 */
+    settledOut: number;
+    /** 结算时收到的金额 */
+    settledIn: number;
+    /** 净额：正数为别人欠他，负数为他欠别人 */
+    net: number;
+}
+
+/**
+ * 一笔分摊交易及各参与人的应摊金额（本位币）
+ */
+export interface SharedExpenseEntry {
+    txn: TransactionInfo;
+    amount: number;
+    paidBy: string;
+    shares: { person: string; amount: number }[];
+}
+
+/**
+ * 多人分摊服务 - 汇总所有 AA 交易与结算交易，计算参与人之间的净额
+ *
+ * 分摊交易中付款人垫付全额、各参与人承担各自份额；结算交易中付款人
+ * 向收款人支付金额。金额按交易日期汇率换算为本位币后再合并。
+ */
+export class SharedExpenseService {
+    private transactionService: TransactionService;
+    private exchangeRateService: ExchangeRateService;
+
+    constructor(transactionService: TransactionService, exchangeRateService: ExchangeRateService) {
+        this.transactionService = transactionService;
+        this.exchangeRateService = exchangeRateService;
+    }
+
+    /**
+     * 所有分摊交易（按日期倒序）
+     */
+    getSharedExpenses(): SharedExpenseEntry[] {
+        const txns = this.transactionService.getTransactions();
+        const refunds = groupRefundsByOriginal(txns);
+        const entries: SharedExpenseEntry[] = [];
+        for (const txn of txns) {
+            if (!txn.shared) continue;
+            const shares = computeShares(txn.shared, netAmount(txn.amount, getRefundedAmount(txn, refunds)))
+                .map(s => ({ person: s.person, amount: this.toBase(s.amount, txn) }));
+            entries.push({
+                txn,
+                // 指定金额的合计可能与交易金额不一致，付款人只垫付各份额之和
+                amount: roundCurrency(shares.reduce((sum, s) => sum + s.amount, 0)),
+                paidBy: txn.shared.paidBy,
+                shares,
+            });
+        }
+        return entries;
+    }
+
+    /**
+     * 所有 AA 结算交易（按日期倒序）
+     */
+    getSettlements(): TransactionInfo[] {
+        return this.transactionService.getTransactions().filter(t => t.settlement);
+    }
+
+    /**
+     * 每位参与人的净额，按净额从大到小排列
+     */
+    getBalances(): PersonBalance[] {
+        const balances = new Map<string, PersonBalance>();
+        const get = (person: string) => {
+            let balance = balances.get(person);
+            if (!balance) {
+                balance = { person, paid: 0, share: 0, settledOut: 0, settledIn: 0, net: 0 };
+                balances.set(person, balance);
+            }
+            return balance;
+        };
+
+        for (const entry of this.getSharedExpenses()) {
+            get(entry.paidBy).paid += entry.amount;
+            for (const share of entry.shares) get(share.person).share += share.amount;
+        }
+        for (const txn of this.getSettlements()) {
+            if (!txn.settlement) continue;
+            const amount = this.toBase(txn.amount, txn);
+            get(txn.settlement.from).settledOut += amount;
+            get(txn.settlement.to).settledIn += amount;
+        }
+
+        const result = Array.from(balances.values()).map(b => ({
+            person: b.person,
+            paid: roundCurrency(b.paid),
+            share: roundCurrency(b.share),
+            settledOut: roundCurrency(b.settledOut),
+            settledIn: roundCurrency(b.settledIn),
+            net: roundCurrency(b.paid - b.share + b.settledOut - b.settledIn),
+        }));
+        return result.sort((a, b) => b.net - a.net || a.person.localeCompare(b.person, "zh-Hans-CN"));
+    }
+
+    /**
+     * 结清所有净额所需的转账
+     */
+    getSettlementPlan(): SettlementTransfer[] {
+        return simplifyDebts(new Map(this.getBalances().map(b => [b.person, b.net])));
+    }
+
+    /**
+     * 换算为本位币（按交易日期汇率）
+     */
+    toBase(amount: number, txn: TransactionInfo): number {
+        return this.exchangeRateService.convert(amount, txn.currency, undefined, txn.date);
+    }
+}
@@ -1,7 +1,27 @@
 import { App, TFile, CachedMetadata, normalizePath } from "obsidian";
-import { AccountInfo, TransactionFrontmatter } from "../types";
+import { AccountInfo, AmortizationFrontmatter, AmortizationMethod, BalanceAssertion, InstallmentFrontmatter, InvestAction, ReimbursementFrontmatter, ReimbursementStatus, SettlementFrontmatter, SharedExpenseFrontmatter, ShareMethod, TransactionFrontmatter, TransactionSplitFrontmatter, TxnStatus } from "../types";
 import { getMarkdownFilesInFolder } from "../utils/fileUtils";
-import { roundCurrency, getLocalDateString, getLocalTimeString } from "../utils/format";
+import { ExchangeRateService } from "./exchangeRateService";
+import { roundCurrency, getLocalDateString, getLocalTimeString, addMonths } from "../utils/format";
+import { SELF_PERSON } from "../utils/shareUtils";
+import { parseTxnStatus } from "../utils/statusUtils";
+
+/** 可识别的投资动作 */
+const INVEST_ACTIONS: InvestAction[] = ["buy", "sell", "dividend", "fee"];
+
+/** 可识别的分摊方式 */
+const SHARE_METHODS: ShareMethod[] = ["equal", "ratio", "exact"];
+
+/** 可识别的报销状态 */
+const REIMBURSEMENT_STATUSES: ReimbursementStatus[] = ["pending", "submitted", "reimbursed"];
+
+/** 以 uid 引用其他交易的字段：TransactionInfo 字段 -> frontmatter 字段 */
+const UID_LINK_FIELDS = [
+    ["refundOf", "refund_of"],
+    ["reimburses", "reimburses"],
+    ["installmentOf", "installment_of"],
+    ["loan", "loan"],
+] as const;
 
 /**
  * 交易信息
@@ -18,16 +38,16 @@ export interface TransactionInfo {
     /** 时间 (HH:MM:SS) */
     time: string;
     /** 交易类型 */
-    txnType: "收入" | "支出" | "还款" | "转账" | "借款";
+    txnType: "收入" | "支出" | "还款" | "转账" | "借款" | "借出" | "收回" | "投资" | "退款";
     /** 分类 */
     category: string;
     /** 金额 */
     amount: number;
     /** 优惠金额 */
     discount?: number;
-    /** 退款金额 */
+    /** 退款金额（旧格式，直接记在原支出上） */
     refund: number;
-    /** 退款账户 */
+    /** 退款账户（旧格式） */
     refundTo?: string;
     /** 货币 */
     currency: string;
@@ -47,6 +67,129 @@ export interface TransactionInfo {
     note: string;
     /** 参与人 */
     persons: string[];
+    /** 标签（frontmatter tags） */
+    tags?: string[];
+    /** 生成该交易的周期模板（文件名） */
+    recurring?: string;
+    /** 存入的储蓄目标（文件名） */
+    goal?: string;
+    /** 拆分明细（按分类 / 参与人拆分金额） */
+    splits?: TransactionSplit[];
+    /** 交易状态（缺省视为已入账） */
+    status?: TxnStatus;
+    /** 分期计划 */
+    installment?: InstallmentPlan;
+    /** 分期手续费所属消费的 uid */
+    installmentOf?: string;
+    /** 分期手续费期数 */
+    installmentPeriod?: number;
+    /** 还款 / 收回所结算的借贷交易 uid */
+    loan?: string;
+    /** 贷款计划（仅借款） */
+    amortization?: AmortizationPlan;
+    /** 还款中的利息部分（手动填写） */
+    interest?: number;
+    /** 投资动作（仅投资交易） */
+    investAction?: InvestAction;
+    /** 证券代码 */
+    security?: string;
+    /** 成交数量 */
+    quantity?: number;
+    /** 成交单价 */
+    price?: number;
+    /** 多人分摊 */
+    shared?: SharedExpense;
+    /** AA 结算：from 向 to 支付了交易金额 */
+    settlement?: { from: string; to: string };
+    /** 报销状态（仅可报销的支出） */
+    reimbursement?: { status: ReimbursementStatus; submittedDate?: string };
+    /** 报销到账：所报销支出的 uid */
+    reimburses?: string;
+    /** 退款：原支出的 uid */
+    refundOf?: string;
+    /** 附件链接（已去掉 [[ ]]） */
+    attachments?: string[];
+}
+
+/**
+ * 多人分摊（AA）
+ */
+export interface SharedExpense {
+    method: ShareMethod;
+    /** 实际付款人 */
+    paidBy: string;
+    /** 参与人；value 按比例时为权重，指定金额时为应摊金额 */
+    shares: { person: string; value: number }[];
+}
+
+/**
+ * 贷款计划，本金为借款金额
+ */
+export interface AmortizationPlan {
+    /** 年利率（百分比） */
+    rate: number;
+    /** 期数（月） */
+    term: number;
+    method: AmortizationMethod;
+    /** 首期还款日 (YYYY-MM-DD) */
+    firstDue: string;
+}
+
+/**
+ * 信用卡分期计划
+ */
+export interface InstallmentPlan {
+    periods: number;
+    /** 每期手续费率（百分比） */
+    feeRate: number;
+    /** 每期固定手续费，为 0 时按费率计算 */
+    fee: number;
+    /** 首期入账月份 (YYYY-MM) */
+    firstMonth: string;
+}
+
+/**
+ * 交易拆分明细行
+ */
+export interface TransactionSplit {
+    category: string;
+    amount: number;
+    note: string;
+    persons: string[];
+}
+
+/**
+ * 余额断言的核对结果
+ */
+export interface BalanceAssertionCheck {
+    assertion: BalanceAssertion;
+    /** 按交易记录计算的断言日期当日结束时余额 */
+    computed: number;
+    /** 对账单余额 - 计算余额 */
+    difference: number;
+    ok: boolean;
+}
+
+/**
+ * 已关闭账户的异常：仍有余额，或关闭日期之后还有交易
+ */
+export interface ClosedAccountIssues {
+    /** 当前余额（账户货币），为 0 时无异常 */
+    balance: number;
+    /** 关闭日期之后的交易 */
+    lateTransactions: TransactionInfo[];
+}
+
+/**
+ * 余额变动的计算范围
+ */
+export interface BalanceChangeOptions {
+    /** 起始日期（含），通常为开户日期 */
+    since?: string;
+    /** 截止日期（含） */
+    until?: string;
+    /** 只计已入账的交易（跳过待入账的交易） */
+    clearedOnly?: boolean;
 }
 
 /**
@@ -55,11 +198,19 @@ export interface TransactionInfo {
 export class TransactionService {
     private app: App;
     private transactionCache: TransactionInfo[] = [];
+    /** 未作废的交易，缓存变化时清空 */
+    private activeCache: TransactionInfo[] | null = null;
     private transactionsPath: string;
+    /** 由 createTransaction 新建、尚未被认领的文件，用于区分插件外部导入的交易 */
+    private createdPaths = new Set<string>();
+    private exchangeRateService: ExchangeRateService | null;
+    /** 最近一次分配的 uid */
+    private lastUid = 0;
 
-    constructor(app: App, transactionsPath: string) {
+    constructor(app: App, transactionsPath: string, exchangeRateService: ExchangeRateService | null = null) {
         this.app = app;
         this.transactionsPath = transactionsPath;
+        this.exchangeRateService = exchangeRateService;
     }
 
     /**
@@ -91,6 +242,7 @@ export class TransactionService {
         });
 
         this.transactionCache = transactions;
+        this.activeCache = null;
         return transactions;
     }
 
@@ -113,7 +265,7 @@ export class TransactionService {
 
         // YAML can parse bare values as non-strings (e.g. "15:51:00" → number, numeric payees).
         // Coerce all expected-string fields explicitly.
-        const str = (v: unknown): string => (v != null && v !== false) ? String(v) : "";
+        const str = (v: unknown): string => (typeof v === "string" || typeof v === "number") ? String(v) : "";
         return {
             path: file.path,
             fileName: file.basename,
@@ -136,13 +288,165 @@ export class TransactionService {
             memo: str(fm.memo),
             note: str(fm.note),
             persons: Array.isArray(fm.persons) ? fm.persons : [],
+            tags: Array.isArray(fm.tags) ? fm.tags.map(t => String(t)) : undefined,
+            recurring: str(fm.recurring).replace(/^\[\[|\]\]$/g, "") || undefined,
+            goal: str(fm.goal).replace(/^\[\[|\]\]$/g, "") || undefined,
+            splits: this.parseSplits(fm.splits),
+            status: parseTxnStatus(fm.status),
+            installment: this.parseInstallment(fm.installment),
+            installmentOf: str(fm.installment_of) || undefined,
+            installmentPeriod: typeof fm.installment_period === "number" ? fm.installment_period : undefined,
+            loan: str(fm.loan) || undefined,
+            amortization: this.parseAmortization(fm.amortization, str(fm.date)),
+            interest: typeof fm.interest === "number" && fm.interest >= 0 ? fm.interest : undefined,
+            investAction: fm.invest_action && INVEST_ACTIONS.includes(fm.invest_action) ? fm.invest_action : undefined,
+            security: str(fm.security).trim() || undefined,
+            quantity: fm.quantity != null && Number.isFinite(Number(fm.quantity)) ? Number(fm.quantity) : undefined,
+            price: fm.price != null && Number.isFinite(Number(fm.price)) ? Number(fm.price) : undefined,
+            shared: this.parseShared(fm.shared),
+            settlement: this.parseSettlement(fm.settlement),
+            reimbursement: this.parseReimbursement(fm.reimbursement),
+            reimburses: str(fm.reimburses) || undefined,
+            refundOf: str(fm.refund_of) || undefined,
+            attachments: this.parseAttachments(fm.attachments),
+        };
+    }
+
+    /**
+     * 解析附件链接，兼容 [[路径]]、![[路径]]、[[路径|别名]] 与纯路径
+     */
+    private parseAttachments(raw: unknown): string[] | undefined {
+        if (!Array.isArray(raw)) return undefined;
+        const links = raw
+            .filter((v): v is string => typeof v === "string")
+            .map(v => v.trim().replace(/^!?\[\[|\]\]$/g, "").split("|")[0]?.trim() ?? "")
+            .filter(Boolean);
+        return links.length > 0 ? links : undefined;
+    }
+
+    /**
+     * 解析报销状态，未知状态按待报销处理
+     */
+    private parseReimbursement(raw: unknown): TransactionInfo["reimbursement"] {
+        if (!raw || typeof raw !== "object") return undefined;
+        const r = raw as Partial<ReimbursementFrontmatter>;
+        const submitted = typeof r.submitted_date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(r.submitted_date)
+            ? r.submitted_date
+            : undefined;
+        return {
+            status: r.status && REIMBURSEMENT_STATUSES.includes(r.status) ? r.status : "pending",
+            submittedDate: submitted,
+        };
+    }
+
+    /**
+     * 解析多人分摊，忽略没有参与人的分摊；未填写付款人时视为「我」付款
+     */
+    private parseShared(raw: unknown): SharedExpense | undefined {
+        if (!raw || typeof raw !== "object") return undefined;
+        const shared = raw as Partial<SharedExpenseFrontmatter>;
+        if (!Array.isArray(shared.shares)) return undefined;
+        const shares: SharedExpense["shares"] = [];
+        for (const item of shared.shares) {
+            if (!item || typeof item !== "object") continue;
+            const person = item.person != null ? String(item.person).trim() : "";
+            if (!person || shares.some(s => s.person === person)) continue;
+            const value = Number(item.value);
+            shares.push({ person, value: Number.isFinite(value) && value > 0 ? value : 0 });
+        }
+        if (shares.length === 0) return undefined;
+        const paidBy = shared.paid_by != null ? String(shared.paid_by).trim() : "";
+        return {
+            method: shared.method && SHARE_METHODS.includes(shared.method) ? shared.method : "equal",
+            paidBy: paidBy || SELF_PERSON,
+            shares,
         };
     }
 
     /**
-     * 获取所有交易（使用缓存）
+     * 解析 AA 结算，付款人与收款人缺一不可
+     */
+    private parseSettlement(raw: unknown): TransactionInfo["settlement"] {
+        if (!raw || typeof raw !== "object") return undefined;
+        const settlement = raw as Partial<SettlementFrontmatter>;
+        const from = settlement.from != null ? String(settlement.from).trim() : "";
+        const to = settlement.to != null ? String(settlement.to).trim() : "";
+        return from && to && from !== to ? { from, to } : undefined;
+    }
+
+    /**
+     * 解析分期计划，期数小于 2 或缺少首期月份时视为无分期
+     */
+    private parseInstallment(raw: unknown): InstallmentPlan | undefined {
+        if (!raw || typeof raw !== "object") return undefined;
+        const plan = raw as Partial<InstallmentFrontmatter>;
+        const periods = Number(plan.periods);
+        const firstMonth = typeof plan.first_month === "string" ? plan.first_month : "";
+        if (!Number.isInteger(periods) || periods < 2 || !/^\d{4}-\d{2}$/.test(firstMonth)) return undefined;
+        const feeRate = Number(plan.fee_rate);
+        const fee = Number(plan.fee);
+        return {
+            periods,
+            feeRate: Number.isFinite(feeRate) && feeRate > 0 ? feeRate : 0,
+            fee: Number.isFinite(fee) && fee > 0 ? fee : 0,
+            firstMonth,
+        };
+    }
+
+    /**
+     * 解析贷款计划，期数无效时视为无计划；缺少首期还款日时取借款日一个月后
+     */
+    private parseAmortization(raw: unknown, loanDate: string): AmortizationPlan | undefined {
+        if (!raw || typeof raw !== "object") return undefined;
+        const plan = raw as Partial<AmortizationFrontmatter>;
+        const term = Number(plan.term);
+        const rate = Number(plan.rate);
+        if (!Number.isInteger(term) || term < 1 || !Number.isFinite(rate) || rate < 0) return undefined;
+        const firstDue = typeof plan.first_due === "string" && /^\d{4}-\d{2}-\d{2}$/.test(plan.first_due)
+            ? plan.first_due
+            : addMonths(loanDate, 1);
+        if (!firstDue) return undefined;
+        return {
+            rate,
+            term,
+            method: plan.method === "equal_principal" ? "equal_principal" : "equal_installment",
+            firstDue,
+        };
+    }
+
+    /**
+     * 解析拆分明细，忽略缺少分类或金额的行
+     */
+    private parseSplits(raw: unknown): TransactionSplit[] | undefined {
+        if (!Array.isArray(raw)) return undefined;
+        const splits: TransactionSplit[] = [];
+        for (const item of raw as Partial<TransactionSplitFrontmatter>[]) {
+            if (!item || typeof item !== "object") continue;
+            const category = typeof item.category === "string" ? item.category.trim() : "";
+            const amount = typeof item.amount === "number" ? item.amount : Number(item.amount);
+            if (!category || !Number.isFinite(amount)) continue;
+            splits.push({
+                category,
+                amount,
+                note: typeof item.note === "string" ? item.note : "",
+                persons: Array.isArray(item.persons) ? item.persons.map(p => String(p)) : [],
+            });
+        }
+        return splits.length > 0 ? splits : undefined;
+    }
+
+    /**
+     * 获取所有计入余额与统计的交易（不含作废的交易，使用缓存）
      */
     getTransactions(): TransactionInfo[] {
+        this.activeCache ??= this.transactionCache.filter(t => t.status !== "void");
+        return this.activeCache;
+    }
+
+    /**
+     * 获取所有交易，包括作废的交易（用于交易列表等需要保留历史的地方）
+     */
+    getAllTransactions(): TransactionInfo[] {
         return this.transactionCache;
     }
 
@@ -162,6 +466,7 @@ export class TransactionService {
                 if (dateCompare !== 0) return dateCompare;
                 return (b.time || "").localeCompare(a.time || "");
             });
+            this.activeCache = null;
         }
     }
 
@@ -170,6 +475,7 @@ export class TransactionService {
      */
     removeTransaction(path: string): void {
         this.transactionCache = this.transactionCache.filter(t => t.path !== path);
+        this.activeCache = null;
     }
 
     /**
@@ -180,18 +486,92 @@ export class TransactionService {
     }
 
     /**
-     * 计算账户当前余额（期初余额 + 余额变动）
-     * 统一入口，避免各处重复实现
+     * 将交易金额换算为账户货币（按交易日期汇率）
+     * 未指定账户货币或货币相同时原样返回
+     */
+    private toAccountCurrency(value: number, txn: TransactionInfo, accountCurrency?: string): number {
+        if (!accountCurrency || !this.exchangeRateService || !value) return value;
+        return this.exchangeRateService.convert(value, txn.currency, accountCurrency, txn.date);
+    }
+
+    /**
+     * 计算账户在指定日期当天结束时的余额（开户余额 + 开户日期起的余额变动），以账户货币计
+     * 统一入口，避免各处重复实现；默认截至今天，未来日期的交易不计入
+     */
+    getAccountBalance(account: AccountInfo, date: string = getLocalDateString()): number {
+        if (account.openingDate && date < account.openingDate) return 0;
+        return account.openingBalance + this.calculateBalanceChange(account.fileName, account.currency, {
+            since: account.openingDate,
+            until: date,
+        });
+    }
+
+    /**
+     * 计算账户已入账余额（不含待入账的交易），以账户货币计
+     */
+    getClearedBalance(account: AccountInfo, date: string = getLocalDateString()): number {
+        if (account.openingDate && date < account.openingDate) return 0;
+        return account.openingBalance + this.calculateBalanceChange(account.fileName, account.currency, {
+            since: account.openingDate,
+            until: date,
+            clearedOnly: true,
+        });
+    }
+
+    /**
+     * 待入账交易对账户余额的影响合计（账户货币），预计余额 = 已入账余额 + 该值
+     */
+    getPendingBalanceChange(account: AccountInfo, date: string = getLocalDateString()): number {
+        let total = 0;
+        for (const txn of this.getTransactionsByAccount(account.fileName)) {
+            if (txn.status !== "pending" || txn.date > date) continue;
+            if (account.openingDate && txn.date < account.openingDate) continue;
+            total += this.getBalanceChangeForTransaction(txn, account.fileName, account.currency);
+        }
+        return roundCurrency(total);
+    }
+
+    /**
+     * 指定日期之后（未来日期）的交易，按日期升序
+     */
+    getUpcomingTransactions(account: AccountInfo, date: string = getLocalDateString()): TransactionInfo[] {
+        return this.getTransactionsByAccount(account.fileName)
+            .filter(t => t.date > date)
+            .sort((a, b) => a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || ""));
+    }
+
+    /**
+     * 指定日期之后的交易对账户余额的影响合计（账户货币）
+     */
+    getUpcomingBalanceChange(account: AccountInfo, date: string = getLocalDateString()): number {
+        const total = this.getUpcomingTransactions(account, date)
+            .reduce((sum, txn) => sum + this.getBalanceChangeForTransaction(txn, account.fileName, account.currency), 0);
+        return roundCurrency(total);
+    }
+
+    /**
+     * 计算账户在指定日期当天结束时的余额（账户货币，保留两位小数）
      */
-    getAccountBalance(account: AccountInfo): number {
-        return account.openingBalance + this.calculateBalanceChange(account.fileName);
+    getAccountBalanceAt(account: AccountInfo, date: string): number {
+        return roundCurrency(this.getAccountBalance(account, date));
+    }
+
+    /**
+     * 计算账户在指定日期的余额并换算为本位币（按该日期的汇率，默认今天）
+     */
+    getAccountBalanceInBase(account: AccountInfo, date: string = getLocalDateString()): number {
+        const balance = this.getAccountBalance(account, date);
+        if (!this.exchangeRateService) return balance;
+        return this.exchangeRateService.convert(balance, account.currency, undefined, date);
     }
 
     /**
      * 获取指定账户的所有交易
+     * @param includeVoid 是否包括作废的交易
      */
-    getTransactionsByAccount(accountFileName: string): TransactionInfo[] {
-        return this.transactionCache.filter(txn =>
+    getTransactionsByAccount(accountFileName: string, includeVoid = false): TransactionInfo[] {
+        const source = includeVoid ? this.transactionCache : this.getTransactions();
+        return source.filter(txn =>
             this.matchesAccount(txn.from, accountFileName) ||
             this.matchesAccount(txn.to, accountFileName) ||
             (txn.refundTo ? this.matchesAccount(txn.refundTo, accountFileName) : false)
@@ -200,15 +580,22 @@ export class TransactionService {
 
     /**
      * 计算账户余额变动
-     * 余额变动 = 收入 + 还款 - (支出 - 退款) + 转入 - 转出
+     * 余额变动 = 收入 + 还款 - (支出 - 退款) + 转入 - 转出 + 借入 - 借出 + 收回 ± 投资现金流
+     * 退款交易在退款日期计入退款账户（to）；作废的交易不计入
+     * @param accountCurrency 账户货币；指定时外币交易按交易日期汇率换算
+     * @param options 日期范围（含两端）与是否只计已入账的交易，缺省时计入全部交易
      */
-    calculateBalanceChange(accountFileName: string): number {
-        let change = 0;
+    calculateBalanceChange(accountFileName: string, accountCurrency?: string, options: BalanceChangeOptions = {}): number {
+        let total = 0;
+        const { since, until, clearedOnly } = options;
 
-        for (const txn of this.transactionCache) {
+        for (const txn of this.getTransactions()) {
+            if (clearedOnly && txn.status === "pending") continue;
+            if ((since && txn.date < since) || (until && txn.date > until)) continue;
             const isFrom = this.matchesAccount(txn.from, accountFileName);
             const isTo = this.matchesAccount(txn.to, accountFileName);
             const isRefundTo = txn.refundTo ? this.matchesAccount(txn.refundTo, accountFileName) : isFrom;
+            let change = 0;
 
             if (txn.txnType === "收入" && isTo) {
                 // 收入到此账户
@@ -216,6 +603,18 @@ export class TransactionService {
             } else if (txn.txnType === "借款" && isTo) {
                 // 借款：钱借入到 to 账户，余额增加
                 change += txn.amount;
+            } else if (txn.txnType === "借出" && isFrom) {
+                // 借出：钱从 from 账户借给他人，余额减少
+                change -= txn.amount;
+            } else if (txn.txnType === "收回" && isTo) {
+                // 收回：借出的钱回到 to 账户
+                change += txn.amount;
+            } else if (txn.txnType === "退款" && isTo) {
+                // 退款：原支出的钱退回到 to 账户
+                change += txn.amount;
+            } else if (txn.txnType === "投资") {
+                // 投资：资金账户（from，留空时为持仓账户 to）的现金变动
+                if (txn.from ? isFrom : isTo) change += this.getInvestmentCashFlow(txn);
             } else if (txn.txnType === "支出") {
                 // 支出: from 减去全额
                 if (isFrom) change -= txn.amount;
@@ -239,9 +638,11 @@ export class TransactionService {
                     change += txn.amount;
                 }
             }
+
+            total += this.toAccountCurrency(change, txn, accountCurrency);
         }
 
-        return change;
+        return total;
     }
 
     /**
@@ -265,9 +666,11 @@ export class TransactionService {
      * 计算账户的运行余额（每笔交易前后的余额）
      * @param accountFileName 账户文件名
      * @param openingBalance 账户期初余额
+     * @param accountCurrency 账户货币（可选）
+     * @param openingDate 开户日期（可选），之前的交易不计入
      * @returns 按日期升序排列的交易及其前后余额
      */
-    calculateRunningBalances(accountFileName: string, openingBalance: number): Map<string, { before: number; after: number }> {
+    calculateRunningBalances(accountFileName: string, openingBalance: number, accountCurrency?: string, openingDate?: string): Map<string, { before: number; after: number }> {
         // 获取该账户的所有交易，按日期升序排列
         const transactions = this.getTransactionsByAccount(accountFileName)
             .slice()
@@ -277,7 +680,8 @@ export class TransactionService {
         let currentBalance = openingBalance;
 
         for (const txn of transactions) {
-            const change = this.getBalanceChangeForTransaction(txn, accountFileName);
+            if (openingDate && txn.date < openingDate) continue;
+            const change = this.getBalanceChangeForTransaction(txn, accountFileName, accountCurrency);
             const before = currentBalance;
             const after = currentBalance + change;
 
@@ -290,10 +694,72 @@ export class TransactionService {
         return balanceMap;
     }
 
+    /**
+     * 按运行余额核对账户的所有余额断言
+     * 断言日期当天的交易全部计入，之前没有交易时以期初余额为准
+     */
+    checkBalanceAssertions(account: AccountInfo): BalanceAssertionCheck[] {
+        if (account.balanceAssertions.length === 0) return [];
+
+        const running = this.calculateRunningBalances(account.fileName, account.openingBalance, account.currency, account.openingDate);
+        // 与 calculateRunningBalances 相同的排序，最后一笔不晚于断言日期的交易即为当日结束余额
+        const ordered = this.getTransactionsByAccount(account.fileName)
+            .slice()
+            .sort((a, b) => a.date.localeCompare(b.date));
+
+        return account.balanceAssertions.map(assertion => {
+            let computed = account.openingDate && assertion.date < account.openingDate ? 0 : account.openingBalance;
+            for (const txn of ordered) {
+                if (txn.date > assertion.date) break;
+                computed = running.get(txn.path)?.after ?? computed;
+            }
+            computed = roundCurrency(computed);
+            const difference = roundCurrency(assertion.balance - computed);
+            return { assertion, computed, difference, ok: Math.abs(difference) < 0.005 };
+        });
+    }
+
+    /**
+     * 获取账户未通过的余额断言
+     */
+    getFailedAssertions(account: AccountInfo): BalanceAssertionCheck[] {
+        return this.checkBalanceAssertions(account).filter(c => !c.ok);
+    }
+
+    /**
+     * 检查已关闭账户：余额不为 0 或关闭日期之后仍有交易时返回异常，否则返回 null
+     */
+    getClosedAccountIssues(account: AccountInfo): ClosedAccountIssues | null {
+        if (account.status === "active") return null;
+        const balance = roundCurrency(this.getAccountBalance(account));
+        const closedDate = account.closedDate;
+        const lateTransactions = closedDate
+            ? this.getTransactionsByAccount(account.fileName).filter(t => t.date > closedDate)
+            : [];
+        if (balance === 0 && lateTransactions.length === 0) return null;
+        return { balance, lateTransactions };
+    }
+
     /**
      * 计算单笔交易对指定账户的余额影响
+     * @param accountCurrency 账户货币；指定时按交易日期汇率换算
      */
-    getBalanceChangeForTransaction(txn: TransactionInfo, accountFileName: string): number {
+    getBalanceChangeForTransaction(txn: TransactionInfo, accountFileName: string, accountCurrency?: string): number {
+        return this.toAccountCurrency(this.getRawBalanceChange(txn, accountFileName), txn, accountCurrency);
+    }
+
+    /**
+     * 投资交易的现金流：卖出、分红流入，买入、费用流出
+     */
+    private getInvestmentCashFlow(txn: TransactionInfo): number {
+        return txn.investAction === "sell" || txn.investAction === "dividend" ? txn.amount : -txn.amount;
+    }
+
+    /**
+     * 单笔交易对指定账户的余额影响（以交易货币计）
+     */
+    private getRawBalanceChange(txn: TransactionInfo, accountFileName: string): number {
+        if (txn.status === "void") return 0;
         const isFrom = this.matchesAccount(txn.from, accountFileName);
         const isTo = this.matchesAccount(txn.to, accountFileName);
         const isRefundTo = txn.refundTo ? this.matchesAccount(txn.refundTo, accountFileName) : isFrom;
@@ -303,6 +769,12 @@ export class TransactionService {
         } else if (txn.txnType === "借款") {
             // 借款：to 账户余额增加
             if (isTo) return txn.amount;
+        } else if (txn.txnType === "借出") {
+            if (isFrom) return -txn.amount;
+        } else if (txn.txnType === "收回" || txn.txnType === "退款") {
+            if (isTo) return txn.amount;
+        } else if (txn.txnType === "投资") {
+            if (txn.from ? isFrom : isTo) return this.getInvestmentCashFlow(txn);
         } else if (txn.txnType === "支出") {
             let change = 0;
             if (isFrom) change -= txn.amount;
@@ -339,10 +811,14 @@ export class TransactionService {
     /**
      * 计算所有账户的运行余额（用于交易列表显示）
      * @param accountOpeningBalances 账户名 -> 期初余额 的映射
+     * @param accountCurrencies 账户名 -> 账户货币 的映射（可选，用于外币交易换算）
+     * @param accountOpeningDates 账户名 -> 开户日期 的映射（可选），开户日期之前的交易不显示该账户的余额
      * @returns 交易路径 -> { accountName: { before, after } } 的映射
      */
     calculateAllAccountsRunningBalances(
-        accountOpeningBalances: Map<string, number>
+        accountOpeningBalances: Map<string, number>,
+        accountCurrencies?: Map<string, string>,
+        accountOpeningDates?: Map<string, string>
     ): Map<string, Map<string, { before: number; after: number }>> {
         // 按日期和时间升序排列所有交易
         const sortedTransactions = this.transactionCache
@@ -377,7 +853,9 @@ export class TransactionService {
 
             for (const account of involvedAccounts) {
                 if (!accountOpeningBalances.has(account)) continue;
-                const change = this.getBalanceChangeForTransaction(txn, account);
+                const openingDate = accountOpeningDates?.get(account);
+                if (openingDate && txn.date < openingDate) continue;
+                const change = this.getBalanceChangeForTransaction(txn, account, accountCurrencies?.get(account));
                 const before = currentBalances.get(account) ?? 0;
                 const after = before + change;
                 txnBalances.set(account, { before, after });
@@ -390,7 +868,7 @@ export class TransactionService {
         return result;
     }
     async updateTransaction(file: TFile, data: Partial<TransactionFrontmatter>): Promise<void> {
-        await this.app.fileManager.processFrontMatter(file, (fm) => {
+        await this.app.fileManager.processFrontMatter(file, (fm: Partial<TransactionFrontmatter>) => {
             // Update fields
             if (data.date !== undefined) fm.date = data.date;
             if (data.time !== undefined) fm.time = data.time;
@@ -405,14 +883,205 @@ export class TransactionService {
             if (data.to !== undefined) fm.to = data.to;
             if (data.payee !== undefined) fm.payee = data.payee;
             if (data.memo !== undefined) fm.memo = data.memo;
+            if (data.note !== undefined) fm.note = data.note;
+            if (data.tags !== undefined) fm.tags = data.tags;
             if (data.address !== undefined) fm.address = data.address;
             if (data.latitude !== undefined) fm.latitude = data.latitude;
             if (data.longitude !== undefined) fm.longitude = data.longitude;
             if (data.persons !== undefined) fm.persons = data.persons;
+            if (data.recurring !== undefined) fm.recurring = data.recurring;
+            if (data.goal !== undefined) {
+                if (data.goal) fm.goal = data.goal;
+                else delete fm.goal;
+            }
+            if (data.splits !== undefined) {
+                if (data.splits.length > 0) fm.splits = data.splits;
+                else delete fm.splits;
+            }
+            if (data.status !== undefined) fm.status = data.status;
+            if (data.installment !== undefined) {
+                if (data.installment.periods >= 2) fm.installment = data.installment;
+                else delete fm.installment;
+            }
+            if (data.installment_of !== undefined) fm.installment_of = data.installment_of;
+            if (data.installment_period !== undefined) fm.installment_period = data.installment_period;
+            if (data.amortization !== undefined) {
+                if (data.amortization.term >= 1) fm.amortization = data.amortization;
+                else delete fm.amortization;
+            }
+            if (data.interest !== undefined) fm.interest = data.interest;
+            if (data.invest_action !== undefined) fm.invest_action = data.invest_action;
+            if (data.security !== undefined) fm.security = data.security;
+            if (data.quantity !== undefined) fm.quantity = data.quantity;
+            if (data.price !== undefined) fm.price = data.price;
+            if (data.invest_action === "dividend" || data.invest_action === "fee") {
+                // 分红、费用没有成交数量和价格
+                delete fm.quantity;
+                delete fm.price;
+            }
+            if (data.txn_type !== undefined && data.txn_type !== "投资") {
+                // 改为其他类型时清除投资字段
+                delete fm.invest_action;
+                delete fm.security;
+                delete fm.quantity;
+                delete fm.price;
+            }
+            if (data.loan !== undefined) {
+                if (data.loan) fm.loan = data.loan;
+                else delete fm.loan;
+            }
+            if (data.shared !== undefined) {
+                if (data.shared.shares.length > 0) fm.shared = data.shared;
+                else delete fm.shared;
+            }
+            if (data.settlement !== undefined) {
+                if (data.settlement.from && data.settlement.to) fm.settlement = data.settlement;
+                else delete fm.settlement;
+            }
+            if (data.reimbursement !== undefined) {
+                if (data.reimbursement.status) fm.reimbursement = data.reimbursement;
+                else delete fm.reimbursement;
+            }
+            if (data.reimburses !== undefined) {
+                if (data.reimburses) fm.reimburses = data.reimburses;
+                else delete fm.reimburses;
+            }
+            if (data.refund_of !== undefined) {
+                if (data.refund_of) fm.refund_of = data.refund_of;
+                else delete fm.refund_of;
+            }
+            if (data.attachments !== undefined) {
+                if (data.attachments.length > 0) fm.attachments = data.attachments;
+                else delete fm.attachments;
+            }
             // Handle complex fields if necessary
         });
     }
 
+    /**
+     * 设置交易状态，status 为 null 时清除（视为已入账）
+     */
+    async setTransactionStatus(txn: TransactionInfo, status: TxnStatus | null): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(txn.path);
+        if (!(file instanceof TFile)) {
+            throw new Error("交易文件不存在: " + txn.path);
+        }
+        await this.app.fileManager.processFrontMatter(file, (fm: Partial<TransactionFrontmatter>) => {
+            if (status) fm.status = status;
+            else delete fm.status;
+        });
+        txn.status = status ?? undefined;
+        this.activeCache = null;
+    }
+
+    /**
+     * 设置可报销支出的报销状态；标记为已提交时记录提交日期
+     */
+    async setReimbursementStatus(txn: TransactionInfo, status: ReimbursementStatus): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(txn.path);
+        if (!(file instanceof TFile)) {
+            throw new Error("交易文件不存在: " + txn.path);
+        }
+        const submittedDate = status === "submitted"
+            ? (txn.reimbursement?.submittedDate ?? getLocalDateString())
+            : txn.reimbursement?.submittedDate;
+        await this.app.fileManager.processFrontMatter(file, (fm: Partial<TransactionFrontmatter>) => {
+            fm.reimbursement = { status, ...(submittedDate ? { submitted_date: submittedDate } : {}) };
+        });
+        txn.reimbursement = { status, submittedDate };
+    }
+
+    /**
+     * 为交易重新生成 uid（用于修复同步冲突等产生的 uid 重复）
+     * @returns 新的 uid
+     */
+    async reassignUid(txn: TransactionInfo): Promise<string> {
+        const file = this.app.vault.getAbstractFileByPath(txn.path);
+        if (!(file instanceof TFile)) {
+            throw new Error("交易文件不存在: " + txn.path);
+        }
+        const uid = this.generateUid();
+        await this.app.fileManager.processFrontMatter(file, (fm: Partial<TransactionFrontmatter>) => {
+            fm.uid = uid;
+        });
+        txn.uid = uid;
+        return uid;
+    }
+
+    /**
+     * 通过 uid 引用指定交易的其他交易（退款、报销到账、分期手续费、借贷结算）
+     */
+    getLinkedTransactions(txn: TransactionInfo): TransactionInfo[] {
+        if (!txn.uid) return [];
+        return this.transactionCache.filter(t => t.path !== txn.path
+            && UID_LINK_FIELDS.some(([key]) => t[key] === txn.uid));
+    }
+
+    /**
+     * 把引用 from 的交易改为引用 to（删除重复交易前调用，避免关联交易失去原交易）
+     * to 没有 uid 时直接沿用 from 的 uid
+     * @returns 改写的交易数量
+     */
+    async relinkTransactions(from: TransactionInfo, to: TransactionInfo): Promise<number> {
+        const linked = this.getLinkedTransactions(from).filter(t => t.path !== to.path);
+        if (linked.length === 0 || from.uid === to.uid) return 0;
+
+        if (!to.uid) {
+            const file = this.app.vault.getAbstractFileByPath(to.path);
+            if (!(file instanceof TFile)) {
+                throw new Error("交易文件不存在: " + to.path);
+            }
+            await this.app.fileManager.processFrontMatter(file, (fm: Partial<TransactionFrontmatter>) => {
+                fm.uid = from.uid;
+            });
+            to.uid = from.uid;
+            return linked.length;
+        }
+
+        for (const txn of linked) {
+            const file = this.app.vault.getAbstractFileByPath(txn.path);
+            if (!(file instanceof TFile)) continue;
+            await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+                for (const [key, field] of UID_LINK_FIELDS) {
+                    if (txn[key] !== from.uid) continue;
+                    fm[field] = to.uid;
+                    txn[key] = to.uid;
+                }
+            });
+        }
+        return linked.length;
+    }
+
+    /**
+     * 删除交易文件（按用户的删除偏好移入回收站）并从缓存中移除
+     */
+    async deleteTransaction(txn: TransactionInfo): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(txn.path);
+        if (!(file instanceof TFile)) {
+            throw new Error("交易文件不存在: " + txn.path);
+        }
+        this.removeTransaction(txn.path);
+        await this.app.fileManager.trashFile(file);
+    }
+
+    /**
+     * 删除支出上旧格式的 refund / refund_to 字段（已迁移为退款交易），缺少 uid 时写入指定 uid
+     */
+    async clearLegacyRefund(txn: TransactionInfo, uid: string): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(txn.path);
+        if (!(file instanceof TFile)) {
+            throw new Error("交易文件不存在: " + txn.path);
+        }
+        await this.app.fileManager.processFrontMatter(file, (fm: Partial<TransactionFrontmatter>) => {
+            if (!fm.uid) fm.uid = uid;
+            delete fm.refund;
+            delete fm.refund_to;
+        });
+        txn.uid = uid;
+        txn.refund = 0;
+        txn.refundTo = undefined;
+    }
+
     /**
      * 获取日期对应的文件夹路径
      * @param dateStr 日期字符串 (YYYY-MM-DD)
@@ -480,10 +1149,24 @@ export class TransactionService {
         return file;
     }
 
-    async createTransaction(): Promise<TFile> {
+    /**
+     * 生成新的交易 uid（毫秒时间戳）
+     */
+    generateUid(): string {
+        // 连续批量创建时同一毫秒内 uid 可能重复，保证严格递增
+        const uidNum = Math.max(Date.now(), this.lastUid + 1);
+        this.lastUid = uidNum;
+        return uidNum.toString();
+    }
+
+    /**
+     * 新建空白交易文件
+     * @param date 指定日期 (YYYY-MM-DD)，默认为今天
+     */
+    async createTransaction(date?: string): Promise<TFile> {
         // 1. Prepare Date Info
         const now = new Date();
-        const dateStr = getLocalDateString(now);
+        const dateStr = date || getLocalDateString(now);
         const timeStr = getLocalTimeString(now);
 
         // 2. Build Folder Path: root/YYYY/YYYY-MM/YYYY-MM-DD
@@ -498,7 +1181,7 @@ export class TransactionService {
         await this.ensureFolder(monthly);
         await this.ensureFolder(daily);
 
-        const uid = Date.now().toString();
+        const uid = this.generateUid();
         const fileName = `txn-${uid}.md`;
 
         const content = `---
@@ -519,7 +1202,17 @@ memo:
 type: txn
 ---`;
 
-        return await this.app.vault.create(`${daily}/${fileName}`, content);
+        // 先登记路径，create 事件可能在 vault.create 返回前触发
+        const path = `${daily}/${fileName}`;
+        this.createdPaths.add(path);
+        return await this.app.vault.create(path, content);
+    }
+
+    /**
+     * 判断文件是否由插件自己新建（每个路径只返回一次 true）
+     */
+    consumeCreatedPath(path: string): boolean {
+        return this.createdPaths.delete(path);
     }
 
     private async ensureFolder(path: string): Promise<void> {
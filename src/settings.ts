@@ -1,5 +1,11 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import CostPlugin from "./main";
+import { AccountKindDefinition, TransactionRule } from "./types";
+import { DEFAULT_ACCOUNT_KINDS } from "./utils/accountKindUtils";
+import { REIMBURSEMENT_STATS_MODE_LABELS, ReimbursementStatsMode } from "./utils/reimbursementUtils";
+import { NetWorthInterval, NetWorthRange } from "./services/netWorthService";
+import { createRule, describeRule } from "./utils/ruleUtils";
+import { RuleEditModal } from "./modals/RuleEditModal";
 
 export interface KnownAccountInfo {
 	fileName: string;
@@ -18,6 +24,44 @@ export interface CostPluginSettings {
 	transactionsPath: string;
 	/** 自定义图标文件夹路径 */
 	customIconPath: string;
+	/** 汇率表文件夹路径 */
+	ratesPath: string;
+	/** 预算文件夹路径 */
+	budgetsPath: string;
+	/** 储蓄目标文件夹路径 */
+	goalsPath: string;
+	/** 商家目录文件夹路径 */
+	payeesPath: string;
+	/** 周期交易模板文件夹路径 */
+	recurringPath: string;
+	/** 证券价格文件夹路径 */
+	pricesPath: string;
+	/** 附件文件夹名称，位于交易所在的日期文件夹下 */
+	attachmentsFolder: string;
+	/** 达到该金额（本位币）的支出需要发票，0 表示只检查可报销的支出 */
+	invoiceThreshold: number;
+	/** 重复检测：日期最多相差的天数 */
+	duplicateDateWindow: number;
+	/** 已标记为「不是重复」的交易对 */
+	dismissedDuplicates: string[];
+	/** 交易规则（按顺序执行） */
+	rules: TransactionRule[];
+	/** 净资产快照文件路径 */
+	netWorthSnapshotPath: string;
+	/** 每月初自动为上月末记录净资产快照 */
+	netWorthAutoSnapshot: boolean;
+	/** 净资产走势的取点间隔 */
+	netWorthInterval: NetWorthInterval;
+	/** 净资产走势显示的范围：最近 1 年 / 3 年 / 全部 */
+	netWorthRange: NetWorthRange;
+	/** 现金流预测的天数 */
+	forecastDays: number;
+	/** 现金流预测按最近几个月的支出估算日常开销，0 表示不估算 */
+	forecastBaselineMonths: number;
+	/** 本位币（净资产与统计汇总使用的货币） */
+	baseCurrency: string;
+	/** 账户类型定义（列表顺序即分组顺序） */
+	accountKinds: AccountKindDefinition[];
 	expenseCategories: string[];
 	incomeCategories: string[];
 	/** AI Skill 用：已知账户列表（不含余额） */
@@ -30,6 +74,10 @@ export interface CostPluginSettings {
 	knownPersons: string[];
 	/** 统计页面 Widget 排列顺序 */
 	statsLayout: string[];
+	/** 分期消费的统计方式：purchase 按消费日全额计入，spread 按各期入账月份分摊 */
+	installmentStatsMode: "purchase" | "spread";
+	/** 可报销支出的统计方式：全额计入 / 扣除已到账的报销 / 不计入 */
+	reimbursementStatsMode: ReimbursementStatsMode;
 	/** 是否在保存后高亮该交易 */
 	enableHighlightAfterSave: boolean;
 	/** 保存后高亮的持续时间(秒) */
@@ -43,13 +91,34 @@ export const DEFAULT_SETTINGS: CostPluginSettings = {
 	accountsPath: "Finance/Accounts",
 	transactionsPath: "Finance/Transactions",
 	customIconPath: "Finance/Icons",
+	ratesPath: "Finance/Rates",
+	budgetsPath: "Finance/Budgets",
+	goalsPath: "Finance/Goals",
+	payeesPath: "Finance/Payees",
+	recurringPath: "Finance/Recurring",
+	pricesPath: "Finance/Prices",
+	attachmentsFolder: "attachments",
+	invoiceThreshold: 0,
+	duplicateDateWindow: 2,
+	dismissedDuplicates: [],
+	rules: [],
+	netWorthSnapshotPath: "Finance/净资产快照.md",
+	netWorthAutoSnapshot: false,
+	netWorthInterval: "month",
+	netWorthRange: "1y",
+	forecastDays: 90,
+	forecastBaselineMonths: 3,
+	baseCurrency: "CNY",
+	accountKinds: DEFAULT_ACCOUNT_KINDS.map(k => ({ ...k })),
 	expenseCategories: ["办公", "餐饮", "订阅", "度假", "对齐", "服饰", "服务器", "购物", "还款", "交通", "科研", "快递", "人生", "日用", "生活", "数码", "水果", "通信", "维修", "闲鱼", "学习", "医疗", "意外", "饮食", "娱乐", "住房", "转账"],
-	incomeCategories: ["工资", "奖金", "理财", "收回", "退款", "意外", "悦刻", "闲鱼"],
+	incomeCategories: ["对齐", "工资", "奖金", "理财", "收回", "退款", "意外", "悦刻", "闲鱼"],
 	knownAccounts: [],
 	knownCategories: {},
 	knownPayees: [],
 	knownPersons: [],
-	statsLayout: ["balance", "kpi", "trends", "analysis", "heatmap", "calendar"],
+	statsLayout: ["balance", "networth", "kpi", "budget", "goals", "trends", "analysis", "heatmap", "calendar"],
+	installmentStatsMode: "purchase",
+	reimbursementStatsMode: "net",
 	enableHighlightAfterSave: true,
 	highlightDurationSeconds: 10,
 	highlightColor: "#4caf50",
@@ -68,7 +137,9 @@ export class CostSettingTab extends PluginSettingTab {
 
 		containerEl.empty();
 
-		containerEl.createEl("h2", { text: "记账插件设置" });
+		new Setting(containerEl)
+			.setName("记账插件设置")
+			.setHeading();
 
 		new Setting(containerEl)
 			.setName("Finance 文件夹路径")
@@ -122,6 +193,210 @@ export class CostSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("汇率表文件夹路径")
+			.setDesc("存放汇率表的目录，每个文件为 type: fx_rate，按 date 生效")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.ratesPath)
+					.setValue(this.plugin.settings.ratesPath)
+					.onChange(async (value) => {
+						this.plugin.settings.ratesPath = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("预算文件夹路径")
+			.setDesc("存放预算定义的目录，每个文件为 type: budget")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.budgetsPath)
+					.setValue(this.plugin.settings.budgetsPath)
+					.onChange(async (value) => {
+						this.plugin.settings.budgetsPath = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("储蓄目标文件夹路径")
+			.setDesc("存放储蓄目标的目录，每个文件为 type: goal")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.goalsPath)
+					.setValue(this.plugin.settings.goalsPath)
+					.onChange(async (value) => {
+						this.plugin.settings.goalsPath = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("商家目录文件夹路径")
+			.setDesc("存放商家的目录，每个文件为 type: payee，可设置别名、默认分类、默认账户和标志")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.payeesPath)
+					.setValue(this.plugin.settings.payeesPath)
+					.onChange(async (value) => {
+						this.plugin.settings.payeesPath = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("周期交易模板文件夹路径")
+			.setDesc("存放周期交易模板的目录，每个文件为 type: recurring，启动时自动生成到期交易")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.recurringPath)
+					.setValue(this.plugin.settings.recurringPath)
+					.onChange(async (value) => {
+						this.plugin.settings.recurringPath = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("证券价格文件夹路径")
+			.setDesc("存放证券价格历史的目录，每只证券一个 type: price 文件，用于计算投资账户市值")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.pricesPath)
+					.setValue(this.plugin.settings.pricesPath)
+					.onChange(async (value) => {
+						this.plugin.settings.pricesPath = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("附件文件夹名称")
+			.setDesc("交易附件（小票、发票）复制到交易日期文件夹下的该子文件夹中")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.attachmentsFolder)
+					.setValue(this.plugin.settings.attachmentsFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.attachmentsFolder = value.trim() || "attachments";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("发票金额阈值")
+			.setDesc("达到该金额（本位币）的支出没有附件时列入「缺少发票」；可报销的支出总是需要发票，填 0 则只检查可报销的支出")
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.invoiceThreshold))
+					.onChange(async (value) => {
+						const threshold = parseFloat(value);
+						this.plugin.settings.invoiceThreshold = Number.isFinite(threshold) && threshold > 0 ? threshold : 0;
+						await this.plugin.saveData(this.plugin.settings);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("重复交易日期范围 (天)")
+			.setDesc("同一账户、金额相同或相近、商家相似的交易日期相差不超过该天数时视为疑似重复")
+			.addSlider(slider =>
+				slider
+					.setLimits(0, 7, 1)
+					.setValue(this.plugin.settings.duplicateDateWindow)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.duplicateDateWindow = value;
+						await this.plugin.saveData(this.plugin.settings);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("净资产快照文件")
+			.setDesc("「记录净资产快照」把当时计算出的资产、负债与净资产写入该文件，之后修改旧交易不会改变已记录的数值")
+			.addText((text) =>
+				text
+					.setPlaceholder("Finance/净资产快照.md")
+					.setValue(this.plugin.settings.netWorthSnapshotPath)
+					.onChange(async (value) => {
+						this.plugin.settings.netWorthSnapshotPath = value.trim() || "Finance/净资产快照.md";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("自动记录月末快照")
+			.setDesc("每月第一次打开 Obsidian 时，为上个月末记录一次净资产快照")
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.netWorthAutoSnapshot)
+					.onChange(async (value) => {
+						this.plugin.settings.netWorthAutoSnapshot = value;
+						await this.plugin.saveData(this.plugin.settings);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("现金流预测日常开销 (月)")
+			.setDesc("按最近几个月的支出估算每天的日常开销并计入现金流预测，周期交易生成的支出不计入；设为 0 则只计入已知的未来收支")
+			.addSlider(slider =>
+				slider
+					.setLimits(0, 12, 1)
+					.setValue(this.plugin.settings.forecastBaselineMonths)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.forecastBaselineMonths = value;
+						await this.plugin.saveData(this.plugin.settings);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("本位币")
+			.setDesc("净资产、资产负债及各类统计汇总时换算到的货币代码")
+			.addText((text) =>
+				text
+					.setPlaceholder("CNY")
+					.setValue(this.plugin.settings.baseCurrency)
+					.onChange(async (value) => {
+						this.plugin.settings.baseCurrency = value.trim().toUpperCase() || "CNY";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		this.renderAccountKinds(containerEl);
+
+		new Setting(containerEl)
+			.setName("分期消费统计方式")
+			.setDesc("统计面板中信用卡分期消费按消费日全额计入，还是按各期入账月份分摊")
+			.addDropdown(dropdown => {
+				dropdown.addOption("purchase", "按消费日全额计入");
+				dropdown.addOption("spread", "按期分摊");
+				dropdown
+					.setValue(this.plugin.settings.installmentStatsMode)
+					.onChange(async (value) => {
+						this.plugin.settings.installmentStatsMode = value === "spread" ? "spread" : "purchase";
+						await this.plugin.saveData(this.plugin.settings);
+						void this.plugin.refreshViews();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("报销支出统计方式")
+			.setDesc("统计面板中可报销的支出全额计入、扣除已到账的报销，还是不计入；后两种方式下报销到账不计入收入")
+			.addDropdown(dropdown => {
+				for (const [value, label] of Object.entries(REIMBURSEMENT_STATS_MODE_LABELS)) {
+					dropdown.addOption(value, label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.reimbursementStatsMode)
+					.onChange(async (value) => {
+						this.plugin.settings.reimbursementStatsMode = value as ReimbursementStatsMode;
+						await this.plugin.saveData(this.plugin.settings);
+						void this.plugin.refreshViews();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName("保存交易后高亮")
 			.setDesc("开启后，在编辑保存交易时会自动滚动并在行上展现高亮动画。")
@@ -159,5 +434,173 @@ export class CostSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
+
+		this.renderRules(containerEl);
+	}
+
+	/**
+	 * 账户类型列表：名称、图标、资产 / 负债，可调整顺序、新增和删除
+	 */
+	private renderAccountKinds(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("账户类型")
+			.setDesc("账户文件中 account_kind 对应的名称、图标与排序；负债类账户（信用卡、花呗、贷款等）的负余额计入负债")
+			.setHeading();
+
+		const kinds = this.plugin.settings.accountKinds;
+		const save = async (rerender = false) => {
+			await this.plugin.saveData(this.plugin.settings);
+			void this.plugin.refreshViews();
+			if (rerender) this.display();
+		};
+
+		kinds.forEach((kind, index) => {
+			new Setting(containerEl)
+				.setName(kind.id)
+				.setClass("cost-account-kind-setting")
+				.addText(text => text
+					.setPlaceholder("图标")
+					.setValue(kind.icon)
+					.onChange(async (value) => {
+						kind.icon = value.trim();
+						await save();
+					}))
+				.addText(text => text
+					.setPlaceholder("名称")
+					.setValue(kind.label)
+					.onChange(async (value) => {
+						kind.label = value.trim() || kind.id;
+						await save();
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOption("asset", "资产")
+					.addOption("liability", "负债")
+					.setValue(kind.liability ? "liability" : "asset")
+					.onChange(async (value) => {
+						kind.liability = value === "liability";
+						await save();
+					}))
+				.addExtraButton(button => button
+					.setIcon("arrow-up")
+					.setTooltip("上移")
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) return;
+						kinds.splice(index - 1, 0, ...kinds.splice(index, 1));
+						await save(true);
+					}))
+				.addExtraButton(button => button
+					.setIcon("arrow-down")
+					.setTooltip("下移")
+					.setDisabled(index === kinds.length - 1)
+					.onClick(async () => {
+						if (index === kinds.length - 1) return;
+						kinds.splice(index + 1, 0, ...kinds.splice(index, 1));
+						await save(true);
+					}))
+				.addExtraButton(button => button
+					.setIcon("trash")
+					.setTooltip("删除")
+					.onClick(async () => {
+						kinds.splice(index, 1);
+						await save(true);
+					}));
+		});
+
+		let newId = "";
+		new Setting(containerEl)
+			.setName("添加账户类型")
+			.setDesc("填写账户文件中 account_kind 的值")
+			.addText(text => text
+				.setPlaceholder("如 huabei")
+				.onChange(value => { newId = value.trim(); }))
+			.addButton(button => button
+				.setButtonText("添加")
+				.onClick(async () => {
+					if (!newId || kinds.some(k => k.id === newId)) return;
+					kinds.push({ id: newId, label: newId, icon: "💰", liability: false });
+					await save(true);
+				}))
+			.addExtraButton(button => button
+				.setIcon("rotate-ccw")
+				.setTooltip("恢复默认")
+				.onClick(async () => {
+					this.plugin.settings.accountKinds = DEFAULT_ACCOUNT_KINDS.map(k => ({ ...k }));
+					await save(true);
+				}));
+	}
+
+	/**
+	 * 交易规则列表：启用 / 停用、调整顺序、编辑和删除
+	 */
+	private renderRules(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("交易规则")
+			.setDesc("新建和导入的交易按顺序执行规则，只填写空着的字段；在管理标签页选中交易后可以手动执行并预览修改")
+			.setHeading();
+
+		const rules = this.plugin.settings.rules;
+		const save = async () => {
+			await this.plugin.saveData(this.plugin.settings);
+			this.display();
+		};
+
+		rules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.setName(rule.name)
+				.setDesc(describeRule(rule))
+				.setClass("cost-rule-setting")
+				.addToggle(toggle => toggle
+					.setTooltip("启用")
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						rule.enabled = value;
+						await this.plugin.saveData(this.plugin.settings);
+					}))
+				.addExtraButton(button => button
+					.setIcon("arrow-up")
+					.setTooltip("上移")
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) return;
+						rules.splice(index - 1, 0, ...rules.splice(index, 1));
+						await save();
+					}))
+				.addExtraButton(button => button
+					.setIcon("arrow-down")
+					.setTooltip("下移")
+					.setDisabled(index === rules.length - 1)
+					.onClick(async () => {
+						if (index === rules.length - 1) return;
+						rules.splice(index + 1, 0, ...rules.splice(index, 1));
+						await save();
+					}))
+				.addExtraButton(button => button
+					.setIcon("pencil")
+					.setTooltip("编辑")
+					.onClick(() => {
+						new RuleEditModal(this.app, rule, false, async (edited) => {
+							rules[index] = edited;
+							await save();
+						}).open();
+					}))
+				.addExtraButton(button => button
+					.setIcon("trash")
+					.setTooltip("删除")
+					.onClick(async () => {
+						rules.splice(index, 1);
+						await save();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText("添加规则")
+				.onClick(() => {
+					new RuleEditModal(this.app, createRule(), true, async (rule) => {
+						rules.push(rule);
+						await save();
+					}).open();
+				}));
 	}
 }
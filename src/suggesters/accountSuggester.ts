@@ -235,9 +235,9 @@ export class AccountSuggester extends EditorSuggest<AccountInfo> {
     async getSuggestions(context: EditorSuggestContext): Promise<AccountInfo[]> {
         const query = context.query.trim();
         
-        // 如果查询为空，返回所有账户
+        // 如果查询为空，返回所有未关闭的账户
         if (!query) {
-            return this.accountService.getAccounts();
+            return this.accountService.getActiveAccounts();
         }
 
         // 根据查询过滤账户
@@ -11,12 +11,89 @@ export interface AccountFrontmatter {
     opening_balance: number;
     card_last4?: string;
     credit_limit?: number;
-    billing_day?: string;
-    due_day?: string;
+    /** 账单日（每月第几天） */
+    billing_day?: number | string;
+    /** 还款日（每月第几天） */
+    due_day?: number | string;
     note?: string;
     tags?: string[];
     /** 自定义图标（如 "[[平安银行.png]]"） */
     icon?: string;
+    /** 余额断言（对账单在某日的余额） */
+    balance_assertions?: BalanceAssertion[];
+    /** 账户状态，默认 active */
+    status?: AccountStatus;
+    /** 关闭日期 (YYYY-MM-DD)，当天起不再计入净资产 */
+    closed_date?: string;
+}
+
+/** 账户状态：closed 为已销户，archived 为不再使用；两者都视为已关闭 */
+export type AccountStatus = "active" | "closed" | "archived";
+
+/**
+ * 账户类型定义（设置中配置，列表顺序即分组顺序）
+ */
+export interface AccountKindDefinition {
+    /** 账户文件中 account_kind 的值 */
+    id: string;
+    /** 显示名称 */
+    label: string;
+    /** 分组图标（emoji） */
+    icon: string;
+    /** 是否为负债（负余额计入负债） */
+    liability: boolean;
+}
+
+/**
+ * 交易规则的条件，填写的条件须全部满足
+ * 文本条件不区分大小写按「包含」匹配，写成 /.../ 时按正则匹配
+ */
+export interface TransactionRuleConditions {
+    txn_type?: TransactionFrontmatter["txn_type"];
+    payee?: string;
+    /** 匹配摘要或备注 */
+    memo?: string;
+    min_amount?: number;
+    max_amount?: number;
+    /** from 或 to 为该账户（文件名） */
+    account?: string;
+    /** 时间范围 (HH:MM)，开始晚于结束时表示跨午夜 */
+    time_start?: string;
+    time_end?: string;
+}
+
+/**
+ * 交易规则的动作，只设置填写了的字段；参与人与标签追加而不是替换
+ */
+export interface TransactionRuleActions {
+    category?: string;
+    from?: string;
+    to?: string;
+    persons?: string[];
+    tags?: string[];
+    note?: string;
+}
+
+/**
+ * 交易规则（设置中配置，按列表顺序执行）
+ */
+export interface TransactionRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    conditions: TransactionRuleConditions;
+    actions: TransactionRuleActions;
+}
+
+/**
+ * 余额断言：对账单显示账户在 date 当日结束时的余额为 balance
+ */
+export interface BalanceAssertion {
+    /** 对账日期 (YYYY-MM-DD) */
+    date: string;
+    /** 对账单余额（账户货币） */
+    balance: number;
+    note?: string;
 }
 
 /**
@@ -28,14 +105,14 @@ export interface TransactionFrontmatter {
     date: string;
     /** 时间 (HH:MM:SS) */
     time?: string;
-    txn_type: "收入" | "支出" | "还款" | "转账" | "借款";
+    txn_type: "收入" | "支出" | "还款" | "转账" | "借款" | "借出" | "收回" | "投资" | "退款";
     category: string;
     amount: number;
     /** 优惠金额 (仅还款有效) */
     discount?: number;
-    /** 退款金额 */
+    /** 退款金额（旧格式，新退款请记为关联原支出的退款交易） */
     refund?: number;
-    /** 退款账户 (默认为来源账户) */
+    /** 退款账户 (默认为来源账户，旧格式) */
     refund_to?: string;
     currency: string;
     from: string;
@@ -53,6 +130,154 @@ export interface TransactionFrontmatter {
     tags?: string[];
     /** 参与人 */
     persons?: string[];
+    /** 生成该交易的周期模板（如 "[[房租]]"） */
+    recurring?: string;
+    /** 存入的储蓄目标（如 "[[旅行基金]]"） */
+    goal?: string;
+    /** 拆分明细，各行金额之和应等于 amount */
+    splits?: TransactionSplitFrontmatter[];
+    /** 交易状态：cleared 已核对 / pending 待入账 / void 已作废，缺省视为已入账 */
+    status?: TxnStatus;
+    /** 信用卡分期计划（仅支出） */
+    installment?: InstallmentFrontmatter;
+    /** 分期手续费交易：所属分期消费的 uid */
+    installment_of?: string;
+    /** 分期手续费交易：第几期（从 1 开始） */
+    installment_period?: number;
+    /** 还款 / 收回交易：所结算的借款或借出交易的 uid */
+    loan?: string;
+    /** 借款交易：按期还本付息的贷款计划 */
+    amortization?: AmortizationFrontmatter;
+    /** 还款交易：其中的利息部分，缺省时按贷款计划推算 */
+    interest?: number;
+    /** 投资交易：买入 / 卖出 / 分红 / 费用 */
+    invest_action?: InvestAction;
+    /** 投资交易：证券代码 */
+    security?: string;
+    /** 投资交易：成交数量（份额 / 股数） */
+    quantity?: number;
+    /** 投资交易：成交单价 */
+    price?: number;
+    /** 多人分摊（AA）：参与人、分摊方式与实际付款人 */
+    shared?: SharedExpenseFrontmatter;
+    /** AA 结算交易：付款人与收款人 */
+    settlement?: SettlementFrontmatter;
+    /** 可报销的支出：报销状态 */
+    reimbursement?: ReimbursementFrontmatter;
+    /** 报销到账的收入：所报销支出的 uid */
+    reimburses?: string;
+    /** 退款交易：原支出的 uid */
+    refund_of?: string;
+    /** 附件：小票、发票等文件的链接，如 "[[Finance/Transactions/2024/2024-05/2024-05-20/attachments/发票.pdf]]" */
+    attachments?: string[];
+}
+
+/**
+ * 投资交易动作
+ * - buy: 买入，资金账户减少 amount，计入持仓成本
+ * - sell: 卖出，资金账户增加 amount（扣除费用后的到账金额）
+ * - dividend: 现金分红，资金账户增加 amount
+ * - fee: 账户管理费等费用，资金账户减少 amount
+ */
+export type InvestAction = "buy" | "sell" | "dividend" | "fee";
+
+/**
+ * 分期计划的 frontmatter 类型
+ * fee_rate 与 fee 二选一，同时填写时以 fee 为准
+ */
+export interface InstallmentFrontmatter {
+    /** 期数 */
+    periods: number;
+    /** 每期手续费率（百分比，如 0.6 表示每期 0.6%） */
+    fee_rate?: number;
+    /** 每期固定手续费 */
+    fee?: number;
+    /** 首期入账月份 (YYYY-MM) */
+    first_month: string;
+}
+
+/**
+ * 贷款还款方式：等额本息 / 等额本金
+ */
+export type AmortizationMethod = "equal_installment" | "equal_principal";
+
+/**
+ * 贷款计划的 frontmatter 类型，本金为借款交易的金额
+ */
+export interface AmortizationFrontmatter {
+    /** 年利率（百分比，如 4.2 表示 4.2%） */
+    rate: number;
+    /** 期数（月） */
+    term: number;
+    /** 还款方式，默认等额本息 */
+    method?: AmortizationMethod;
+    /** 首期还款日 (YYYY-MM-DD)，默认借款日一个月后 */
+    first_due?: string;
+}
+
+/**
+ * 分摊方式：均摊 / 按比例 / 指定金额
+ */
+export type ShareMethod = "equal" | "ratio" | "exact";
+
+/**
+ * 多人分摊的 frontmatter 类型
+ */
+export interface SharedExpenseFrontmatter {
+    /** 分摊方式，默认均摊 */
+    method?: ShareMethod;
+    /** 实际付款人，默认为「我」 */
+    paid_by?: string;
+    shares: ShareFrontmatter[];
+}
+
+/**
+ * 分摊参与人；value 在按比例时为权重，指定金额时为应摊金额，均摊时忽略
+ */
+export interface ShareFrontmatter {
+    person: string;
+    value?: number;
+}
+
+/**
+ * AA 结算交易的 frontmatter 类型：from 向 to 支付了交易金额
+ */
+export interface SettlementFrontmatter {
+    from: string;
+    to: string;
+}
+
+/**
+ * 报销状态：待报销 / 已提交 / 已报销
+ */
+export type ReimbursementStatus = "pending" | "submitted" | "reimbursed";
+
+/**
+ * 可报销支出的 frontmatter 类型
+ * 到账金额达到支出金额时自动视为已报销；手动标记为已报销时剩余部分不再追踪
+ */
+export interface ReimbursementFrontmatter {
+    status?: ReimbursementStatus;
+    /** 提交报销的日期 (YYYY-MM-DD) */
+    submitted_date?: string;
+}
+
+/**
+ * 交易状态
+ * - cleared: 已与对账单核对
+ * - pending: 待入账（如信用卡预授权），只计入预计余额
+ * - void: 已作废，保留文件但不计入余额与统计
+ */
+export type TxnStatus = "cleared" | "pending" | "void";
+
+/**
+ * 交易拆分明细行的 frontmatter 类型
+ */
+export interface TransactionSplitFrontmatter {
+    category: string;
+    amount: number;
+    note?: string;
+    persons?: string[];
 }
 
 /**
@@ -69,10 +294,181 @@ export interface AccountInfo {
     accountKind: string;
     /** 机构名称 */
     institution: string;
-    /** 开户余额 */
+    /** 开户余额（开户日期当天开始时的余额） */
     openingBalance: number;
+    /** 开户日期，之前的交易视为已计入开户余额，之前的日期余额为 0 */
+    openingDate?: string;
     /** 货币 */
     currency: string;
     /** 自定义图标（如 "[[平安银行.png]]" */
     icon?: string;
+    /** 余额断言（按日期升序） */
+    balanceAssertions: BalanceAssertion[];
+    /** 卡号后四位 */
+    cardLast4?: string;
+    /** 信用额度（账户货币） */
+    creditLimit?: number;
+    /** 账单日（每月第几天） */
+    billingDay?: number;
+    /** 还款日（每月第几天，不大于账单日时为次月） */
+    dueDay?: number;
+    status: AccountStatus;
+    /** 关闭日期，未填写时视为已关闭 */
+    closedDate?: string;
+}
+
+/**
+ * 汇率文件的 frontmatter 类型
+ * 每个文件是一张按日期生效的汇率表：1 单位 rates 中的货币 = 对应数值的 base 货币
+ */
+export interface ExchangeRateFrontmatter {
+    type: "fx_rate";
+    /** 生效日期 (YYYY-MM-DD) */
+    date: string;
+    /** 报价货币（如 "CNY"） */
+    base: string;
+    /** 货币代码 -> 以 base 计价的汇率（如 { USD: 7.18, HKD: 0.92 }） */
+    rates: Record<string, number>;
+    note?: string;
+}
+
+/**
+ * 证券价格文件的 frontmatter 类型
+ * 每个文件对应一只证券，prices 为按日期记录的收盘价 / 净值
+ */
+export interface PriceFrontmatter {
+    type: "price";
+    /** 证券代码（如 "510300"、"AAPL"） */
+    security: string;
+    /** 证券名称 */
+    name?: string;
+    /** 报价货币，默认本位币 */
+    currency?: string;
+    prices: PriceEntryFrontmatter[];
+}
+
+export interface PriceEntryFrontmatter {
+    /** 日期 (YYYY-MM-DD) */
+    date: string;
+    price: number;
+}
+
+/**
+ * 净资产快照文件的 frontmatter 类型
+ * 快照记录当时计算出的资产与负债，之后修改旧交易不会改变已记录的数值
+ */
+export interface NetWorthSnapshotFrontmatter {
+    type: "net_worth";
+    /** 本位币 */
+    currency: string;
+    snapshots: NetWorthSnapshotEntryFrontmatter[];
+}
+
+export interface NetWorthSnapshotEntryFrontmatter {
+    /** 快照对应的日期 (YYYY-MM-DD)，即当天结束时的余额 */
+    date: string;
+    assets: number;
+    liabilities: number;
+    net_worth: number;
+    /** 记录时间 (YYYY-MM-DD HH:MM) */
+    recorded_at: string;
+}
+
+/**
+ * 储蓄目标文件的 frontmatter 类型
+ * 进度来自关联账户的余额，以及 goal 字段指向该目标的交易
+ */
+export interface GoalFrontmatter {
+    type: "goal";
+    /** 显示名称，缺省为文件名 */
+    name?: string;
+    /** 目标金额 */
+    target: number;
+    /** 目标货币，默认本位币 */
+    currency?: string;
+    /** 目标日期 (YYYY-MM-DD) */
+    target_date?: string;
+    /** 关联账户（如 ["[[旅行储蓄卡]]"]），余额计入进度 */
+    accounts?: string[];
+    note?: string;
+}
+
+/**
+ * 商家文件的 frontmatter 类型
+ * 交易中的 payee 与名称或任一别名相同（不区分大小写）时视为同一商家
+ */
+export interface PayeeFrontmatter {
+    type: "payee";
+    /** 规范名称，缺省为文件名 */
+    name?: string;
+    /** 别名（如 ["美团外卖", "Meituan"]） */
+    aliases?: string[];
+    /** 默认分类 */
+    category?: string;
+    /** 默认账户（如 "[[招商银行]]"） */
+    account?: string;
+    /** 标志图片（如 "[[meituan.png]]"） */
+    logo?: string;
+    note?: string;
+}
+
+/**
+ * 预算文件的 frontmatter 类型
+ */
+export interface BudgetFrontmatter {
+    type: "budget";
+    /** 预算分类，可为一级分类（"餐饮"）或子分类（"餐饮/外卖"） */
+    category: string;
+    /** 每个周期的预算金额（本位币） */
+    amount: number;
+    /** 预算周期 */
+    period: "monthly" | "yearly";
+    /** 是否将未用完的额度结转到下一周期 */
+    rollover?: boolean;
+    /** 开始生效日期 (YYYY-MM-DD)，结转从该日期所在周期起算 */
+    start_date?: string;
+    note?: string;
+}
+
+/**
+ * 周期规则
+ * - daily: 每天
+ * - weekly: 每周（与开始日期同一星期几）
+ * - monthly: 每月第 day 天
+ * - yearly: 每年（与开始日期同月同日）
+ * - every_n_months: 每 interval 个月的第 day 天
+ */
+export type RecurrenceRule = "daily" | "weekly" | "monthly" | "yearly" | "every_n_months";
+
+/**
+ * 周期交易模板的 frontmatter 类型
+ */
+export interface RecurringFrontmatter {
+    type: "recurring";
+    /** 模板名称（默认为文件名） */
+    name?: string;
+    rule: RecurrenceRule;
+    /** 间隔月数（仅 every_n_months） */
+    interval?: number;
+    /** 每月第几天（monthly / every_n_months，超出当月天数时取月末） */
+    day?: number;
+    /** 开始日期 (YYYY-MM-DD) */
+    start_date: string;
+    /** 结束日期 (YYYY-MM-DD)，留空表示长期 */
+    end_date?: string;
+    /** 是否暂停 */
+    paused?: boolean;
+    /** 最近一次已生成的日期 */
+    last_generated?: string;
+    /** 需要跳过的日期 */
+    skip_dates?: string[];
+    txn_type: TransactionFrontmatter["txn_type"];
+    category: string;
+    amount: number;
+    currency?: string;
+    from?: string;
+    to?: string;
+    payee?: string;
+    memo?: string;
+    persons?: string[];
 }
@@ -0,0 +1,78 @@
+/**
+ * 账户类型相关工具函数
+ * 账户类型的名称、图标、排序以及资产 / 负债属性统一来自设置中的账户类型列表，
+ * 侧边栏分组、账户列表和净资产汇总都从这里读取。
+ */
+import { AccountInfo, AccountKindDefinition } from "../types";
+
+/** 默认账户类型（按列表顺序排序） */
+export const DEFAULT_ACCOUNT_KINDS: AccountKindDefinition[] = [
+    { id: "bank", label: "银行卡", icon: "🏦", liability: false },
+    { id: "credit", label: "信用卡", icon: "💳", liability: true },
+    { id: "wallet", label: "电子钱包", icon: "👛", liability: false },
+    { id: "cash", label: "现金", icon: "💵", liability: false },
+    { id: "prepaid", label: "预付卡", icon: "🎫", liability: false },
+    { id: "investment", label: "投资账户", icon: "📈", liability: false },
+    { id: "loan", label: "贷款 / 消费信贷", icon: "🏛️", liability: true },
+    { id: "other", label: "其他", icon: "💰", liability: false },
+];
+
+/** 未在设置中定义的账户类型使用的图标 */
+const FALLBACK_ICON = "💰";
+
+/**
+ * 查找账户类型定义；未定义的类型按资产处理，名称即类型代码
+ */
+export function resolveAccountKind(kinds: AccountKindDefinition[], id: string): AccountKindDefinition {
+    const kind = id || "other";
+    return kinds.find(k => k.id === kind) ?? { id: kind, label: kind, icon: FALLBACK_ICON, liability: false };
+}
+
+/**
+ * 账户是否为负债类账户（如信用卡、花呗、贷款）
+ */
+export function isLiabilityAccount(kinds: AccountKindDefinition[], account: AccountInfo): boolean {
+    return resolveAccountKind(kinds, account.accountKind).liability;
+}
+
+/**
+ * 按账户类型分组，分组顺序与设置中的列表一致，未定义的类型排在最后
+ */
+export function groupAccountsByKind(kinds: AccountKindDefinition[], accounts: AccountInfo[]): { kind: AccountKindDefinition; accounts: AccountInfo[] }[] {
+    const grouped = new Map<string, AccountInfo[]>();
+    for (const account of accounts) {
+        const id = account.accountKind || "other";
+        grouped.set(id, [...(grouped.get(id) ?? []), account]);
+    }
+
+    const order = (id: string) => {
+        const index = kinds.findIndex(k => k.id === id);
+        return index < 0 ? kinds.length : index;
+    };
+    return Array.from(grouped.entries())
+        .sort((a, b) => order(a[0]) - order(b[0]))
+        .map(([id, group]) => ({ kind: resolveAccountKind(kinds, id), accounts: group }));
+}
+
+/**
+ * 汇总资产与负债（本位币）
+ * 负债类账户只有负余额部分计为负债，其他账户的余额均计入资产
+ * @param getValueInBase 账户价值（本位币）
+ */
+export function summarizeNetWorth(
+    kinds: AccountKindDefinition[],
+    accounts: AccountInfo[],
+    getValueInBase: (account: AccountInfo) => number
+): { assets: number; liabilities: number; netWorth: number } {
+    let assets = 0;
+    let liabilities = 0;
+    for (const account of accounts) {
+        const balance = getValueInBase(account);
+        if (isLiabilityAccount(kinds, account)) {
+            liabilities += Math.abs(Math.min(0, balance));
+        } else {
+            assets += balance;
+        }
+    }
+    return { assets, liabilities, netWorth: assets - liabilities };
+}
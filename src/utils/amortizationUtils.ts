@@ -0,0 +1,193 @@
+/**
+ * 贷款还款计划相关工具函数
+ * 按月计息（年利率 / 12），每期利息 = 期初剩余本金 × 月利率；
+ * 每期都用剩余本金和剩余期数重新计算月供，提前还款后自动减少之后的月供。
+ */
+import { AmortizationPlan, TransactionInfo } from "../services/transactionService";
+import { addMonths, roundCurrency } from "./format";
+
+/** 贷款利息在统计中使用的支出分类 */
+export const LOAN_INTEREST_CATEGORY = "利息";
+
+/**
+ * 一笔计入贷款的还款（金额已换算为贷款货币）
+ */
+export interface LoanPayment {
+    txn: TransactionInfo;
+    amount: number;
+}
+
+/**
+ * 还款计划中的一期
+ */
+export interface AmortizationRow {
+    /** 第几期（从 1 开始） */
+    index: number;
+    dueDate: string;
+    /** 月供（已还期为实际还款合计） */
+    payment: number;
+    principal: number;
+    interest: number;
+    /** 本期后的剩余本金 */
+    remaining: number;
+    /** 本期是否已有还款 */
+    paid: boolean;
+    /** 超出计划本金的提前还款部分 */
+    prepaid: number;
+    /** 计入本期的还款交易 */
+    payments: TransactionInfo[];
+}
+
+export interface AmortizationSchedule {
+    rows: AmortizationRow[];
+    /** 还款交易路径 -> 其中的利息（以还款交易的货币计） */
+    interestByPath: Map<string, number>;
+    principalPaid: number;
+    interestPaid: number;
+    remainingPrincipal: number;
+    /** 按计划还清的日期 */
+    payoffDate: string;
+    /** 尚未还款的期数 */
+    remainingPeriods: number;
+    /** 下一期尚未还款的计划 */
+    nextPayment: AmortizationRow | null;
+}
+
+/**
+ * 剩余本金在剩余期数内的计划本金（不含利息）
+ */
+function getScheduledPrincipal(plan: AmortizationPlan, balance: number, interest: number, periodsLeft: number): number {
+    if (periodsLeft <= 1) return balance;
+    if (plan.method === "equal_principal") return roundCurrency(balance / periodsLeft);
+    const r = plan.rate / 1200;
+    const payment = r === 0
+        ? balance / periodsLeft
+        : balance * r / (1 - Math.pow(1 + r, -periodsLeft));
+    return Math.min(balance, roundCurrency(payment - interest));
+}
+
+/**
+ * 还款是否并入当前期：同月的多笔还款（分笔或提前还款）并入同一期；
+ * 补还逾期的期数时，同月的下一笔还款计入下一期
+ */
+function joinsPeriod(periodPayments: LoanPayment[], dueDate: string, date: string): boolean {
+    const first = periodPayments[0];
+    if (!first) return true;
+    const month = date.slice(0, 7);
+    return month === first.txn.date.slice(0, 7) && month <= dueDate.slice(0, 7);
+}
+
+/**
+ * 生成贷款的完整还款计划
+ * 还款按时间顺序计入最早的未还期（末期计入剩余的全部还款），漏还的期数不会让之后的还款错位；
+ * 已还期按实际还款拆分本息：同一期内第一笔还款先付本期利息，其余部分均为本金；
+ * 还款交易填写了 interest 时以其为准。最后一笔还款之后的未还期按当前剩余本金推算。
+ */
+export function buildAmortizationSchedule(plan: AmortizationPlan, principal: number, payments: LoanPayment[]): AmortizationSchedule {
+    const sorted = [...payments].sort((a, b) =>
+        a.txn.date.localeCompare(b.txn.date) || (a.txn.time || "").localeCompare(b.txn.time || "")
+    );
+
+    const r = plan.rate / 1200;
+    const rows: AmortizationRow[] = [];
+    const interestByPath = new Map<string, number>();
+    let balance = principal;
+    let principalPaid = 0;
+    let interestPaid = 0;
+    let next = 0;
+
+    for (let index = 1; index <= plan.term; index++) {
+        const dueDate = addMonths(plan.firstDue, index - 1);
+        const periodPayments: LoanPayment[] = [];
+        for (const p of sorted.slice(next)) {
+            if (index < plan.term && !joinsPeriod(periodPayments, dueDate, p.txn.date)) break;
+            periodPayments.push(p);
+        }
+        next += periodPayments.length;
+        if (balance <= 0 && periodPayments.length === 0) break;
+
+        const interest = roundCurrency(balance * r);
+        const scheduled = getScheduledPrincipal(plan, balance, interest, plan.term - index + 1);
+
+        if (periodPayments.length === 0) {
+            balance = roundCurrency(balance - scheduled);
+            rows.push({
+                index, dueDate,
+                payment: roundCurrency(scheduled + interest),
+                principal: scheduled,
+                interest,
+                remaining: balance,
+                paid: false,
+                prepaid: 0,
+                payments: [],
+            });
+            continue;
+        }
+
+        let interestLeft = interest;
+        let paidPrincipal = 0;
+        let paidInterest = 0;
+        let paidTotal = 0;
+        for (const p of periodPayments) {
+            const share = roundCurrency(Math.min(p.amount, p.txn.interest ?? interestLeft));
+            interestLeft = Math.max(0, roundCurrency(interestLeft - share));
+            interestByPath.set(p.txn.path, p.amount > 0 ? roundCurrency(share * p.txn.amount / p.amount) : 0);
+            paidInterest += share;
+            paidPrincipal += p.amount - share;
+            paidTotal += p.amount;
+        }
+        paidPrincipal = roundCurrency(paidPrincipal);
+        balance = Math.max(0, roundCurrency(balance - paidPrincipal));
+        principalPaid += paidPrincipal;
+        interestPaid += paidInterest;
+
+        rows.push({
+            index, dueDate,
+            payment: roundCurrency(paidTotal),
+            principal: paidPrincipal,
+            interest: roundCurrency(paidInterest),
+            remaining: balance,
+            paid: true,
+            prepaid: Math.max(0, roundCurrency(paidPrincipal - scheduled)),
+            payments: periodPayments.map(p => p.txn),
+        });
+    }
+
+    const unpaid = rows.filter(row => !row.paid);
+    return {
+        rows,
+        interestByPath,
+        principalPaid: roundCurrency(principalPaid),
+        interestPaid: roundCurrency(interestPaid),
+        remainingPrincipal: Math.max(0, roundCurrency(principal - principalPaid)),
+        payoffDate: rows[rows.length - 1]?.dueDate ?? plan.firstDue,
+        remainingPeriods: unpaid.length,
+        nextPayment: unpaid[0] ?? null,
+    };
+}
+
+/**
+ * 把还款中的利息展开为「利息」分类的虚拟支出（仅用于统计，不要传给编辑弹窗）
+ * 还款本身不计入收支，只有利息部分作为支出统计。
+ */
+export function expandLoanInterest(transactions: TransactionInfo[], interestByPath: Map<string, number>): TransactionInfo[] {
+    const result: TransactionInfo[] = [];
+    for (const txn of transactions) {
+        result.push(txn);
+        const interest = interestByPath.get(txn.path);
+        if (txn.txnType !== "还款" || !interest || interest <= 0) continue;
+        result.push({
+            ...txn,
+            txnType: "支出",
+            category: LOAN_INTEREST_CATEGORY,
+            amount: interest,
+            discount: 0,
+            refund: 0,
+            refundTo: "",
+            to: "",
+            memo: `${txn.memo ? txn.memo + " " : ""}贷款利息`,
+            splits: undefined,
+        });
+    }
+    return result;
+}
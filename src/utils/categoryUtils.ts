@@ -3,8 +3,9 @@
  * 包含分类分组逻辑、图标映射、颜色生成
  */
 import { TransactionInfo } from "../services/transactionService";
+import { InvestAction } from "../types";
 
-export type TxnType = "支出" | "收入" | "转账" | "还款" | "借款";
+export type TxnType = "支出" | "收入" | "转账" | "还款" | "借款" | "借出" | "收回" | "投资" | "退款";
 
 export interface TypeOption {
     value: TxnType;
@@ -23,15 +24,28 @@ export const TYPE_OPTIONS: TypeOption[] = [
     { value: "转账", label: "转账" },
     { value: "还款", label: "还款" },
     { value: "借款", label: "借款" },
+    { value: "借出", label: "借出" },
+    { value: "收回", label: "收回" },
+    { value: "投资", label: "投资" },
+    { value: "退款", label: "退款" },
 ];
 
+/** 投资动作的显示名称 */
+export const INVEST_ACTION_LABELS: Record<InvestAction, string> = {
+    buy: "买入",
+    sell: "卖出",
+    dividend: "分红",
+    fee: "费用",
+};
+
 /**
  * 从交易记录中收集分类分组
  */
 export function collectCategoryGroups(transactions: TransactionInfo[], type: TxnType): CategoryGroup[] {
+    // 拆分交易使用各明细行的分类；退款沿用支出的分类
     const txCategories = transactions
-        .filter(t => t.txnType === type)
-        .map((t) => t.category)
+        .filter(t => t.txnType === type || (type === "退款" && t.txnType === "支出"))
+        .flatMap((t) => t.splits ? t.splits.map((s) => s.category) : [t.category])
         .filter((c): c is string => typeof c === "string" && Boolean(c.trim() !== ""))
         .map((c) => c.trim());
 
@@ -98,6 +112,19 @@ function getDefaultCategories(type: TxnType): CategoryGroup[] {
             { primary: "信用借款", selectableSelf: true, children: [] },
             { primary: "其他", selectableSelf: true, children: [] }
         ];
+    } else if (type === "投资") {
+        return [
+            { primary: "股票", selectableSelf: true, children: [] },
+            { primary: "基金", selectableSelf: true, children: [] },
+            { primary: "债券", selectableSelf: true, children: [] },
+            { primary: "其他", selectableSelf: true, children: [] }
+        ];
+    } else if (type === "借出" || type === "收回") {
+        return [
+            { primary: "个人借款", selectableSelf: true, children: [] },
+            { primary: "垫付", selectableSelf: true, children: [] },
+            { primary: "其他", selectableSelf: true, children: [] }
+        ];
     }
     // Default: Expenses
     return [
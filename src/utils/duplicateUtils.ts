@@ -0,0 +1,200 @@
+/**
+ * 重复交易检测工具函数
+ * 同一账户、金额相同或相近、日期相差不超过 N 天且商家相似的两笔交易视为疑似重复；
+ * uid 相同的两个文件（同一毫秒创建或同步冲突产生的副本）总是列出。
+ */
+import { TransactionInfo } from "../services/transactionService";
+
+/**
+ * 一对疑似重复的交易
+ */
+export interface DuplicatePair {
+    a: TransactionInfo;
+    b: TransactionInfo;
+    /** 0 ~ 1，越高越可能重复 */
+    score: number;
+    /** 判定依据，如「金额相同」「同一天」 */
+    reasons: string[];
+    /** 两个文件的 uid 相同 */
+    uidCollision: boolean;
+}
+
+export interface DuplicateOptions {
+    /** 日期最多相差的天数 */
+    dateWindowDays: number;
+    /** 金额相近的相对误差，如 0.02 表示 2% 以内 */
+    amountTolerance: number;
+    /** 商家相似度下限（两边都填写商家时） */
+    minPayeeSimilarity: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+    dateWindowDays: 2,
+    amountTolerance: 0.02,
+    minPayeeSimilarity: 0.5,
+};
+
+/**
+ * 一对交易的稳定标识，用于记住「不是重复」；uid 冲突时 uid 无法区分两个文件，改用路径
+ */
+export function getDuplicatePairKey(a: TransactionInfo, b: TransactionInfo): string {
+    const ids = a.uid && b.uid && a.uid !== b.uid ? [a.uid, b.uid] : [a.path, b.path];
+    return ids.sort().join("|");
+}
+
+/**
+ * 在交易列表中查找疑似重复的交易对（按可能性从高到低）
+ * @param dismissed 已标记为「不是重复」的交易对标识
+ */
+export function findDuplicatePairs(
+    transactions: TransactionInfo[],
+    dismissed: Set<string> = new Set(),
+    options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicatePair[] {
+    const pairs: DuplicatePair[] = [];
+    const seen = new Set<string>();
+    const push = (pair: DuplicatePair) => {
+        const key = getDuplicatePairKey(pair.a, pair.b);
+        if (seen.has(key) || dismissed.has(key)) return;
+        seen.add(key);
+        pairs.push(pair);
+    };
+
+    // uid 冲突
+    const byUid = new Map<string, TransactionInfo[]>();
+    for (const txn of transactions) {
+        if (!txn.uid) continue;
+        byUid.set(txn.uid, [...(byUid.get(txn.uid) ?? []), txn]);
+    }
+    for (const group of byUid.values()) {
+        for (let i = 0; i < group.length; i++) {
+            for (let j = i + 1; j < group.length; j++) {
+                const a = group[i]!, b = group[j]!;
+                const match = matchTransactions(a, b, options);
+                push({
+                    a, b,
+                    score: Math.max(match?.score ?? 0, 0.5),
+                    reasons: ["uid 相同", ...(match?.reasons ?? [])],
+                    uidCollision: true,
+                });
+            }
+        }
+    }
+
+    // 按日期排序后只比较时间窗口内的交易
+    const sorted = [...transactions].sort((x, y) => x.date.localeCompare(y.date));
+    for (let i = 0; i < sorted.length; i++) {
+        const a = sorted[i]!;
+        for (let j = i + 1; j < sorted.length; j++) {
+            const b = sorted[j]!;
+            if (diffDays(a.date, b.date) > options.dateWindowDays) break;
+            const match = matchTransactions(a, b, options);
+            if (match) push({ a, b, ...match, uidCollision: false });
+        }
+    }
+
+    return pairs.sort((x, y) => y.score - x.score || y.a.date.localeCompare(x.a.date));
+}
+
+/**
+ * 查找与一笔（尚未保存的）交易疑似重复的已有交易
+ */
+export function findDuplicatesOf(
+    draft: TransactionInfo,
+    transactions: TransactionInfo[],
+    dismissed: Set<string> = new Set(),
+    options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicatePair[] {
+    const result: DuplicatePair[] = [];
+    for (const txn of transactions) {
+        if (txn.path === draft.path) continue;
+        if (dismissed.has(getDuplicatePairKey(draft, txn))) continue;
+        const match = matchTransactions(draft, txn, options);
+        if (match) result.push({ a: draft, b: txn, ...match, uidCollision: false });
+    }
+    return result.sort((x, y) => y.score - x.score);
+}
+
+/**
+ * 判断两笔交易是否疑似重复，不是时返回 null
+ */
+function matchTransactions(
+    a: TransactionInfo,
+    b: TransactionInfo,
+    options: DuplicateOptions
+): { score: number; reasons: string[] } | null {
+    if (a.path === b.path || a.txnType !== b.txnType) return null;
+    // 互相关联的交易（退款、报销到账、还款等）不是重复
+    if (isLinked(a, b) || isLinked(b, a)) return null;
+
+    if (normalizeAccount(a.from) !== normalizeAccount(b.from) || normalizeAccount(a.to) !== normalizeAccount(b.to)) {
+        return null;
+    }
+    if ((a.currency || "") !== (b.currency || "")) return null;
+
+    const days = diffDays(a.date, b.date);
+    if (days > options.dateWindowDays) return null;
+
+    const amountDiff = Math.abs(a.amount - b.amount);
+    const sameAmount = amountDiff < 0.005;
+    if (!sameAmount && amountDiff > Math.max(a.amount, b.amount) * options.amountTolerance) return null;
+
+    const payeeA = normalizeText(a.payee), payeeB = normalizeText(b.payee);
+    const bothPayees = Boolean(payeeA && payeeB);
+    const similarity = bothPayees ? textSimilarity(payeeA, payeeB) : 0;
+    if (bothPayees && similarity < options.minPayeeSimilarity) return null;
+
+    const reasons: string[] = [sameAmount ? "金额相同" : "金额相近", days === 0 ? "同一天" : `相差 ${days} 天`];
+    if (bothPayees) reasons.push(similarity >= 1 ? "商家相同" : "商家相似");
+    if (a.category && a.category === b.category) reasons.push("分类相同");
+
+    let score = 0.3;
+    score += sameAmount ? 0.3 : 0.15;
+    score += 0.15 * (1 - days / (options.dateWindowDays + 1));
+    score += bothPayees ? 0.2 * similarity : 0.05;
+    if (a.category && a.category === b.category) score += 0.05;
+    return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
+
+function isLinked(a: TransactionInfo, b: TransactionInfo): boolean {
+    if (!b.uid) return false;
+    return [a.refundOf, a.reimburses, a.loan, a.installmentOf].includes(b.uid);
+}
+
+function normalizeAccount(name: string): string {
+    return name.replace(/\[\[|\]\]/g, "").trim();
+}
+
+function normalizeText(text: string): string {
+    return text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, "");
+}
+
+/**
+ * 字符二元组的 Dice 系数；较短的一方是另一方的子串时视为相似（如「星巴克」与「星巴克咖啡」）
+ */
+export function textSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (!a || !b) return 0;
+    if (a.includes(b) || b.includes(a)) return 0.8;
+    const bigrams = (s: string) => {
+        const result = new Map<string, number>();
+        for (let i = 0; i < s.length - 1; i++) {
+            const gram = s.slice(i, i + 2);
+            result.set(gram, (result.get(gram) ?? 0) + 1);
+        }
+        return result;
+    };
+    const ga = bigrams(a), gb = bigrams(b);
+    let overlap = 0;
+    for (const [gram, count] of ga) overlap += Math.min(count, gb.get(gram) ?? 0);
+    const total = Math.max(1, a.length - 1) + Math.max(1, b.length - 1);
+    return (2 * overlap) / total;
+}
+
+function diffDays(a: string, b: string): number {
+    const [ay, am, ad] = a.split("-").map(Number) as [number, number, number];
+    const [by, bm, bd] = b.split("-").map(Number) as [number, number, number];
+    const days = Math.abs(Math.round((new Date(by, bm - 1, bd).getTime() - new Date(ay, am - 1, ad).getTime()) / 86400000));
+    // 日期无效时视为相差无穷远
+    return Number.isFinite(days) ? days : Infinity;
+}
@@ -18,6 +18,32 @@ export function formatCompact(num: number): string {
     return num.toFixed(0);
 }
 
+/**
+ * 常用货币符号，未列出的货币直接显示货币代码
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    CNY: "¥",
+    USD: "$",
+    HKD: "HK$",
+    EUR: "€",
+    GBP: "£",
+    JPY: "JP¥",
+    TWD: "NT$",
+    MOP: "MOP$",
+    KRW: "₩",
+    SGD: "S$",
+    AUD: "A$",
+    CAD: "C$",
+};
+
+/**
+ * Get display symbol for a currency code (e.g. "CNY" -> "¥")
+ */
+export function getCurrencySymbol(currency: string): string {
+    const code = (currency || "").trim().toUpperCase();
+    return CURRENCY_SYMBOLS[code] ?? `${code} `;
+}
+
 /**
  * Normalize balance to avoid -0 display
  */
@@ -59,3 +85,13 @@ export function getLocalTimeString(date: Date = new Date()): string {
     const min = String(date.getMinutes()).padStart(2, "0");
     return `${h}:${min}`;
 }
+
+/**
+ * 日期加减若干月 (YYYY-MM-DD)，目标月份没有该日时取月末；日期无效时返回空字符串
+ */
+export function addMonths(date: string, months: number): string {
+    const [y, m, d] = date.split("-").map(Number);
+    if (!y || !m || !d) return "";
+    const lastDay = new Date(y, m - 1 + months + 1, 0).getDate();
+    return getLocalDateString(new Date(y, m - 1 + months, Math.min(d, lastDay)));
+}
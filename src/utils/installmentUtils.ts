@@ -0,0 +1,90 @@
+/**
+ * 信用卡分期相关工具函数
+ * 每期本金 = 总额 / 期数（最后一期承担舍入差额），手续费单独计入「分期手续费」分类
+ */
+import { InstallmentPlan, TransactionInfo } from "../services/transactionService";
+import { getLocalDateString, roundCurrency } from "./format";
+
+/** 分期手续费交易使用的分类 */
+export const INSTALLMENT_FEE_CATEGORY = "分期手续费";
+
+/**
+ * 分期计划中的一期
+ */
+export interface InstallmentPeriod {
+    /** 第几期（从 1 开始） */
+    index: number;
+    /** 入账月份 (YYYY-MM) */
+    month: string;
+    /** 入账日期：入账月份中与消费日同一天（超出当月天数时取月末） */
+    date: string;
+    principal: number;
+    fee: number;
+}
+
+/**
+ * 每期手续费：固定手续费优先，否则按本金 × 费率
+ */
+export function getInstallmentFee(plan: InstallmentPlan, amount: number): number {
+    if (plan.fee > 0) return plan.fee;
+    return roundCurrency(amount * plan.feeRate / 100);
+}
+
+/**
+ * 生成分期还款计划
+ */
+export function getInstallmentSchedule(plan: InstallmentPlan, amount: number, purchaseDate: string): InstallmentPeriod[] {
+    const [fy, fm] = plan.firstMonth.split("-").map(Number) as [number, number];
+    const day = parseInt(purchaseDate.slice(8, 10), 10) || 1;
+    const perPeriod = roundCurrency(amount / plan.periods);
+    const fee = getInstallmentFee(plan, amount);
+
+    const result: InstallmentPeriod[] = [];
+    for (let i = 0; i < plan.periods; i++) {
+        const lastDay = new Date(fy, fm - 1 + i + 1, 0).getDate();
+        const date = getLocalDateString(new Date(fy, fm - 1 + i, Math.min(day, lastDay)));
+        const isLast = i === plan.periods - 1;
+        result.push({
+            index: i + 1,
+            month: date.slice(0, 7),
+            date,
+            principal: isLast ? roundCurrency(amount - perPeriod * (plan.periods - 1)) : perPeriod,
+            fee,
+        });
+    }
+    return result;
+}
+
+/**
+ * 将分期消费按期展开为每期一条的虚拟交易（仅用于统计，不要传给编辑弹窗）
+ * 退款按每期本金比例分摊；带拆分明细的交易按比例缩放明细金额。
+ */
+export function spreadInstallments(transactions: TransactionInfo[]): TransactionInfo[] {
+    const result: TransactionInfo[] = [];
+    for (const txn of transactions) {
+        const plan = txn.installment;
+        if (!plan || txn.txnType !== "支出" || !txn.amount) {
+            result.push(txn);
+            continue;
+        }
+
+        let refundLeft = txn.refund || 0;
+        const schedule = getInstallmentSchedule(plan, txn.amount, txn.date);
+        schedule.forEach((period, i) => {
+            const ratio = period.principal / txn.amount;
+            const refund = i === schedule.length - 1 ? refundLeft : roundCurrency((txn.refund || 0) * ratio);
+            refundLeft = roundCurrency(refundLeft - refund);
+
+            result.push({
+                ...txn,
+                date: period.date,
+                amount: period.principal,
+                refund,
+                memo: `${txn.memo ? txn.memo + " " : ""}分期 ${period.index}/${plan.periods}`,
+                splits: txn.splits?.map(s => ({ ...s, amount: roundCurrency(s.amount * ratio) })),
+                installment: undefined,
+            });
+        });
+    }
+    return result;
+}
@@ -0,0 +1,50 @@
+/**
+ * 退款相关工具函数
+ * 退款记为独立的「退款」交易，通过 refund_of 关联原支出的 uid，在退款日期计入余额与统计
+ */
+import { TransactionInfo } from "../services/transactionService";
+import { roundCurrency } from "./format";
+
+/**
+ * 按原支出 uid 分组的退款交易（按日期升序）
+ */
+export function groupRefundsByOriginal(transactions: TransactionInfo[]): Map<string, TransactionInfo[]> {
+    const result = new Map<string, TransactionInfo[]>();
+    for (const txn of transactions) {
+        if (txn.txnType !== "退款" || !txn.refundOf) continue;
+        result.set(txn.refundOf, [...(result.get(txn.refundOf) ?? []), txn]);
+    }
+    for (const list of result.values()) {
+        list.sort((a, b) => a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || ""));
+    }
+    return result;
+}
+
+/**
+ * 支出累计已退款金额：旧格式的 refund 字段加上关联的退款交易（退款按原支出的货币记录）
+ */
+export function getRefundedAmount(txn: TransactionInfo, refundsByUid: Map<string, TransactionInfo[]>): number {
+    const linked = txn.uid ? refundsByUid.get(txn.uid) ?? [] : [];
+    return roundCurrency(linked.reduce((sum, r) => sum + r.amount, txn.refund || 0));
+}
+
+/**
+ * 把退款交易转换为退款日期上金额为 0、退款为退款金额的虚拟支出（仅用于统计，不要传给编辑弹窗）
+ * 分类取原支出的当前分类，找不到原支出时使用退款交易自身的分类。
+ */
+export function expandRefunds(transactions: TransactionInfo[]): TransactionInfo[] {
+    const byUid = new Map(transactions.filter(t => t.uid).map(t => [t.uid, t]));
+    return transactions.map(txn => {
+        if (txn.txnType !== "退款") return txn;
+        const original = txn.refundOf ? byUid.get(txn.refundOf) : undefined;
+        return {
+            ...txn,
+            txnType: "支出",
+            category: original?.category || txn.category,
+            amount: 0,
+            refund: txn.amount,
+            from: txn.to,
+            to: "",
+        };
+    });
+}
@@ -0,0 +1,67 @@
+/**
+ * 报销相关工具函数
+ * 统计类视图通过 applyReimbursementStats 决定可报销支出如何计入统计
+ */
+import { TransactionInfo } from "../services/transactionService";
+import { ReimbursementStatus } from "../types";
+import { roundCurrency } from "./format";
+
+/**
+ * 可报销支出的统计方式
+ * - include: 全额计入支出，报销到账计入收入
+ * - net: 支出扣除已到账的报销金额，报销到账不计入收入
+ * - exclude: 可报销支出与报销到账都不计入
+ */
+export type ReimbursementStatsMode = "include" | "net" | "exclude";
+
+/** 报销到账收入的默认分类 */
+export const REIMBURSEMENT_CATEGORY = "报销";
+
+/** 报销状态的显示名称 */
+export const REIMBURSEMENT_STATUS_LABELS: Record<ReimbursementStatus, string> = {
+    pending: "待报销",
+    submitted: "已提交",
+    reimbursed: "已报销",
+};
+
+/** 统计方式的显示名称 */
+export const REIMBURSEMENT_STATS_MODE_LABELS: Record<ReimbursementStatsMode, string> = {
+    include: "全额计入",
+    net: "扣除报销",
+    exclude: "不计入",
+};
+
+/**
+ * 按统计方式处理可报销支出（仅用于统计，不要传给编辑弹窗）
+ * 扣除报销时把已到账金额并入退款，拆分交易随后按比例分摊到各行。
+ * @param receivedByPath 支出路径 -> 已到账的报销金额（以支出的货币计）
+ */
+export function applyReimbursementStats(
+    transactions: TransactionInfo[],
+    mode: ReimbursementStatsMode,
+    receivedByPath: Map<string, number>
+): TransactionInfo[] {
+    if (mode === "include") return transactions;
+
+    const reimbursable = new Set(transactions
+        .filter(t => t.txnType === "支出" && t.reimbursement && t.uid)
+        .map(t => t.uid));
+    const result: TransactionInfo[] = [];
+    for (const txn of transactions) {
+        if (txn.txnType === "收入" && txn.reimburses && reimbursable.has(txn.reimburses)) continue;
+        if (txn.txnType !== "支出" || !txn.reimbursement) {
+            result.push(txn);
+            continue;
+        }
+        if (mode === "exclude") continue;
+
+        const received = receivedByPath.get(txn.path) ?? 0;
+        if (received <= 0) {
+            result.push(txn);
+            continue;
+        }
+        const refund = roundCurrency(Math.min(txn.amount, (txn.refund || 0) + received));
+        result.push({ ...txn, refund });
+    }
+    return result;
+}
@@ -0,0 +1,188 @@
+/**
+ * 交易规则工具函数
+ * 规则按列表顺序执行：同一字段以先匹配的规则为准，参与人与标签则依次追加。
+ */
+import { TransactionInfo } from "../services/transactionService";
+import { TransactionFrontmatter, TransactionRule, TransactionRuleActions } from "../types";
+
+/**
+ * fill：只填写空着的字段（新建与导入的交易）；overwrite：覆盖已有的值（手动对选中交易执行）
+ */
+export type RuleMode = "fill" | "overwrite";
+
+export type RuleField = keyof TransactionRuleActions;
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+    category: "分类",
+    from: "付款账户",
+    to: "收款账户",
+    persons: "参与人",
+    tags: "标签",
+    note: "备注",
+};
+
+/**
+ * 规则对一个字段的修改
+ */
+export interface RuleChange {
+    field: RuleField;
+    before: string;
+    after: string;
+    /** 触发修改的规则名称 */
+    rule: string;
+}
+
+export interface RuleResult {
+    changes: RuleChange[];
+    /** 写入 frontmatter 的字段 */
+    patch: Partial<TransactionFrontmatter>;
+}
+
+/**
+ * 新建一条空规则
+ */
+export function createRule(): TransactionRule {
+    return {
+        id: Date.now().toString(36),
+        name: "",
+        enabled: true,
+        conditions: {},
+        actions: {},
+    };
+}
+
+/**
+ * 解析 /.../flags 形式的正则，不是正则写法时返回 null，正则无效时返回 undefined
+ */
+export function parseRulePattern(pattern: string): RegExp | null | undefined {
+    const match = /^\/(.+)\/([a-z]*)$/.exec(pattern.trim());
+    if (!match) return null;
+    try {
+        return new RegExp(match[1] ?? "", match[2]);
+    } catch {
+        return undefined;
+    }
+}
+
+function matchText(value: string, pattern: string): boolean {
+    const regex = parseRulePattern(pattern);
+    if (regex === undefined) return false;
+    if (regex) return regex.test(value);
+    return value.toLowerCase().includes(pattern.trim().toLowerCase());
+}
+
+/**
+ * 去掉 [[ ]] 与两侧空白，账户字段可能写成链接
+ */
+function normalizeAccount(name: string): string {
+    return name.replace(/\[\[|\]\]/g, "").trim();
+}
+
+function inTimeRange(time: string, start?: string, end?: string): boolean {
+    const hhmm = time.slice(0, 5);
+    if (!hhmm) return false;
+    if (start && end && start > end) return hhmm >= start || hhmm <= end;
+    return (!start || hhmm >= start) && (!end || hhmm <= end);
+}
+
+/**
+ * 交易是否满足规则的全部条件（没有任何条件的规则不匹配）
+ */
+export function matchesRule(txn: TransactionInfo, rule: TransactionRule): boolean {
+    const c = rule.conditions;
+    let tested = false;
+    const check = (condition: boolean) => {
+        tested = true;
+        return condition;
+    };
+
+    if (c.txn_type && !check(txn.txnType === c.txn_type)) return false;
+    if (c.payee && !check(matchText(txn.payee, c.payee))) return false;
+    if (c.memo && !check(matchText(txn.memo, c.memo) || matchText(txn.note, c.memo))) return false;
+    if (c.min_amount != null && !check(txn.amount >= c.min_amount)) return false;
+    if (c.max_amount != null && !check(txn.amount <= c.max_amount)) return false;
+    if (c.account) {
+        const account = normalizeAccount(c.account);
+        if (!check(normalizeAccount(txn.from) === account || normalizeAccount(txn.to) === account)) return false;
+    }
+    if ((c.time_start || c.time_end) && !check(inTimeRange(txn.time, c.time_start, c.time_end))) return false;
+    return tested;
+}
+
+/**
+ * 依次执行启用的规则，返回对交易的修改
+ */
+export function evaluateRules(txn: TransactionInfo, rules: TransactionRule[], mode: RuleMode): RuleResult {
+    const changes: RuleChange[] = [];
+    const patch: Partial<TransactionFrontmatter> = {};
+    const assigned = new Set<RuleField>();
+    const current: Record<"category" | "from" | "to" | "note", string> = {
+        category: txn.category === "未分类" ? "" : txn.category,
+        from: txn.from,
+        to: txn.to,
+        note: txn.note,
+    };
+    let persons = [...txn.persons];
+    let tags = [...(txn.tags ?? [])];
+
+    for (const rule of rules) {
+        if (!rule.enabled || !matchesRule(txn, rule)) continue;
+        const name = rule.name || "未命名规则";
+        const a = rule.actions;
+
+        for (const field of ["category", "from", "to", "note"] as const) {
+            const value = a[field]?.trim();
+            if (!value || assigned.has(field)) continue;
+            if (mode === "fill" && current[field]) continue;
+            assigned.add(field);
+            const same = field === "from" || field === "to"
+                ? normalizeAccount(value) === normalizeAccount(current[field])
+                : value === current[field];
+            if (same) continue;
+            changes.push({ field, before: current[field], after: value, rule: name });
+            patch[field] = value;
+        }
+
+        const added = (list: string[], values: string[] = []) => values.map(v => v.trim()).filter(v => v && !list.includes(v));
+        const newPersons = added(persons, a.persons);
+        if (newPersons.length > 0) {
+            changes.push({ field: "persons", before: persons.join("、"), after: [...persons, ...newPersons].join("、"), rule: name });
+            persons = [...persons, ...newPersons];
+            patch.persons = persons;
+        }
+        const newTags = added(tags, a.tags);
+        if (newTags.length > 0) {
+            changes.push({ field: "tags", before: tags.join("、"), after: [...tags, ...newTags].join("、"), rule: name });
+            tags = [...tags, ...newTags];
+            patch.tags = tags;
+        }
+    }
+
+    return { changes, patch };
+}
+
+/**
+ * 规则的一行说明，如「商家包含 滴滴 → 分类 交通/打车」
+ */
+export function describeRule(rule: TransactionRule): string {
+    const c = rule.conditions;
+    const conditions: string[] = [];
+    if (c.txn_type) conditions.push(c.txn_type);
+    if (c.payee) conditions.push(`商家${parseRulePattern(c.payee) === null ? "包含" : "匹配"} ${c.payee}`);
+    if (c.memo) conditions.push(`摘要${parseRulePattern(c.memo) === null ? "包含" : "匹配"} ${c.memo}`);
+    if (c.min_amount != null && c.max_amount != null) conditions.push(`金额 ${c.min_amount}~${c.max_amount}`);
+    else if (c.min_amount != null) conditions.push(`金额 ≥ ${c.min_amount}`);
+    else if (c.max_amount != null) conditions.push(`金额 ≤ ${c.max_amount}`);
+    if (c.account) conditions.push(`账户 ${c.account}`);
+    if (c.time_start || c.time_end) conditions.push(`时间 ${c.time_start || "00:00"}~${c.time_end || "23:59"}`);
+
+    const actions = (Object.keys(RULE_FIELD_LABELS) as RuleField[])
+        .map(field => {
+            const value = rule.actions[field];
+            const text = Array.isArray(value) ? value.join("、") : value;
+            return text ? `${RULE_FIELD_LABELS[field]} ${text}` : "";
+        })
+        .filter(Boolean);
+
+    return `${conditions.join("，") || "（无条件）"} → ${actions.join("，") || "（无动作）"}`;
+}
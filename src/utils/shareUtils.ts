@@ -0,0 +1,133 @@
+/**
+ * 多人分摊（AA）相关工具函数
+ * 计算每位参与人的应摊金额，以及结清净额所需的最少转账
+ */
+import { SharedExpense, TransactionInfo } from "../services/transactionService";
+import { ShareMethod } from "../types";
+import { netAmount, roundCurrency } from "./format";
+import { getRefundedAmount, groupRefundsByOriginal } from "./refundUtils";
+
+/** 代表记账人自己的参与人名称 */
+export const SELF_PERSON = "我";
+
+/** AA 结算交易的分类 */
+export const SHARE_SETTLEMENT_CATEGORY = "AA结算";
+
+/** 分摊方式的显示名称 */
+export const SHARE_METHOD_LABELS: Record<ShareMethod, string> = {
+    equal: "均摊",
+    ratio: "按比例",
+    exact: "指定金额",
+};
+
+/**
+ * 一笔建议的结算转账
+ */
+export interface SettlementTransfer {
+    from: string;
+    to: string;
+    amount: number;
+}
+
+/**
+ * 计算每位参与人的应摊金额
+ * 均摊与按比例时舍入差额由第一位参与人承担，保证合计等于交易金额；
+ * 指定金额时直接使用填写的金额。
+ */
+export function computeShares(shared: SharedExpense, amount: number): { person: string; amount: number }[] {
+    const { shares } = shared;
+    if (shared.method === "exact") {
+        return shares.map(s => ({ person: s.person, amount: roundCurrency(s.value) }));
+    }
+
+    const weights = shares.map(s => shared.method === "ratio" ? s.value : 1);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    if (totalWeight <= 0) return shares.map(s => ({ person: s.person, amount: 0 }));
+
+    const result = shares.map((s, i) => ({
+        person: s.person,
+        amount: roundCurrency(amount * (weights[i] ?? 0) / totalWeight),
+    }));
+    const diff = roundCurrency(amount - result.reduce((sum, r) => sum + r.amount, 0));
+    if (diff !== 0 && result[0]) result[0].amount = roundCurrency(result[0].amount + diff);
+    return result;
+}
+
+/**
+ * 指定金额的分摊合计是否与交易金额一致（其他分摊方式总是一致）
+ */
+export function isShareBalanced(shared: SharedExpense, amount: number): boolean {
+    if (shared.method !== "exact") return true;
+    const total = shared.shares.reduce((sum, s) => sum + s.value, 0);
+    return Math.abs(total - amount) < 0.005;
+}
+
+/**
+ * 根据每人净额（正数为应收、负数为应付）生成结算转账
+ * 每次让应付最多的人向应收最多的人转账，至多 n - 1 笔即可全部结清。
+ */
+export function simplifyDebts(balances: Map<string, number>): SettlementTransfer[] {
+    const creditors: { person: string; amount: number }[] = [];
+    const debtors: { person: string; amount: number }[] = [];
+    for (const [person, net] of balances) {
+        const value = roundCurrency(net);
+        if (value > 0) creditors.push({ person, amount: value });
+        else if (value < 0) debtors.push({ person, amount: -value });
+    }
+
+    const transfers: SettlementTransfer[] = [];
+    while (creditors.length > 0 && debtors.length > 0) {
+        creditors.sort((a, b) => b.amount - a.amount);
+        debtors.sort((a, b) => b.amount - a.amount);
+        const creditor = creditors[0]!;
+        const debtor = debtors[0]!;
+        const amount = roundCurrency(Math.min(creditor.amount, debtor.amount));
+        if (amount > 0) transfers.push({ from: debtor.person, to: creditor.person, amount });
+
+        creditor.amount = roundCurrency(creditor.amount - amount);
+        debtor.amount = roundCurrency(debtor.amount - amount);
+        if (creditor.amount <= 0) creditors.shift();
+        if (debtor.amount <= 0) debtors.shift();
+    }
+    return transfers;
+}
+
+/**
+ * 统计时分摊支出只计自己应摊的部分，收到的 AA 结算不计入收入（仅用于统计，不要传给编辑弹窗）
+ * 别人应摊的部分是应收款，由结算交易收回；关联的退款交易按同一比例冲减。
+ */
+export function applySharedExpenseStats(transactions: TransactionInfo[]): TransactionInfo[] {
+    // 分摊支出 uid / 路径 -> 自己应摊的比例
+    const ratioByPath = new Map<string, number>();
+    const ratioByUid = new Map<string, number>();
+    const refunds = groupRefundsByOriginal(transactions);
+    for (const txn of transactions) {
+        if (txn.txnType !== "支出" || !txn.shared) continue;
+        // 与编辑弹窗和结算一致，按扣除退款后的金额计算分摊
+        const shares = computeShares(txn.shared, netAmount(txn.amount, getRefundedAmount(txn, refunds)));
+        const total = shares.reduce((sum, s) => sum + s.amount, 0);
+        const mine = shares.filter(s => s.person === SELF_PERSON).reduce((sum, s) => sum + s.amount, 0);
+        const ratio = total > 0 ? mine / total : 0;
+        ratioByPath.set(txn.path, ratio);
+        if (txn.uid) ratioByUid.set(txn.uid, ratio);
+    }
+
+    const result: TransactionInfo[] = [];
+    for (const txn of transactions) {
+        if (txn.settlement && txn.txnType === "收入") continue;
+        const ratio = txn.txnType === "退款"
+            ? (txn.refundOf ? ratioByUid.get(txn.refundOf) : undefined)
+            : ratioByPath.get(txn.path);
+        if (ratio === undefined || ratio === 1) {
+            result.push(txn);
+            continue;
+        }
+        result.push({
+            ...txn,
+            amount: roundCurrency(txn.amount * ratio),
+            refund: roundCurrency((txn.refund || 0) * ratio),
+            splits: txn.splits?.map(split => ({ ...split, amount: roundCurrency(split.amount * ratio) })),
+        });
+    }
+    return result;
+}
@@ -0,0 +1,56 @@
+/**
+ * 拆分交易相关工具函数
+ * 统计类组件通过 expandSplits 把一笔拆分交易展开为多条按分类计的明细
+ */
+import { TransactionInfo, TransactionSplit } from "../services/transactionService";
+import { roundCurrency } from "./format";
+
+/**
+ * 拆分明细金额合计
+ */
+export function getSplitTotal(splits: TransactionSplit[]): number {
+    return roundCurrency(splits.reduce((sum, s) => sum + s.amount, 0));
+}
+
+/**
+ * 拆分明细合计是否与交易总额一致
+ */
+export function isSplitBalanced(amount: number, splits: TransactionSplit[]): boolean {
+    return Math.abs(getSplitTotal(splits) - amount) < 0.005;
+}
+
+/**
+ * 将拆分交易展开为每行一条的虚拟交易（仅用于统计，不要传给编辑弹窗）
+ * 退款按各行金额比例分摊，最后一行承担舍入差额。
+ */
+export function expandSplits(transactions: TransactionInfo[]): TransactionInfo[] {
+    const result: TransactionInfo[] = [];
+    for (const txn of transactions) {
+        const splits = txn.splits;
+        if (!splits || splits.length === 0) {
+            result.push(txn);
+            continue;
+        }
+
+        const total = getSplitTotal(splits);
+        let refundLeft = txn.refund || 0;
+        splits.forEach((split, i) => {
+            const isLast = i === splits.length - 1;
+            const refund = isLast || total === 0
+                ? refundLeft
+                : roundCurrency((txn.refund || 0) * split.amount / total);
+            refundLeft = roundCurrency(refundLeft - refund);
+
+            result.push({
+                ...txn,
+                category: split.category,
+                amount: split.amount,
+                refund,
+                memo: split.note || txn.memo,
+                persons: split.persons.length > 0 ? split.persons : txn.persons,
+                splits: undefined,
+            });
+        });
+    }
+    return result;
+}
@@ -0,0 +1,47 @@
+/**
+ * 交易状态相关工具函数
+ * 未标记状态的交易视为已入账；待入账的交易只计入预计余额；
+ * 作废的交易保留在库中以备查，但不计入任何余额与统计。
+ */
+import { Menu } from "obsidian";
+import { TxnStatus } from "../types";
+
+/** 交易状态的显示名称 */
+export const TXN_STATUS_LABELS: Record<TxnStatus, string> = {
+    cleared: "已核对",
+    pending: "待入账",
+    void: "已作废",
+};
+
+/** 交易状态的图标 */
+export const TXN_STATUS_ICONS: Record<TxnStatus, string> = {
+    cleared: "check-circle-2",
+    pending: "clock",
+    void: "ban",
+};
+
+/**
+ * 解析 frontmatter 中的 status 字段，无法识别时返回 undefined
+ */
+export function parseTxnStatus(value: unknown): TxnStatus | undefined {
+    return value === "cleared" || value === "pending" || value === "void" ? value : undefined;
+}
+
+/**
+ * 在菜单中添加切换交易状态的选项，当前状态带勾选标记
+ * @param onChange 选择后的回调，null 表示清除状态（视为已入账）
+ */
+export function addTxnStatusMenuItems(menu: Menu, current: TxnStatus | undefined, onChange: (status: TxnStatus | null) => void): void {
+    menu.addItem(item => item
+        .setTitle("已入账（未核对）")
+        .setIcon("circle")
+        .setChecked(!current)
+        .onClick(() => onChange(null)));
+    for (const [status, label] of Object.entries(TXN_STATUS_LABELS) as [TxnStatus, string][]) {
+        menu.addItem(item => item
+            .setTitle(label)
+            .setIcon(TXN_STATUS_ICONS[status])
+            .setChecked(current === status)
+            .onClick(() => onChange(status)));
+    }
+}
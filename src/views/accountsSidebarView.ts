@@ -1,6 +1,11 @@
-import { ItemView, WorkspaceLeaf } from "obsidian";
+import { ItemView, WorkspaceLeaf, Menu, setIcon } from "obsidian";
 import CostPlugin from "../main";
-import { AccountInfo } from "../types";
+import { AccountInfo, AccountKindDefinition } from "../types";
+import { getCurrencySymbol } from "../utils/format";
+import { groupAccountsByKind, resolveAccountKind, summarizeNetWorth } from "../utils/accountKindUtils";
+import { CreditOverview, describeDueDays } from "../components/dashboard/CreditOverview";
+import { AsOfDatePicker } from "../components/dashboard/AsOfDatePicker";
+import { describeClosedAccountIssues } from "../components/lists/AccountList";
 import { CostMainView, COST_MAIN_VIEW_TYPE } from "./costMainView";
 
 export const ACCOUNTS_SIDEBAR_VIEW_TYPE = "cost-accounts-sidebar";
@@ -12,6 +17,8 @@ export const ACCOUNTS_SIDEBAR_VIEW_TYPE = "cost-accounts-sidebar";
 export class AccountsSidebarView extends ItemView {
     private plugin: CostPlugin;
     private unsubscribeEvents: (() => void)[] = [];
+    /** 「已关闭」分组是否展开 */
+    private showClosed = false;
 
     constructor(leaf: WorkspaceLeaf, plugin: CostPlugin) {
         super(leaf);
@@ -54,28 +61,20 @@ export class AccountsSidebarView extends ItemView {
     private renderBalanceSummary(accounts: AccountInfo[]): void {
         const summaryCard = this.contentEl.createDiv({ cls: "cost-balance-summary-card" });
 
-        // 计算各类余额
-        let assetsTotal = 0;  // 资产（不含信用卡）
-        let liabilitiesTotal = 0;  // 负债（信用卡欠款）
-
-        for (const account of accounts) {
-            const balance = this.plugin.transactionService.getAccountBalance(account);
-            if (account.accountKind === "credit") {
-                // 信用卡：负余额表示欠款
-                liabilitiesTotal += Math.abs(Math.min(0, balance));
-            } else {
-                // 其他账户：正余额为资产
-                assetsTotal += balance;
-            }
-        }
-
-        const netWorth = assetsTotal - liabilitiesTotal;
+        // 计算各类余额（负债类账户的负余额计为负债）
+        const symbol = getCurrencySymbol(this.plugin.settings.baseCurrency);
+        const date = this.plugin.getBalanceDate();
+        const { assets: assetsTotal, liabilities: liabilitiesTotal, netWorth } = summarizeNetWorth(
+            this.plugin.settings.accountKinds,
+            accounts,
+            account => this.plugin.investmentService.getAccountValueInBase(account, date)
+        );
 
         // 主数字区域 - 净资产
         const mainSection = summaryCard.createDiv({ cls: "cost-summary-main" });
-        mainSection.createDiv({ cls: "cost-summary-main-label", text: "净资产" });
+        mainSection.createDiv({ cls: "cost-summary-main-label", text: this.plugin.balanceAsOfDate ? `净资产（${date}）` : "净资产" });
         const mainValue = mainSection.createDiv({ cls: "cost-summary-main-value" });
-        mainValue.createSpan({ cls: "cost-summary-currency", text: "¥" });
+        mainValue.createSpan({ cls: "cost-summary-currency", text: symbol });
         mainValue.createSpan({
             cls: `cost-summary-amount ${netWorth >= 0 ? "cost-balance-positive" : "cost-balance-negative"}`,
             text: this.formatNumber(Math.abs(netWorth))
@@ -103,7 +102,7 @@ export class AccountsSidebarView extends ItemView {
         assetItem.createDiv({ cls: "cost-summary-detail-label", text: "资产" });
         assetItem.createDiv({
             cls: "cost-summary-detail-value",
-            text: `¥${this.formatNumber(assetsTotal)}`
+            text: `${symbol}${this.formatNumber(assetsTotal)}`
         });
 
         // 负债
@@ -112,8 +111,12 @@ export class AccountsSidebarView extends ItemView {
         liabilityItem.createDiv({ cls: "cost-summary-detail-label", text: "负债" });
         liabilityItem.createDiv({
             cls: "cost-summary-detail-value",
-            text: `¥${this.formatNumber(liabilitiesTotal)}`
+            text: `${symbol}${this.formatNumber(liabilitiesTotal)}`
         });
+
+        // 信用卡额度使用率与下次还款
+        const creditSummary = this.plugin.creditCardService.getSummary(accounts, date);
+        new CreditOverview(summaryCard, creditSummary, this.plugin.settings.baseCurrency).mount();
     }
 
     /**
@@ -131,26 +134,6 @@ export class AccountsSidebarView extends ItemView {
         return Math.abs(balance) < 0.01 ? 0 : balance;
     }
 
-    /**
-     * 账户类型显示名称
-     */
-    private readonly accountKindNames: Record<string, string> = {
-        "bank": "银行卡",
-        "credit": "信用卡",
-        "wallet": "电子钱包",
-        "cash": "现金",
-        "investment": "投资账户",
-        "prepaid": "预付卡",
-        "other": "其他",
-    };
-
-    /**
-     * 账户类型排序优先级
-     */
-    private readonly accountKindOrder: string[] = [
-        "bank", "credit", "wallet", "cash", "prepaid", "investment", "other"
-    ];
-
     /**
      * 渲染账户列表
      */
@@ -171,8 +154,17 @@ export class AccountsSidebarView extends ItemView {
             await this.render();
         });
 
-        // 获取账户数据
-        const accounts = this.plugin.accountService.getAccounts();
+        // 余额日期：选择历史日期时所有余额按该日期重新计算
+        new AsOfDatePicker(this.contentEl.createDiv(), this.plugin.balanceAsOfDate, (date) => {
+            this.plugin.setBalanceAsOfDate(date);
+        }).mount();
+
+        // 获取账户数据，已关闭的账户不计入净资产，单独折叠显示；尚未开户的账户不显示
+        const date = this.plugin.getBalanceDate();
+        const accountService = this.plugin.accountService;
+        const allAccounts = accountService.getAccounts();
+        const accounts = accountService.getActiveAccounts(date);
+        const closedAccounts = allAccounts.filter(a => accountService.isClosed(a, date));
 
         // 渲染总余额汇总卡片
         this.renderBalanceSummary(accounts);
@@ -180,65 +172,64 @@ export class AccountsSidebarView extends ItemView {
         // 账户列表
         const listEl = this.contentEl.createDiv({ cls: "cost-accounts-list" });
 
-        if (accounts.length === 0) {
+        if (allAccounts.length === 0) {
             listEl.createDiv({ cls: "cost-empty-message", text: "暂无账户" });
             return;
         }
 
-        // 按账户类型分组
-        const grouped = this.groupAccountsByKind(accounts);
-
-        // 按优先级顺序渲染分组
-        for (const kind of this.accountKindOrder) {
-            const groupAccounts = grouped.get(kind);
-            if (groupAccounts && groupAccounts.length > 0) {
-                this.renderAccountGroup(listEl, kind, groupAccounts);
-            }
+        // 按设置中的账户类型顺序分组渲染
+        for (const group of groupAccountsByKind(this.plugin.settings.accountKinds, accounts)) {
+            this.renderAccountGroup(listEl, group.kind, group.accounts);
         }
 
-        // 渲染未知类型的账户
-        for (const [kind, groupAccounts] of grouped) {
-            if (!this.accountKindOrder.includes(kind) && groupAccounts.length > 0) {
-                this.renderAccountGroup(listEl, kind, groupAccounts);
-            }
+        if (closedAccounts.length > 0) {
+            this.renderClosedGroup(listEl, closedAccounts);
         }
     }
 
     /**
-     * 按账户类型分组
+     * 渲染「已关闭」分组，默认折叠，不显示小计
      */
-    private groupAccountsByKind(accounts: AccountInfo[]): Map<string, AccountInfo[]> {
-        const grouped = new Map<string, AccountInfo[]>();
+    private renderClosedGroup(container: HTMLElement, accounts: AccountInfo[]): void {
+        const groupEl = container.createDiv({ cls: "cost-account-group cost-account-group-closed" });
+        const groupHeader = groupEl.createDiv({ cls: "cost-account-group-header is-clickable" });
+        const chevron = groupHeader.createSpan({ cls: "cost-account-group-icon" });
+        setIcon(chevron, this.showClosed ? "chevron-down" : "chevron-right");
+        groupHeader.createSpan({ cls: "cost-account-group-name", text: "已关闭" });
+        groupHeader.createSpan({ cls: "cost-account-group-count", text: `(${accounts.length})` });
+        if (accounts.some(a => this.plugin.transactionService.getClosedAccountIssues(a))) {
+            const flag = groupHeader.createSpan({ cls: "cost-assertion-flag", attr: { "aria-label": "有已关闭账户仍有余额或新交易" } });
+            setIcon(flag, "alert-triangle");
+        }
+        groupHeader.addEventListener("click", () => {
+            this.showClosed = !this.showClosed;
+            void this.render();
+        });
 
+        if (!this.showClosed) return;
+        const listEl = groupEl.createDiv({ cls: "cost-account-group-list" });
         for (const account of accounts) {
-            const kind = account.accountKind || "other";
-            if (!grouped.has(kind)) {
-                grouped.set(kind, []);
-            }
-            grouped.get(kind)!.push(account);
+            this.renderAccountItem(listEl, account);
         }
-
-        return grouped;
     }
 
     /**
      * 渲染账户分组
      */
-    private renderAccountGroup(container: HTMLElement, kind: string, accounts: AccountInfo[]): void {
+    private renderAccountGroup(container: HTMLElement, kind: AccountKindDefinition, accounts: AccountInfo[]): void {
         const groupEl = container.createDiv({ cls: "cost-account-group" });
 
         // 分组标题
         const groupHeader = groupEl.createDiv({ cls: "cost-account-group-header" });
-        const kindName = this.accountKindNames[kind] || kind;
-        const icon = this.getAccountIcon(kind);
-        groupHeader.createSpan({ cls: "cost-account-group-icon", text: icon });
-        groupHeader.createSpan({ cls: "cost-account-group-name", text: kindName });
+        groupHeader.createSpan({ cls: "cost-account-group-icon", text: kind.icon });
+        groupHeader.createSpan({ cls: "cost-account-group-name", text: kind.label });
         groupHeader.createSpan({ cls: "cost-account-group-count", text: `(${accounts.length})` });
 
-        // 分组小计余额
+        // 分组小计余额（换算为本位币）
         let totalBalance = 0;
+        const date = this.plugin.getBalanceDate();
         for (const account of accounts) {
-            totalBalance += this.plugin.transactionService.getAccountBalance(account);
+            totalBalance += this.plugin.investmentService.getAccountValueInBase(account, date);
         }
         totalBalance = this.normalizeBalance(totalBalance);
         const totalEl = groupHeader.createSpan({ cls: "cost-account-group-total" });
@@ -282,16 +273,24 @@ export class AccountsSidebarView extends ItemView {
 
         const nameEl = infoEl.createDiv({ cls: "cost-account-name" });
         nameEl.setText(account.displayName);
+        this.renderAssertionFlag(nameEl, account);
+        this.renderClosedFlag(nameEl, account);
 
         if (account.accountKind || account.institution) {
             const detailEl = infoEl.createDiv({ cls: "cost-account-detail" });
-            const details = [account.accountKind, account.institution].filter(Boolean);
+            const kindLabel = account.accountKind ? resolveAccountKind(this.plugin.settings.accountKinds, account.accountKind).label : "";
+            const details = [kindLabel, account.institution].filter(Boolean);
             detailEl.setText(details.join(" · "));
         }
 
-        // 余额
-        const balance = this.normalizeBalance(this.plugin.transactionService.getAccountBalance(account));
-        const balanceEl = item.createDiv({ cls: "cost-account-balance" });
+        // 信用卡：额度使用率与待还账单
+        this.renderCreditInfo(infoEl, account);
+
+        // 余额（账户货币，投资账户为现金 + 持仓市值）
+        const date = this.plugin.getBalanceDate();
+        const balance = this.normalizeBalance(this.plugin.investmentService.getAccountValue(account, date));
+        const balanceCol = item.createDiv({ cls: "cost-account-balance-col" });
+        const balanceEl = balanceCol.createDiv({ cls: "cost-account-balance" });
         balanceEl.setText(`${this.formatNumber(balance)} ${account.currency}`);
         // 余额为0时不添加颜色类，显示为默认黑色
         if (balance > 0) {
@@ -300,10 +299,120 @@ export class AccountsSidebarView extends ItemView {
             balanceEl.addClass("cost-balance-negative");
         }
 
+        // 有待入账交易时附带已入账余额
+        const pending = this.plugin.transactionService.getPendingBalanceChange(account, date);
+        if (pending !== 0) {
+            balanceEl.setAttr("aria-label", `预计余额，含待入账 ${pending > 0 ? "+" : ""}${this.formatNumber(pending)}`);
+            balanceCol.createDiv({
+                cls: "cost-account-balance-cleared",
+                text: `已入账 ${this.formatNumber(this.normalizeBalance(balance - pending))}`
+            });
+        }
+
+        // 查看今天的余额时附带未来日期交易的合计
+        if (!this.plugin.balanceAsOfDate) {
+            const upcoming = this.plugin.transactionService.getUpcomingBalanceChange(account);
+            if (upcoming !== 0) {
+                balanceCol.createDiv({
+                    cls: "cost-account-balance-upcoming",
+                    text: `待发生 ${upcoming > 0 ? "+" : ""}${this.formatNumber(upcoming)}`
+                });
+            }
+        }
+
+        // 外币账户：附带本位币折算值
+        this.renderConvertedBalance(balanceCol, account, balance);
+
         // 点击跳转到主视图的账户标签页
         item.addEventListener("click", async () => {
             await this.openAccountInMainView(account);
         });
+
+        item.addEventListener("contextmenu", (e) => {
+            e.preventDefault();
+            const menu = new Menu();
+            menu.addItem(i => i
+                .setTitle("对账")
+                .setIcon("check-check")
+                .onClick(() => this.plugin.openReconcileModal(account)));
+            if (account.status === "active") {
+                menu.addItem(i => i
+                    .setTitle("关闭账户")
+                    .setIcon("archive")
+                    .onClick(() => this.plugin.setAccountStatus(account, "closed")));
+            } else {
+                menu.addItem(i => i
+                    .setTitle("重新启用")
+                    .setIcon("archive-restore")
+                    .onClick(() => this.plugin.setAccountStatus(account, "active")));
+            }
+            menu.showAtMouseEvent(e);
+        });
+    }
+
+    /**
+     * 信用卡账户显示额度使用率和最近一期待还金额
+     */
+    private renderCreditInfo(container: HTMLElement, account: AccountInfo): void {
+        const service = this.plugin.creditCardService;
+        if (!service.isCreditCard(account)) return;
+
+        const parts: string[] = [];
+        const utilization = service.getUtilization(account, this.plugin.getBalanceDate());
+        if (utilization) parts.push(`额度 ${Math.round(utilization.ratio * 100)}%`);
+        const due = service.getNextDue(account);
+        if (due) parts.push(`${due.dueDate.slice(5)} 还 ${this.formatNumber(due.outstanding)}（${describeDueDays(due.daysUntilDue)}）`);
+        if (parts.length === 0) return;
+
+        const el = container.createDiv({ cls: "cost-account-credit-info", text: parts.join(" · ") });
+        if (due && due.daysUntilDue < 0) el.addClass("is-overdue");
+    }
+
+    /**
+     * 余额断言与记录不符时显示警告图标，悬停查看差额
+     */
+    private renderAssertionFlag(container: HTMLElement, account: AccountInfo): void {
+        const failed = this.plugin.transactionService.getFailedAssertions(account);
+        if (failed.length === 0) return;
+
+        const tips = failed.map(c => `${c.assertion.date} 差额 ${this.formatNumber(c.difference)}`);
+        const flag = container.createSpan({
+            cls: "cost-assertion-flag",
+            attr: { "aria-label": `余额断言不符，右键对账\n${tips.join("\n")}` }
+        });
+        setIcon(flag, "alert-triangle");
+    }
+
+    /**
+     * 已关闭账户仍有余额或关闭后还有交易时显示警告图标
+     */
+    private renderClosedFlag(container: HTMLElement, account: AccountInfo): void {
+        const issues = this.plugin.transactionService.getClosedAccountIssues(account);
+        if (!issues) return;
+
+        const flag = container.createSpan({
+            cls: "cost-assertion-flag",
+            attr: { "aria-label": describeClosedAccountIssues(account, issues) }
+        });
+        setIcon(flag, "alert-triangle");
+    }
+
+    /**
+     * 外币账户在原币余额下方显示本位币折算值，缺少汇率时提示
+     */
+    private renderConvertedBalance(container: HTMLElement, account: AccountInfo, balance: number): void {
+        const baseCurrency = this.plugin.settings.baseCurrency;
+        if (!account.currency || account.currency.toUpperCase() === baseCurrency.toUpperCase()) return;
+
+        const rateService = this.plugin.exchangeRateService;
+        const convertedEl = container.createDiv({ cls: "cost-account-balance-converted" });
+        if (rateService.canConvertToBase(account.currency)) {
+            const converted = rateService.convert(balance, account.currency, undefined, this.plugin.getBalanceDate());
+            convertedEl.setText(`≈ ${getCurrencySymbol(baseCurrency)}${this.formatNumber(converted)}`);
+        } else {
+            convertedEl.setText(`无 ${account.currency} 汇率`);
+            convertedEl.addClass("cost-rate-missing");
+        }
     }
 
     /**
@@ -333,19 +442,10 @@ export class AccountsSidebarView extends ItemView {
     }
 
     /**
-     * 根据账户类型返回图标
+     * 根据账户类型返回图标（来自设置中的账户类型）
      */
     private getAccountIcon(accountKind: string): string {
-        const icons: Record<string, string> = {
-            "bank": "🏦",
-            "cash": "💵",
-            "credit": "💳",
-            "investment": "📈",
-            "wallet": "👛",
-            "prepaid": "🎫",
-            "other": "💰",
-        };
-        return icons[accountKind] || "💰";
+        return resolveAccountKind(this.plugin.settings.accountKinds, accountKind).icon;
     }
 
 }
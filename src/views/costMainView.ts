@@ -1,10 +1,15 @@
-import { ItemView, WorkspaceLeaf, setIcon, Menu, App, Notice } from "obsidian";
+import { ItemView, WorkspaceLeaf, setIcon, Menu, App, Notice, TFile } from "obsidian";
 import CostPlugin from "../main";
 import { AccountInfo } from "../types";
 import { TransactionList } from "../components/lists/TransactionList";
 import { AccountList } from "../components/lists/AccountList";
 import { netAmount } from "../utils/format";
+import { expandSplits } from "../utils/splitUtils";
+import { REIMBURSEMENT_STATS_MODE_LABELS, ReimbursementStatsMode } from "../utils/reimbursementUtils";
+import { TxnType } from "../utils/categoryUtils";
 import { BalanceCard } from "../components/dashboard/BalanceCard";
+import { AsOfDatePicker } from "../components/dashboard/AsOfDatePicker";
+import { HoldingsView } from "../components/investments/HoldingsView";
 import { TrendChart, TrendDataPoint } from "../components/charts/TrendChart";
 import { CalendarWidget } from "../components/dashboard/CalendarWidget";
 import { CategoryStatsCard } from "../components/dashboard/CategoryStatsCard";
@@ -15,18 +20,35 @@ export const COST_MAIN_VIEW_TYPE = "cost-main-view";
 import { TopPayeesWidget } from "../components/dashboard/TopPayeesWidget";
 import { KPICardsWidget } from "../components/dashboard/KPICardsWidget";
 import { AnnualHeatmapWidget } from "../components/dashboard/AnnualHeatmapWidget";
+import { BudgetWidget } from "../components/dashboard/BudgetWidget";
+import { GoalsWidget } from "../components/dashboard/GoalsWidget";
 import { TransactionEditModal } from "../modals/TransactionEditModal";
 import { TransactionTable } from "../components/lists/TransactionTable";
 import { BatchEditModal } from "../modals/BatchEditModal";
+import { RuleApplyModal } from "../modals/RuleApplyModal";
 import { DraggableGrid } from "../components/dashboard/DraggableGrid";
+import { NetWorthHistoryWidget } from "../components/dashboard/NetWorthHistoryWidget";
 import { LoanLedger } from "../components/loans/LoanLedger";
-
-type TabType = "transactions" | "accounts" | "stats" | "management" | "loans";
+import { SharedLedger } from "../components/shared/SharedLedger";
+import { ReimbursementList } from "../components/reimbursements/ReimbursementList";
+import { AttachmentGallery } from "../components/attachments/AttachmentGallery";
+import { RecurringList } from "../components/recurring/RecurringList";
+import { RecurringEditModal } from "../modals/RecurringEditModal";
+import { CreditStatementView } from "../components/credit/CreditStatementView";
+import { CashFlowForecast } from "../components/forecast/CashFlowForecast";
+import { CategoryManager } from "../components/categories/CategoryManager";
+import { CategoryChangeModal } from "../modals/CategoryChangeModal";
+
+type TabType = "transactions" | "accounts" | "stats" | "management" | "categories" | "loans" | "shared" | "reimbursements" | "attachments" | "recurring" | "forecast";
 
 export class CostMainView extends ItemView {
     private plugin: CostPlugin;
     private currentTab: TabType = "transactions";
     private selectedAccount: AccountInfo | null = null;
+    /** 信用卡账户详情显示交易列表还是账单 */
+    private accountDetailMode: "transactions" | "statements" | "holdings" = "transactions";
+    /** 分类管理当前查看的交易类型 */
+    private categoryType: TxnType = "支出";
 
     // Management Filters
     private filters = {
@@ -86,7 +108,7 @@ export class CostMainView extends ItemView {
 
         // Create containers for each tab, initially hidden
         const contentContainer = this.contentEl.createDiv({ cls: "cost-view-content" });
-        const tabs: TabType[] = ["transactions", "accounts", "stats", "management", "loans"];
+        const tabs: TabType[] = ["transactions", "accounts", "stats", "management", "categories", "loans", "shared", "reimbursements", "attachments", "recurring", "forecast"];
 
         tabs.forEach(tab => {
             const container = contentContainer.createDiv({ cls: "cost-tab-content" });
@@ -152,8 +174,20 @@ export class CostMainView extends ItemView {
             this.renderStatsTab(container);
         } else if (this.currentTab === "management") {
             this.renderManagementTab(container);
+        } else if (this.currentTab === "categories") {
+            this.renderCategoriesTab(container);
         } else if (this.currentTab === "loans") {
             this.renderLoansTab(container);
+        } else if (this.currentTab === "shared") {
+            this.renderSharedTab(container);
+        } else if (this.currentTab === "reimbursements") {
+            this.renderReimbursementsTab(container);
+        } else if (this.currentTab === "attachments") {
+            this.renderAttachmentsTab(container);
+        } else if (this.currentTab === "recurring") {
+            this.renderRecurringTab(container);
+        } else if (this.currentTab === "forecast") {
+            this.renderForecastTab(container);
         }
     }
 
@@ -164,7 +198,13 @@ export class CostMainView extends ItemView {
             { id: "accounts", label: "账户" },
             { id: "stats", label: "统计" },
             { id: "management", label: "管理" },
+            { id: "categories", label: "分类" },
             { id: "loans", label: "借贷" },
+            { id: "shared", label: "AA" },
+            { id: "reimbursements", label: "报销" },
+            { id: "attachments", label: "附件" },
+            { id: "recurring", label: "周期" },
+            { id: "forecast", label: "预测" },
         ];
 
         tabs.forEach(tab => {
@@ -202,15 +242,19 @@ export class CostMainView extends ItemView {
     }
 
     private renderTransactionsTab(container: HTMLElement): void {
-        const transactions = this.plugin.transactionService.getTransactions();
+        const transactions = this.plugin.transactionService.getAllTransactions();
         const accounts = this.plugin.accountService.getAccounts();
 
         // Calculate running balances
         const openingBalances = new Map<string, number>();
+        const currencies = new Map<string, string>();
+        const openingDates = new Map<string, string>();
         accounts.forEach(acc => {
             openingBalances.set(acc.fileName, acc.openingBalance);
+            currencies.set(acc.fileName, acc.currency);
+            if (acc.openingDate) openingDates.set(acc.fileName, acc.openingDate);
         });
-        const runningBalances = this.plugin.transactionService.calculateAllAccountsRunningBalances(openingBalances);
+        const runningBalances = this.plugin.transactionService.calculateAllAccountsRunningBalances(openingBalances, currencies, openingDates);
 
         new TransactionList(container, this.app, transactions, accounts, runningBalances, {
             onTransactionClick: (txn) => {
@@ -222,8 +266,10 @@ export class CostMainView extends ItemView {
                 }).open();
             },
             onAccountClick: (name, field, txn) => this.handleAccountClick(name),
+            onStatusChange: (txn, status) => { void this.plugin.setTransactionStatus(txn, status); },
             customIconPath: this.plugin.settings.customIconPath,
             iconResolver: this.plugin.iconResolver,
+            accountKinds: this.plugin.settings.accountKinds,
             highlightPath: this.plugin.targetHighlightPath,
             enableHighlightAfterSave: this.plugin.settings.enableHighlightAfterSave,
             highlightDurationSeconds: this.plugin.settings.highlightDurationSeconds,
@@ -236,20 +282,45 @@ export class CostMainView extends ItemView {
         const leftCol = layout.createDiv({ cls: "cost-accounts-left" });
         const rightCol = layout.createDiv({ cls: "cost-accounts-right" });
 
-        const accounts = this.plugin.accountService.getAccounts();
+        // 余额日期：选择历史日期时按该日期重新计算，尚未开户的账户不显示
+        new AsOfDatePicker(leftCol.createDiv(), this.plugin.balanceAsOfDate, (date) => {
+            this.plugin.setBalanceAsOfDate(date);
+        }).mount();
+        const date = this.plugin.getBalanceDate();
+        const accounts = this.plugin.accountService.getAccounts().filter(acc => this.plugin.accountService.isOpened(acc, date));
 
         // Prepare data for AccountList
         const balances = new Map<string, number>();
+        const baseBalances = new Map<string, number>();
+        const pendingChanges = new Map<string, number>();
+        const upcomingChanges = new Map<string, number>();
         const itemCounts = new Map<string, number>();
 
         accounts.forEach(acc => {
-            balances.set(acc.fileName, this.plugin.transactionService.getAccountBalance(acc));
+            // 投资账户显示现金 + 持仓市值
+            balances.set(acc.fileName, this.plugin.investmentService.getAccountValue(acc, date));
+            baseBalances.set(acc.fileName, this.plugin.investmentService.getAccountValueInBase(acc, date));
+            pendingChanges.set(acc.fileName, this.plugin.transactionService.getPendingBalanceChange(acc, date));
+            if (!this.plugin.balanceAsOfDate) {
+                upcomingChanges.set(acc.fileName, this.plugin.transactionService.getUpcomingBalanceChange(acc));
+            }
             itemCounts.set(acc.fileName, this.plugin.transactionService.getTransactionsByAccount(acc.fileName).length);
         });
 
         // Account List
         new AccountList(leftCol, this.app, accounts, itemCounts, balances, {
             selectedAccount: this.selectedAccount,
+            baseBalances,
+            pendingChanges,
+            upcomingChanges,
+            baseCurrency: this.plugin.settings.baseCurrency,
+            failedAssertions: new Map(accounts.map(acc => [acc.fileName, this.plugin.transactionService.getFailedAssertions(acc)])),
+            accountKinds: this.plugin.settings.accountKinds,
+            closedAccounts: new Set(accounts.filter(acc => this.plugin.accountService.isClosed(acc, date)).map(acc => acc.fileName)),
+            closedIssues: new Map(accounts.flatMap(acc => {
+                const issues = this.plugin.transactionService.getClosedAccountIssues(acc);
+                return issues ? [[acc.fileName, issues] as const] : [];
+            })),
             onAccountClick: (acc) => {
                 this.selectedAccount = acc;
                 // Switch tab is redundant if already in accounts, but it ensures UI update
@@ -263,28 +334,79 @@ export class CostMainView extends ItemView {
 
         // Right Column (Transactions for selected account)
         if (this.selectedAccount) {
-            rightCol.createEl("h4", { text: `${this.selectedAccount.displayName} 的交易` });
-            const accountTxns = this.plugin.transactionService.getTransactionsByAccount(this.selectedAccount.fileName);
+            const selected = this.selectedAccount;
+            const isCredit = this.plugin.creditCardService.isCreditCard(selected);
+            const showStatements = isCredit && this.accountDetailMode === "statements";
+            const isInvestment = this.plugin.investmentService.isInvestment(selected);
+            const showHoldings = isInvestment && this.accountDetailMode === "holdings";
+            const rightHeader = rightCol.createDiv({ cls: "cost-accounts-detail-header" });
+            rightHeader.createEl("h4", { text: `${selected.displayName} 的${showStatements ? "账单" : (showHoldings ? "持仓" : "交易")}` });
+            const headerActions = rightHeader.createDiv({ cls: "cost-accounts-detail-actions" });
+            if (isCredit) {
+                const modeBtn = headerActions.createEl("button", { cls: "cost-detail-header-btn", text: showStatements ? "交易" : "账单" });
+                modeBtn.addEventListener("click", () => {
+                    this.accountDetailMode = showStatements ? "transactions" : "statements";
+                    this.update();
+                });
+            }
+            if (isInvestment) {
+                const modeBtn = headerActions.createEl("button", { cls: "cost-detail-header-btn", text: showHoldings ? "交易" : "持仓" });
+                modeBtn.addEventListener("click", () => {
+                    this.accountDetailMode = showHoldings ? "transactions" : "holdings";
+                    this.update();
+                });
+            }
+            const reconcileBtn = headerActions.createEl("button", { cls: "cost-detail-header-btn", text: "对账" });
+            setIcon(reconcileBtn.createSpan({ cls: "cost-detail-header-btn-icon", prepend: true }), "check-check");
+            reconcileBtn.addEventListener("click", () => this.plugin.openReconcileModal(selected));
+
+            const openTransaction = (txn: TransactionInfo) => {
+                new TransactionEditModal(this.app, txn, this.plugin.transactionService, this.plugin.accountService, this.plugin.settings.customIconPath, this.plugin, async (savedPath) => {
+                    await this.plugin.transactionService.scanTransactions();
+                    if (savedPath) this.plugin.targetHighlightPath = savedPath;
+                    void this.plugin.refreshViews();
+                    if (savedPath) setTimeout(() => { this.plugin.targetHighlightPath = null; }, 500);
+                }).open();
+            };
+
+            if (showStatements) {
+                const credit = this.plugin.creditCardService;
+                new CreditStatementView(rightCol, selected, credit.getCycles(selected), credit.getUtilization(selected), {
+                    getChange: (txn) => this.plugin.transactionService.getBalanceChangeForTransaction(txn, selected.fileName, selected.currency),
+                    onTransactionClick: openTransaction,
+                }).mount();
+                return;
+            }
+
+            if (showHoldings) {
+                new HoldingsView(rightCol, selected, this.plugin.investmentService.getSummary(selected), {
+                    onRecordPrice: (security) => this.plugin.openPriceEditModal(security),
+                    onImportPrices: () => this.plugin.openPriceImportModal(),
+                }).mount();
+                return;
+            }
+
+            const accountTxns = this.plugin.transactionService.getTransactionsByAccount(this.selectedAccount.fileName, true);
 
             // Calculate running balances (reuse generally or pass specific?)
             // For simplicity, we can pass the global running balances, the list will pick what it needs by txn path
             const openingBalances = new Map<string, number>();
+            const currencies = new Map<string, string>();
+            const openingDates = new Map<string, string>();
             accounts.forEach(acc => {
                 openingBalances.set(acc.fileName, acc.openingBalance);
+                currencies.set(acc.fileName, acc.currency);
+                if (acc.openingDate) openingDates.set(acc.fileName, acc.openingDate);
             });
-            const runningBalances = this.plugin.transactionService.calculateAllAccountsRunningBalances(openingBalances);
+            const runningBalances = this.plugin.transactionService.calculateAllAccountsRunningBalances(openingBalances, currencies, openingDates);
 
             new TransactionList(rightCol, this.app, accountTxns, accounts, runningBalances, {
-                onTransactionClick: (txn) => {
-                    new TransactionEditModal(this.app, txn, this.plugin.transactionService, this.plugin.accountService, this.plugin.settings.customIconPath, this.plugin, async (savedPath) => {
-                        await this.plugin.transactionService.scanTransactions();
-                        if (savedPath) this.plugin.targetHighlightPath = savedPath;
-                        this.plugin.refreshViews();
-                        if (savedPath) setTimeout(() => { this.plugin.targetHighlightPath = null; }, 500);
-                    }).open();
-                },
+                onTransactionClick: openTransaction,
+                onStatusChange: (txn, status) => { void this.plugin.setTransactionStatus(txn, status); },
                 customIconPath: this.plugin.settings.customIconPath,
                 iconResolver: this.plugin.iconResolver,
+                accountKinds: this.plugin.settings.accountKinds,
+                allTransactions: this.plugin.transactionService.getTransactions(),
                 activeAccount: this.selectedAccount?.fileName, // Pass context
                 highlightPath: this.plugin.targetHighlightPath,
                 enableHighlightAfterSave: this.plugin.settings.enableHighlightAfterSave,
@@ -296,17 +418,56 @@ export class CostMainView extends ItemView {
         }
     }
 
+    /**
+     * 统计头部的分期统计方式切换按钮
+     */
+    private renderInstallmentModeToggle(container: HTMLElement): void {
+        const spread = this.plugin.settings.installmentStatsMode === "spread";
+        const btn = container.createEl("button", {
+            cls: "cost-stats-reset-btn",
+            attr: { "aria-label": "切换分期消费统计方式" }
+        });
+        setIcon(btn, "calendar-range");
+        btn.createSpan({ text: spread ? "分期：按期分摊" : "分期：按消费日" });
+        btn.addEventListener("click", () => {
+            void this.plugin.setStatsModes({ installmentStatsMode: spread ? "purchase" : "spread" });
+        });
+    }
+
+    /**
+     * 统计头部的报销统计方式切换按钮，依次切换全额计入 / 扣除报销 / 不计入
+     */
+    private renderReimbursementModeToggle(container: HTMLElement): void {
+        const modes: ReimbursementStatsMode[] = ["include", "net", "exclude"];
+        const mode = this.plugin.settings.reimbursementStatsMode;
+        const btn = container.createEl("button", {
+            cls: "cost-stats-reset-btn",
+            attr: { "aria-label": "切换报销支出统计方式" }
+        });
+        setIcon(btn, "briefcase");
+        btn.createSpan({ text: `报销：${REIMBURSEMENT_STATS_MODE_LABELS[mode]}` });
+        btn.addEventListener("click", () => {
+            void this.plugin.setStatsModes({ reimbursementStatsMode: modes[(modes.indexOf(mode) + 1) % modes.length] ?? "include" });
+        });
+    }
+
     private renderStatsTab(container: HTMLElement): void {
         container.addClass("cost-stats-view");
 
-        const transactions = this.plugin.transactionService.getTransactions();
-        const accounts = this.plugin.accountService.getAccounts();
+        // 统计汇总统一换算为本位币，见 CostPlugin.getStatsTransactions
+        const baseCurrency = this.plugin.settings.baseCurrency;
+        const transactions = this.plugin.getStatsTransactions();
+        // 已关闭的账户不计入净资产；余额按选择的日期计算
+        const asOfDate = this.plugin.balanceAsOfDate;
+        const accounts = this.plugin.accountService.getActiveAccounts(this.plugin.getBalanceDate());
 
         // ── Header with reset button ──
         const header = container.createDiv({ cls: "cost-stats-header" });
         header.createEl("h3", { text: "统计", cls: "cost-stats-header-title" });
 
         const actions = header.createDiv({ cls: "cost-stats-header-actions" });
+        this.renderInstallmentModeToggle(actions);
+        this.renderReimbursementModeToggle(actions);
         const resetBtn = actions.createEl("button", {
             cls: "cost-stats-reset-btn",
             attr: { "aria-label": "重置布局" }
@@ -314,7 +475,7 @@ export class CostMainView extends ItemView {
         setIcon(resetBtn, "rotate-ccw");
         resetBtn.createSpan({ text: "重置布局" });
         resetBtn.addEventListener("click", async () => {
-            this.plugin.settings.statsLayout = ["balance", "kpi", "trends", "analysis", "heatmap", "calendar"];
+            this.plugin.settings.statsLayout = ["balance", "networth", "kpi", "budget", "goals", "trends", "analysis", "heatmap", "calendar"];
             await this.plugin.saveData(this.plugin.settings);
             this.update();
         });
@@ -335,13 +496,47 @@ export class CostMainView extends ItemView {
             balance: () => {
                 const el = document.createElement("div");
                 el.className = "cost-stats-section";
-                new BalanceCard(el, accounts, this.plugin.transactionService).mount();
+                new BalanceCard(el, accounts, this.plugin.transactionService, baseCurrency, this.plugin.creditCardService.getSummary(accounts, this.plugin.getBalanceDate()), this.plugin.investmentService, this.plugin.settings.accountKinds, {
+                    asOfDate,
+                    onAsOfDateChange: (date) => this.plugin.setBalanceAsOfDate(date),
+                }).mount();
+                return el;
+            },
+            networth: () => {
+                const el = document.createElement("div");
+                el.className = "cost-stats-section";
+                const card = el.createDiv({ cls: "cost-stats-card" });
+                new NetWorthHistoryWidget(card, this.plugin.netWorthService, this.plugin.settings.accountKinds, {
+                    baseCurrency,
+                    interval: this.plugin.settings.netWorthInterval,
+                    range: this.plugin.settings.netWorthRange,
+                    onChange: async (interval, range) => {
+                        this.plugin.settings.netWorthInterval = interval;
+                        this.plugin.settings.netWorthRange = range;
+                        await this.plugin.saveData(this.plugin.settings);
+                    },
+                    onRecordSnapshot: () => { void this.plugin.recordNetWorthSnapshot(); },
+                }).mount();
                 return el;
             },
             kpi: () => {
                 const el = document.createElement("div");
                 el.className = "cost-stats-section";
-                new KPICardsWidget(el, transactions).mount();
+                new KPICardsWidget(el, transactions, baseCurrency).mount();
+                return el;
+            },
+            budget: () => {
+                const el = document.createElement("div");
+                el.className = "cost-stats-section";
+                const card = el.createDiv({ cls: "cost-stats-card" });
+                new BudgetWidget(card, this.plugin.budgetService.getAllProgress(transactions), baseCurrency).mount();
+                return el;
+            },
+            goals: () => {
+                const el = document.createElement("div");
+                el.className = "cost-stats-section";
+                const card = el.createDiv({ cls: "cost-stats-card" });
+                new GoalsWidget(card, this.plugin.goalService.getAllProgress(baseCurrency), baseCurrency).mount();
                 return el;
             },
             trends: () => {
@@ -366,16 +561,16 @@ export class CostMainView extends ItemView {
                 // Row 1: Expense
                 const expenseRow = wrapper.createDiv({ cls: "cost-stats-grid-row" });
                 const expenseRank = expenseRow.createDiv({ cls: "cost-stats-card" });
-                new TopPayeesWidget(expenseRank, transactions, "支出").mount();
+                new TopPayeesWidget(expenseRank, transactions, "支出", (name) => this.plugin.getPayeeLogo(name)).mount();
                 const expenseCat = expenseRow.createDiv({ cls: "cost-stats-card" });
-                new CategoryStatsCard(expenseCat, transactions, "支出").mount();
+                new CategoryStatsCard(expenseCat, transactions, "支出", baseCurrency).mount();
 
                 // Row 2: Income
                 const incomeRow = wrapper.createDiv({ cls: "cost-stats-grid-row" });
                 const incomeRank = incomeRow.createDiv({ cls: "cost-stats-card" });
-                new TopPayeesWidget(incomeRank, transactions, "收入").mount();
+                new TopPayeesWidget(incomeRank, transactions, "收入", (name) => this.plugin.getPayeeLogo(name)).mount();
                 const incomeCat = incomeRow.createDiv({ cls: "cost-stats-card" });
-                new CategoryStatsCard(incomeCat, transactions, "收入").mount();
+                new CategoryStatsCard(incomeCat, transactions, "收入", baseCurrency).mount();
 
                 return wrapper;
             },
@@ -397,7 +592,10 @@ export class CostMainView extends ItemView {
 
         const WIDGET_DEFS = [
             { id: "balance", label: "余额总览", sizeType: "full" as const },
+            { id: "networth", label: "净资产走势", sizeType: "full" as const },
             { id: "kpi", label: "KPI 指标", sizeType: "full" as const },
+            { id: "budget", label: "预算进度", sizeType: "full" as const },
+            { id: "goals", label: "储蓄目标", sizeType: "full" as const },
             { id: "trends", label: "收支趋势", sizeType: "full" as const },
             { id: "analysis", label: "分析排行", sizeType: "full" as const },
             { id: "heatmap", label: "年度热力图", sizeType: "full" as const },
@@ -423,6 +621,8 @@ export class CostMainView extends ItemView {
     private calculateTrendData(transactions: TransactionInfo[], type: '收入' | '支出'): TrendDataPoint[] {
         const now = new Date();
         const data: TrendDataPoint[] = [];
+        // 拆分交易按明细行统计
+        const lines = expandSplits(transactions);
 
         for (let i = 5; i >= 0; i--) {
             const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
@@ -431,7 +631,7 @@ export class CostMainView extends ItemView {
             const monthStr = `${year}-${String(month + 1).padStart(2, '0')}`;
 
             let total = 0;
-            for (const txn of transactions) {
+            for (const txn of lines) {
                 if (txn.date?.startsWith(monthStr)) {
                     if (type === '收入' && txn.txnType === '收入') {
                         total += txn.amount;
@@ -468,7 +668,7 @@ export class CostMainView extends ItemView {
 
         // Type
         const typeSelect = filterBar.createEl("select", { cls: "cost-filter-select" });
-        ["all", "支出", "收入", "转账", "还款", "借款"].forEach(t => {
+        ["all", "支出", "收入", "转账", "还款", "借款", "借出", "收回", "投资", "退款"].forEach(t => {
             const opt = typeSelect.createEl("option", { value: t, text: t === "all" ? "所有类型" : t });
             if (this.filters.type === t) opt.selected = true;
         });
@@ -477,7 +677,10 @@ export class CostMainView extends ItemView {
         // Account
         const accSelect = filterBar.createEl("select", { cls: "cost-filter-select" });
         accSelect.createEl("option", { value: "all", text: "所有账户" });
-        this.plugin.accountService.getAccounts().forEach(acc => {
+        // 已关闭的账户不列出，除非正按该账户筛选
+        this.plugin.accountService.getAccounts().filter(acc =>
+            !this.plugin.accountService.isClosed(acc) || this.filters.account === acc.fileName
+        ).forEach(acc => {
             const opt = accSelect.createEl("option", { value: acc.fileName, text: acc.displayName });
             if (this.filters.account === acc.fileName) opt.selected = true;
         });
@@ -508,6 +711,8 @@ export class CostMainView extends ItemView {
         const actionBar = wrapper.createDiv({ cls: "cost-action-bar" });
         const batchEditBtn = actionBar.createEl("button", { text: "批量修改", cls: "mod-cta" });
         batchEditBtn.disabled = true;
+        const applyRulesBtn = actionBar.createEl("button", { text: "应用规则" });
+        applyRulesBtn.disabled = true;
 
 
         // 4. Data Table
@@ -516,6 +721,7 @@ export class CostMainView extends ItemView {
             onSelectionChange: (selected) => {
                 batchEditBtn.disabled = selected.size === 0;
                 batchEditBtn.setText(`批量修改 (${selected.size})`);
+                applyRulesBtn.disabled = selected.size === 0;
             },
             onTransactionClick: (txn) => {
                 new TransactionEditModal(this.app, txn, this.plugin.transactionService, this.plugin.accountService, this.plugin.settings.customIconPath, this.plugin, async (savedPath) => {
@@ -525,6 +731,7 @@ export class CostMainView extends ItemView {
                     if (savedPath) setTimeout(() => { this.plugin.targetHighlightPath = null; }, 500);
                 }).open();
             },
+            onStatusChange: (txn, status) => { void this.plugin.setTransactionStatus(txn, status); },
             highlightPath: this.plugin.targetHighlightPath,
             enableHighlightAfterSave: this.plugin.settings.enableHighlightAfterSave,
             highlightDurationSeconds: this.plugin.settings.highlightDurationSeconds,
@@ -534,7 +741,7 @@ export class CostMainView extends ItemView {
 
         // Update Function
         const updateTable = () => {
-            let transactions = this.plugin.transactionService.getTransactions();
+            let transactions = this.plugin.transactionService.getAllTransactions();
 
             // Verify Data
             let total = transactions.length;
@@ -563,7 +770,14 @@ export class CostMainView extends ItemView {
                     String(t.from || "").toLowerCase().includes(k) ||
                     String(t.to || "").toLowerCase().includes(k) ||
                     String(t.path || "").toLowerCase().includes(k) ||
-                    (t.amount !== undefined && t.amount !== null && t.amount.toString().includes(k))
+                    (t.amount !== undefined && t.amount !== null && t.amount.toString().includes(k)) ||
+                    // 拆分明细行的分类、备注、参与人和金额
+                    (t.splits ?? []).some(s =>
+                        s.category.toLowerCase().includes(k) ||
+                        s.note.toLowerCase().includes(k) ||
+                        s.persons.some(p => p.toLowerCase().includes(k)) ||
+                        s.amount.toString().includes(k)
+                    )
                 );
 
                 // new Notice(`Debug: 预筛选后 ${countBeforeKeyword} 条 -> 关键词筛选后 ${transactions.length} 条 (关键词: "${k}")`);
@@ -574,6 +788,7 @@ export class CostMainView extends ItemView {
             actionBar.empty(); // Clear count
             actionBar.createSpan({ cls: "cost-filter-count", text: `共 ${transactions.length} 条记录` });
             actionBar.appendChild(batchEditBtn); // Re-append button
+            actionBar.appendChild(applyRulesBtn);
 
             table.setTransactions(transactions, this.filters.keyword.trim());
         };
@@ -595,11 +810,49 @@ export class CostMainView extends ItemView {
             }
         };
 
+        applyRulesBtn.onclick = () => {
+            const selected = table.getSelectedPaths();
+            if (selected.size === 0) return;
+            const rules = this.plugin.settings.rules.filter(r => r.enabled);
+            if (rules.length === 0) {
+                new Notice("没有启用的交易规则，请先在设置中添加");
+                return;
+            }
+            const transactions = this.plugin.transactionService.getAllTransactions().filter(t => selected.has(t.path));
+            new RuleApplyModal(this.app, transactions, rules, async (items) => {
+                await this.plugin.applyRuleResults(items);
+            }).open();
+        };
+
         // Initial Load
         updateTable();
     }
 
 
+    private renderCategoriesTab(container: HTMLElement): void {
+        container.addClass("cost-categories-view");
+        const header = container.createDiv({ cls: "cost-loans-header" });
+        header.createEl("h3", { text: "分类管理", cls: "cost-loans-title" });
+        header.createDiv({
+            cls: "cost-loans-desc",
+            text: "重命名、合并、移动或删除分类时，会同时改写所有交易、预算和周期模板中的分类。"
+        });
+
+        const type = this.categoryType;
+        new CategoryManager(container.createDiv(), this.plugin.categoryService.getTree(type), {
+            type,
+            baseCurrency: this.plugin.settings.baseCurrency,
+            onTypeChange: (value) => {
+                this.categoryType = value;
+                void this.update();
+            },
+            onAction: (kind, node) => {
+                new CategoryChangeModal(this.app, this.plugin.categoryService, type, kind, node,
+                    (change) => this.plugin.applyCategoryChange(type, change)).open();
+            },
+        }).mount();
+    }
+
     private renderLoansTab(container: HTMLElement): void {
         container.addClass("cost-loans-view");
 
@@ -607,28 +860,169 @@ export class CostMainView extends ItemView {
         header.createEl("h3", { text: "借贷明细", cls: "cost-loans-title" });
         header.createDiv({
             cls: "cost-loans-desc",
-            text: "按出借人汇总借款与还款，使用相同的「商家」字段关联两者。"
+            text: "借入与借出分别汇总，还款 / 收回通过「关联借贷」记录所结算借贷的 uid，同一个人的多笔借贷互不影响。"
         });
 
-        const transactions = this.plugin.transactionService.getTransactions();
+        const loanService = this.plugin.loanService;
 
-        new LoanLedger(container, transactions, (txn) => {
-            new TransactionEditModal(
-                this.app, txn,
-                this.plugin.transactionService,
-                this.plugin.accountService,
-                this.plugin.settings.customIconPath,
-                this.plugin,
-                async (savedPath) => {
-                    await this.plugin.transactionService.scanTransactions();
-                    if (savedPath) this.plugin.targetHighlightPath = savedPath;
-                    this.plugin.refreshViews();
-                    if (savedPath) setTimeout(() => { this.plugin.targetHighlightPath = null; }, 500);
+        new LoanLedger(container, loanService.getLoans(), {
+            baseCurrency: this.plugin.settings.baseCurrency,
+            toBase: (amount, loan) => loanService.toBase(amount, loan),
+            onTxnClick: (txn) => { this.plugin.openTransaction(txn); },
+            onSettle: (loan) => { void this.plugin.openLoanSettlement(loan); }
+        }).mount();
+    }
+
+    private renderSharedTab(container: HTMLElement): void {
+        container.addClass("cost-loans-view");
+
+        const header = container.createDiv({ cls: "cost-loans-header" });
+        header.createEl("h3", { text: "AA 结算", cls: "cost-loans-title" });
+        header.createDiv({
+            cls: "cost-loans-desc",
+            text: "汇总所有分摊交易与结算交易，按本位币计算每人净额，并给出结清所需的最少转账。"
+        });
+
+        const service = this.plugin.sharedExpenseService;
+        new SharedLedger(container, {
+            balances: service.getBalances(),
+            transfers: service.getSettlementPlan(),
+            entries: service.getSharedExpenses(),
+            settlements: service.getSettlements(),
+        }, {
+            baseCurrency: this.plugin.settings.baseCurrency,
+            onTxnClick: (txn) => { this.plugin.openTransaction(txn); },
+            onSettle: (transfer) => { void this.plugin.openShareSettlement(transfer); }
+        }).mount();
+    }
+
+    private renderReimbursementsTab(container: HTMLElement): void {
+        container.addClass("cost-loans-view");
+
+        const header = container.createDiv({ cls: "cost-loans-header" });
+        header.createEl("h3", { text: "报销", cls: "cost-loans-title" });
+        header.createDiv({
+            cls: "cost-loans-desc",
+            text: "可报销的支出在报销到账前持续追踪；到账的收入通过「关联报销」记录所报销支出的 uid，可分多次到账。"
+        });
+
+        const service = this.plugin.reimbursementService;
+        new ReimbursementList(container.createDiv(), service.getReimbursements(), {
+            baseCurrency: this.plugin.settings.baseCurrency,
+            toBase: (amount, expense) => service.toBase(amount, expense),
+            onTxnClick: (txn) => { this.plugin.openTransaction(txn); },
+            onRecordPayment: (r) => { void this.plugin.openReimbursementPayment(r); },
+            onSetStatus: async (r, status) => {
+                try {
+                    await this.plugin.transactionService.setReimbursementStatus(r.expense, status);
+                    void this.plugin.refreshViews();
+                } catch (e) {
+                    new Notice("更新报销状态失败: " + (e instanceof Error ? e.message : String(e)));
                 }
-            ).open();
+            }
+        }).mount();
+    }
+
+    private renderAttachmentsTab(container: HTMLElement): void {
+        container.addClass("cost-loans-view");
+
+        const header = container.createDiv({ cls: "cost-loans-header" });
+        header.createEl("h3", { text: "附件", cls: "cost-loans-title" });
+        header.createDiv({
+            cls: "cost-loans-desc",
+            text: "小票与发票保存在交易日期文件夹下的附件目录中。可报销的支出以及达到设置中发票金额阈值的支出没有附件时列为缺少发票。"
+        });
+
+        const service = this.plugin.attachmentService;
+        new AttachmentGallery(container.createDiv(), {
+            entries: service.getAttachments(),
+            missing: service.getMissingInvoices(this.plugin.settings.invoiceThreshold),
+        }, {
+            accounts: this.plugin.accountService.getAccounts().map(a => a.fileName),
+            getResourcePath: (file) => this.app.vault.getResourcePath(file),
+            onOpenFile: (file) => { void this.app.workspace.getLeaf(true).openFile(file); },
+            onTxnClick: (txn) => { this.plugin.openTransaction(txn); }
+        }).mount();
+    }
+
+    private renderForecastTab(container: HTMLElement): void {
+        container.addClass("cost-loans-view");
+
+        const header = container.createDiv({ cls: "cost-loans-header" });
+        header.createEl("h3", { text: "现金流预测", cls: "cost-loans-title" });
+        const baselineMonths = this.plugin.settings.forecastBaselineMonths;
+        header.createDiv({
+            cls: "cost-loans-desc",
+            text: "从今天的余额出发，计入未来日期的交易、周期交易、信用卡账单（从最近一次还款的账户扣款）和贷款月供"
+                + (baselineMonths > 0 ? `，并按最近 ${baselineMonths} 个月的支出估算日常开销。` : "。")
+        });
+
+        const days = this.plugin.settings.forecastDays;
+        const forecasts = this.plugin.forecastService.getForecast(this.plugin.settings.accountKinds, { days, baselineMonths });
+        new CashFlowForecast(container.createDiv(), forecasts, {
+            days,
+            onDaysChange: async (value) => {
+                this.plugin.settings.forecastDays = value;
+                await this.plugin.saveData(this.plugin.settings);
+                await this.renderActiveTab();
+            },
+        }).mount();
+    }
+
+    private renderRecurringTab(container: HTMLElement): void {
+        container.addClass("cost-recurring-view");
+        const service = this.plugin.recurringService;
+
+        const header = container.createDiv({ cls: "cost-recurring-header" });
+        const titleCol = header.createDiv({ cls: "cost-loans-header" });
+        titleCol.createEl("h3", { text: "周期交易", cls: "cost-loans-title" });
+        titleCol.createDiv({
+            cls: "cost-loans-desc",
+            text: `模板保存在 ${service.getRecurringPath()}，启动时自动补生成到期的交易。`
+        });
+
+        const actions = header.createDiv({ cls: "cost-recurring-header-actions" });
+        const generateBtn = actions.createEl("button", { text: "立即生成" });
+        generateBtn.onclick = async () => {
+            const count = await this.plugin.generateRecurringTransactions();
+            if (count === 0) new Notice("没有到期的周期交易");
+        };
+        const addBtn = actions.createEl("button", { text: "新建模板", cls: "mod-cta" });
+        addBtn.onclick = () => {
+            new RecurringEditModal(this.app, service, null, () => this.refreshRecurring()).open();
+        };
+
+        new RecurringList(container, service.getTemplates(), {
+            baseCurrency: this.plugin.settings.baseCurrency,
+            getNextOccurrence: (t) => service.getNextOccurrence(t),
+            onTogglePause: async (t) => {
+                await service.setPaused(t, !t.paused);
+                new Notice(t.paused ? `已恢复：${t.name}` : `已暂停：${t.name}`);
+                await this.refreshRecurring();
+            },
+            onEdit: (t) => {
+                new RecurringEditModal(this.app, service, t, () => this.refreshRecurring()).open();
+            },
+            onSkipNext: async (t) => {
+                const skipped = await service.skipNext(t);
+                if (skipped) new Notice(`已跳过 ${t.name} 在 ${skipped} 的交易`);
+                await this.refreshRecurring();
+            },
+            onOpenFile: (t) => {
+                const file = this.app.vault.getAbstractFileByPath(t.path);
+                if (file instanceof TFile) void this.app.workspace.getLeaf(true).openFile(file);
+            },
         }).mount();
     }
 
+    /**
+     * 模板文件写入后 metadata 缓存异步更新，重新扫描后再刷新
+     */
+    private async refreshRecurring(): Promise<void> {
+        await this.plugin.recurringService.scanTemplates();
+        void this.plugin.refreshViews();
+    }
+
     private handleAccountClick(accountName: string): void {
         const account = this.plugin.accountService.getAccounts().find(a => a.fileName === accountName || a.displayName === accountName);
         if (account) {
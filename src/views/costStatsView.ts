@@ -7,16 +7,24 @@ import { CategoryStatsCard } from "../components/dashboard/CategoryStatsCard";
 import { TopPayeesWidget } from "../components/dashboard/TopPayeesWidget";
 import { KPICardsWidget } from "../components/dashboard/KPICardsWidget";
 import { AnnualHeatmapWidget } from "../components/dashboard/AnnualHeatmapWidget";
+import { BudgetWidget } from "../components/dashboard/BudgetWidget";
+import { GoalsWidget } from "../components/dashboard/GoalsWidget";
 import { TransactionInfo } from "../services/transactionService";
 import { netAmount } from "../utils/format";
+import { expandSplits } from "../utils/splitUtils";
+import { REIMBURSEMENT_STATS_MODE_LABELS, ReimbursementStatsMode } from "../utils/reimbursementUtils";
 import { DraggableGrid, WidgetDef } from "../components/dashboard/DraggableGrid";
+import { NetWorthHistoryWidget } from "../components/dashboard/NetWorthHistoryWidget";
 
 export const COST_STATS_VIEW_TYPE = "cost-stats-view";
 
 /** 所有可用 widget 的定义 */
 const WIDGET_DEFS: WidgetDef[] = [
     { id: "balance", label: "余额总览", sizeType: "full" },
+    { id: "networth", label: "净资产走势", sizeType: "full" },
     { id: "kpi", label: "KPI 指标", sizeType: "full" },
+    { id: "budget", label: "预算进度", sizeType: "full" },
+    { id: "goals", label: "储蓄目标", sizeType: "full" },
     { id: "trends", label: "收支趋势", sizeType: "full" },
     { id: "analysis", label: "分析排行", sizeType: "full" },
     { id: "heatmap", label: "年度热力图", sizeType: "full" },
@@ -95,14 +103,43 @@ export class CostStatsView extends ItemView {
         this.contentEl.empty();
         this.draggableGrid?.destroy();
 
-        const transactions = this.plugin.transactionService.getTransactions();
-        const accounts = this.plugin.accountService.getAccounts();
+        // 统计汇总统一换算为本位币，见 CostPlugin.getStatsTransactions
+        const baseCurrency = this.plugin.settings.baseCurrency;
+        const transactions = this.plugin.getStatsTransactions();
+        // 已关闭的账户不计入净资产；余额按选择的日期计算
+        const asOfDate = this.plugin.balanceAsOfDate;
+        const accounts = this.plugin.accountService.getActiveAccounts(this.plugin.getBalanceDate());
 
         // ── Header bar ──
         const header = this.contentEl.createDiv({ cls: "cost-stats-header" });
         header.createEl("h3", { text: "统计面板", cls: "cost-stats-header-title" });
 
         const actions = header.createDiv({ cls: "cost-stats-header-actions" });
+        const spread = this.plugin.settings.installmentStatsMode === "spread";
+        const modeBtn = actions.createEl("button", {
+            cls: "cost-stats-reset-btn",
+            attr: { "aria-label": "切换分期消费统计方式" }
+        });
+        setIcon(modeBtn, "calendar-range");
+        modeBtn.createSpan({ text: spread ? "分期：按期分摊" : "分期：按消费日" });
+        modeBtn.addEventListener("click", () => {
+            void this.plugin.setStatsModes({ installmentStatsMode: spread ? "purchase" : "spread" });
+        });
+
+        // 报销统计方式：依次切换全额计入 / 扣除报销 / 不计入
+        const reimbursementModes: ReimbursementStatsMode[] = ["include", "net", "exclude"];
+        const reimbursementMode = this.plugin.settings.reimbursementStatsMode;
+        const reimbursementBtn = actions.createEl("button", {
+            cls: "cost-stats-reset-btn",
+            attr: { "aria-label": "切换报销支出统计方式" }
+        });
+        setIcon(reimbursementBtn, "briefcase");
+        reimbursementBtn.createSpan({ text: `报销：${REIMBURSEMENT_STATS_MODE_LABELS[reimbursementMode]}` });
+        reimbursementBtn.addEventListener("click", () => {
+            const next = reimbursementModes[(reimbursementModes.indexOf(reimbursementMode) + 1) % reimbursementModes.length];
+            void this.plugin.setStatsModes({ reimbursementStatsMode: next ?? "include" });
+        });
+
         const resetBtn = actions.createEl("button", {
             cls: "cost-stats-reset-btn",
             attr: { "aria-label": "重置布局" }
@@ -124,12 +161,43 @@ export class CostStatsView extends ItemView {
         const widgetBuilders: Record<string, () => HTMLElement> = {
             balance: () => {
                 const el = createDiv("cost-stats-section");
-                new BalanceCard(el, accounts, this.plugin.transactionService).mount();
+                new BalanceCard(el, accounts, this.plugin.transactionService, baseCurrency, this.plugin.creditCardService.getSummary(accounts, this.plugin.getBalanceDate()), this.plugin.investmentService, this.plugin.settings.accountKinds, {
+                    asOfDate,
+                    onAsOfDateChange: (date) => this.plugin.setBalanceAsOfDate(date),
+                }).mount();
+                return el;
+            },
+            networth: () => {
+                const el = createDiv("cost-stats-section");
+                const card = el.createDiv({ cls: "cost-stats-card" });
+                new NetWorthHistoryWidget(card, this.plugin.netWorthService, this.plugin.settings.accountKinds, {
+                    baseCurrency,
+                    interval: this.plugin.settings.netWorthInterval,
+                    range: this.plugin.settings.netWorthRange,
+                    onChange: async (interval, range) => {
+                        this.plugin.settings.netWorthInterval = interval;
+                        this.plugin.settings.netWorthRange = range;
+                        await this.plugin.saveData(this.plugin.settings);
+                    },
+                    onRecordSnapshot: () => { void this.plugin.recordNetWorthSnapshot(); },
+                }).mount();
                 return el;
             },
             kpi: () => {
                 const el = createDiv("cost-stats-section");
-                new KPICardsWidget(el, transactions).mount();
+                new KPICardsWidget(el, transactions, baseCurrency).mount();
+                return el;
+            },
+            budget: () => {
+                const el = createDiv("cost-stats-section");
+                const card = el.createDiv({ cls: "cost-stats-card" });
+                new BudgetWidget(card, this.plugin.budgetService.getAllProgress(transactions), baseCurrency).mount();
+                return el;
+            },
+            goals: () => {
+                const el = createDiv("cost-stats-section");
+                const card = el.createDiv({ cls: "cost-stats-card" });
+                new GoalsWidget(card, this.plugin.goalService.getAllProgress(baseCurrency), baseCurrency).mount();
                 return el;
             },
             trends: () => {
@@ -149,9 +217,9 @@ export class CostStatsView extends ItemView {
             analysis: () => {
                 const el = createDiv("cost-stats-grid-row");
                 const payeesCard = el.createDiv({ cls: "cost-stats-card" });
-                new TopPayeesWidget(payeesCard, transactions).mount();
+                new TopPayeesWidget(payeesCard, transactions, "支出", (name) => this.plugin.getPayeeLogo(name)).mount();
                 const categoryCard = el.createDiv({ cls: "cost-stats-card" });
-                new CategoryStatsCard(categoryCard, transactions).mount();
+                new CategoryStatsCard(categoryCard, transactions, "支出", baseCurrency).mount();
                 return el;
             },
             heatmap: () => {
@@ -184,6 +252,8 @@ export class CostStatsView extends ItemView {
     private calculateTrendData(transactions: TransactionInfo[], type: "收入" | "支出"): TrendDataPoint[] {
         const now = new Date();
         const data: TrendDataPoint[] = [];
+        // 拆分交易按明细行统计
+        const lines = expandSplits(transactions);
 
         // Latest 6 months
         for (let i = 5; i >= 0; i--) {
@@ -193,7 +263,7 @@ export class CostStatsView extends ItemView {
             const monthStr = `${year}-${String(month + 1).padStart(2, "0")}`;
 
             let total = 0;
-            for (const txn of transactions) {
+            for (const txn of lines) {
                 if (txn.date?.startsWith(monthStr)) {
                     if (type === "收入" && txn.txnType === "收入") {
                         total += txn.amount;
@@ -62,7 +62,7 @@ function setupAccountSuggestions(
     let suggestionContainer: HTMLDivElement | null = null;
 
     const showSuggestions = () => {
-        const accounts = accountService.getAccounts();
+        const accounts = accountService.getActiveAccounts();
         if (accounts.length === 0) return;
 
         const currentValue = inputEl instanceof HTMLInputElement